@@ -4,6 +4,7 @@ import Login from './pages/Login'
 import Register from './pages/Register'
 import Chat from './pages/Chat'
 import ProtectedRoute from './components/ProtectedRoute'
+import { UnlockVaultDialog } from './components/UnlockVaultDialog'
 
 function App() {
   return (
@@ -23,6 +24,7 @@ function App() {
           <Route path="/" element={<Navigate to="/chat" replace />} />
         </Routes>
       </BrowserRouter>
+      <UnlockVaultDialog />
     </AuthProvider>
   )
 }
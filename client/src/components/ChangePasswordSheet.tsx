@@ -0,0 +1,128 @@
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { changePasswordOnServer, InvalidCredentialsError } from '@/services/authService'
+import { changeVaultPassword } from '@/storage/keyStorage'
+
+interface ChangePasswordSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  currentUserId: string
+  username: string
+}
+
+export const ChangePasswordSheet = ({ open, onOpenChange, currentUserId, username }: ChangePasswordSheetProps) => {
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setCurrentPassword('')
+    setNewPassword('')
+    setConfirmPassword('')
+    setStatus(null)
+    setError(null)
+  }, [open])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setStatus(null)
+
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match.')
+      return
+    }
+    if (newPassword.length < 6) {
+      setError('Password must be at least 6 characters.')
+      return
+    }
+    if (newPassword === currentPassword) {
+      setError('The new password is the same as the current one.')
+      return
+    }
+
+    setBusy(true)
+    try {
+      const changed = await changeVaultPassword(currentUserId, currentPassword, newPassword, () =>
+        changePasswordOnServer(username, currentPassword, newPassword)
+      )
+      if (!changed) {
+        setError('Wrong password.')
+        return
+      }
+      setCurrentPassword('')
+      setNewPassword('')
+      setConfirmPassword('')
+      setStatus('Password changed. Your keys on this browser now open with the new password, and your other sessions were logged out.')
+    } catch (error: any) {
+      console.error('[PASSWORD] Failed to change password:', error)
+      setError(
+        error instanceof InvalidCredentialsError
+          ? 'Wrong password.'
+          : error.response?.data?.error || error.message
+      )
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={(nextOpen) => !busy && onOpenChange(nextOpen)}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Change password</SheetTitle>
+          <SheetDescription>
+            Your password also protects the keys stored in this browser. They are re-sealed with
+            the new password as part of the change. Keys in other browsers keep opening with the
+            old password until you log in there with the new one.
+          </SheetDescription>
+        </SheetHeader>
+
+        <form onSubmit={handleSubmit} className="mt-6 space-y-4">
+          <Input
+            type="password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            placeholder="Current password"
+            autoComplete="current-password"
+            required
+          />
+          <Input
+            type="password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            placeholder="New password"
+            autoComplete="new-password"
+            required
+          />
+          <Input
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            placeholder="Confirm new password"
+            autoComplete="new-password"
+            required
+          />
+          <Button type="submit" disabled={busy}>
+            {busy ? 'Changing password...' : 'Change password'}
+          </Button>
+
+          {status && <p className="text-sm text-green-600">{status}</p>}
+          {error && <p className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">{error}</p>}
+        </form>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,219 @@
+import { useState, useEffect } from 'react'
+import QRCode from 'qrcode'
+import { Laptop, Star } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { DeviceLinkCode, DeviceRecord } from '@/crypto/deviceKeys'
+import {
+  DeviceLink,
+  deviceService,
+  startDeviceLink,
+  approveDeviceLink,
+  unlockDevice,
+  clearDeviceCache,
+} from '@/services/deviceService'
+import { requestVaultUnlock } from '@/storage/keyVault'
+
+// How often the trusted device checks whether the new device submitted its key
+const LINK_POLL_INTERVAL = 2000
+
+interface DevicesSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  currentUserId: string
+  currentDeviceId: string | null
+  isPrimary: boolean
+  onDevicesChanged: () => void
+}
+
+export const DevicesSheet = ({
+  open,
+  onOpenChange,
+  currentUserId,
+  currentDeviceId,
+  isPrimary,
+  onDevicesChanged,
+}: DevicesSheetProps) => {
+  const [devices, setDevices] = useState<DeviceRecord[]>([])
+  const [link, setLink] = useState<{ code: DeviceLinkCode; text: string; qrDataUrl: string } | null>(null)
+  const [pendingDevice, setPendingDevice] = useState<DeviceLink['device']>(null)
+  const [status, setStatus] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadDevices = async () => {
+    try {
+      setDevices(await deviceService.getMyDevices())
+    } catch (error) {
+      console.error('[DEVICES] Failed to load devices:', error)
+    }
+  }
+
+  useEffect(() => {
+    if (!open) return
+    setLink(null)
+    setPendingDevice(null)
+    setStatus(null)
+    setError(null)
+    loadDevices()
+  }, [open])
+
+  // Wait for the new device to scan the code and submit its key
+  useEffect(() => {
+    if (!link || pendingDevice) return
+
+    const interval = setInterval(async () => {
+      try {
+        const session = await deviceService.getLink(link.code.linkId)
+        if (session.device) setPendingDevice(session.device)
+      } catch (error: any) {
+        if (error.response?.status === 404) {
+          setLink(null)
+          setError('The link code expired. Start again to link a device.')
+        } else {
+          console.warn('[DEVICES] Failed to check link session:', error)
+        }
+      }
+    }, LINK_POLL_INTERVAL)
+
+    return () => {
+      clearInterval(interval)
+    }
+  }, [link, pendingDevice])
+
+  const handleStartLink = async () => {
+    setError(null)
+    setStatus(null)
+    try {
+      const { code, text } = await startDeviceLink(currentUserId)
+      const qrDataUrl = await QRCode.toDataURL(text, { margin: 1, width: 220 })
+      setLink({ code, text, qrDataUrl })
+    } catch (error: any) {
+      console.error('[DEVICES] Failed to start device link:', error)
+      setError(error.response?.data?.error || 'Failed to start linking')
+    }
+  }
+
+  const handleApprove = async () => {
+    if (!link || !pendingDevice) return
+    if (!(await requestVaultUnlock(currentUserId, `Enter your password to link "${pendingDevice.name}".`))) return
+
+    try {
+      // Makes sure this browser is registered as the primary before it has linked devices
+      await unlockDevice(currentUserId)
+      const device = await approveDeviceLink(currentUserId, link.code, pendingDevice)
+      setStatus(`${device.name} is now linked to your account.`)
+      setLink(null)
+      setPendingDevice(null)
+      await loadDevices()
+      onDevicesChanged()
+    } catch (error: any) {
+      console.error('[DEVICES] Failed to approve device:', error)
+      setError(error.response?.data?.error || error.message)
+    }
+  }
+
+  const handleRevoke = async (device: DeviceRecord) => {
+    if (!window.confirm(`Unlink "${device.name}"? It will no longer receive your messages.`)) return
+    try {
+      await deviceService.revoke(device.deviceId)
+      clearDeviceCache()
+      await loadDevices()
+      onDevicesChanged()
+    } catch (error: any) {
+      console.error('[DEVICES] Failed to revoke device:', error)
+      setError(error.response?.data?.error || 'Failed to unlink device')
+    }
+  }
+
+  const activeDevices = devices.filter(device => device.revokedAt === null)
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Devices</SheetTitle>
+          <SheetDescription>
+            Every device has its own key, signed by your identity key. Contacts encrypt a
+            separate copy of each message for every device listed here.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          <div className="space-y-2">
+            {activeDevices.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No devices registered yet.</p>
+            ) : (
+              activeDevices.map((device) => (
+                <div key={device.deviceId} className="flex items-center gap-2 p-2 border rounded-md">
+                  {device.primary ? <Star className="size-4 shrink-0" /> : <Laptop className="size-4 shrink-0" />}
+                  <div className="flex-1 text-sm">
+                    <p className="font-medium">
+                      {device.name}
+                      {device.deviceId === currentDeviceId && <span className="text-muted-foreground"> (this device)</span>}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {device.primary ? 'Primary' : 'Linked'} since {new Date(device.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  {!device.primary && (
+                    <Button variant="ghost" size="sm" onClick={() => handleRevoke(device)}>
+                      Unlink
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+
+          {isPrimary && !link && (
+            <Button onClick={handleStartLink}>Link a new device</Button>
+          )}
+
+          {link && !pendingDevice && (
+            <div className="space-y-3">
+              <p className="text-sm">
+                Sign in on the new device, choose "Link this device" and scan this code, or paste
+                the text below. The code is valid for 10 minutes.
+              </p>
+              <div className="flex justify-center">
+                <img src={link.qrDataUrl} alt="Device link QR code" className="rounded-md border" />
+              </div>
+              <p className="p-2 font-mono text-xs break-all bg-muted rounded-md select-all">{link.text}</p>
+              <p className="text-sm text-muted-foreground">Waiting for the new device...</p>
+            </div>
+          )}
+
+          {link && pendingDevice && (
+            <div className="space-y-3">
+              <p className="text-sm">
+                <span className="font-medium">{pendingDevice.name}</span> scanned your code. Only approve it
+                if this is the device you are setting up.
+              </p>
+              <div className="flex gap-2">
+                <Button onClick={handleApprove}>Approve</Button>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setLink(null)
+                    setPendingDevice(null)
+                  }}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {status && <p className="text-sm text-green-600">{status}</p>}
+          {error && <p className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">{error}</p>}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,276 @@
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import {
+  KeyBackupFile,
+  MIN_BACKUP_PASSPHRASE_LENGTH,
+  generateRecoveryCode,
+  parseKeyBackupFile,
+} from '@/crypto/keyBackup'
+import {
+  backupService,
+  createKeyBackup,
+  downloadKeyBackup,
+  restoreKeyBackup,
+} from '@/services/backupService'
+
+interface KeyBackupSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  currentUserId: string
+  username: string
+  // Backups are made on the primary device; restoring is for browsers without keys
+  mode: 'backup' | 'restore' | 'none'
+  onRestored: () => void
+}
+
+export const KeyBackupSheet = ({
+  open,
+  onOpenChange,
+  currentUserId,
+  username,
+  mode,
+  onRestored,
+}: KeyBackupSheetProps) => {
+  const [secretKind, setSecretKind] = useState<'recovery-code' | 'passphrase'>('recovery-code')
+  const [recoveryCode, setRecoveryCode] = useState('')
+  const [passphrase, setPassphrase] = useState('')
+  const [serverBackupAt, setServerBackupAt] = useState<string | null>(null)
+  const [restoreFile, setRestoreFile] = useState<KeyBackupFile | null>(null)
+  const [restoreSecret, setRestoreSecret] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setSecretKind('recovery-code')
+    setRecoveryCode(generateRecoveryCode())
+    setPassphrase('')
+    setServerBackupAt(null)
+    setRestoreFile(null)
+    setRestoreSecret('')
+    setStatus(null)
+    setError(null)
+
+    backupService.get()
+      .then((stored) => setServerBackupAt(stored.updatedAt))
+      .catch((error) => {
+        if (error.response?.status !== 404) {
+          console.warn('[BACKUP] Failed to check for a stored backup:', error)
+        }
+      })
+  }, [open])
+
+  const handleCreate = async (destination: 'download' | 'server') => {
+    setError(null)
+    setStatus(null)
+    if (secretKind === 'passphrase' && passphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH) {
+      setError(`Use a passphrase of at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters.`)
+      return
+    }
+    setBusy(true)
+    try {
+      const secret = secretKind === 'passphrase'
+        ? { kind: 'passphrase' as const, passphrase }
+        : { kind: 'recovery-code' as const, code: recoveryCode }
+      const backup = await createKeyBackup(currentUserId, secret)
+
+      if (destination === 'download') {
+        downloadKeyBackup(backup, username)
+        setStatus('Backup downloaded. Keep the file and your recovery secret in separate places.')
+      } else {
+        const { updatedAt } = await backupService.upload(backup)
+        setServerBackupAt(updatedAt)
+        setStatus('Backup stored on the server. The server cannot open it without your recovery secret.')
+      }
+    } catch (error: any) {
+      console.error('[BACKUP] Failed to create backup:', error)
+      setError(error.response?.data?.error || error.message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDeleteServerBackup = async () => {
+    if (!window.confirm('Delete the backup stored on the server?')) return
+    try {
+      await backupService.remove()
+      setServerBackupAt(null)
+      setStatus('The stored backup was deleted.')
+    } catch (error: any) {
+      console.error('[BACKUP] Failed to delete backup:', error)
+      setError(error.response?.data?.error || 'Failed to delete backup')
+    }
+  }
+
+  const loadRestoreFile = (text: string) => {
+    const file = parseKeyBackupFile(text)
+    if (!file) {
+      setError('This is not a Cipherlink key backup.')
+      return
+    }
+    setRestoreFile(file)
+    setRestoreSecret('')
+    setError(null)
+  }
+
+  const handleFileSelected = async (fileList: FileList | null) => {
+    const selected = fileList?.[0]
+    if (!selected) return
+    loadRestoreFile(await selected.text())
+  }
+
+  const handleLoadServerBackup = async () => {
+    try {
+      const stored = await backupService.get()
+      loadRestoreFile(stored.backup)
+    } catch (error: any) {
+      console.error('[BACKUP] Failed to load stored backup:', error)
+      setError(error.response?.data?.error || 'Failed to load the stored backup')
+    }
+  }
+
+  const handleRestore = async () => {
+    if (!restoreFile) return
+    setError(null)
+    setBusy(true)
+    try {
+      await restoreKeyBackup(currentUserId, restoreFile, restoreSecret)
+      setStatus('Your keys were restored.')
+      onRestored()
+      onOpenChange(false)
+    } catch (error: any) {
+      console.error('[BACKUP] Failed to restore backup:', error)
+      setError(error.response?.data?.error || error.message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Key backup</SheetTitle>
+          <SheetDescription>
+            Your keys only exist in this browser. An encrypted backup lets you get your identity,
+            sessions and verified contacts back if the browser's storage is cleared.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          {mode === 'none' && (
+            <p className="text-sm text-muted-foreground">
+              Backups are made on your primary device, which holds your identity key.
+            </p>
+          )}
+
+          {mode === 'backup' && (
+            <div className="space-y-3">
+              <div className="flex gap-2">
+                <Button
+                  variant={secretKind === 'recovery-code' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setSecretKind('recovery-code')}
+                >
+                  Recovery code
+                </Button>
+                <Button
+                  variant={secretKind === 'passphrase' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setSecretKind('passphrase')}
+                >
+                  Passphrase
+                </Button>
+              </div>
+
+              {secretKind === 'recovery-code' ? (
+                <div className="space-y-2">
+                  <p className="text-sm">Write this code down. It is the only way to open the backup.</p>
+                  <p className="p-2 font-mono text-sm text-center bg-muted rounded-md select-all">{recoveryCode}</p>
+                </div>
+              ) : (
+                <Input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder={`Backup passphrase (at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters)`}
+                />
+              )}
+
+              <div className="flex gap-2">
+                <Button onClick={() => handleCreate('download')} disabled={busy}>
+                  Download backup
+                </Button>
+                <Button variant="outline" onClick={() => handleCreate('server')} disabled={busy}>
+                  Store on server
+                </Button>
+              </div>
+
+              {serverBackupAt && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <span className="flex-1">Stored on the server since {new Date(serverBackupAt).toLocaleString()}</span>
+                  <Button variant="ghost" size="sm" onClick={handleDeleteServerBackup}>
+                    Delete
+                  </Button>
+                </div>
+              )}
+              <p className="text-sm text-muted-foreground">
+                Sessions in a backup fall behind as you keep chatting. Make a new one from time to time.
+              </p>
+            </div>
+          )}
+
+          {mode === 'restore' && !restoreFile && (
+            <div className="space-y-3">
+              <p className="text-sm">
+                Restore only if you lost the browser you made the backup on. If it still works, link
+                this browser from it instead.
+              </p>
+              <Input type="file" accept="application/json,.json" onChange={(e) => handleFileSelected(e.target.files)} />
+              {serverBackupAt && (
+                <Button variant="outline" onClick={handleLoadServerBackup}>
+                  Use backup stored on the server ({new Date(serverBackupAt).toLocaleDateString()})
+                </Button>
+              )}
+            </div>
+          )}
+
+          {mode === 'restore' && restoreFile && (
+            <div className="space-y-3">
+              <p className="text-sm">
+                Backup from {new Date(restoreFile.createdAt).toLocaleString()}. Enter the
+                {restoreFile.kdf.name === 'argon2id' ? ' passphrase' : ' recovery code'} it was made with.
+              </p>
+              <div className="flex gap-2">
+                <Input
+                  type={restoreFile.kdf.name === 'argon2id' ? 'password' : 'text'}
+                  value={restoreSecret}
+                  onChange={(e) => {
+                    setRestoreSecret(e.target.value)
+                    setError(null)
+                  }}
+                  placeholder={restoreFile.kdf.name === 'argon2id' ? 'Backup passphrase' : 'XXXX-XXXX-...'}
+                />
+                <Button onClick={handleRestore} disabled={busy || !restoreSecret.trim()}>
+                  Restore
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {status && <p className="text-sm text-green-600">{status}</p>}
+          {error && <p className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">{error}</p>}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,115 @@
+import { useState, useEffect, useRef } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { requestDeviceLink, completeDeviceLink } from '@/services/deviceService'
+import { requestVaultUnlock } from '@/storage/keyVault'
+
+// How often the new device checks whether it was approved
+const APPROVAL_POLL_INTERVAL = 2000
+
+interface LinkDeviceSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  currentUserId: string
+  onLinked: () => void
+}
+
+export const LinkDeviceSheet = ({ open, onOpenChange, currentUserId, onLinked }: LinkDeviceSheetProps) => {
+  const [pastedCode, setPastedCode] = useState('')
+  const [waiting, setWaiting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Device key, held until the trusted device approves the link
+  const pendingLink = useRef<{ deviceId: string; keyPair: CryptoKeyPair } | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setPastedCode('')
+    setWaiting(false)
+    setError(null)
+    pendingLink.current = null
+  }, [open])
+
+  useEffect(() => {
+    if (!waiting) return
+
+    const interval = setInterval(async () => {
+      const pending = pendingLink.current
+      if (!pending) return
+      try {
+        if (await completeDeviceLink(currentUserId, pending.deviceId, pending.keyPair)) {
+          pendingLink.current = null
+          setWaiting(false)
+          onLinked()
+          onOpenChange(false)
+        }
+      } catch (error) {
+        console.warn('[DEVICES] Failed to check link approval:', error)
+      }
+    }, APPROVAL_POLL_INTERVAL)
+
+    return () => {
+      clearInterval(interval)
+    }
+  }, [waiting, currentUserId])
+
+  const handleSubmit = async () => {
+    setError(null)
+    // The device key is sealed with the vault key once approved
+    if (!(await requestVaultUnlock(currentUserId, 'Enter your password to protect this device\'s key.'))) return
+
+    try {
+      const { deviceId, keyPair } = await requestDeviceLink(currentUserId, pastedCode)
+      pendingLink.current = { deviceId, keyPair }
+      setWaiting(true)
+    } catch (error: any) {
+      console.error('[DEVICES] Failed to request device link:', error)
+      setError(error.response?.data?.error || error.message)
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Link this device</SheetTitle>
+          <SheetDescription>
+            On a device where you already use Cipherlink, open Devices and choose "Link a new
+            device". Then scan the QR code it shows and paste the result here.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-4">
+          {waiting ? (
+            <p className="text-sm">
+              Waiting for approval. Confirm the link on your other device; this device can read
+              your messages once it is approved.
+            </p>
+          ) : (
+            <div className="flex gap-2">
+              <Input
+                value={pastedCode}
+                onChange={(e) => {
+                  setPastedCode(e.target.value)
+                  setError(null)
+                }}
+                placeholder="Paste scanned link code"
+              />
+              <Button onClick={handleSubmit} disabled={!pastedCode.trim()}>
+                Link
+              </Button>
+            </div>
+          )}
+
+          {error && <p className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">{error}</p>}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
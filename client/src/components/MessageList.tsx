@@ -1,30 +1,226 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useLayoutEffect, useRef } from 'react'
 import { Message } from '@/services/messageService'
 import { decryptMessage } from '@/crypto/messageEncryption'
 import { getSessionKey, storeSessionKey } from '@/crypto/keyExchange'
-import { getSessionKeyPersistent } from '@/storage/keyStorage'
+import { getRatchetState, ratchetDecrypt, cacheDecryptedMessage, getCachedDecryptedMessage } from '@/crypto/doubleRatchet'
+import { keyVault } from '@/storage/keyVault'
+import { UnlockedDevice } from '@/crypto/deviceKeys'
+import { openMessageCopy } from '@/services/deviceService'
+import { ReceiptStatus } from '@/crypto/receipts'
+import { MessagePayload } from '@/crypto/messagePayload'
+import { advanceMessageReceipts, getMessageReceipts, markControlMessages } from '@/storage/keyStorage'
+import { Check, CheckCheck, Paperclip } from 'lucide-react'
+
+// Ratchet message keys are single-use, so decryption passes must never overlap
+let decryptQueue: Promise<void> = Promise.resolve()
 
 interface MessageListProps {
   messages: Message[]
   currentUserId: string
   conversationId: string
+  deviceRole: 'primary' | 'linked' | 'unlinked'
+  device: UnlockedDevice | null
+  // Identity keys the senders' device lists are checked against
+  myIdentityKey: string | null
+  contactIdentityKey: string | null
+  hasOlderMessages: boolean
+  loadingOlderMessages: boolean
+  onLoadOlderMessages: () => void
+  // Received messages that were opened in a decryption pass, for sending receipts
+  onMessagesOpened: (conversationId: string, messageIds: string[]) => void
 }
 
-export const MessageList = ({ messages, currentUserId, conversationId }: MessageListProps) => {
+// Distance from the bottom within which new messages keep the list scrolled down
+const STICK_TO_BOTTOM_DISTANCE = 80
+
+export const MessageList = ({
+  messages,
+  currentUserId,
+  conversationId,
+  deviceRole,
+  device,
+  myIdentityKey,
+  contactIdentityKey,
+  hasOlderMessages,
+  loadingOlderMessages,
+  onLoadOlderMessages,
+  onMessagesOpened,
+}: MessageListProps) => {
+  // Placeholder or error text for messages that could not be opened
   const [decryptedMessages, setDecryptedMessages] = useState<{ [key: string]: string }>({})
+  const [payloads, setPayloads] = useState<{ [key: string]: MessagePayload }>({})
+  // Receipts are messages as well, but are not shown
+  const [hiddenMessageIds, setHiddenMessageIds] = useState<Set<string>>(new Set())
+  const [receiptStatuses, setReceiptStatuses] = useState<{ [key: string]: ReceiptStatus }>({})
+  const onMessagesOpenedRef = useRef(onMessagesOpened)
+  onMessagesOpenedRef.current = onMessagesOpened
+  const listRef = useRef<HTMLDivElement>(null)
+  const olderMessagesRef = useRef<HTMLDivElement>(null)
+  const loadOlderRef = useRef(onLoadOlderMessages)
+  loadOlderRef.current = onLoadOlderMessages
+  // What the list looked like at the previous render, to tell prepended pages from new messages
+  const previousRender = useRef<{ conversationId: string; firstId?: string; lastId?: string; scrollHeight: number } | null>(null)
+  // Messages already looked up in the vault, so later passes do not read them again
+  const vaultLookups = useRef(new Set<string>())
+
+  const scrollViewport = () => listRef.current?.closest<HTMLElement>('[data-radix-scroll-area-viewport]') ?? null
+
+  useLayoutEffect(() => {
+    const viewport = scrollViewport()
+    if (!viewport) return
 
+    const previous = previousRender.current
+    const firstId = messages[0]?._id
+    const lastId = messages[messages.length - 1]?._id
+    if (!previous || previous.conversationId !== conversationId) {
+      // Open conversations at the newest message
+      viewport.scrollTop = viewport.scrollHeight
+    } else if (firstId !== previous.firstId && messages.some(m => m._id === previous.firstId)) {
+      // An older page was added above: keep the messages on screen where they were
+      viewport.scrollTop += viewport.scrollHeight - previous.scrollHeight
+    } else if (
+      lastId !== previous.lastId &&
+      previous.scrollHeight - viewport.scrollTop - viewport.clientHeight < STICK_TO_BOTTOM_DISTANCE
+    ) {
+      viewport.scrollTop = viewport.scrollHeight
+    }
+    previousRender.current = { conversationId, firstId, lastId, scrollHeight: viewport.scrollHeight }
+  }, [messages, conversationId])
+
+  // Load the page before the oldest message once the top of the list scrolls into view.
+  // Set up again after every page, so a page too short to fill the view loads the next.
+  useEffect(() => {
+    const marker = olderMessagesRef.current
+    if (!marker || !hasOlderMessages || loadingOlderMessages) return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) loadOlderRef.current()
+      },
+      { root: scrollViewport(), rootMargin: '200px 0px 0px 0px' }
+    )
+    observer.observe(marker)
+    return () => observer.disconnect()
+  }, [hasOlderMessages, loadingOlderMessages, messages[0]?._id])
+
+  // Only the pages loaded so far are decrypted; older history is decrypted as it is scrolled to
   useEffect(() => {
     const decryptAll = async () => {
       if (messages.length === 0) {
         setDecryptedMessages({})
+        setPayloads({})
         return
       }
 
+      const receipts = await getMessageReceipts(messages.map(m => m._id))
+
+      // Messages opened before a reload: their keys are used up, so they come from the vault
+      const notCached = messages
+        .filter(m =>
+          !receipts.get(m._id)?.control &&
+          !vaultLookups.current.has(m._id) &&
+          getCachedDecryptedMessage(m._id) === null
+        )
+        .map(m => m._id)
+      if (notCached.length > 0) {
+        // Nothing is read while the vault is locked; those messages are looked up on a later pass
+        const stored = await keyVault.getMessagePayloads(notCached)
+        if (stored) {
+          notCached.forEach(messageId => vaultLookups.current.add(messageId))
+          for (const [messageId, payload] of stored) {
+            cacheDecryptedMessage(messageId, payload)
+          }
+        }
+      }
+
       const decrypted: { [key: string]: string } = {}
+      const opened: { [key: string]: MessagePayload } = {}
+      // Opened in this pass and worth keeping; receipts are recorded as control messages instead
+      const newlyOpened: { [key: string]: MessagePayload } = {}
+      const advancedRatchets = new Set<string>()
       for (const msg of messages) {
         const isOwn = msg.senderId === currentUserId
         // Session key is stored with the conversation partner's ID
         const partnerId = isOwn ? msg.recipientId : msg.senderId
+
+        // A receipt handled earlier, whose message key may be gone
+        if (receipts.get(msg._id)?.control) continue
+
+        const cached = getCachedDecryptedMessage(msg._id)
+        if (cached !== null) {
+          opened[msg._id] = cached
+          continue
+        }
+
+        // Linked devices read their own copy, and so does the primary for messages sent from a linked device
+        if (msg.deviceCopies?.length && (deviceRole !== 'primary' || !msg.ciphertext)) {
+          const senderIdentityKey = isOwn ? myIdentityKey : contactIdentityKey
+          if (deviceRole === 'unlinked') {
+            decrypted[msg._id] = 'Link this device to read your messages'
+          } else if (!device) {
+            decrypted[msg._id] = 'Unlock this device to read this message'
+          } else if (senderIdentityKey) {
+            try {
+              const payload = await openMessageCopy(msg, device, senderIdentityKey)
+              if (payload === null) {
+                decrypted[msg._id] = 'Not encrypted for this device'
+              } else {
+                cacheDecryptedMessage(msg._id, payload)
+                opened[msg._id] = payload
+                if (payload.type !== 'receipt') newlyOpened[msg._id] = payload
+              }
+            } catch (error: any) {
+              console.error(`[MESSAGE] Failed to decrypt device copy of ${msg._id}:`, error)
+              decrypted[msg._id] = `Failed to decrypt: ${error.message || 'Invalid key or corrupted data'}`
+            }
+          }
+          continue
+        }
+
+        if (deviceRole !== 'primary') {
+          decrypted[msg._id] = 'Not encrypted for this device'
+          continue
+        }
+
+        if (msg.ratchetHeader) {
+          const ratchet = getRatchetState(partnerId)
+          if (isOwn) {
+            // Sending keys are discarded right after use; own plaintexts only live in the cache
+            decrypted[msg._id] = 'Sent message (key discarded for forward secrecy)'
+          } else if (!ratchet) {
+            decrypted[msg._id] = 'Session not established'
+          } else {
+            try {
+              const header = msg.ratchetHeader
+              const payload = await ratchetDecrypt(ratchet, header, (messageKey) =>
+                decryptMessage(
+                  {
+                    ciphertext: msg.ciphertext,
+                    iv: msg.iv,
+                    tag: msg.tag,
+                    timestamp: new Date(msg.timestamp).getTime(),
+                    sequenceNumber: msg.sequenceNumber,
+                    nonce: msg.nonce,
+                    version: msg.version,
+                    ratchetHeader: header,
+                  },
+                  messageKey,
+                  msg
+                )
+              )
+              cacheDecryptedMessage(msg._id, payload)
+              advancedRatchets.add(partnerId)
+              opened[msg._id] = payload
+              if (payload.type !== 'receipt') newlyOpened[msg._id] = payload
+              console.log(`[MESSAGE] Successfully decrypted ratchet message ${msg._id}`)
+            } catch (error: any) {
+              console.error(`[MESSAGE] Failed to decrypt ratchet message ${msg._id}:`, error)
+              decrypted[msg._id] = `Failed to decrypt: ${error.message || 'Invalid key or corrupted data'}`
+            }
+          }
+          continue
+        }
+
         let sessionKey = getSessionKey(partnerId)
         
         // If not in memory, try IndexedDB (but don't prompt - just try to decrypt)
@@ -46,7 +242,7 @@ export const MessageList = ({ messages, currentUserId, conversationId }: Message
         
         if (sessionKey) {
           try {
-            const decryptedText = await decryptMessage(
+            const payload = await decryptMessage(
               {
                 ciphertext: msg.ciphertext,
                 iv: msg.iv,
@@ -54,18 +250,18 @@ export const MessageList = ({ messages, currentUserId, conversationId }: Message
                 timestamp: new Date(msg.timestamp).getTime(),
                 sequenceNumber: msg.sequenceNumber,
                 nonce: msg.nonce,
+                version: msg.version,
               },
-              sessionKey
+              sessionKey,
+              msg
             )
-            decrypted[msg._id] = decryptedText
+            opened[msg._id] = payload
             console.log(`[MESSAGE] Successfully decrypted message ${msg._id}`)
           } catch (error: any) {
             console.error(`[MESSAGE] Failed to decrypt message ${msg._id}:`, error)
             // Check if this is a key mismatch (some messages decrypt, this one doesn't)
             // This means the message was encrypted with a different session key
-            const hasSuccessfulDecryption = Object.values(decrypted).some(v => 
-              v && !v.startsWith('Failed to decrypt') && !v.startsWith('Session not established')
-            )
+            const hasSuccessfulDecryption = Object.keys(opened).length > 0
             if (hasSuccessfulDecryption) {
               decrypted[msg._id] = '⚠️ Encrypted with different session key'
             } else {
@@ -77,17 +273,95 @@ export const MessageList = ({ messages, currentUserId, conversationId }: Message
           decrypted[msg._id] = 'Session not established'
         }
       }
+
+      // Before the ratchet is saved, so a used-up key never leaves its message unreadable
+      await keyVault.storeMessagePayloads(newlyOpened)
+
+      for (const partnerId of advancedRatchets) {
+        const ratchet = getRatchetState(partnerId)
+        if (ratchet) {
+          await keyVault.updateRatchetState(partnerId, ratchet)
+        }
+      }
+
+      // Apply the receipts among the opened messages and hide them
+      const byId = new Map(messages.map(m => [m._id, m]))
+      const newControlIds: string[] = []
+      const openedReceived: string[] = []
+      for (const msg of messages) {
+        const payload = opened[msg._id]
+        if (!payload) continue
+        if (payload.type !== 'receipt') {
+          if (payload.type === 'text' && msg.senderId !== currentUserId) openedReceived.push(msg._id)
+          continue
+        }
+
+        newControlIds.push(msg._id)
+        const receipt = payload.receipt!
+        // A receipt only speaks for messages that were sent to its sender
+        const messageIds = receipt.messageIds.filter(id => byId.get(id)?.recipientId === msg.senderId)
+        await advanceMessageReceipts(currentUserId, messageIds, receipt.status)
+      }
+      if (newControlIds.length > 0) {
+        await markControlMessages(currentUserId, newControlIds)
+      }
+
+      const hidden = new Set(messages.filter(m => receipts.get(m._id)?.control).map(m => m._id))
+      newControlIds.forEach(id => hidden.add(id))
+      const statuses: { [key: string]: ReceiptStatus } = {}
+      for (const [messageId, receipt] of await getMessageReceipts(messages.map(m => m._id))) {
+        if (receipt.status) statuses[messageId] = receipt.status
+      }
+
       setDecryptedMessages(decrypted)
+      setPayloads(opened)
+      setHiddenMessageIds(hidden)
+      setReceiptStatuses(statuses)
+      if (openedReceived.length > 0) {
+        onMessagesOpenedRef.current(conversationId, openedReceived)
+      }
     }
-    decryptAll()
-  }, [messages, currentUserId, conversationId])
+    decryptQueue = decryptQueue.then(decryptAll).catch((error) => {
+      console.error('[MESSAGE] Decryption pass failed:', error)
+    })
+  }, [messages, currentUserId, conversationId, deviceRole, device, myIdentityKey, contactIdentityKey])
+
+  // Our own messages are cached when sent, before a decryption pass has seen them
+  const payloadOf = (messageId: string) => payloads[messageId] ?? getCachedDecryptedMessage(messageId)
+
+  // Edits and reactions are shown on the message they refer to. Only the author of a
+  // message can edit it; each person's latest reaction counts.
+  const edits: { [key: string]: string } = {}
+  const reactions: { [key: string]: { [senderId: string]: string } } = {}
+  const senders = new Map(messages.map(m => [m._id, m.senderId]))
+  for (const msg of messages) {
+    const payload = payloadOf(msg._id)
+    if (!payload?.target || !senders.has(payload.target)) continue
+    if (payload.type === 'edit' && senders.get(payload.target) === msg.senderId) {
+      edits[payload.target] = payload.body
+    } else if (payload.type === 'reaction') {
+      reactions[payload.target] = { ...reactions[payload.target], [msg.senderId]: payload.body }
+    }
+  }
 
   return (
-    <div className="space-y-2">
+    <div ref={listRef} className="space-y-2">
+      {hasOlderMessages && (
+        <div ref={olderMessagesRef} className="py-2 text-center text-xs text-muted-foreground">
+          {loadingOlderMessages ? 'Loading earlier messages...' : 'Scroll up for earlier messages'}
+        </div>
+      )}
       {messages.map((msg) => {
+        if (hiddenMessageIds.has(msg._id)) return null
+        const payload = payloadOf(msg._id)
+        if (payload && payload.type !== 'text') return null
+
         const isOwn = msg.senderId === currentUserId
-        const text = decryptedMessages[msg._id] || 'Decrypting...'
-        const isError = text === 'Failed to decrypt' || text === 'Session not established'
+        const text = payload ? edits[msg._id] ?? payload.body : decryptedMessages[msg._id] || 'Decrypting...'
+        const isError = text === 'Failed to decrypt' || text === 'Session not established' || text === 'Not encrypted for this device'
+        const status = receiptStatuses[msg._id] ?? 'sent'
+        const repliedTo = payload?.replyTo ? payloadOf(payload.replyTo) : null
+        const messageReactions = Object.values(reactions[msg._id] ?? {})
 
         return (
           <div key={msg._id} className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
@@ -100,7 +374,32 @@ export const MessageList = ({ messages, currentUserId, conversationId }: Message
                   : 'bg-muted'
               }`}
             >
+              {payload?.replyTo && (
+                <p className="mb-1 pl-2 border-l-2 text-xs opacity-70 truncate">
+                  {repliedTo?.type === 'text' ? edits[payload.replyTo] ?? repliedTo.body : 'Earlier message'}
+                </p>
+              )}
               <p className="text-sm">{text}</p>
+              {payload?.attachments?.map((attachment) => (
+                <p key={attachment.fileId} className="flex items-center gap-1 text-xs opacity-80">
+                  <Paperclip className="h-3 w-3" />
+                  {attachment.fileName}
+                </p>
+              ))}
+              {(edits[msg._id] !== undefined || messageReactions.length > 0 || (isOwn && !isError)) && (
+                <span className="flex items-center justify-end gap-1 text-xs">
+                  {messageReactions.length > 0 && <span>{messageReactions.join(' ')}</span>}
+                  {edits[msg._id] !== undefined && <span className="opacity-70">edited</span>}
+                  {isOwn && !isError && (
+                    <span
+                      className={status === 'read' ? 'text-sky-300' : 'opacity-70'}
+                      title={status === 'read' ? 'Read' : status === 'delivered' ? 'Delivered' : 'Sent'}
+                    >
+                      {status === 'sent' ? <Check className="h-3 w-3" /> : <CheckCheck className="h-3 w-3" />}
+                    </span>
+                  )}
+                </span>
+              )}
             </div>
           </div>
         )
@@ -108,5 +407,3 @@ export const MessageList = ({ messages, currentUserId, conversationId }: Message
     </div>
   )
 }
-
-
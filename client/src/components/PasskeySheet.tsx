@@ -0,0 +1,141 @@
+import { useState, useEffect } from 'react'
+import { KeyRound } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { isPasskeySupported } from '@/crypto/webauthnPrf'
+import { VaultPasskeyInfo, getVaultPasskeys, removeVaultPasskey } from '@/storage/keyStorage'
+import { enrollVaultPasskey } from '@/storage/keyVault'
+
+interface PasskeySheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  currentUserId: string
+  username: string
+}
+
+export const PasskeySheet = ({ open, onOpenChange, currentUserId, username }: PasskeySheetProps) => {
+  const [passkeys, setPasskeys] = useState<VaultPasskeyInfo[]>([])
+  const [password, setPassword] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadPasskeys = async () => {
+    try {
+      setPasskeys(await getVaultPasskeys(currentUserId))
+    } catch (error) {
+      console.error('[PASSKEY] Failed to load passkeys:', error)
+    }
+  }
+
+  useEffect(() => {
+    if (!open) return
+    setPassword('')
+    setStatus(null)
+    setError(null)
+    loadPasskeys()
+  }, [open])
+
+  const handleAdd = async () => {
+    setError(null)
+    setStatus(null)
+    setBusy(true)
+    try {
+      if (!(await enrollVaultPasskey(currentUserId, username, password))) {
+        setError('Wrong password.')
+        return
+      }
+      setPassword('')
+      setStatus('Passkey added. You can now unlock your keys on this browser with it.')
+      await loadPasskeys()
+    } catch (error: any) {
+      console.error('[PASSKEY] Failed to add passkey:', error)
+      setError(error.name === 'NotAllowedError' ? 'The passkey request was cancelled.' : error.message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleRemove = async (passkey: VaultPasskeyInfo) => {
+    if (!window.confirm('Stop using this passkey to unlock your keys? The passkey itself stays on your authenticator.')) return
+    try {
+      await removeVaultPasskey(currentUserId, passkey.credentialId)
+      setStatus('Passkey removed.')
+      await loadPasskeys()
+    } catch (error: any) {
+      console.error('[PASSKEY] Failed to remove passkey:', error)
+      setError(error.message)
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Passkey unlock</SheetTitle>
+          <SheetDescription>
+            Unlock the keys stored in this browser with a passkey (fingerprint, face or security
+            key) instead of typing your password. Your password keeps working as well.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          {!isPasskeySupported() ? (
+            <p className="text-sm text-muted-foreground">This browser does not support passkeys.</p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                {passkeys.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No passkeys can unlock your keys yet.</p>
+                ) : (
+                  passkeys.map((passkey) => (
+                    <div key={passkey.credentialId} className="flex items-center gap-2 p-2 border rounded-md">
+                      <KeyRound className="size-4 shrink-0" />
+                      <div className="flex-1 text-sm">
+                        <p className="font-mono">{passkey.credentialId.slice(0, 12)}</p>
+                        <p className="text-muted-foreground">
+                          Added {new Date(passkey.createdAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <Button variant="ghost" size="sm" onClick={() => handleRemove(passkey)}>
+                        Remove
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-sm">Enter your password to add a passkey. Your authenticator must support the PRF extension.</p>
+                <div className="flex gap-2">
+                  <Input
+                    type="password"
+                    value={password}
+                    onChange={(e) => {
+                      setPassword(e.target.value)
+                      setError(null)
+                    }}
+                    placeholder="Password"
+                  />
+                  <Button onClick={handleAdd} disabled={busy || !password}>
+                    Add passkey
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+
+          {status && <p className="text-sm text-green-600">{status}</p>}
+          {error && <p className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">{error}</p>}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,171 @@
+import { useState, useEffect } from 'react'
+import QRCode from 'qrcode'
+import { ShieldCheck, ShieldAlert } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import {
+  SafetyNumberComparison,
+  computeSafetyNumber,
+  formatSafetyNumber,
+  safetyNumberQrPayload,
+  compareSafetyNumber,
+} from '@/crypto/safetyNumber'
+
+interface SafetyNumberSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  currentUserId: string
+  myPublicKey: string | null
+  contactId: string
+  contactName: string
+  contactPublicKey: string | null
+  verified: boolean
+  onVerifiedChange: (verified: boolean) => void
+}
+
+export const SafetyNumberSheet = ({
+  open,
+  onOpenChange,
+  currentUserId,
+  myPublicKey,
+  contactId,
+  contactName,
+  contactPublicKey,
+  verified,
+  onVerifiedChange,
+}: SafetyNumberSheetProps) => {
+  const [safetyNumber, setSafetyNumber] = useState<string | null>(null)
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null)
+  const [pastedCode, setPastedCode] = useState('')
+  const [comparison, setComparison] = useState<SafetyNumberComparison | null>(null)
+
+  useEffect(() => {
+    if (!open || !myPublicKey || !contactPublicKey) return
+
+    let cancelled = false
+    setSafetyNumber(null)
+    setQrDataUrl(null)
+    setPastedCode('')
+    setComparison(null)
+
+    const load = async () => {
+      try {
+        const number = await computeSafetyNumber(currentUserId, myPublicKey, contactId, contactPublicKey)
+        const dataUrl = await QRCode.toDataURL(safetyNumberQrPayload(currentUserId, contactId, number), {
+          margin: 1,
+          width: 220,
+        })
+        if (cancelled) return
+        setSafetyNumber(number)
+        setQrDataUrl(dataUrl)
+      } catch (error) {
+        console.error('[SAFETY NUMBER] Failed to compute safety number:', error)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [open, currentUserId, myPublicKey, contactId, contactPublicKey])
+
+  const handleCompare = () => {
+    if (!safetyNumber) return
+    const result = compareSafetyNumber(pastedCode, currentUserId, contactId, safetyNumber)
+    setComparison(result)
+    if (result === 'match') {
+      onVerifiedChange(true)
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Verify safety number</SheetTitle>
+          <SheetDescription>
+            Compare these numbers with {contactName} in person or over a trusted channel, or
+            let them scan the QR code. If they match, nobody is intercepting your messages.
+          </SheetDescription>
+        </SheetHeader>
+
+        {!myPublicKey || !contactPublicKey ? (
+          <p className="mt-6 text-sm text-muted-foreground">Identity keys could not be loaded.</p>
+        ) : !safetyNumber ? (
+          <p className="mt-6 text-sm text-muted-foreground">Computing safety number...</p>
+        ) : (
+          <div className="mt-6 space-y-6">
+            <div className="grid grid-cols-4 gap-2 font-mono text-lg text-center">
+              {formatSafetyNumber(safetyNumber).map((group, index) => (
+                <span key={index}>{group}</span>
+              ))}
+            </div>
+
+            {qrDataUrl && (
+              <div className="flex justify-center">
+                <img src={qrDataUrl} alt={`Safety number QR code for ${contactName}`} className="rounded-md border" />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Compare with {contactName}'s code</p>
+              <div className="flex gap-2">
+                <Input
+                  value={pastedCode}
+                  onChange={(e) => {
+                    setPastedCode(e.target.value)
+                    setComparison(null)
+                  }}
+                  placeholder="Paste scanned code or digits"
+                />
+                <Button variant="outline" onClick={handleCompare} disabled={!pastedCode.trim()}>
+                  Compare
+                </Button>
+              </div>
+              {comparison === 'match' && (
+                <p className="text-sm text-green-600">Safety numbers match. {contactName} is now marked as verified.</p>
+              )}
+              {comparison === 'mismatch' && (
+                <p className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+                  Safety numbers do not match. Do not trust this conversation until you have checked
+                  {' '}{contactName}'s identity another way.
+                </p>
+              )}
+              {comparison === 'invalid' && (
+                <p className="text-sm text-destructive">This is not a Cipherlink safety number.</p>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between border-t pt-4">
+              {verified ? (
+                <span className="flex items-center text-sm text-green-600">
+                  <ShieldCheck className="size-4 mr-1" /> Verified
+                </span>
+              ) : (
+                <span className="flex items-center text-sm text-muted-foreground">
+                  <ShieldAlert className="size-4 mr-1" /> Not verified
+                </span>
+              )}
+              {verified ? (
+                <Button variant="ghost" size="sm" onClick={() => onVerifiedChange(false)}>
+                  Clear verification
+                </Button>
+              ) : (
+                <Button size="sm" onClick={() => onVerifiedChange(true)}>
+                  Mark as verified
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,139 @@
+import { useState, useEffect } from 'react'
+import { Globe } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { AuthSession, authService } from '@/services/authService'
+
+interface SessionsSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown browser'
+  const browser = /Firefox\//.test(userAgent)
+    ? 'Firefox'
+    : /Edg\//.test(userAgent)
+    ? 'Edge'
+    : /Chrome\//.test(userAgent)
+    ? 'Chrome'
+    : /Safari\//.test(userAgent)
+    ? 'Safari'
+    : 'Browser'
+  const os = /Windows/.test(userAgent)
+    ? 'Windows'
+    : /Android/.test(userAgent)
+    ? 'Android'
+    : /iPhone|iPad/.test(userAgent)
+    ? 'iOS'
+    : /Mac OS X/.test(userAgent)
+    ? 'macOS'
+    : /Linux/.test(userAgent)
+    ? 'Linux'
+    : 'unknown platform'
+  return `${browser} on ${os}`
+}
+
+export const SessionsSheet = ({ open, onOpenChange }: SessionsSheetProps) => {
+  const [sessions, setSessions] = useState<AuthSession[]>([])
+  const [status, setStatus] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadSessions = async () => {
+    try {
+      setSessions(await authService.getSessions())
+    } catch (error) {
+      console.error('[SESSIONS] Failed to load sessions:', error)
+    }
+  }
+
+  useEffect(() => {
+    if (!open) return
+    setStatus(null)
+    setError(null)
+    loadSessions()
+  }, [open])
+
+  const handleRevoke = async (session: AuthSession) => {
+    if (!window.confirm(`Log out ${describeUserAgent(session.userAgent)}?`)) return
+    setError(null)
+    try {
+      await authService.revokeSession(session.id)
+      setStatus('Session logged out. It stops working within 15 minutes.')
+      await loadSessions()
+    } catch (error: any) {
+      console.error('[SESSIONS] Failed to revoke session:', error)
+      setError(error.response?.data?.error || 'Failed to log out session')
+    }
+  }
+
+  const handleRevokeOthers = async () => {
+    if (!window.confirm('Log out everywhere except this browser?')) return
+    setError(null)
+    try {
+      const { revoked } = await authService.revokeOtherSessions()
+      setStatus(`${revoked} session${revoked === 1 ? '' : 's'} logged out. They stop working within 15 minutes.`)
+      await loadSessions()
+    } catch (error: any) {
+      console.error('[SESSIONS] Failed to revoke sessions:', error)
+      setError(error.response?.data?.error || 'Failed to log out sessions')
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Active sessions</SheetTitle>
+          <SheetDescription>
+            Browsers where your account is logged in. Logging one out also ends access from anyone
+            who copied its session.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          <div className="space-y-2">
+            {sessions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No active sessions.</p>
+            ) : (
+              sessions.map((session) => (
+                <div key={session.id} className="flex items-center gap-2 p-2 border rounded-md">
+                  <Globe className="size-4 shrink-0" />
+                  <div className="flex-1 text-sm">
+                    <p className="font-medium">
+                      {describeUserAgent(session.userAgent)}
+                      {session.current && <span className="text-muted-foreground"> (this browser)</span>}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {session.ip ? `${session.ip}, ` : ''}last active {new Date(session.lastUsedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  {!session.current && (
+                    <Button variant="ghost" size="sm" onClick={() => handleRevoke(session)}>
+                      Log out
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+
+          {sessions.some((session) => !session.current) && (
+            <Button variant="outline" onClick={handleRevokeOthers}>
+              Log out all other sessions
+            </Button>
+          )}
+
+          {status && <p className="text-sm text-green-600">{status}</p>}
+          {error && <p className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">{error}</p>}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
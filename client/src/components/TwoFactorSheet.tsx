@@ -0,0 +1,227 @@
+import { useState, useEffect } from 'react'
+import QRCode from 'qrcode'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { authService, confirmPassword, InvalidCredentialsError, TwoFactorStatus } from '@/services/authService'
+
+interface TwoFactorSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  username: string
+}
+
+interface Enrolment {
+  secret: string
+  qrDataUrl: string
+}
+
+export const TwoFactorSheet = ({ open, onOpenChange, username }: TwoFactorSheetProps) => {
+  const [twoFactor, setTwoFactor] = useState<TwoFactorStatus | null>(null)
+  const [enrolment, setEnrolment] = useState<Enrolment | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [password, setPassword] = useState('')
+  const [code, setCode] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadStatus = async () => {
+    try {
+      setTwoFactor(await authService.getTwoFactorStatus())
+    } catch (error) {
+      console.error('[2FA] Failed to load status:', error)
+    }
+  }
+
+  useEffect(() => {
+    if (!open) return
+    setEnrolment(null)
+    setRecoveryCodes(null)
+    setPassword('')
+    setCode('')
+    setStatus(null)
+    setError(null)
+    loadStatus()
+  }, [open])
+
+  const handleSetup = async () => {
+    setError(null)
+    setStatus(null)
+    setBusy(true)
+    try {
+      const { secret, otpauthUri } = await authService.setupTwoFactor(await confirmPassword(username, password))
+      const qrDataUrl = await QRCode.toDataURL(otpauthUri, { margin: 1, width: 220 })
+      setEnrolment({ secret, qrDataUrl })
+      setPassword('')
+      setCode('')
+    } catch (error: any) {
+      console.error('[2FA] Failed to start setup:', error)
+      setError(error instanceof InvalidCredentialsError ? 'Wrong password.' : error.response?.data?.error || 'Failed to start setup')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleEnable = async () => {
+    setError(null)
+    setBusy(true)
+    try {
+      const { recoveryCodes } = await authService.enableTwoFactor(code)
+      setRecoveryCodes(recoveryCodes)
+      setEnrolment(null)
+      setCode('')
+      setStatus('Two-factor authentication is on. Logging in now also asks for a code.')
+      await loadStatus()
+    } catch (error: any) {
+      console.error('[2FA] Failed to enable:', error)
+      setError(error.response?.data?.error || 'Failed to enable two-factor authentication')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDisable = async () => {
+    setError(null)
+    setStatus(null)
+    setBusy(true)
+    try {
+      // Authenticator codes are digits only; anything else is taken as a recovery code
+      const secondFactor = /^\d{6}$/.test(code.replace(/\s/g, '')) ? { code } : { recoveryCode: code }
+      await authService.disableTwoFactor({ ...(await confirmPassword(username, password)), ...secondFactor })
+      setPassword('')
+      setCode('')
+      setStatus('Two-factor authentication is off.')
+      await loadStatus()
+    } catch (error: any) {
+      console.error('[2FA] Failed to disable:', error)
+      setError(
+        error instanceof InvalidCredentialsError
+          ? 'Wrong password.'
+          : error.response?.data?.error || 'Failed to disable two-factor authentication'
+      )
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDownloadCodes = () => {
+    if (!recoveryCodes) return
+    const blob = new Blob([recoveryCodes.join('\n') + '\n'], { type: 'text/plain' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = 'cipherlink-recovery-codes.txt'
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Two-factor authentication</SheetTitle>
+          <SheetDescription>
+            Ask for a code from an authenticator app after your password when you log in.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          {recoveryCodes && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Recovery codes</p>
+              <p className="text-sm text-muted-foreground">
+                Each code logs you in once if you lose your authenticator. Save them somewhere
+                safe; they are not shown again.
+              </p>
+              <div className="grid grid-cols-2 gap-1 p-2 font-mono text-sm bg-muted rounded-md select-all">
+                {recoveryCodes.map((recoveryCode) => (
+                  <span key={recoveryCode}>{recoveryCode}</span>
+                ))}
+              </div>
+              <Button variant="outline" size="sm" onClick={handleDownloadCodes}>
+                Download codes
+              </Button>
+            </div>
+          )}
+
+          {twoFactor?.enabled ? (
+            <div className="space-y-2">
+              <p className="text-sm">
+                On since {new Date(twoFactor.enabledAt!).toLocaleDateString()}.{' '}
+                {twoFactor.recoveryCodesLeft} recovery code{twoFactor.recoveryCodesLeft === 1 ? '' : 's'} left.
+              </p>
+              <p className="text-sm">To turn it off, enter your password and a code or recovery code.</p>
+              <Input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Password"
+              />
+              <div className="flex gap-2">
+                <Input
+                  type="text"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  autoComplete="one-time-code"
+                  placeholder="Code or recovery code"
+                />
+                <Button variant="destructive" onClick={handleDisable} disabled={busy || !password || !code}>
+                  Turn off
+                </Button>
+              </div>
+            </div>
+          ) : enrolment ? (
+            <div className="space-y-2">
+              <p className="text-sm">
+                Scan this code with your authenticator app, then enter the 6-digit code it shows.
+              </p>
+              <div className="flex justify-center">
+                <img src={enrolment.qrDataUrl} alt="Authenticator QR code" className="rounded-md border" />
+              </div>
+              <p className="text-sm text-muted-foreground">Or enter this key by hand:</p>
+              <p className="p-2 font-mono text-xs break-all bg-muted rounded-md select-all">{enrolment.secret}</p>
+              <div className="flex gap-2">
+                <Input
+                  type="text"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                />
+                <Button onClick={handleEnable} disabled={busy || !code}>
+                  Turn on
+                </Button>
+              </div>
+            </div>
+          ) : twoFactor ? (
+            <div className="space-y-2">
+              <p className="text-sm">Enter your password to set up an authenticator app.</p>
+              <div className="flex gap-2">
+                <Input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Password"
+                />
+                <Button onClick={handleSetup} disabled={busy || !password}>
+                  Set up
+                </Button>
+              </div>
+            </div>
+          ) : null}
+
+          {status && <p className="text-sm text-green-600">{status}</p>}
+          {error && <p className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">{error}</p>}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,180 @@
+import { useState, useEffect, useRef } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { useAuth } from '@/context/AuthContext'
+import {
+  VAULT_IDLE_MINUTE_OPTIONS,
+  getVaultIdleMinutes,
+  hasVaultPasskey,
+  setVaultIdleMinutes,
+  setVaultUnlockHandler,
+  touchVault,
+  unlockVault,
+  unlockVaultWithPasskey,
+  vaultNeedsPreviousPassword,
+} from '@/storage/keyVault'
+import { isPasskeySupported } from '@/crypto/webauthnPrf'
+
+// User activity that keeps the vault from locking
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown'] as const
+
+/**
+ * Asks for the password or a passkey whenever key material is needed while the vault
+ * is locked. Mounted once for the whole app.
+ */
+export const UnlockVaultDialog = () => {
+  const { user } = useAuth()
+  const [open, setOpen] = useState(false)
+  const [reason, setReason] = useState<string | undefined>()
+  const [password, setPassword] = useState('')
+  const [idleMinutes, setIdleMinutes] = useState(getVaultIdleMinutes())
+  const [passkeyAvailable, setPasskeyAvailable] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const resolveRequest = useRef<((unlocked: boolean) => void) | null>(null)
+
+  useEffect(() => {
+    if (!user) return
+
+    setVaultUnlockHandler((requestReason) => new Promise<boolean>((resolve) => {
+      resolveRequest.current = resolve
+      setReason(requestReason)
+      setPassword('')
+      setIdleMinutes(getVaultIdleMinutes())
+      setError(null)
+      setPasskeyAvailable(false)
+      setOpen(true)
+      if (isPasskeySupported()) {
+        hasVaultPasskey(user.id).then(setPasskeyAvailable).catch(() => setPasskeyAvailable(false))
+      }
+    }))
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, touchVault))
+
+    return () => {
+      setVaultUnlockHandler(null)
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, touchVault))
+      resolveRequest.current?.(false)
+      resolveRequest.current = null
+      setOpen(false)
+    }
+  }, [user?.id])
+
+  const finish = (unlocked: boolean) => {
+    resolveRequest.current?.(unlocked)
+    resolveRequest.current = null
+    setPassword('')
+    setOpen(false)
+  }
+
+  const handleUnlock = async () => {
+    if (!user || !password) return
+    setBusy(true)
+    setError(null)
+    try {
+      if (await unlockVault(user.id, password)) {
+        setVaultIdleMinutes(idleMinutes)
+        finish(true)
+      } else {
+        setError('Wrong password.')
+      }
+    } catch (error: any) {
+      console.error('[KEY VAULT] Failed to unlock:', error)
+      setError(error.message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handlePasskeyUnlock = async () => {
+    if (!user) return
+    setBusy(true)
+    setError(null)
+    try {
+      if (await unlockVaultWithPasskey(user.id)) {
+        setVaultIdleMinutes(idleMinutes)
+        finish(true)
+      } else {
+        setError('This passkey could not unlock your keys. Use your password instead.')
+      }
+    } catch (error: any) {
+      console.error('[KEY VAULT] Passkey unlock failed:', error)
+      setError(error.name === 'NotAllowedError' ? 'The passkey request was cancelled.' : error.message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !nextOpen && !busy && finish(false)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Unlock your keys</DialogTitle>
+          <DialogDescription>
+            {user && vaultNeedsPreviousPassword(user.id)
+              ? 'Your password was changed on another device. Enter your previous password once to move the keys on this browser to the new one.'
+              : reason || 'Your keys were locked. Enter your password to keep reading and sending messages.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault()
+            handleUnlock()
+          }}
+        >
+          <Input
+            type="password"
+            value={password}
+            onChange={(e) => {
+              setPassword(e.target.value)
+              setError(null)
+            }}
+            placeholder="Password"
+            autoFocus
+          />
+
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            Lock again after
+            <select
+              className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+              value={idleMinutes}
+              onChange={(e) => setIdleMinutes(Number(e.target.value))}
+            >
+              {VAULT_IDLE_MINUTE_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>
+                  {minutes} minutes
+                </option>
+              ))}
+            </select>
+            of inactivity
+          </label>
+
+          {error && <p className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => finish(false)} disabled={busy}>
+              Cancel
+            </Button>
+            {passkeyAvailable && (
+              <Button type="button" variant="outline" onClick={handlePasskeyUnlock} disabled={busy}>
+                Use passkey
+              </Button>
+            )}
+            <Button type="submit" disabled={busy || !password}>
+              {busy ? 'Unlocking...' : 'Unlock'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,10 +1,14 @@
-import React, { createContext, useContext, useState, useEffect } from 'react'
-import { authService, User } from '@/services/authService'
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react'
+import { authService, AuthResponse, User, loginWithPassword, moveToOpaque, registerWithPassword } from '@/services/authService'
+import { SESSION_ENDED_EVENT, SessionEndedReason } from '@/services/api'
+import { lockVault, unlockVault } from '@/storage/keyVault'
 
 interface AuthContextType {
   user: User | null
   token: string | null
-  login: (username: string, password: string) => Promise<void>
+  // Resolves with twoFactorRequired: true if a code is needed; finish with completeTwoFactorLogin
+  login: (username: string, password: string) => Promise<{ twoFactorRequired: boolean }>
+  completeTwoFactorLogin: (secondFactor: { code?: string; recoveryCode?: string }) => Promise<void>
   register: (username: string, password: string, publicKey: string) => Promise<void>
   logout: () => void
   isAuthenticated: boolean
@@ -17,6 +21,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [user, setUser] = useState<User | null>(null)
   const [token, setToken] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
+  // Between the two login steps; the password and export key are kept to unlock the key
+  // vault afterwards
+  const pendingTwoFactor = useRef<{
+    challengeToken: string
+    username: string
+    password: string
+    exportKey: Uint8Array<ArrayBuffer> | null
+  } | null>(null)
 
   useEffect(() => {
     const storedToken = localStorage.getItem('token')
@@ -28,35 +40,101 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setLoading(false)
   }, [])
 
-  const login = async (username: string, password: string) => {
-    const response = await authService.login({ username, password })
+  // The key vault is unlocked with the login's export key or the same password, so it is
+  // not asked for again
+  const unlockKeys = async (userId: string, password: string, exportKey: Uint8Array<ArrayBuffer> | null) => {
+    try {
+      if (!(await unlockVault(userId, password, exportKey ?? undefined))) {
+        console.warn('[AUTH] Local keys did not open with this password; they will be asked for when needed')
+      }
+    } catch (error) {
+      console.error('[AUTH] Failed to unlock local keys:', error)
+    }
+  }
+
+  const startSession = async (
+    response: AuthResponse,
+    password: string,
+    exportKey: Uint8Array<ArrayBuffer> | null
+  ) => {
+    await unlockKeys(response.user.id, password, exportKey)
     setToken(response.token)
     setUser(response.user)
     localStorage.setItem('token', response.token)
+    localStorage.setItem('refreshToken', response.refreshToken)
     localStorage.setItem('user', JSON.stringify(response.user))
   }
 
+  const login = async (username: string, password: string) => {
+    const { response, exportKey } = await loginWithPassword(username, password)
+    if ('twoFactorRequired' in response) {
+      pendingTwoFactor.current = { challengeToken: response.challengeToken, username, password, exportKey }
+      return { twoFactorRequired: true }
+    }
+    pendingTwoFactor.current = null
+    await startSession(response, password, exportKey)
+    return { twoFactorRequired: false }
+  }
+
+  const completeTwoFactorLogin = async (secondFactor: { code?: string; recoveryCode?: string }) => {
+    const pending = pendingTwoFactor.current
+    if (!pending) {
+      throw new Error('No login is waiting for a code')
+    }
+    const response = await authService.loginTwoFactor({ challengeToken: pending.challengeToken, ...secondFactor })
+    pendingTwoFactor.current = null
+    // Accounts still on a password login are moved to OPAQUE once the second factor passed
+    const exportKey = pending.exportKey ?? await moveToOpaque(pending.username, pending.password, response)
+    await startSession(response, pending.password, exportKey)
+  }
+
   const register = async (username: string, password: string, publicKey: string) => {
-    const response = await authService.register({ username, password, publicKey })
-    setToken(response.token)
-    setUser(response.user)
-    localStorage.setItem('token', response.token)
-    localStorage.setItem('user', JSON.stringify(response.user))
+    const { response, exportKey } = await registerWithPassword(username, password, publicKey)
+    await startSession(response, password, exportKey)
   }
 
-  const logout = () => {
+  const clearSession = () => {
+    pendingTwoFactor.current = null
+    lockVault()
     setToken(null)
     setUser(null)
     localStorage.removeItem('token')
+    localStorage.removeItem('refreshToken')
     localStorage.removeItem('user')
   }
 
+  const logout = () => {
+    const refreshToken = localStorage.getItem('refreshToken')
+    if (refreshToken) {
+      authService.logout(refreshToken).catch((error) => {
+        console.warn('[AUTH] Failed to end the session on the server:', error)
+      })
+    }
+    clearSession()
+  }
+
+  // The API client could not refresh the access token (the session expired or was revoked)
+  useEffect(() => {
+    const handleSessionEnded = (event: Event) => {
+      const reason = (event as CustomEvent<SessionEndedReason>).detail
+      if (!localStorage.getItem('user')) return
+      console.warn('[AUTH] Session ended:', reason)
+      clearSession()
+      if (reason === 'refresh-token-reused') {
+        alert('You were logged out because your session was used from somewhere else. If that was not you, change your password.')
+      }
+    }
+    window.addEventListener(SESSION_ENDED_EVENT, handleSessionEnded)
+    return () => window.removeEventListener(SESSION_ENDED_EVENT, handleSessionEnded)
+  }, [])
+
   return (
     <AuthContext.Provider
       value={{
         user,
         token,
         login,
+        completeTwoFactorLogin,
         register,
         logout,
         isAuthenticated: !!token && !!user,
@@ -0,0 +1,49 @@
+/**
+ * Additional authenticated data for messages and files
+ *
+ * Metadata sent in the clear next to a ciphertext (who it is from and to, timestamp,
+ * sequence number, nonce, file name and so on) is passed to AES-GCM as additional data.
+ * It stays readable to the server, but changing any of it makes decryption fail.
+ *
+ * Ciphertexts carry the protocol version they were made with. Those without one were
+ * made before this binding and are decrypted without additional data. Removing the
+ * version from a newer ciphertext does not help an attacker: its tag only verifies
+ * with the additional data it was made with.
+ */
+
+export const AAD_PROTOCOL_VERSION = 1
+
+// Who a message or file is from and to
+export interface MessageParties {
+  senderId: string
+  recipientId: string
+}
+
+// The same for both users of a conversation, whichever of them sends
+export function conversationIdOf({ senderId, recipientId }: MessageParties): string {
+  return [senderId, recipientId].sort().join(':')
+}
+
+/**
+ * Encode the additional data for one ciphertext
+ *
+ * @param purpose - What is encrypted ('message' or 'file-chunk'), so one can never be
+ * passed off as the other
+ * @param fields - Metadata specific to the purpose, in a fixed order
+ */
+export function encodeAdditionalData(
+  purpose: 'message' | 'file-chunk',
+  version: number,
+  parties: MessageParties,
+  fields: (string | number | null)[]
+): BufferSource {
+  // A JSON array keeps field boundaries unambiguous
+  return new TextEncoder().encode(JSON.stringify([
+    purpose,
+    version,
+    conversationIdOf(parties),
+    parties.senderId,
+    parties.recipientId,
+    ...fields,
+  ]))
+}
@@ -0,0 +1,277 @@
+/**
+ * Device keys
+ *
+ * Every browser an account is used from is a device with its own X25519 key pair.
+ * The account's identity key signs a statement for each device, so contacts only
+ * encrypt to devices the owner added. The primary device holds the identity key and
+ * the Double Ratchet sessions; every other device is linked by scanning a code shown
+ * on the primary and receives its own copy of each message, sealed to its device key.
+ *
+ * A copy is keyed by HKDF over two X25519 outputs: a fresh ephemeral key with the
+ * recipient device key, and the sender's device key with the recipient device key.
+ * The second one authenticates the sending device, as in the Noise K pattern.
+ */
+
+import {
+  deriveSharedSecret,
+  exportKey,
+  generateKeyAgreementKeyPair,
+  importKeyAgreementPublicKey,
+  signWithIdentityKey,
+  importIdentityPublicKey,
+  verifyIdentitySignature,
+} from './keyAlgorithms'
+
+const DEVICE_COPY_INFO = 'Cipherlink-Device-Copy-v1'
+const LINK_CODE_PREFIX = 'CIPHERLINK-LINK'
+const LINK_CODE_VERSION = 1
+
+export interface DeviceRecord {
+  deviceId: string
+  name: string
+  publicKey: string
+  primary: boolean
+  createdAt: number
+  // Signature by the account's identity key over the device statement
+  signature: string
+  revokedAt: number | null
+}
+
+export interface DeviceStatementFields {
+  userId: string
+  deviceId: string
+  name: string
+  publicKey: string
+  primary: boolean
+  createdAt: number
+}
+
+export interface DeviceCopy {
+  deviceId: string
+  ephemeralKey: string
+  iv: string
+  ciphertext: string
+}
+
+// Private key of this browser's device, unlocked for the current page
+export interface UnlockedDevice {
+  userId: string
+  deviceId: string
+  primary: boolean
+  publicKey: string
+  privateKey: CryptoKey
+}
+
+export interface DeviceLinkCode {
+  userId: string
+  linkId: string
+  secret: string
+}
+
+function toBase64(buffer: ArrayBuffer | Uint8Array): string {
+  return btoa(String.fromCharCode(...new Uint8Array(buffer)))
+}
+
+function fromBase64(base64: string) {
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0))
+}
+
+/**
+ * Canonical bytes of a device statement; must match the server's payload
+ */
+export function deviceStatementPayload(fields: DeviceStatementFields) {
+  return new TextEncoder().encode(JSON.stringify({
+    type: 'device',
+    userId: fields.userId,
+    deviceId: fields.deviceId,
+    name: fields.name,
+    publicKey: fields.publicKey,
+    primary: fields.primary,
+    createdAt: fields.createdAt,
+  }))
+}
+
+export async function signDeviceStatement(fields: DeviceStatementFields, identityPrivateKey: CryptoKey): Promise<string> {
+  return signWithIdentityKey(identityPrivateKey, deviceStatementPayload(fields))
+}
+
+/**
+ * Check that a device of `userId` was added with the given identity key
+ */
+export async function verifyDeviceRecord(userId: string, device: DeviceRecord, identityPublicKey: string): Promise<boolean> {
+  try {
+    const publicKey = await importIdentityPublicKey(identityPublicKey)
+    return await verifyIdentitySignature(publicKey, device.signature, deviceStatementPayload({ userId, ...device }))
+  } catch (error) {
+    console.error('[DEVICES] Device signature verification error:', error)
+    return false
+  }
+}
+
+export function generateDeviceId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export async function generateDeviceKeyPair(): Promise<{ keyPair: CryptoKeyPair; publicKey: string }> {
+  const keyPair = await generateKeyAgreementKeyPair('X25519')
+  return { keyPair, publicKey: toBase64(await exportKey('spki', keyPair.publicKey)) }
+}
+
+async function deriveDeviceCopyKey(
+  ephemeralSecret: ArrayBuffer,
+  staticSecret: ArrayBuffer,
+  senderUserId: string,
+  senderDeviceId: string,
+  recipientUserId: string,
+  recipientDeviceId: string,
+  ephemeralKey: string
+): Promise<CryptoKey> {
+  const ikm = new Uint8Array(ephemeralSecret.byteLength + staticSecret.byteLength)
+  ikm.set(new Uint8Array(ephemeralSecret), 0)
+  ikm.set(new Uint8Array(staticSecret), ephemeralSecret.byteLength)
+
+  const keyMaterial = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      salt: fromBase64(ephemeralKey),
+      info: new TextEncoder().encode(
+        `${DEVICE_COPY_INFO}|${senderUserId}:${senderDeviceId}|${recipientUserId}:${recipientDeviceId}`
+      ),
+      hash: 'SHA-256',
+    },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * Encrypt a message for one device. The message nonce is authenticated, so a copy
+ * cannot be moved onto another message.
+ */
+export async function sealForDevice(
+  plaintext: string,
+  messageNonce: string,
+  sender: UnlockedDevice,
+  recipientUserId: string,
+  recipient: DeviceRecord
+): Promise<DeviceCopy> {
+  const recipientKey = await importKeyAgreementPublicKey(recipient.publicKey)
+  const ephemeral = await generateKeyAgreementKeyPair('X25519')
+  const ephemeralKey = toBase64(await exportKey('spki', ephemeral.publicKey))
+
+  const key = await deriveDeviceCopyKey(
+    await deriveSharedSecret(ephemeral.privateKey, recipientKey),
+    await deriveSharedSecret(sender.privateKey, recipientKey),
+    sender.userId,
+    sender.deviceId,
+    recipientUserId,
+    recipient.deviceId,
+    ephemeralKey
+  )
+
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(messageNonce) },
+    key,
+    new TextEncoder().encode(plaintext)
+  )
+
+  return {
+    deviceId: recipient.deviceId,
+    ephemeralKey,
+    iv: toBase64(iv),
+    ciphertext: toBase64(ciphertext),
+  }
+}
+
+/**
+ * Decrypt the copy of a message sealed to this device by `sender`
+ */
+export async function openDeviceCopy(
+  copy: DeviceCopy,
+  messageNonce: string,
+  recipient: UnlockedDevice,
+  senderUserId: string,
+  sender: DeviceRecord
+): Promise<string> {
+  const ephemeralKey = await importKeyAgreementPublicKey(copy.ephemeralKey)
+  const senderKey = await importKeyAgreementPublicKey(sender.publicKey)
+
+  const key = await deriveDeviceCopyKey(
+    await deriveSharedSecret(recipient.privateKey, ephemeralKey),
+    await deriveSharedSecret(recipient.privateKey, senderKey),
+    senderUserId,
+    sender.deviceId,
+    recipient.userId,
+    recipient.deviceId,
+    copy.ephemeralKey
+  )
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(copy.iv), additionalData: new TextEncoder().encode(messageNonce) },
+    key,
+    fromBase64(copy.ciphertext)
+  )
+  return new TextDecoder().decode(plaintext)
+}
+
+/**
+ * Code shown as a QR code on the trusted device. The secret never reaches the
+ * server; the new device proves it scanned the code with a MAC over its key.
+ */
+export function createDeviceLinkCode(userId: string, linkId: string): { code: DeviceLinkCode; text: string } {
+  const secret = toBase64(crypto.getRandomValues(new Uint8Array(32)))
+  const code = { userId, linkId, secret }
+  return { code, text: `${LINK_CODE_PREFIX}:${LINK_CODE_VERSION}:${userId}:${linkId}:${secret}` }
+}
+
+export function parseDeviceLinkCode(text: string): DeviceLinkCode | null {
+  const parts = text.trim().split(':')
+  if (parts.length !== 5 || parts[0] !== LINK_CODE_PREFIX || parts[1] !== String(LINK_CODE_VERSION)) return null
+  const [, , userId, linkId, secret] = parts
+  if (!userId || !linkId || fromBase64(secret).length !== 32) return null
+  return { userId, linkId, secret }
+}
+
+async function linkMacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', fromBase64(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify'])
+}
+
+function linkMacPayload(code: DeviceLinkCode, deviceId: string, name: string, publicKey: string) {
+  return new TextEncoder().encode(JSON.stringify({
+    type: 'device-link',
+    userId: code.userId,
+    linkId: code.linkId,
+    deviceId,
+    name,
+    publicKey,
+  }))
+}
+
+export async function computeLinkMac(code: DeviceLinkCode, deviceId: string, name: string, publicKey: string): Promise<string> {
+  const mac = await crypto.subtle.sign('HMAC', await linkMacKey(code.secret), linkMacPayload(code, deviceId, name, publicKey))
+  return toBase64(mac)
+}
+
+export async function verifyLinkMac(
+  code: DeviceLinkCode,
+  deviceId: string,
+  name: string,
+  publicKey: string,
+  mac: string
+): Promise<boolean> {
+  try {
+    return await crypto.subtle.verify(
+      'HMAC',
+      await linkMacKey(code.secret),
+      fromBase64(mac),
+      linkMacPayload(code, deviceId, name, publicKey)
+    )
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,372 @@
+/**
+ * Double Ratchet for 1:1 conversations
+ *
+ * The handshake secret from the signed ECDH exchange seeds a root key. From there:
+ * 1. SYMMETRIC RATCHET: every message advances a chain key (HMAC-SHA256), and the
+ *    derived message key is used exactly once
+ * 2. DH RATCHET: whenever the sender changes, a fresh key pair (on the curve of the
+ *    handshake, P-256 or X25519) is mixed into the root key, so a leaked chain key
+ *    stops being useful after the next reply
+ *
+ * The initiator of the key exchange starts with a DH ratchet step against the
+ * responder's handshake ECDH key. The responder gets a bootstrap sending chain so it
+ * can also send before hearing back from the initiator.
+ */
+
+import type { PreKeyHeader } from './x3dh'
+import type { MessagePayload } from './messagePayload'
+import { HandshakeTranscript, KEY_DERIVATION_VERSION, hashHandshakeTranscript } from './keyExchange'
+import {
+  KeyAgreementCurve,
+  deriveSharedSecret,
+  exportKey,
+  generateKeyAgreementKeyPair,
+  importKeyAgreementPrivateKey,
+  importKeyAgreementPublicKey,
+  keyAgreementCurve,
+} from './keyAlgorithms'
+
+export interface RatchetHeader {
+  dh: string // Sender's current ratchet public key (spki, base64)
+  pn: number // Number of messages in the sender's previous sending chain
+  n: number // Message number in the current sending chain
+}
+
+export interface RatchetKeyPair {
+  publicKey: string // spki, base64
+  privateKey: string // pkcs8, base64
+}
+
+export interface RatchetState {
+  rootKey: string
+  dhSelf: RatchetKeyPair
+  dhRemote: string | null
+  sendingChainKey: string | null
+  receivingChainKey: string | null
+  sendCount: number
+  receiveCount: number
+  previousSendCount: number
+  // Key: "<ratchet public key>:<message number>", Value: message key (base64)
+  skippedMessageKeys: Record<string, string>
+  // Prekey header sent with every message until the peer's first reply (sessions set up from a prekey bundle)
+  preKeyHeader?: PreKeyHeader
+  // Ephemeral key of the prekey message this session was accepted from
+  preKeyEphemeralKey?: string
+  // Set until the peer's key confirmation MAC has been seen and checked
+  pendingConfirmation?: {
+    exchangeId: string
+    expectedConfirmation: string
+  }
+  createdAt: number
+  updatedAt: number
+}
+
+// Upper bound on message keys derived ahead for a single chain (DoS protection)
+const MAX_SKIP = 1000
+
+// Upper bound on stored skipped keys across all chains
+const MAX_SKIPPED_KEYS = 2000
+
+const ratchetStates = new Map<string, RatchetState>()
+
+// Message keys are deleted after one use, so recovered plaintexts are cached by message ID
+const decryptedMessages = new Map<string, MessagePayload>()
+
+function toBase64(buffer: ArrayBuffer | Uint8Array): string {
+  return btoa(String.fromCharCode(...new Uint8Array(buffer)))
+}
+
+function fromBase64(value: string) {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0))
+}
+
+async function generateRatchetKeyPair(curve: KeyAgreementCurve): Promise<RatchetKeyPair> {
+  return exportRatchetKeyPair(await generateKeyAgreementKeyPair(curve))
+}
+
+async function exportRatchetKeyPair(keyPair: CryptoKeyPair): Promise<RatchetKeyPair> {
+  const publicKey = await exportKey('spki', keyPair.publicKey)
+  const privateKey = await exportKey('pkcs8', keyPair.privateKey)
+  return {
+    publicKey: toBase64(publicKey),
+    privateKey: toBase64(privateKey),
+  }
+}
+
+async function dh(keyPair: RatchetKeyPair, remotePublicKey: string): Promise<ArrayBuffer> {
+  const privateKey = await importKeyAgreementPrivateKey(fromBase64(keyPair.privateKey))
+  const publicKey = await importKeyAgreementPublicKey(remotePublicKey)
+  return deriveSharedSecret(privateKey, publicKey)
+}
+
+/**
+ * KDF_RK: HKDF keyed by the current root key over a fresh DH output
+ * Returns the next root key and a new chain key
+ */
+async function kdfRootKey(rootKey: string, dhOutput: ArrayBuffer): Promise<[string, string]> {
+  const keyMaterial = await crypto.subtle.importKey('raw', dhOutput, 'HKDF', false, ['deriveBits'])
+  const derived = await crypto.subtle.deriveBits(
+    {
+      name: 'HKDF',
+      salt: fromBase64(rootKey),
+      info: new TextEncoder().encode('Cipherlink-Ratchet-Root'),
+      hash: 'SHA-256',
+    },
+    keyMaterial,
+    512
+  )
+  return [toBase64(derived.slice(0, 32)), toBase64(derived.slice(32))]
+}
+
+/**
+ * KDF_CK: HMAC-SHA256 over constant inputs
+ * Returns the next chain key and the message key for the current position
+ */
+async function kdfChainKey(chainKey: string): Promise<[string, string]> {
+  const hmacKey = await crypto.subtle.importKey(
+    'raw',
+    fromBase64(chainKey),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const messageKey = await crypto.subtle.sign('HMAC', hmacKey, new Uint8Array([0x01]))
+  const nextChainKey = await crypto.subtle.sign('HMAC', hmacKey, new Uint8Array([0x02]))
+  return [toBase64(nextChainKey), toBase64(messageKey)]
+}
+
+async function importMessageKey(messageKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    fromBase64(messageKey),
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * Derive the initial root key and the responder's bootstrap chain from the handshake secret
+ *
+ * From key derivation version 3 the transcript hash is the HKDF salt, so the ratchet is
+ * bound to the signed handshake just like the session key. Older exchanges keep the
+ * zero salt their peers used.
+ */
+async function deriveInitialSecrets(
+  sharedSecret: ArrayBuffer,
+  transcript: HandshakeTranscript
+): Promise<[string, string]> {
+  const sortedIds = [transcript.initiatorId, transcript.responderId].sort()
+  let salt: BufferSource = new Uint8Array(32)
+  let info = `Cipherlink-Ratchet-${sortedIds[0]}-${sortedIds[1]}`
+  if (transcript.version === KEY_DERIVATION_VERSION) {
+    salt = await hashHandshakeTranscript(transcript)
+    info = `Cipherlink-Ratchet-v${transcript.version}-${sortedIds[0]}-${sortedIds[1]}`
+  } else if (transcript.version > KEY_DERIVATION_VERSION) {
+    throw new Error(`Unsupported key derivation version: ${transcript.version}`)
+  }
+
+  const keyMaterial = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveBits'])
+  const derived = await crypto.subtle.deriveBits(
+    {
+      name: 'HKDF',
+      salt,
+      info: new TextEncoder().encode(info),
+      hash: 'SHA-256',
+    },
+    keyMaterial,
+    512
+  )
+  return [toBase64(derived.slice(0, 32)), toBase64(derived.slice(32))]
+}
+
+/**
+ * Initialize the ratchet on the side that initiated the key exchange
+ *
+ * @param sharedSecret - ECDH output of the handshake
+ * @param responderRatchetKey - The responder's handshake ECDH public key (spki, base64)
+ * @param transcript - The handshake the shared secret came from
+ */
+export async function initializeRatchetAsInitiator(
+  sharedSecret: ArrayBuffer,
+  responderRatchetKey: string,
+  transcript: HandshakeTranscript
+): Promise<RatchetState> {
+  const [rootKey, bootstrapChainKey] = await deriveInitialSecrets(sharedSecret, transcript)
+  const dhSelf = await generateRatchetKeyPair(keyAgreementCurve(responderRatchetKey))
+  const [nextRootKey, sendingChainKey] = await kdfRootKey(rootKey, await dh(dhSelf, responderRatchetKey))
+
+  console.log('[RATCHET] Initialized as initiator')
+  return {
+    rootKey: nextRootKey,
+    dhSelf,
+    dhRemote: responderRatchetKey,
+    sendingChainKey,
+    receivingChainKey: bootstrapChainKey,
+    sendCount: 0,
+    receiveCount: 0,
+    previousSendCount: 0,
+    skippedMessageKeys: {},
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  }
+}
+
+/**
+ * Initialize the ratchet on the side that responded to the key exchange
+ *
+ * @param sharedSecret - ECDH output of the handshake
+ * @param myHandshakeKeyPair - The ECDH key pair sent in our key exchange response
+ * @param transcript - The handshake the shared secret came from
+ */
+export async function initializeRatchetAsResponder(
+  sharedSecret: ArrayBuffer,
+  myHandshakeKeyPair: CryptoKeyPair,
+  transcript: HandshakeTranscript
+): Promise<RatchetState> {
+  const [rootKey, bootstrapChainKey] = await deriveInitialSecrets(sharedSecret, transcript)
+
+  console.log('[RATCHET] Initialized as responder')
+  return {
+    rootKey,
+    dhSelf: await exportRatchetKeyPair(myHandshakeKeyPair),
+    dhRemote: null,
+    sendingChainKey: bootstrapChainKey,
+    receivingChainKey: null,
+    sendCount: 0,
+    receiveCount: 0,
+    previousSendCount: 0,
+    skippedMessageKeys: {},
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  }
+}
+
+/**
+ * Advance the sending chain and return the message key for the next outgoing message
+ * The state is updated in place and must be persisted by the caller
+ */
+export async function ratchetEncrypt(
+  state: RatchetState
+): Promise<{ header: RatchetHeader; messageKey: CryptoKey }> {
+  if (!state.sendingChainKey) {
+    throw new Error('Ratchet has no sending chain')
+  }
+
+  const [nextChainKey, messageKey] = await kdfChainKey(state.sendingChainKey)
+  const header: RatchetHeader = {
+    dh: state.dhSelf.publicKey,
+    pn: state.previousSendCount,
+    n: state.sendCount,
+  }
+
+  state.sendingChainKey = nextChainKey
+  state.sendCount += 1
+  state.updatedAt = Date.now()
+
+  console.log(`[RATCHET] Sending message ${header.n} (previous chain: ${header.pn})`)
+  return { header, messageKey: await importMessageKey(messageKey) }
+}
+
+async function skipMessageKeys(state: RatchetState, until: number): Promise<void> {
+  if (!state.receivingChainKey || !state.dhRemote) return
+
+  if (until - state.receiveCount > MAX_SKIP) {
+    throw new Error(`Too many skipped messages (${until - state.receiveCount})`)
+  }
+
+  while (state.receiveCount < until) {
+    const [nextChainKey, messageKey] = await kdfChainKey(state.receivingChainKey)
+    state.skippedMessageKeys[`${state.dhRemote}:${state.receiveCount}`] = messageKey
+    state.receivingChainKey = nextChainKey
+    state.receiveCount += 1
+  }
+
+  // Drop the oldest skipped keys once the limit is reached
+  const skippedIds = Object.keys(state.skippedMessageKeys)
+  for (const id of skippedIds.slice(0, Math.max(0, skippedIds.length - MAX_SKIPPED_KEYS))) {
+    delete state.skippedMessageKeys[id]
+  }
+}
+
+async function dhRatchetStep(state: RatchetState, header: RatchetHeader): Promise<void> {
+  console.log('[RATCHET] New ratchet key from peer, performing DH ratchet step')
+
+  state.previousSendCount = state.sendCount
+  state.sendCount = 0
+  state.receiveCount = 0
+  state.dhRemote = header.dh
+
+  const [rootKey, receivingChainKey] = await kdfRootKey(state.rootKey, await dh(state.dhSelf, state.dhRemote))
+  state.receivingChainKey = receivingChainKey
+
+  state.dhSelf = await generateRatchetKeyPair(keyAgreementCurve(state.dhRemote))
+  const [nextRootKey, sendingChainKey] = await kdfRootKey(rootKey, await dh(state.dhSelf, state.dhRemote))
+  state.rootKey = nextRootKey
+  state.sendingChainKey = sendingChainKey
+}
+
+/**
+ * Derive the message key for an incoming message and run `decrypt` with it
+ *
+ * Works on a copy of the state and only commits it once `decrypt` succeeds, so a
+ * forged or corrupted message cannot advance the ratchet. Out-of-order messages are
+ * handled with the skipped-message keys stored from earlier chain advances.
+ */
+export async function ratchetDecrypt<T>(
+  state: RatchetState,
+  header: RatchetHeader,
+  decrypt: (messageKey: CryptoKey) => Promise<T>
+): Promise<T> {
+  const working: RatchetState = JSON.parse(JSON.stringify(state))
+  const skippedId = `${header.dh}:${header.n}`
+
+  let messageKey: string
+  if (working.skippedMessageKeys[skippedId]) {
+    console.log(`[RATCHET] Using skipped message key for message ${header.n}`)
+    messageKey = working.skippedMessageKeys[skippedId]
+    delete working.skippedMessageKeys[skippedId]
+  } else {
+    if (header.dh !== working.dhRemote) {
+      await skipMessageKeys(working, header.pn)
+      await dhRatchetStep(working, header)
+    }
+    if (header.n < working.receiveCount) {
+      throw new Error('Message key already used or discarded')
+    }
+    await skipMessageKeys(working, header.n)
+
+    const [nextChainKey, currentMessageKey] = await kdfChainKey(working.receivingChainKey!)
+    working.receivingChainKey = nextChainKey
+    working.receiveCount += 1
+    messageKey = currentMessageKey
+  }
+
+  const result = await decrypt(await importMessageKey(messageKey))
+
+  // Any reply means the peer holds the session, so the prekey header is no longer needed
+  delete working.preKeyHeader
+  working.updatedAt = Date.now()
+  Object.assign(state, working)
+  return result
+}
+
+export function storeRatchetState(userId: string, state: RatchetState): void {
+  ratchetStates.set(userId, state)
+}
+
+export function getRatchetState(userId: string): RatchetState | null {
+  return ratchetStates.get(userId) || null
+}
+
+export function clearRatchetState(userId: string): void {
+  ratchetStates.delete(userId)
+}
+
+export function cacheDecryptedMessage(messageId: string, payload: MessagePayload): void {
+  decryptedMessages.set(messageId, payload)
+}
+
+export function getCachedDecryptedMessage(messageId: string): MessagePayload | null {
+  return decryptedMessages.get(messageId) ?? null
+}
@@ -1,3 +1,5 @@
+import { AAD_PROTOCOL_VERSION, MessageParties, encodeAdditionalData } from './additionalData'
+
 export interface EncryptedFileChunk {
   chunkIndex: number
   ciphertext: string
@@ -11,13 +13,34 @@ export interface EncryptedFile {
   mimeType: string
   chunks: EncryptedFileChunk[]
   totalChunks: number
+  // Protocol version of the additional data; absent on files from before it was bound
+  version?: number
 }
 
 const CHUNK_SIZE = 1024 * 1024
 
+// Each chunk authenticates the file's metadata and its own position, so chunks cannot be
+// renamed, reordered, dropped or moved into another file
+function chunkAdditionalData(
+  version: number,
+  parties: MessageParties,
+  file: Pick<EncryptedFile, 'fileName' | 'fileSize' | 'mimeType'>,
+  chunkIndex: number,
+  totalChunks: number
+): BufferSource {
+  return encodeAdditionalData('file-chunk', version, parties, [
+    file.fileName,
+    file.fileSize,
+    file.mimeType,
+    chunkIndex,
+    totalChunks,
+  ])
+}
+
 export async function encryptFile(
   file: File,
-  sessionKey: CryptoKey
+  sessionKey: CryptoKey,
+  parties: MessageParties
 ): Promise<EncryptedFile> {
   const fileBuffer = await file.arrayBuffer()
   const chunks: EncryptedFileChunk[] = []
@@ -34,6 +57,13 @@ export async function encryptFile(
         name: 'AES-GCM',
         iv: iv,
         tagLength: 128,
+        additionalData: chunkAdditionalData(
+          AAD_PROTOCOL_VERSION,
+          parties,
+          { fileName: file.name, fileSize: file.size, mimeType: file.type },
+          i,
+          totalChunks
+        ),
       },
       sessionKey,
       chunk
@@ -57,16 +87,25 @@ export async function encryptFile(
     mimeType: file.type,
     chunks,
     totalChunks,
+    version: AAD_PROTOCOL_VERSION,
   }
 }
 
 export async function decryptFile(
   encryptedFile: EncryptedFile,
-  sessionKey: CryptoKey
+  sessionKey: CryptoKey,
+  parties: MessageParties
 ): Promise<Blob> {
+  const { version } = encryptedFile
+  if (version !== undefined && version !== AAD_PROTOCOL_VERSION) {
+    throw new Error(`Unsupported file protocol version: ${version}`)
+  }
+
   const decryptedChunks: Uint8Array[] = []
+  const chunks = [...encryptedFile.chunks].sort((a, b) => a.chunkIndex - b.chunkIndex)
 
-  for (const chunk of encryptedFile.chunks.sort((a, b) => a.chunkIndex - b.chunkIndex)) {
+  // Positions rather than the stored indexes are authenticated, so a duplicated chunk fails
+  for (const [position, chunk] of chunks.entries()) {
     const iv = Uint8Array.from(atob(chunk.iv), c => c.charCodeAt(0))
     const ciphertext = Uint8Array.from(atob(chunk.ciphertext), c => c.charCodeAt(0))
     const tag = Uint8Array.from(atob(chunk.tag), c => c.charCodeAt(0))
@@ -80,6 +119,9 @@ export async function decryptFile(
         name: 'AES-GCM',
         iv: iv,
         tagLength: 128,
+        ...(version !== undefined && {
+          additionalData: chunkAdditionalData(version, parties, encryptedFile, position, chunks.length),
+        }),
       },
       sessionKey,
       combined
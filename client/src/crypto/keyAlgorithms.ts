@@ -0,0 +1,298 @@
+/**
+ * Dual-stack identity and key agreement algorithms
+ *
+ * Identity keys are either RSA-PSS (accounts from before the migration) or Ed25519.
+ * Handshake keys are P-256, or X25519 when both peers have Ed25519 identity keys and
+ * therefore run a client that understands it. Ed25519 and X25519 use WebCrypto where
+ * the browser supports them, and the bundled @noble/curves implementation otherwise.
+ *
+ * Keys are always serialized as spki/pkcs8, so keys created by the fallback can be
+ * loaded natively later and the algorithm can be read from the key bytes themselves
+ * instead of trusting a label from the server.
+ */
+
+import { ed25519, x25519 } from '@noble/curves/ed25519.js'
+
+export type IdentityKeyAlgorithm = 'RSA-PSS' | 'Ed25519'
+export type KeyAgreementCurve = 'P-256' | 'X25519'
+
+// Algorithm used for new identity keys
+export const DEFAULT_IDENTITY_KEY_ALGORITHM: IdentityKeyAlgorithm = 'Ed25519'
+
+// RFC 8410 encodings: a fixed DER header followed by the 32-byte key
+const SPKI_HEADER = { Ed25519: '302a300506032b6570032100', X25519: '302a300506032b656e032100' }
+const PKCS8_HEADER = { Ed25519: '302e020100300506032b657004220420', X25519: '302e020100300506032b656e04220420' }
+const ED25519_OID = 0x70
+const X25519_OID = 0x6e
+
+type CurveName = 'Ed25519' | 'X25519'
+
+/**
+ * Ed25519/X25519 key held by the fallback implementation. It has the shape of a
+ * CryptoKey so it can travel through the same code paths as native keys.
+ */
+class SoftwareCurveKey implements CryptoKey {
+  readonly algorithm: KeyAlgorithm
+
+  constructor(
+    name: CurveName,
+    readonly type: KeyType,
+    readonly extractable: boolean,
+    readonly usages: KeyUsage[],
+    readonly keyData: Uint8Array
+  ) {
+    this.algorithm = { name }
+  }
+}
+
+function toBase64(buffer: ArrayBuffer | Uint8Array): string {
+  return btoa(String.fromCharCode(...new Uint8Array(buffer)))
+}
+
+function fromBase64(base64: string) {
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0))
+}
+
+function fromHex(hex: string) {
+  return Uint8Array.from(hex.match(/../g)!, byte => parseInt(byte, 16))
+}
+
+function withHeader(header: string, key: Uint8Array) {
+  const prefix = fromHex(header)
+  const result = new Uint8Array(prefix.length + key.length)
+  result.set(prefix, 0)
+  result.set(key, prefix.length)
+  return result
+}
+
+// OID 1.3.101.x starts with 06 03 2b 65; the last byte picks the curve
+function curveOfSpki(spki: Uint8Array): CurveName | null {
+  if (spki.length !== 44 || spki[4] !== 0x06 || spki[5] !== 0x03 || spki[6] !== 0x2b || spki[7] !== 0x65) return null
+  if (spki[8] === ED25519_OID) return 'Ed25519'
+  if (spki[8] === X25519_OID) return 'X25519'
+  return null
+}
+
+function curveOfPkcs8(pkcs8: Uint8Array): CurveName | null {
+  if (pkcs8.length < 48 || pkcs8[7] !== 0x06 || pkcs8[8] !== 0x03 || pkcs8[9] !== 0x2b || pkcs8[10] !== 0x65) return null
+  if (pkcs8[11] === ED25519_OID) return 'Ed25519'
+  if (pkcs8[11] === X25519_OID) return 'X25519'
+  return null
+}
+
+let nativeCurveSupport: Promise<boolean> | null = null
+
+/**
+ * Whether this browser implements Ed25519 and X25519 in WebCrypto (checked once)
+ */
+export function hasNativeCurveSupport(): Promise<boolean> {
+  if (!nativeCurveSupport) {
+    nativeCurveSupport = (async () => {
+      try {
+        await crypto.subtle.generateKey({ name: 'Ed25519' }, false, ['sign', 'verify'])
+        await crypto.subtle.generateKey({ name: 'X25519' }, false, ['deriveBits'])
+        return true
+      } catch {
+        console.log('[KEYS] Ed25519/X25519 not available in WebCrypto, using the bundled implementation')
+        return false
+      }
+    })()
+  }
+  return nativeCurveSupport
+}
+
+/**
+ * Algorithm of an identity public key (spki, base64), read from the key itself
+ */
+export function identityKeyAlgorithm(publicKey: string): IdentityKeyAlgorithm {
+  return curveOfSpki(fromBase64(publicKey)) === 'Ed25519' ? 'Ed25519' : 'RSA-PSS'
+}
+
+/**
+ * Curve of a handshake public key (spki, base64), read from the key itself
+ */
+export function keyAgreementCurve(publicKey: string): KeyAgreementCurve {
+  return curveOfSpki(fromBase64(publicKey)) === 'X25519' ? 'X25519' : 'P-256'
+}
+
+/**
+ * Handshake curve for a new exchange: X25519 only if both identity keys are Ed25519,
+ * since an RSA peer may still run a client that only knows P-256
+ */
+export function negotiateKeyAgreementCurve(myPrivateKey: CryptoKey, theirPublicKey: string): KeyAgreementCurve {
+  return myPrivateKey.algorithm.name === 'Ed25519' && identityKeyAlgorithm(theirPublicKey) === 'Ed25519'
+    ? 'X25519'
+    : 'P-256'
+}
+
+export async function exportKey(format: 'spki' | 'pkcs8', key: CryptoKey): Promise<ArrayBuffer> {
+  if (!(key instanceof SoftwareCurveKey)) {
+    return crypto.subtle.exportKey(format, key)
+  }
+
+  const name = key.algorithm.name as CurveName
+  const encoded = format === 'spki'
+    ? withHeader(SPKI_HEADER[name], key.type === 'public' ? key.keyData : publicKeyOf(key))
+    : withHeader(PKCS8_HEADER[name], key.keyData)
+  return encoded.buffer
+}
+
+function publicKeyOf(privateKey: SoftwareCurveKey) {
+  return privateKey.algorithm.name === 'Ed25519'
+    ? ed25519.getPublicKey(privateKey.keyData)
+    : x25519.getPublicKey(privateKey.keyData)
+}
+
+async function generateCurveKeyPair(name: CurveName): Promise<CryptoKeyPair> {
+  const usages: KeyUsage[] = name === 'Ed25519' ? ['sign', 'verify'] : ['deriveKey', 'deriveBits']
+  if (await hasNativeCurveSupport()) {
+    return await crypto.subtle.generateKey({ name }, true, usages) as CryptoKeyPair
+  }
+
+  const secretKey = name === 'Ed25519' ? ed25519.utils.randomSecretKey() : x25519.utils.randomSecretKey()
+  const privateKey = new SoftwareCurveKey(name, 'private', true, usages.filter(u => u !== 'verify'), secretKey)
+  const publicKey = new SoftwareCurveKey(name, 'public', true, name === 'Ed25519' ? ['verify'] : [], publicKeyOf(privateKey))
+  return { privateKey, publicKey }
+}
+
+async function importCurveKey(name: CurveName, format: 'spki' | 'pkcs8', keyData: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  const usages: KeyUsage[] = format === 'spki'
+    ? (name === 'Ed25519' ? ['verify'] : [])
+    : (name === 'Ed25519' ? ['sign'] : ['deriveKey', 'deriveBits'])
+
+  if (await hasNativeCurveSupport()) {
+    return crypto.subtle.importKey(format, keyData, { name }, true, usages)
+  }
+
+  const key = format === 'spki' ? keyData.slice(12, 44) : keyData.slice(16, 48)
+  return new SoftwareCurveKey(name, format === 'spki' ? 'public' : 'private', true, usages, key)
+}
+
+/**
+ * Generate an identity key pair; the private key is extractable so it can be wrapped
+ * with the password for IndexedDB
+ */
+export async function generateIdentityKeyPair(
+  algorithm: IdentityKeyAlgorithm = DEFAULT_IDENTITY_KEY_ALGORITHM
+): Promise<{ keyPair: CryptoKeyPair; publicKeyBase64: string; algorithm: IdentityKeyAlgorithm }> {
+  const keyPair = algorithm === 'Ed25519'
+    ? await generateCurveKeyPair('Ed25519')
+    : await crypto.subtle.generateKey(
+      {
+        name: 'RSA-PSS',
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([1, 0, 1]),
+        hash: 'SHA-256',
+      },
+      true,
+      ['sign', 'verify']
+    )
+
+  const publicKeyBase64 = toBase64(await exportKey('spki', keyPair.publicKey))
+  return { keyPair, publicKeyBase64, algorithm }
+}
+
+export async function importIdentityPublicKey(publicKey: string): Promise<CryptoKey> {
+  const keyData = fromBase64(publicKey)
+  if (curveOfSpki(keyData) === 'Ed25519') {
+    return importCurveKey('Ed25519', 'spki', keyData)
+  }
+  return crypto.subtle.importKey('spki', keyData, { name: 'RSA-PSS', hash: 'SHA-256' }, false, ['verify'])
+}
+
+/**
+ * Import a decrypted identity private key; RSA keys that are not RSA-PSS are rejected
+ */
+export async function importIdentityPrivateKey(pkcs8: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  if (curveOfPkcs8(pkcs8) === 'Ed25519') {
+    return importCurveKey('Ed25519', 'pkcs8', pkcs8)
+  }
+  return crypto.subtle.importKey('pkcs8', pkcs8, { name: 'RSA-PSS', hash: 'SHA-256' }, false, ['sign'])
+}
+
+/**
+ * Sign with an identity key: RSA-PSS (SHA-256, 32-byte salt) or Ed25519
+ *
+ * @returns The signature, base64
+ */
+export async function signWithIdentityKey(privateKey: CryptoKey, data: Uint8Array<ArrayBuffer>): Promise<string> {
+  if (privateKey instanceof SoftwareCurveKey) {
+    return toBase64(ed25519.sign(data, privateKey.keyData))
+  }
+
+  const algorithm = privateKey.algorithm.name === 'Ed25519'
+    ? { name: 'Ed25519' }
+    : { name: 'RSA-PSS', saltLength: 32 }
+  return toBase64(await crypto.subtle.sign(algorithm, privateKey, data))
+}
+
+/**
+ * Verify an identity key signature; malformed signatures count as invalid
+ */
+export async function verifyIdentitySignature(
+  publicKey: CryptoKey,
+  signature: string,
+  data: Uint8Array<ArrayBuffer>
+): Promise<boolean> {
+  try {
+    if (publicKey instanceof SoftwareCurveKey) {
+      return ed25519.verify(fromBase64(signature), data, publicKey.keyData)
+    }
+
+    const algorithm = publicKey.algorithm.name === 'Ed25519'
+      ? { name: 'Ed25519' }
+      : { name: 'RSA-PSS', saltLength: 32 }
+    return await crypto.subtle.verify(algorithm, publicKey, fromBase64(signature), data)
+  } catch (error) {
+    console.error('[KEYS] Signature verification error:', error)
+    return false
+  }
+}
+
+/**
+ * Generate an extractable handshake key pair on the given curve
+ */
+export async function generateKeyAgreementKeyPair(curve: KeyAgreementCurve): Promise<CryptoKeyPair> {
+  if (curve === 'X25519') {
+    return generateCurveKeyPair('X25519')
+  }
+  return crypto.subtle.generateKey(
+    {
+      name: 'ECDH',
+      namedCurve: 'P-256',
+    },
+    true,
+    ['deriveKey', 'deriveBits']
+  )
+}
+
+export async function importKeyAgreementPublicKey(publicKey: string): Promise<CryptoKey> {
+  const keyData = fromBase64(publicKey)
+  if (curveOfSpki(keyData) === 'X25519') {
+    return importCurveKey('X25519', 'spki', keyData)
+  }
+  return crypto.subtle.importKey('spki', keyData, { name: 'ECDH', namedCurve: 'P-256' }, true, [])
+}
+
+export async function importKeyAgreementPrivateKey(pkcs8: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  if (curveOfPkcs8(pkcs8) === 'X25519') {
+    return importCurveKey('X25519', 'pkcs8', pkcs8)
+  }
+  return crypto.subtle.importKey('pkcs8', pkcs8, { name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveKey', 'deriveBits'])
+}
+
+/**
+ * 32-byte ECDH/X25519 shared secret; both keys must be on the same curve
+ */
+export async function deriveSharedSecret(privateKey: CryptoKey, publicKey: CryptoKey): Promise<ArrayBuffer> {
+  if (privateKey.algorithm.name !== publicKey.algorithm.name) {
+    throw new Error(`Cannot combine a ${privateKey.algorithm.name} key with a ${publicKey.algorithm.name} key`)
+  }
+
+  if (privateKey instanceof SoftwareCurveKey && publicKey instanceof SoftwareCurveKey) {
+    return x25519.getSharedSecret(privateKey.keyData, publicKey.keyData).slice().buffer
+  }
+
+  const name = privateKey.algorithm.name === 'X25519' ? 'X25519' : 'ECDH'
+  return crypto.subtle.deriveBits({ name, public: publicKey }, privateKey, 256)
+}
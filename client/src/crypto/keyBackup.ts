@@ -0,0 +1,236 @@
+/**
+ * Encrypted key backups
+ *
+ * Everything needed to use an account from a fresh browser (identity key, device key,
+ * prekeys, ratchet sessions and pinned contact keys) is exported as one JSON file,
+ * encrypted with AES-256-GCM. The key comes either from a generated recovery code
+ * (160 random bits, so HKDF is enough) or from a passphrase stretched with Argon2id.
+ * The file header, including the KDF parameters, is authenticated as associated data.
+ *
+ * The file can be downloaded or kept on the server, which cannot read it.
+ */
+
+import type { KeyBackupData } from '@/storage/keyStorage'
+import { ARGON2ID_DEFAULT_PARAMS, Argon2idParams, deriveArgon2idKey } from './passwordKdf'
+
+const BACKUP_FORMAT = 'cipherlink-key-backup'
+const BACKUP_VERSION = 1
+const RECOVERY_CODE_INFO = 'Cipherlink-Key-Backup-v1'
+
+// Crockford base32, which leaves out I, L, O and U so a code survives being copied by hand
+const RECOVERY_CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ'
+const RECOVERY_CODE_BYTES = 20
+const RECOVERY_CODE_LENGTH = 32
+
+export const MIN_BACKUP_PASSPHRASE_LENGTH = 12
+
+export type BackupSecret =
+  | { kind: 'recovery-code'; code: string }
+  | { kind: 'passphrase'; passphrase: string }
+
+export type BackupKdf =
+  | { name: 'hkdf-sha256'; salt: string }
+  | ({ name: 'argon2id'; salt: string } & Argon2idParams)
+
+export interface KeyBackupFile {
+  format: typeof BACKUP_FORMAT
+  version: number
+  userId: string
+  createdAt: number
+  kdf: BackupKdf
+  iv: string
+  ciphertext: string
+}
+
+export interface KeyBackupPayload {
+  // Identity public key at backup time, to detect backups made before a key rotation
+  identityPublicKey: string
+  keys: KeyBackupData
+}
+
+export class KeyBackupError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'KeyBackupError'
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary)
+}
+
+function fromBase64(base64: string) {
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0))
+}
+
+/**
+ * New recovery code, shown as 8 groups of 4 characters
+ */
+export function generateRecoveryCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(RECOVERY_CODE_BYTES))
+  let bits = 0
+  let value = 0
+  let code = ''
+  for (const byte of bytes) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      code += RECOVERY_CODE_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  return code.match(/.{4}/g)!.join('-')
+}
+
+/**
+ * Bytes of a recovery code as typed by the user, ignoring case, spaces and dashes
+ *
+ * @returns null if it is not a recovery code
+ */
+function decodeRecoveryCode(input: string): Uint8Array<ArrayBuffer> | null {
+  const normalized = input
+    .toUpperCase()
+    .replace(/[\s-]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1')
+  if (normalized.length !== RECOVERY_CODE_LENGTH) return null
+
+  const bytes = new Uint8Array(RECOVERY_CODE_BYTES)
+  let bits = 0
+  let value = 0
+  let index = 0
+  for (const char of normalized) {
+    const digit = RECOVERY_CODE_ALPHABET.indexOf(char)
+    if (digit === -1) return null
+    value = ((value << 5) | digit) & 0xffff
+    bits += 5
+    if (bits >= 8) {
+      bytes[index++] = (value >>> (bits - 8)) & 0xff
+      bits -= 8
+    }
+  }
+  return bytes
+}
+
+export function isValidRecoveryCode(input: string): boolean {
+  return decodeRecoveryCode(input) !== null
+}
+
+async function deriveBackupKey(kdf: BackupKdf, secret: string): Promise<CryptoKey> {
+  const salt = fromBase64(kdf.salt)
+
+  if (kdf.name === 'argon2id') {
+    return deriveArgon2idKey(secret, salt, {
+      memoryKiB: kdf.memoryKiB,
+      iterations: kdf.iterations,
+      parallelism: kdf.parallelism,
+    })
+  }
+
+  const code = decodeRecoveryCode(secret)
+  if (!code) {
+    throw new KeyBackupError('This is not a valid recovery code.')
+  }
+  const keyMaterial = await crypto.subtle.importKey('raw', code, 'HKDF', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', salt, info: new TextEncoder().encode(RECOVERY_CODE_INFO), hash: 'SHA-256' },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+function backupAssociatedData(file: Pick<KeyBackupFile, 'format' | 'version' | 'userId' | 'createdAt' | 'kdf'>) {
+  return new TextEncoder().encode(JSON.stringify({
+    format: file.format,
+    version: file.version,
+    userId: file.userId,
+    createdAt: file.createdAt,
+    kdf: file.kdf,
+  }))
+}
+
+export async function encryptKeyBackup(payload: KeyBackupPayload, secret: BackupSecret): Promise<KeyBackupFile> {
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(16)))
+  let kdf: BackupKdf
+  let secretText: string
+  if (secret.kind === 'passphrase') {
+    if (secret.passphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH) {
+      throw new KeyBackupError(`The passphrase must be at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters long.`)
+    }
+    kdf = { name: 'argon2id', salt, ...ARGON2ID_DEFAULT_PARAMS }
+    secretText = secret.passphrase
+  } else {
+    kdf = { name: 'hkdf-sha256', salt }
+    secretText = secret.code
+  }
+
+  const header = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    userId: payload.keys.userId,
+    createdAt: Date.now(),
+    kdf,
+  } as const
+
+  const key = await deriveBackupKey(kdf, secretText)
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: backupAssociatedData(header) },
+    key,
+    new TextEncoder().encode(JSON.stringify(payload))
+  )
+
+  return { ...header, iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) }
+}
+
+/**
+ * Read a backup file without decrypting it
+ *
+ * @returns null if the text is not a Cipherlink key backup
+ */
+export function parseKeyBackupFile(text: string): KeyBackupFile | null {
+  try {
+    const file = JSON.parse(text)
+    if (file?.format !== BACKUP_FORMAT || file.version !== BACKUP_VERSION) return null
+    if (typeof file.userId !== 'string' || typeof file.createdAt !== 'number') return null
+    if (typeof file.iv !== 'string' || typeof file.ciphertext !== 'string') return null
+    if (typeof file.kdf?.salt !== 'string' || !['hkdf-sha256', 'argon2id'].includes(file.kdf.name)) return null
+    return file as KeyBackupFile
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Decrypt a backup with the recovery code or passphrase it was made with
+ */
+export async function decryptKeyBackup(file: KeyBackupFile, secret: string): Promise<KeyBackupPayload> {
+  const key = await deriveBackupKey(file.kdf, secret)
+
+  let plaintext: ArrayBuffer
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(file.iv), additionalData: backupAssociatedData(file) },
+      key,
+      fromBase64(file.ciphertext)
+    )
+  } catch {
+    throw new KeyBackupError(
+      file.kdf.name === 'argon2id'
+        ? 'Wrong passphrase, or the backup file is damaged.'
+        : 'Wrong recovery code, or the backup file is damaged.'
+    )
+  }
+
+  const payload = JSON.parse(new TextDecoder().decode(plaintext)) as KeyBackupPayload
+  if (payload.keys?.userId !== file.userId) {
+    throw new KeyBackupError('The backup file is damaged.')
+  }
+  return payload
+}
@@ -0,0 +1,218 @@
+/**
+ * Versioned envelopes for password-wrapped keys
+ *
+ * Every secret in the local key store is kept in an envelope that names its KDF and
+ * parameters, salt, AEAD, iv and ciphertext, so the KDF can be strengthened without
+ * losing access to older records.
+ *
+ * Version 0 describes records written before envelopes existed: PBKDF2-SHA256 with
+ * 100,000 iterations and the iv prefixed to the ciphertext. Version 1 uses Argon2id
+ * and authenticates the envelope header as AES-GCM associated data, so the stored
+ * parameters cannot be weakened without the record failing to open.
+ *
+ * Records can also be sealed directly with the account's vault key (a random AES key
+ * that is itself kept in a password envelope), so the password is only stretched once
+ * per unlock rather than once per record. The vault key can additionally be kept in
+ * envelopes keyed by a passkey's WebAuthn PRF output, or by the export key of the
+ * account's OPAQUE login, which opens it at login without stretching the password.
+ */
+
+import { ARGON2ID_INTERACTIVE_PARAMS, Argon2idParams, deriveArgon2idKey } from './passwordKdf'
+
+const CURRENT_ENVELOPE_VERSION = 1
+const LEGACY_PBKDF2_ITERATIONS = 100000
+const PRF_ENVELOPE_INFO = 'Cipherlink-Vault-PRF-v1'
+const OPAQUE_ENVELOPE_INFO = 'Cipherlink-Vault-OPAQUE-v1'
+
+export type KeyEnvelopeKdf =
+  | ({ id: 'argon2id'; salt: string } & Argon2idParams)
+  | { id: 'pbkdf2-sha256'; iterations: number; salt: string }
+  | { id: 'vault-key' }
+  | { id: 'webauthn-prf'; credentialId: string; salt: string }
+  | { id: 'opaque-export-key'; salt: string }
+
+export interface KeyEnvelope {
+  version: number
+  kdf: KeyEnvelopeKdf
+  aead: 'aes-256-gcm'
+  iv: string
+  ciphertext: string
+}
+
+function toBase64(bytes: Uint8Array): string {
+  // Ratchet states with many skipped keys would overflow String.fromCharCode(...bytes)
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary)
+}
+
+function fromBase64(base64: string) {
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0))
+}
+
+async function derivePbkdf2Key(password: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const passwordKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  )
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    passwordKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * Derive the wrapping key an envelope with these KDF settings was sealed with
+ */
+export async function deriveEnvelopeKey(kdf: KeyEnvelopeKdf, password: string): Promise<CryptoKey> {
+  if (kdf.id === 'argon2id') {
+    return deriveArgon2idKey(password, fromBase64(kdf.salt), kdf)
+  }
+  if (kdf.id === 'pbkdf2-sha256' && kdf.iterations >= LEGACY_PBKDF2_ITERATIONS) {
+    return derivePbkdf2Key(password, fromBase64(kdf.salt), kdf.iterations)
+  }
+  throw new Error(`Unsupported key envelope KDF: ${kdf.id}`)
+}
+
+// For secrets that are already uniformly random, where HKDF only binds them to one use
+async function deriveHkdfEnvelopeKey(secret: Uint8Array<ArrayBuffer>, salt: string, info: string): Promise<CryptoKey> {
+  const keyMaterial = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', salt: fromBase64(salt), info: new TextEncoder().encode(info), hash: 'SHA-256' },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * Derive the wrapping key of a passkey envelope from the PRF output the authenticator
+ * returned for `kdf.salt`
+ */
+export function derivePrfEnvelopeKey(
+  kdf: Extract<KeyEnvelopeKdf, { id: 'webauthn-prf' }>,
+  prfOutput: Uint8Array<ArrayBuffer>
+): Promise<CryptoKey> {
+  return deriveHkdfEnvelopeKey(prfOutput, kdf.salt, PRF_ENVELOPE_INFO)
+}
+
+/**
+ * Derive the wrapping key of an export key envelope from the OPAQUE export key, which
+ * stays the same for every login until the password changes
+ */
+export function deriveExportKeyEnvelopeKey(
+  kdf: Extract<KeyEnvelopeKdf, { id: 'opaque-export-key' }>,
+  exportKey: Uint8Array<ArrayBuffer>
+): Promise<CryptoKey> {
+  return deriveHkdfEnvelopeKey(exportKey, kdf.salt, OPAQUE_ENVELOPE_INFO)
+}
+
+/**
+ * KDF settings for a new export key envelope, with a fresh salt
+ */
+export function newExportKeyEnvelopeKdf(): Extract<KeyEnvelopeKdf, { id: 'opaque-export-key' }> {
+  return { id: 'opaque-export-key', salt: toBase64(crypto.getRandomValues(new Uint8Array(16))) }
+}
+
+/**
+ * KDF settings for a new envelope, with a fresh salt
+ */
+export function newEnvelopeKdf(): KeyEnvelopeKdf {
+  return { id: 'argon2id', salt: toBase64(crypto.getRandomValues(new Uint8Array(16))), ...ARGON2ID_INTERACTIVE_PARAMS }
+}
+
+function envelopeAssociatedData(envelope: Pick<KeyEnvelope, 'version' | 'kdf' | 'aead'>) {
+  return new TextEncoder().encode(JSON.stringify({
+    version: envelope.version,
+    kdf: envelope.kdf,
+    aead: envelope.aead,
+  }))
+}
+
+/**
+ * Seal with an already derived wrapping key, or with the vault key when `kdf` is
+ * `{ id: 'vault-key' }`
+ */
+export async function sealWithEnvelopeKey(
+  data: Uint8Array<ArrayBuffer>,
+  key: CryptoKey,
+  kdf: KeyEnvelopeKdf
+): Promise<KeyEnvelope> {
+  const header = { version: CURRENT_ENVELOPE_VERSION, kdf, aead: 'aes-256-gcm' as const }
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: envelopeAssociatedData(header) },
+    key,
+    data
+  )
+  return { ...header, iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) }
+}
+
+export async function sealKeyEnvelope(data: Uint8Array<ArrayBuffer>, password: string): Promise<KeyEnvelope> {
+  const kdf = newEnvelopeKdf()
+  return sealWithEnvelopeKey(data, await deriveEnvelopeKey(kdf, password), kdf)
+}
+
+export async function openWithEnvelopeKey(envelope: KeyEnvelope, key: CryptoKey): Promise<Uint8Array<ArrayBuffer>> {
+  if (envelope.aead !== 'aes-256-gcm') {
+    throw new Error(`Unsupported key envelope AEAD: ${envelope.aead}`)
+  }
+  if (envelope.version > CURRENT_ENVELOPE_VERSION) {
+    throw new Error(`Key envelope version ${envelope.version} is newer than this app`)
+  }
+
+  const decrypted = await crypto.subtle.decrypt(
+    envelope.version === 0
+      ? { name: 'AES-GCM', iv: fromBase64(envelope.iv) }
+      : { name: 'AES-GCM', iv: fromBase64(envelope.iv), additionalData: envelopeAssociatedData(envelope) },
+    key,
+    fromBase64(envelope.ciphertext)
+  )
+  return new Uint8Array(decrypted)
+}
+
+/**
+ * Decrypt an envelope with the password. Throws an OperationError if the password is wrong.
+ */
+export async function openKeyEnvelope(envelope: KeyEnvelope, password: string): Promise<Uint8Array<ArrayBuffer>> {
+  return openWithEnvelopeKey(envelope, await deriveEnvelopeKey(envelope.kdf, password))
+}
+
+/**
+ * Describe a record written before envelopes (base64 iv || ciphertext and a PBKDF2 salt)
+ */
+export function legacyKeyEnvelope(encrypted: string, salt: string): KeyEnvelope {
+  const combined = fromBase64(encrypted)
+  return {
+    version: 0,
+    kdf: { id: 'pbkdf2-sha256', iterations: LEGACY_PBKDF2_ITERATIONS, salt },
+    aead: 'aes-256-gcm',
+    iv: toBase64(combined.slice(0, 12)),
+    ciphertext: toBase64(combined.slice(12)),
+  }
+}
+
+export function isVaultKeyEnvelope(envelope: KeyEnvelope): boolean {
+  return envelope.version >= CURRENT_ENVELOPE_VERSION && envelope.kdf.id === 'vault-key'
+}
+
+/**
+ * Whether a password envelope should be re-sealed with the current KDF after it is opened
+ */
+export function isOutdatedKeyEnvelope(envelope: KeyEnvelope): boolean {
+  if (envelope.version < CURRENT_ENVELOPE_VERSION || envelope.kdf.id !== 'argon2id') return true
+  return (
+    envelope.kdf.memoryKiB < ARGON2ID_INTERACTIVE_PARAMS.memoryKiB ||
+    envelope.kdf.iterations < ARGON2ID_INTERACTIVE_PARAMS.iterations
+  )
+}
@@ -1,13 +1,158 @@
+import {
+  deriveSharedSecret,
+  exportKey,
+  generateKeyAgreementKeyPair,
+  importKeyAgreementPublicKey,
+  negotiateKeyAgreementCurve,
+  signWithIdentityKey,
+  verifyIdentitySignature,
+} from './keyAlgorithms'
+
 export interface KeyExchangeMessage {
   type: 'initiate' | 'response' | 'confirm'
+  exchangeId?: string
   fromUserId: string
   toUserId: string
   publicKey: string
   signature?: string
   timestamp: number
+  version?: number
   confirmationHash?: string
 }
 
+// Session key derivation versions
+// 1: zero salt, sorted user IDs as info (exchanges signed without a version)
+// 2: transcript hash as salt - ephemeral keys, exchange ID and version
+// 3: as 2, and the Double Ratchet is seeded with the transcript hash as well
+export const LEGACY_KEY_DERIVATION_VERSION = 1
+export const TRANSCRIPT_KEY_DERIVATION_VERSION = 2
+export const KEY_DERIVATION_VERSION = 3
+
+// Signed handshake messages older than this are rejected (matches the server's EXCHANGE_TTL)
+export const KEY_EXCHANGE_MAX_AGE = 5 * 60 * 1000
+
+// Tolerated clock difference between the two peers
+export const KEY_EXCHANGE_CLOCK_SKEW = 2 * 60 * 1000
+
+/**
+ * Base class for key exchange failures that must be shown to the user
+ * rather than just logged
+ */
+export class KeyExchangeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'KeyExchangeError'
+  }
+}
+
+export class MissingSignatureError extends KeyExchangeError {
+  constructor(type: string) {
+    super(`The ${type} message of this key exchange is not signed. The key exchange was aborted.`)
+    this.name = 'MissingSignatureError'
+  }
+}
+
+export class InvalidSignatureError extends KeyExchangeError {
+  constructor(type: string) {
+    super(`Signature invalid on the ${type} message — possible man-in-the-middle attack. The key exchange was aborted.`)
+    this.name = 'InvalidSignatureError'
+  }
+}
+
+export class StaleKeyExchangeError extends KeyExchangeError {
+  constructor(type: string) {
+    super(`The ${type} message of this key exchange is too old or has a timestamp in the future. The key exchange was aborted.`)
+    this.name = 'StaleKeyExchangeError'
+  }
+}
+
+/**
+ * The fields covered by a handshake signature
+ */
+export interface SignedKeyExchangeFields {
+  type: 'initiate' | 'response'
+  exchangeId?: string
+  fromUserId: string
+  toUserId: string
+  publicKey: string
+  timestamp: number
+  version?: number
+}
+
+/**
+ * Canonical bytes that are signed for a handshake message
+ * Versioned messages sign a fixed key order including the exchange ID. Unversioned
+ * (legacy) messages keep their original payload so they can still be verified.
+ */
+export function keyExchangeSignaturePayload(fields: SignedKeyExchangeFields) {
+  if (fields.version === undefined) {
+    return new TextEncoder().encode(JSON.stringify({
+      type: fields.type,
+      fromUserId: fields.fromUserId,
+      toUserId: fields.toUserId,
+      publicKey: fields.publicKey,
+      timestamp: fields.timestamp,
+    }))
+  }
+
+  if (!fields.exchangeId) {
+    throw new KeyExchangeError(`The ${fields.type} message of this key exchange has no exchange ID. The key exchange was aborted.`)
+  }
+
+  return new TextEncoder().encode(JSON.stringify({
+    type: fields.type,
+    version: fields.version,
+    exchangeId: fields.exchangeId,
+    fromUserId: fields.fromUserId,
+    toUserId: fields.toUserId,
+    publicKey: fields.publicKey,
+    timestamp: fields.timestamp,
+  }))
+}
+
+export async function signKeyExchange(fields: SignedKeyExchangeFields, myPrivateKey: CryptoKey): Promise<string> {
+  return signWithIdentityKey(myPrivateKey, keyExchangeSignaturePayload(fields))
+}
+
+/**
+ * Verify a handshake signature and the freshness of its timestamp
+ * There is no unsigned path: a missing signature is an error like an invalid one.
+ *
+ * @throws MissingSignatureError, StaleKeyExchangeError or InvalidSignatureError
+ */
+export async function verifyKeyExchangeSignature(
+  fields: SignedKeyExchangeFields,
+  signature: string | undefined,
+  senderPublicKey: CryptoKey,
+  now: number = Date.now()
+): Promise<void> {
+  if (!signature) {
+    console.error('[KEY EXCHANGE] Missing signature on', fields.type, 'message from', fields.fromUserId)
+    throw new MissingSignatureError(fields.type)
+  }
+
+  if (
+    !Number.isFinite(fields.timestamp) ||
+    now - fields.timestamp > KEY_EXCHANGE_MAX_AGE + KEY_EXCHANGE_CLOCK_SKEW ||
+    fields.timestamp - now > KEY_EXCHANGE_CLOCK_SKEW
+  ) {
+    console.error('[KEY EXCHANGE] Stale', fields.type, 'message:', { timestamp: fields.timestamp, now })
+    throw new StaleKeyExchangeError(fields.type)
+  }
+
+  const isValid = await verifyIdentitySignature(senderPublicKey, signature, keyExchangeSignaturePayload(fields))
+  if (!isValid) {
+    console.error('[KEY EXCHANGE] Invalid signature on', fields.type, 'message:', {
+      exchangeId: fields.exchangeId,
+      fromUserId: fields.fromUserId,
+      toUserId: fields.toUserId,
+    })
+    throw new InvalidSignatureError(fields.type)
+  }
+
+  console.log('[KEY EXCHANGE] Signature verified for', fields.type, 'message')
+}
+
 export interface SessionKey {
   key: CryptoKey
   userId: string
@@ -23,47 +168,30 @@ export async function initiateKeyExchange(
   myPrivateKey: CryptoKey,
   myUserId: string
 ): Promise<KeyExchangeMessage> {
-  const ecdhKeyPair = await crypto.subtle.generateKey(
-    {
-      name: 'ECDH',
-      namedCurve: 'P-256',
-    },
-    true,
-    ['deriveKey', 'deriveBits']
-  )
+  const ecdhKeyPair = await generateKeyAgreementKeyPair(negotiateKeyAgreementCurve(myPrivateKey, recipientPublicKey))
 
-  const publicKeyBuffer = await crypto.subtle.exportKey('spki', ecdhKeyPair.publicKey)
+  const publicKeyBuffer = await exportKey('spki', ecdhKeyPair.publicKey)
   const publicKeyBase64 = btoa(String.fromCharCode(...new Uint8Array(publicKeyBuffer)))
 
   const message: KeyExchangeMessage = {
     type: 'initiate',
+    exchangeId: crypto.randomUUID(),
     fromUserId: myUserId,
     toUserId: recipientId,
     publicKey: publicKeyBase64,
     timestamp: Date.now(),
+    version: KEY_DERIVATION_VERSION,
   }
 
-  const messageData = JSON.stringify({
-    type: message.type,
+  message.signature = await signKeyExchange({
+    type: 'initiate',
+    exchangeId: message.exchangeId,
     fromUserId: message.fromUserId,
     toUserId: message.toUserId,
     publicKey: message.publicKey,
     timestamp: message.timestamp,
-  })
-
-  const encoder = new TextEncoder()
-  const messageBytes = encoder.encode(messageData)
-
-  const signature = await crypto.subtle.sign(
-    {
-      name: 'RSA-PSS',
-      saltLength: 32,
-    },
-    myPrivateKey,
-    messageBytes
-  )
-
-  message.signature = btoa(String.fromCharCode(...new Uint8Array(signature)))
+    version: message.version,
+  }, myPrivateKey)
 
   return message
 }
@@ -72,100 +200,92 @@ export async function handleKeyExchangeResponse(
   response: KeyExchangeMessage,
   myPrivateKey: CryptoKey,
   senderPublicKey: CryptoKey,
-  myEcdhPrivateKey: CryptoKey
+  myEcdhPrivateKey: CryptoKey,
+  transcript: HandshakeTranscript | null = null
 ): Promise<CryptoKey> {
-  const messageData = JSON.stringify({
+  if (response.type !== 'response') {
+    throw new KeyExchangeError(`Expected a key exchange response, got ${response.type}`)
+  }
+
+  await verifyKeyExchangeSignature({
     type: response.type,
+    exchangeId: response.exchangeId,
     fromUserId: response.fromUserId,
     toUserId: response.toUserId,
     publicKey: response.publicKey,
     timestamp: response.timestamp,
-  })
-
-  console.log('[KEY EXCHANGE] Verifying signature for message:', messageData)
-
-  const encoder = new TextEncoder()
-  const messageBytes = encoder.encode(messageData)
-
-  if (response.signature) {
-    const signatureBytes = Uint8Array.from(atob(response.signature), c => c.charCodeAt(0))
-    console.log('[KEY EXCHANGE] Signature bytes length:', signatureBytes.length)
-    
-    try {
-      const isValid = await crypto.subtle.verify(
-        {
-          name: 'RSA-PSS',
-          saltLength: 32,
-        },
-        senderPublicKey,
-        signatureBytes,
-        messageBytes
-      )
-
-      if (!isValid) {
-        console.error('[KEY EXCHANGE] Signature verification returned false')
-        console.error('[KEY EXCHANGE] Message data:', messageData)
-        console.error('[KEY EXCHANGE] From user:', response.fromUserId)
-        console.error('[KEY EXCHANGE] To user:', response.toUserId)
-        throw new Error('Invalid signature in key exchange response')
-      }
-      console.log('[KEY EXCHANGE] Signature verified successfully')
-    } catch (verifyError: any) {
-      console.error('[KEY EXCHANGE] Signature verification error:', verifyError)
-      throw new Error(`Signature verification failed: ${verifyError.message}`)
-    }
-  }
-
-  const senderEcdhPublicKeyBuffer = Uint8Array.from(atob(response.publicKey), c => c.charCodeAt(0))
-  const senderEcdhPublicKey = await crypto.subtle.importKey(
-    'spki',
-    senderEcdhPublicKeyBuffer,
-    {
-      name: 'ECDH',
-      namedCurve: 'P-256',
-    },
-    false,
-    []
-  )
+    version: response.version,
+  }, response.signature, senderPublicKey)
 
-  const sharedSecret = await crypto.subtle.deriveBits(
-    {
-      name: 'ECDH',
-      public: senderEcdhPublicKey,
-    },
-    myEcdhPrivateKey,
-    256
-  )
+  const senderEcdhPublicKey = await importKeyAgreementPublicKey(response.publicKey)
+  const sharedSecret = await deriveSharedSecret(myEcdhPrivateKey, senderEcdhPublicKey)
 
   // Pass both user IDs to ensure both users derive the same session key
   const sessionKey = await deriveSessionKey(
-    sharedSecret, 
-    response.publicKey, 
+    sharedSecret,
+    transcript,
     response.toUserId, // myUserId (the one receiving the response)
     response.fromUserId // otherUserId (the one who sent the response)
   )
   return sessionKey
 }
 
+/**
+ * SHA-256 over the canonical handshake transcript
+ * The transcript uses initiator/responder roles rather than "mine"/"theirs", so both
+ * peers hash the same bytes
+ */
+export async function hashHandshakeTranscript(transcript: HandshakeTranscript): Promise<ArrayBuffer> {
+  const data = JSON.stringify({
+    protocol: 'Cipherlink-Handshake',
+    version: transcript.version,
+    exchangeId: transcript.exchangeId,
+    initiatorId: transcript.initiatorId,
+    responderId: transcript.responderId,
+    initiatorPublicKey: transcript.initiatorPublicKey,
+    responderPublicKey: transcript.responderPublicKey,
+  })
+  return crypto.subtle.digest('SHA-256', new TextEncoder().encode(data))
+}
+
+/**
+ * Derive the AES-GCM session key from the ECDH shared secret
+ *
+ * The derivation version comes from the transcript. Versions 2 and 3 use the transcript
+ * hash as HKDF salt, so every exchange yields a distinct key bound to the signed handshake.
+ * Without a transcript (or for version 1 exchanges) the legacy derivation is used so
+ * sessions from before the migration can still be re-established.
+ */
 export async function deriveSessionKey(
   sharedSecret: ArrayBuffer,
-  otherPublicKey: string,
+  transcript: HandshakeTranscript | null,
   myUserId: string,
   otherUserId?: string
 ): Promise<CryptoKey> {
   const encoder = new TextEncoder()
-  
-  // Both users must derive the same key, so we ONLY use sorted user IDs
-  // We do NOT include the ECDH public key because it's different for each exchange direction
-  // Both users derive from the same shared secret (ECDH is commutative), so using only
-  // sorted user IDs ensures they get the same session key
-  let info: Uint8Array
-  if (otherUserId) {
+  const version = transcript?.version ?? LEGACY_KEY_DERIVATION_VERSION
+
+  let salt: BufferSource = new Uint8Array(32)
+  let info: BufferSource
+  if (version >= TRANSCRIPT_KEY_DERIVATION_VERSION && version <= KEY_DERIVATION_VERSION && transcript) {
+    const sortedIds = [transcript.initiatorId, transcript.responderId].sort()
+    const infoString = `Cipherlink-Session-Key-v${version}-${sortedIds[0]}-${sortedIds[1]}`
+    salt = await hashHandshakeTranscript(transcript)
+    info = encoder.encode(infoString)
+    console.log('[KEY EXCHANGE] Deriving session key with:', {
+      version,
+      exchangeId: transcript.exchangeId,
+      infoString,
+      sharedSecretLength: sharedSecret.byteLength
+    })
+  } else if (version !== LEGACY_KEY_DERIVATION_VERSION) {
+    throw new Error(`Unsupported key derivation version: ${version}`)
+  } else if (otherUserId) {
+    // Legacy: both users derive the same key from sorted user IDs only
     const sortedIds = [myUserId, otherUserId].sort()
-    // Only use sorted user IDs - no ECDH public key to ensure consistency
     const infoString = `Cipherlink-Session-Key-${sortedIds[0]}-${sortedIds[1]}`
     info = encoder.encode(infoString)
-    console.log('[KEY EXCHANGE] Deriving session key with:', {
+    console.log('[KEY EXCHANGE] Deriving legacy session key with:', {
       myUserId,
       otherUserId,
       sortedIds,
@@ -189,8 +309,8 @@ export async function deriveSessionKey(
   return crypto.subtle.deriveKey(
     {
       name: 'HKDF',
-      salt: new Uint8Array(32),
-      info: info,
+      salt,
+      info,
       hash: 'SHA-256',
     },
     keyMaterial,
@@ -203,18 +323,91 @@ export async function deriveSessionKey(
   )
 }
 
+/**
+ * Everything both peers saw during the handshake. Key confirmation MACs are computed
+ * over this, so a confirmation only verifies if both sides agree on every field.
+ */
+export interface HandshakeTranscript {
+  version: number
+  exchangeId: string
+  initiatorId: string
+  responderId: string
+  initiatorPublicKey: string
+  responderPublicKey: string
+}
+
+async function deriveKeyConfirmationKey(sharedSecret: ArrayBuffer): Promise<CryptoKey> {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    sharedSecret,
+    'HKDF',
+    false,
+    ['deriveKey']
+  )
+
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      salt: new Uint8Array(32),
+      info: new TextEncoder().encode('Cipherlink-Key-Confirmation-v1'),
+      hash: 'SHA-256',
+    },
+    keyMaterial,
+    {
+      name: 'HMAC',
+      hash: 'SHA-256',
+      length: 256,
+    },
+    false,
+    ['sign']
+  )
+}
+
+/**
+ * HMAC-SHA256 over the handshake transcript, keyed from the ECDH shared secret
+ * The confirmer's ID is part of the input, so one peer's MAC cannot be reflected back
+ */
+export async function computeKeyConfirmation(
+  sharedSecret: ArrayBuffer,
+  transcript: HandshakeTranscript,
+  confirmerId: string
+): Promise<string> {
+  const confirmationKey = await deriveKeyConfirmationKey(sharedSecret)
+  const data = JSON.stringify({
+    type: 'key-confirmation',
+    confirmerId,
+    version: transcript.version,
+    exchangeId: transcript.exchangeId,
+    initiatorId: transcript.initiatorId,
+    responderId: transcript.responderId,
+    initiatorPublicKey: transcript.initiatorPublicKey,
+    responderPublicKey: transcript.responderPublicKey,
+  })
+
+  const mac = await crypto.subtle.sign('HMAC', confirmationKey, new TextEncoder().encode(data))
+  return btoa(String.fromCharCode(...new Uint8Array(mac)))
+}
+
+/**
+ * Constant-time comparison of two base64 confirmation MACs
+ */
+export function keyConfirmationsMatch(received: string, expected: string): boolean {
+  if (received.length !== expected.length) return false
+
+  let diff = 0
+  for (let i = 0; i < received.length; i++) {
+    diff |= received.charCodeAt(i) ^ expected.charCodeAt(i)
+  }
+  return diff === 0
+}
+
 export async function sendKeyConfirmation(
-  sessionKey: CryptoKey,
-  recipientId: string,
-  myUserId: string
+  sharedSecret: ArrayBuffer,
+  transcript: HandshakeTranscript,
+  myUserId: string,
+  recipientId: string
 ): Promise<KeyExchangeMessage> {
-  const confirmation = `KEY-CONFIRMED-${myUserId}-${recipientId}-${Date.now()}`
-  const encoder = new TextEncoder()
-  const confirmationBytes = encoder.encode(confirmation)
-
-  const hashBuffer = await crypto.subtle.digest('SHA-256', confirmationBytes)
-  const hashArray = new Uint8Array(hashBuffer)
-  const confirmationHash = btoa(String.fromCharCode(...hashArray))
+  const confirmationHash = await computeKeyConfirmation(sharedSecret, transcript, myUserId)
 
   return {
     type: 'confirm',
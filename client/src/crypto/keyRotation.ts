@@ -0,0 +1,101 @@
+/**
+ * Identity key rotation
+ *
+ * A user replaces their identity key by signing a rotation statement for the
+ * new key with the old one. The server keeps every key with its creation and
+ * revocation time, so a contact who pinned any earlier key can walk the chain of
+ * signatures forward to the current key instead of having to trust it blindly.
+ */
+
+import { IdentityKeyAlgorithm, importIdentityPublicKey, signWithIdentityKey, verifyIdentitySignature } from './keyAlgorithms'
+
+export interface IdentityKeyRecord {
+  publicKey: string
+  algorithm: IdentityKeyAlgorithm
+  createdAt: number
+  revokedAt: number | null
+  // Signature by the previous key over the rotation statement; null for the first key
+  rotationSignature: string | null
+}
+
+export interface KeyRotationFields {
+  userId: string
+  previousPublicKey: string
+  publicKey: string
+  timestamp: number
+}
+
+/**
+ * Canonical bytes of a rotation statement; must match the server's payload
+ */
+export function keyRotationPayload(fields: KeyRotationFields) {
+  return new TextEncoder().encode(JSON.stringify({
+    type: 'identity-key-rotation',
+    userId: fields.userId,
+    previousPublicKey: fields.previousPublicKey,
+    publicKey: fields.publicKey,
+    timestamp: fields.timestamp,
+  }))
+}
+
+/**
+ * Sign a rotation statement with the key that is being replaced
+ */
+export async function signKeyRotation(fields: KeyRotationFields, previousPrivateKey: CryptoKey): Promise<string> {
+  return signWithIdentityKey(previousPrivateKey, keyRotationPayload(fields))
+}
+
+async function verifyKeyRotation(fields: KeyRotationFields, signature: string): Promise<boolean> {
+  try {
+    const previousKey = await importIdentityPublicKey(fields.previousPublicKey)
+    return await verifyIdentitySignature(previousKey, signature, keyRotationPayload(fields))
+  } catch (error) {
+    console.error('[KEY ROTATION] Rotation signature verification error:', error)
+    return false
+  }
+}
+
+/**
+ * Check that `history` leads from `trustedPublicKey` to `currentPublicKey` through an
+ * unbroken chain of rotations, each signed by the key it revoked
+ */
+export async function verifyKeyRotationChain(
+  userId: string,
+  history: IdentityKeyRecord[],
+  trustedPublicKey: string,
+  currentPublicKey: string
+): Promise<boolean> {
+  const start = history.findIndex(record => record.publicKey === trustedPublicKey)
+  if (start === -1) {
+    console.warn('[KEY ROTATION] Trusted key of', userId, 'is not in its key history')
+    return false
+  }
+
+  const last = history[history.length - 1]
+  if (last.publicKey !== currentPublicKey || last.revokedAt !== null) {
+    console.warn('[KEY ROTATION] Key history of', userId, 'does not end at the current key')
+    return false
+  }
+
+  for (let i = start + 1; i < history.length; i++) {
+    const previous = history[i - 1]
+    const record = history[i]
+    if (!record.rotationSignature || previous.revokedAt === null || previous.revokedAt > record.createdAt) {
+      console.warn('[KEY ROTATION] Malformed rotation at position', i, 'in key history of', userId)
+      return false
+    }
+
+    const valid = await verifyKeyRotation({
+      userId,
+      previousPublicKey: previous.publicKey,
+      publicKey: record.publicKey,
+      timestamp: record.createdAt,
+    }, record.rotationSignature)
+    if (!valid) {
+      console.error('[KEY ROTATION] Invalid rotation signature at position', i, 'in key history of', userId)
+      return false
+    }
+  }
+
+  return true
+}
@@ -0,0 +1,147 @@
+/**
+ * Key transparency proof verification
+ *
+ * The server appends every identity key registration and rotation to a Merkle tree
+ * log (RFC 9162 hashing). An inclusion proof shows that the key we were served is in
+ * the log, and a consistency proof shows that the log we see now extends the one we
+ * saw before, so the server cannot rewrite history or show different users different
+ * keys without it becoming detectable.
+ */
+
+import { KeyExchangeError } from './keyExchange'
+
+export interface KeyLogEntry {
+  index: number
+  userId: string
+  publicKey: string
+  action: 'register' | 'rotate'
+  timestamp: number
+  leafHash: string
+}
+
+export interface KeyLogHead {
+  treeSize: number
+  rootHash: string
+}
+
+export class KeyTransparencyError extends KeyExchangeError {
+  constructor(message: string) {
+    super(`Key transparency check failed: ${message}. The key exchange was aborted.`)
+    this.name = 'KeyTransparencyError'
+  }
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(buffer)))
+}
+
+function fromBase64(base64: string) {
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0))
+}
+
+async function sha256(prefix: number, ...parts: Uint8Array[]): Promise<string> {
+  const length = parts.reduce((total, part) => total + part.length, 1)
+  const data = new Uint8Array(length)
+  data[0] = prefix
+  let offset = 1
+  for (const part of parts) {
+    data.set(part, offset)
+    offset += part.length
+  }
+  return toBase64(await crypto.subtle.digest('SHA-256', data))
+}
+
+function hashNode(left: string, right: string): Promise<string> {
+  return sha256(0x01, fromBase64(left), fromBase64(right))
+}
+
+/**
+ * Recompute the leaf hash from the entry's fields; must match the server's canonical form
+ */
+export function hashLogEntry(entry: KeyLogEntry): Promise<string> {
+  const data = JSON.stringify({
+    index: entry.index,
+    userId: entry.userId,
+    publicKey: entry.publicKey,
+    action: entry.action,
+    timestamp: entry.timestamp,
+  })
+  return sha256(0x00, new TextEncoder().encode(data))
+}
+
+/**
+ * RFC 9162 section 2.1.3.2: verify that a leaf is at `index` in the tree with `rootHash`
+ */
+export async function verifyInclusion(
+  leafHash: string,
+  index: number,
+  treeSize: number,
+  proof: string[],
+  rootHash: string
+): Promise<boolean> {
+  if (index >= treeSize) return false
+
+  let fn = index
+  let sn = treeSize - 1
+  let r = leafHash
+  for (const p of proof) {
+    if (sn === 0) return false
+    if (fn % 2 === 1 || fn === sn) {
+      r = await hashNode(p, r)
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2)
+        sn = Math.floor(sn / 2)
+      }
+    } else {
+      r = await hashNode(r, p)
+    }
+    fn = Math.floor(fn / 2)
+    sn = Math.floor(sn / 2)
+  }
+  return sn === 0 && r === rootHash
+}
+
+/**
+ * RFC 9162 section 2.1.4.2: verify that the tree `first` is a prefix of the tree `second`
+ */
+export async function verifyConsistency(
+  first: KeyLogHead,
+  second: KeyLogHead,
+  proof: string[]
+): Promise<boolean> {
+  if (first.treeSize > second.treeSize) return false
+  if (first.treeSize === 0) return true
+  if (first.treeSize === second.treeSize) {
+    return proof.length === 0 && first.rootHash === second.rootHash
+  }
+  if (proof.length === 0) return false
+
+  // A power-of-two sized first tree is a complete subtree, so its root starts the path
+  const path = (first.treeSize & (first.treeSize - 1)) === 0 ? [first.rootHash, ...proof] : proof
+
+  let fn = first.treeSize - 1
+  let sn = second.treeSize - 1
+  while (fn % 2 === 1) {
+    fn = Math.floor(fn / 2)
+    sn = Math.floor(sn / 2)
+  }
+
+  let fr = path[0]
+  let sr = path[0]
+  for (const c of path.slice(1)) {
+    if (sn === 0) return false
+    if (fn % 2 === 1 || fn === sn) {
+      fr = await hashNode(c, fr)
+      sr = await hashNode(c, sr)
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2)
+        sn = Math.floor(sn / 2)
+      }
+    } else {
+      sr = await hashNode(sr, c)
+    }
+    fn = Math.floor(fn / 2)
+    sn = Math.floor(sn / 2)
+  }
+  return sn === 0 && fr === first.rootHash && sr === second.rootHash
+}
@@ -1,3 +1,9 @@
+import type { RatchetHeader } from './doubleRatchet'
+import type { PreKeyHeader } from './x3dh'
+import type { DeviceCopy } from './deviceKeys'
+import { MessagePayload, decodeMessagePayload, encodeMessagePayload } from './messagePayload'
+import { AAD_PROTOCOL_VERSION, MessageParties, encodeAdditionalData } from './additionalData'
+
 export interface EncryptedMessage {
   ciphertext: string
   iv: string
@@ -5,6 +11,21 @@ export interface EncryptedMessage {
   timestamp: number
   sequenceNumber: number
   nonce: string
+  // Protocol version of the additional data; absent on messages from before it was bound
+  version?: number
+  ratchetHeader?: RatchetHeader
+  preKeyHeader?: PreKeyHeader
+  senderDeviceId?: string
+  deviceCopies?: DeviceCopy[]
+}
+
+// Sent from a linked device, which has no ratchet session: only per-device copies
+export interface DeviceCopiesMessage {
+  timestamp: number
+  sequenceNumber: number
+  nonce: string
+  senderDeviceId: string
+  deviceCopies: DeviceCopy[]
 }
 
 // Per-conversation sequence counters for replay protection
@@ -47,6 +68,26 @@ function validateNonce(nonce: string): boolean {
   return nonce.length >= 16 && /^[A-Za-z0-9+/]+=*$/.test(nonce)
 }
 
+/**
+ * Additional data of a message: the parties, the replay protection fields and the
+ * ratchet header, which are all sent in the clear
+ */
+function messageAdditionalData(
+  version: number,
+  parties: MessageParties,
+  fields: Pick<EncryptedMessage, 'timestamp' | 'sequenceNumber' | 'nonce' | 'ratchetHeader'>
+): BufferSource {
+  const header = fields.ratchetHeader
+  return encodeAdditionalData('message', version, parties, [
+    fields.timestamp,
+    fields.sequenceNumber,
+    fields.nonce,
+    header ? header.dh : null,
+    header ? header.pn : null,
+    header ? header.n : null,
+  ])
+}
+
 /**
  * Encrypt a message using AES-GCM with comprehensive replay protection
  * 
@@ -54,19 +95,25 @@ function validateNonce(nonce: string): boolean {
  * 1. NONCE: Cryptographically random, unique per message
  * 2. TIMESTAMP: Current time, validated server-side (5 min window)
  * 3. SEQUENCE NUMBER: Monotonically increasing per conversation
+ *
+ * All three, the sender and recipient and the ratchet header are authenticated as
+ * additional data, so the server cannot change them without decryption failing.
  * 
- * @param message - The plaintext message to encrypt
- * @param sessionKey - The AES-GCM session key
- * @param conversationId - Unique identifier for the conversation
+ * @param payload - The message payload to encrypt
+ * @param sessionKey - The AES-GCM key (a ratchet message key, or the legacy session key)
+ * @param parties - Sender and recipient user IDs
+ * @param ratchetHeader - Double Ratchet header, sent in the clear alongside the ciphertext
  * @returns Encrypted message with replay protection metadata
  */
 export async function encryptMessage(
-  message: string,
+  payload: MessagePayload,
   sessionKey: CryptoKey,
-  conversationId: string
+  parties: MessageParties,
+  ratchetHeader?: RatchetHeader
 ): Promise<EncryptedMessage> {
   const encoder = new TextEncoder()
-  const messageBytes = encoder.encode(message)
+  const messageBytes = encoder.encode(encodeMessagePayload(payload))
+  const conversationId = `${parties.senderId}-${parties.recipientId}`
 
   // Generate replay protection parameters
   const iv = crypto.getRandomValues(new Uint8Array(12)) // 96-bit IV for AES-GCM
@@ -90,6 +137,7 @@ export async function encryptMessage(
       name: 'AES-GCM',
       iv: iv,
       tagLength: 128, // 128-bit authentication tag
+      additionalData: messageAdditionalData(AAD_PROTOCOL_VERSION, parties, { timestamp, sequenceNumber, nonce, ratchetHeader }),
     },
     sessionKey,
     messageBytes
@@ -107,20 +155,37 @@ export async function encryptMessage(
     timestamp,
     sequenceNumber,
     nonce,
+    version: AAD_PROTOCOL_VERSION,
+    ...(ratchetHeader && { ratchetHeader }),
   }
 }
 
+/**
+ * Replay protection fields for a message that only carries device copies. The
+ * nonce is generated first because every copy authenticates it.
+ */
+export function createReplayProtectionFields(conversationId: string): Pick<EncryptedMessage, 'timestamp' | 'sequenceNumber' | 'nonce'> {
+  const nonce = generateNonce()
+  if (!validateNonce(nonce)) {
+    throw new Error('Invalid nonce generated')
+  }
+  return { timestamp: Date.now(), sequenceNumber: getSequenceNumber(conversationId), nonce }
+}
+
 /**
  * Decrypt a message and validate replay protection parameters
  * 
  * @param encrypted - The encrypted message with metadata
  * @param sessionKey - The AES-GCM session key
- * @returns Decrypted plaintext message
+ * @param parties - Sender and recipient user IDs as stored by the server
+ * @returns The decrypted payload, checked against its schema (plain-text messages from
+ * before structured payloads come back as version 0 text payloads)
  */
 export async function decryptMessage(
   encrypted: EncryptedMessage,
-  sessionKey: CryptoKey
-): Promise<string> {
+  sessionKey: CryptoKey,
+  parties: MessageParties
+): Promise<MessagePayload> {
   // Validate replay protection fields
   if (!encrypted.nonce || !encrypted.timestamp || !encrypted.sequenceNumber) {
     throw new Error('Missing replay protection fields')
@@ -131,6 +196,13 @@ export async function decryptMessage(
     throw new Error('Invalid nonce format')
   }
 
+  if (encrypted.version !== undefined && encrypted.version !== AAD_PROTOCOL_VERSION) {
+    throw new Error(`Unsupported message protocol version: ${encrypted.version}`)
+  }
+  if (encrypted.version === undefined) {
+    console.warn('[DECRYPT] Message predates metadata authentication, its metadata is unchecked')
+  }
+
   // Validate timestamp (must be within reasonable range)
   const now = Date.now()
   const age = now - encrypted.timestamp
@@ -156,6 +228,7 @@ export async function decryptMessage(
   combined.set(ciphertext, 0)
   combined.set(tag, ciphertext.length)
 
+  let plaintext: string
   try {
     // Decrypt with AES-GCM
     const decrypted = await crypto.subtle.decrypt(
@@ -163,16 +236,18 @@ export async function decryptMessage(
         name: 'AES-GCM',
         iv: iv,
         tagLength: 128,
+        ...(encrypted.version !== undefined && {
+          additionalData: messageAdditionalData(encrypted.version, parties, encrypted),
+        }),
       },
       sessionKey,
       combined
     )
 
     const decoder = new TextDecoder()
-    const plaintext = decoder.decode(decrypted)
+    plaintext = decoder.decode(decrypted)
     
     console.log(`[DECRYPT] ✓ Successfully decrypted message`)
-    return plaintext
   } catch (error: any) {
     console.error('[DECRYPT] Decryption failed:', {
       error: error.message,
@@ -182,6 +257,8 @@ export async function decryptMessage(
     })
     throw new Error(`Failed to decrypt message: ${error.message || 'Invalid key or corrupted data'}`)
   }
+
+  return decodeMessagePayload(plaintext)
 }
 
 /**
@@ -0,0 +1,175 @@
+/**
+ * Structured message payloads
+ *
+ * What is encrypted in a message (and in each device copy) is a versioned JSON payload
+ * rather than the bare text, so messages can carry replies, reactions, edits, attachment
+ * references and receipts. Everything in it is end-to-end encrypted; the server only sees
+ * the ciphertext.
+ *
+ * Version 0 stands for messages from before this format: their plaintext is the text
+ * itself and is decoded as a text payload.
+ */
+
+import { Receipt, MESSAGE_ID_PATTERN, parseLegacyReceipt, validateReceipt } from './receipts'
+
+export const MESSAGE_PAYLOAD_VERSION = 1
+
+export type MessagePayloadType = 'text' | 'reaction' | 'edit' | 'receipt'
+
+// A file sent with fileService; its chunks are fetched and decrypted separately
+export interface PayloadAttachment {
+  fileId: string
+  fileName: string
+  mimeType: string
+  fileSize: number
+}
+
+export interface MessagePayload {
+  v: 0 | typeof MESSAGE_PAYLOAD_VERSION
+  type: MessagePayloadType
+  // Text for 'text' and 'edit', the emoji for 'reaction', empty for 'receipt'
+  body: string
+  // Message this one answers ('text' only)
+  replyTo?: string
+  attachments?: PayloadAttachment[]
+  // Message a reaction or edit applies to
+  target?: string
+  receipt?: Receipt
+  // Sender's clock; null for version 0
+  sentAt: number | null
+}
+
+const MAX_BODY_LENGTH = 64 * 1024
+const MAX_REACTION_LENGTH = 32
+const MAX_ATTACHMENTS = 10
+const MAX_ATTACHMENT_FIELD_LENGTH = 255
+
+export class MessagePayloadError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MessagePayloadError'
+  }
+}
+
+export function textPayload(body: string, options: { replyTo?: string; attachments?: PayloadAttachment[] } = {}): MessagePayload {
+  return { v: MESSAGE_PAYLOAD_VERSION, type: 'text', body, ...options, sentAt: Date.now() }
+}
+
+export function receiptPayload(receipt: Receipt): MessagePayload {
+  return { v: MESSAGE_PAYLOAD_VERSION, type: 'receipt', body: '', receipt, sentAt: Date.now() }
+}
+
+export function encodeMessagePayload(payload: MessagePayload): string {
+  if (payload.v !== MESSAGE_PAYLOAD_VERSION) {
+    throw new MessagePayloadError('Only current payloads can be encoded')
+  }
+  return JSON.stringify(validateMessagePayload(payload as unknown as Record<string, unknown>))
+}
+
+const isMessageId = (value: unknown): value is string =>
+  typeof value === 'string' && MESSAGE_ID_PATTERN.test(value)
+
+function validateAttachment(value: unknown): PayloadAttachment {
+  if (typeof value !== 'object' || value === null) {
+    throw new MessagePayloadError('Attachment is not an object')
+  }
+  const { fileId, fileName, mimeType, fileSize } = value as Record<string, unknown>
+  if (!isMessageId(fileId)) throw new MessagePayloadError('Invalid attachment file ID')
+  if (typeof fileName !== 'string' || fileName.length > MAX_ATTACHMENT_FIELD_LENGTH) {
+    throw new MessagePayloadError('Invalid attachment name')
+  }
+  if (typeof mimeType !== 'string' || mimeType.length > MAX_ATTACHMENT_FIELD_LENGTH) {
+    throw new MessagePayloadError('Invalid attachment type')
+  }
+  if (!Number.isSafeInteger(fileSize) || (fileSize as number) < 0) {
+    throw new MessagePayloadError('Invalid attachment size')
+  }
+  return { fileId, fileName, mimeType, fileSize: fileSize as number }
+}
+
+/**
+ * Check a version 1 payload against the schema
+ *
+ * @returns The payload with only its known fields
+ * @throws MessagePayloadError if a field is missing, has the wrong type or does not fit the payload type
+ */
+function validateMessagePayload(value: Record<string, unknown>): MessagePayload {
+  const { type, body, replyTo, attachments, target, receipt, sentAt } = value
+
+  if (type !== 'text' && type !== 'reaction' && type !== 'edit' && type !== 'receipt') {
+    throw new MessagePayloadError(`Unknown payload type: ${String(type)}`)
+  }
+  if (typeof body !== 'string' || body.length > MAX_BODY_LENGTH) {
+    throw new MessagePayloadError('Invalid payload body')
+  }
+  if (typeof sentAt !== 'number' || !Number.isFinite(sentAt)) {
+    throw new MessagePayloadError('Invalid payload timestamp')
+  }
+
+  const payload: MessagePayload = { v: MESSAGE_PAYLOAD_VERSION, type, body, sentAt }
+
+  if (replyTo !== undefined) {
+    if (type !== 'text' || !isMessageId(replyTo)) throw new MessagePayloadError('Invalid reply reference')
+    payload.replyTo = replyTo
+  }
+  if (attachments !== undefined) {
+    if (type !== 'text' || !Array.isArray(attachments) || attachments.length > MAX_ATTACHMENTS) {
+      throw new MessagePayloadError('Invalid attachments')
+    }
+    payload.attachments = attachments.map(validateAttachment)
+  }
+
+  if (type === 'reaction' || type === 'edit') {
+    if (!isMessageId(target)) throw new MessagePayloadError(`A ${type} needs a target message`)
+    if (type === 'reaction' && (body.length === 0 || body.length > MAX_REACTION_LENGTH)) {
+      throw new MessagePayloadError('Invalid reaction')
+    }
+    payload.target = target
+  } else if (target !== undefined) {
+    throw new MessagePayloadError(`A ${type} payload has no target`)
+  }
+
+  if (type === 'receipt') {
+    const validReceipt = validateReceipt(receipt)
+    if (!validReceipt) throw new MessagePayloadError('Invalid receipt')
+    payload.receipt = validReceipt
+  } else if (receipt !== undefined) {
+    throw new MessagePayloadError(`A ${type} payload has no receipt`)
+  }
+
+  return payload
+}
+
+/**
+ * Decode a decrypted plaintext into a payload
+ *
+ * Only a JSON object with the current version and a payload type is a structured payload,
+ * held to the schema. Anything else is a message from before this format, or text that
+ * happens to be JSON (someone pasting `{"v":2}`), and becomes a version 0 text payload.
+ *
+ * @throws MessagePayloadError for a structured payload that does not match the schema
+ */
+export function decodeMessagePayload(plaintext: string): MessagePayload {
+  const legacyReceipt = parseLegacyReceipt(plaintext)
+  if (legacyReceipt !== undefined) {
+    if (!legacyReceipt) throw new MessagePayloadError('Invalid receipt')
+    return { v: 0, type: 'receipt', body: '', receipt: legacyReceipt, sentAt: null }
+  }
+
+  let decoded: unknown
+  try {
+    decoded = JSON.parse(plaintext)
+  } catch {
+    decoded = null
+  }
+  if (
+    typeof decoded !== 'object' ||
+    decoded === null ||
+    Array.isArray(decoded) ||
+    (decoded as Record<string, unknown>).v !== MESSAGE_PAYLOAD_VERSION ||
+    !('type' in decoded)
+  ) {
+    return { v: 0, type: 'text', body: plaintext, sentAt: null }
+  }
+  return validateMessagePayload(decoded as Record<string, unknown>)
+}
@@ -0,0 +1,73 @@
+/**
+ * Memory-hard key derivation for human-chosen secrets
+ *
+ * Argon2id (RFC 9106) through a WebAssembly build, since WebCrypto only offers PBKDF2.
+ * The parameters are stored next to whatever the derived key protects, so they can be
+ * raised later without breaking existing data.
+ */
+
+import { argon2id } from 'hash-wasm'
+
+export interface Argon2idParams {
+  memoryKiB: number
+  iterations: number
+  parallelism: number
+}
+
+// RFC 9106 second recommended option (64 MiB, 3 passes), about half a second in a browser
+export const ARGON2ID_DEFAULT_PARAMS: Argon2idParams = {
+  memoryKiB: 64 * 1024,
+  iterations: 3,
+  parallelism: 1,
+}
+
+// OWASP minimum (19 MiB, 2 passes), for local keys that are unlocked many times a session
+export const ARGON2ID_INTERACTIVE_PARAMS: Argon2idParams = {
+  memoryKiB: 19 * 1024,
+  iterations: 2,
+  parallelism: 1,
+}
+
+// Refuse stored parameters that would hang the page or are too weak to be ours
+const ARGON2ID_MIN_MEMORY_KIB = 19 * 1024
+const ARGON2ID_MAX_MEMORY_KIB = 1024 * 1024
+const ARGON2ID_MAX_ITERATIONS = 20
+
+export function isAcceptableArgon2idParams(params: Argon2idParams): boolean {
+  return (
+    Number.isInteger(params.memoryKiB) &&
+    params.memoryKiB >= ARGON2ID_MIN_MEMORY_KIB &&
+    params.memoryKiB <= ARGON2ID_MAX_MEMORY_KIB &&
+    Number.isInteger(params.iterations) &&
+    params.iterations >= 1 &&
+    params.iterations <= ARGON2ID_MAX_ITERATIONS &&
+    Number.isInteger(params.parallelism) &&
+    params.parallelism >= 1 &&
+    params.parallelism <= 4
+  )
+}
+
+/**
+ * Derive a non-extractable AES-256-GCM key from a password or passphrase
+ */
+export async function deriveArgon2idKey(
+  secret: string,
+  salt: Uint8Array<ArrayBuffer>,
+  params: Argon2idParams = ARGON2ID_DEFAULT_PARAMS
+): Promise<CryptoKey> {
+  if (!isAcceptableArgon2idParams(params)) {
+    throw new Error('Unsupported Argon2id parameters')
+  }
+
+  const hash = await argon2id({
+    password: secret,
+    salt,
+    memorySize: params.memoryKiB,
+    iterations: params.iterations,
+    parallelism: params.parallelism,
+    hashLength: 32,
+    outputType: 'binary',
+  })
+
+  return crypto.subtle.importKey('raw', new Uint8Array(hash), { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+}
@@ -0,0 +1,62 @@
+/**
+ * Delivery and read receipts
+ *
+ * Receipts are sent as ordinary encrypted messages through the same ratchet session and
+ * endpoint as conversation content, so the server cannot tell them apart. They are told
+ * apart after decryption by their payload type (see messagePayload.ts).
+ */
+
+export type ReceiptStatus = 'sent' | 'delivered' | 'read'
+
+export interface Receipt {
+  status: 'delivered' | 'read'
+  messageIds: string[]
+}
+
+// Receipts sent before the structured payload format were a marker plus JSON
+const LEGACY_RECEIPT_MARKER = '\u0000receipt:'
+
+// Receipts are sent per decryption pass, which covers at most a couple of pages
+export const MAX_RECEIPT_MESSAGE_IDS = 200
+
+const STATUS_ORDER: ReceiptStatus[] = ['sent', 'delivered', 'read']
+
+export const MESSAGE_ID_PATTERN = /^[a-f0-9]{24}$/
+
+/**
+ * Check a decoded receipt
+ *
+ * @returns The receipt with only its known fields, or null if it is malformed
+ */
+export function validateReceipt(value: unknown): Receipt | null {
+  if (typeof value !== 'object' || value === null) return null
+  const { status, messageIds } = value as Record<string, unknown>
+  if (status !== 'delivered' && status !== 'read') return null
+  if (
+    !Array.isArray(messageIds) ||
+    messageIds.length > MAX_RECEIPT_MESSAGE_IDS ||
+    !messageIds.every((id) => typeof id === 'string' && MESSAGE_ID_PATTERN.test(id))
+  ) {
+    return null
+  }
+  return { status, messageIds }
+}
+
+/**
+ * Read a receipt in the format used before structured payloads
+ *
+ * @returns undefined if the plaintext is not a legacy receipt, null if it is a malformed one
+ */
+export function parseLegacyReceipt(plaintext: string): Receipt | null | undefined {
+  if (!plaintext.startsWith(LEGACY_RECEIPT_MARKER)) return undefined
+  try {
+    return validateReceipt(JSON.parse(plaintext.slice(LEGACY_RECEIPT_MARKER.length)))
+  } catch {
+    return null
+  }
+}
+
+// Whether `status` is `wanted` or later (a read message was also delivered)
+export function receiptStatusAtLeast(status: ReceiptStatus | null | undefined, wanted: ReceiptStatus): boolean {
+  return STATUS_ORDER.indexOf(status ?? 'sent') >= STATUS_ORDER.indexOf(wanted)
+}
@@ -0,0 +1,123 @@
+/**
+ * Safety numbers for out-of-band identity verification
+ *
+ * Each user's identity key is hashed into a 30-digit fingerprint (iterated SHA-512,
+ * as in Signal). The safety number is both fingerprints ordered by user ID, so the two
+ * contacts see the same 60 digits and can compare them in person, over a call, or by
+ * scanning/pasting the QR code of the other side.
+ */
+
+const FINGERPRINT_VERSION = 0
+const FINGERPRINT_ITERATIONS = 5200
+
+// Prefix of the QR code payload, followed by ":<version>:<userIdA>:<userIdB>:<digits>"
+const QR_PREFIX = 'cipherlink-safety-number'
+const QR_VERSION = 1
+
+export type SafetyNumberComparison = 'match' | 'mismatch' | 'invalid'
+
+function fromBase64(base64: string) {
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0))
+}
+
+function concatBytes(...parts: Uint8Array[]) {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+/**
+ * 30-digit fingerprint of one identity key, bound to its owner's user ID
+ */
+async function computeFingerprint(userId: string, publicKey: string): Promise<string> {
+  const keyBytes = fromBase64(publicKey)
+  let hash = new Uint8Array(await crypto.subtle.digest(
+    'SHA-512',
+    concatBytes(new Uint8Array([0, FINGERPRINT_VERSION]), keyBytes, new TextEncoder().encode(userId))
+  ))
+
+  for (let i = 0; i < FINGERPRINT_ITERATIONS; i++) {
+    hash = new Uint8Array(await crypto.subtle.digest('SHA-512', concatBytes(hash, keyBytes)))
+  }
+
+  // Six 5-byte chunks, each reduced to five decimal digits
+  let digits = ''
+  for (let chunk = 0; chunk < 6; chunk++) {
+    let value = 0
+    for (let i = 0; i < 5; i++) {
+      value = value * 256 + hash[chunk * 5 + i]
+    }
+    digits += (value % 100000).toString().padStart(5, '0')
+  }
+  return digits
+}
+
+/**
+ * 60-digit safety number for a pair of users. Both sides compute the same value.
+ *
+ * @param myPublicKey - Our RSA identity key (spki, base64)
+ * @param theirPublicKey - The contact's RSA identity key as returned by the server
+ */
+export async function computeSafetyNumber(
+  myUserId: string,
+  myPublicKey: string,
+  theirUserId: string,
+  theirPublicKey: string
+): Promise<string> {
+  const mine = await computeFingerprint(myUserId, myPublicKey)
+  const theirs = await computeFingerprint(theirUserId, theirPublicKey)
+  return myUserId < theirUserId ? mine + theirs : theirs + mine
+}
+
+/**
+ * Split a safety number into groups of five digits for display
+ */
+export function formatSafetyNumber(safetyNumber: string): string[] {
+  return safetyNumber.match(/.{1,5}/g) || []
+}
+
+/**
+ * Text encoded in the QR code shown to the contact
+ */
+export function safetyNumberQrPayload(myUserId: string, theirUserId: string, safetyNumber: string): string {
+  const [first, second] = [myUserId, theirUserId].sort()
+  return `${QR_PREFIX}:${QR_VERSION}:${first}:${second}:${safetyNumber}`
+}
+
+/**
+ * Compare a scanned or pasted code against our own safety number
+ * Accepts the full QR payload or just the 60 digits (spaces are ignored).
+ */
+export function compareSafetyNumber(
+  code: string,
+  myUserId: string,
+  theirUserId: string,
+  safetyNumber: string
+): SafetyNumberComparison {
+  const trimmed = code.trim()
+
+  if (trimmed.startsWith(`${QR_PREFIX}:`)) {
+    const parts = trimmed.split(':')
+    if (parts.length !== 5 || parts[1] !== String(QR_VERSION)) return 'invalid'
+
+    const [first, second] = [myUserId, theirUserId].sort()
+    if (parts[2] !== first || parts[3] !== second) return 'mismatch'
+    return parts[4] === safetyNumber ? 'match' : 'mismatch'
+  }
+
+  const digits = trimmed.replace(/\s+/g, '')
+  if (!/^\d{60}$/.test(digits)) return 'invalid'
+  return digits === safetyNumber ? 'match' : 'mismatch'
+}
+
+/**
+ * SHA-256 of an identity key, stored to notice when a contact's key changes
+ */
+export async function fingerprintPublicKey(publicKey: string): Promise<string> {
+  const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', fromBase64(publicKey)))
+  return Array.from(hash, byte => byte.toString(16).padStart(2, '0')).join('')
+}
@@ -0,0 +1,143 @@
+/**
+ * Passkeys as a way to unlock local keys
+ *
+ * The WebAuthn PRF extension makes an authenticator return an HMAC of a salt chosen by
+ * the app, bound to one credential and only released after user verification. That
+ * output wraps the key vault, so it can be opened with a fingerprint, face or security
+ * key instead of the password. The credential is only used on this browser; the server
+ * never sees it.
+ *
+ * Everything goes through navigator.credentials, so a virtual authenticator (browser
+ * devtools or WebDriver) can stand in for real hardware.
+ */
+
+const PRF_SALT_BYTES = 32
+
+export class PasskeyUnavailableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PasskeyUnavailableError'
+  }
+}
+
+export interface PrfCredentialRequest {
+  credentialId: string // base64url
+  salt: string // base64
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary)
+}
+
+function fromBase64(base64: string) {
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0))
+}
+
+// WebAuthn uses unpadded base64url for credential IDs, also as keys of evalByCredential
+function toBase64Url(bytes: Uint8Array): string {
+  return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(base64Url: string) {
+  return fromBase64(base64Url.replace(/-/g, '+').replace(/_/g, '/'))
+}
+
+function prfFirstOutput(credential: PublicKeyCredential): Uint8Array<ArrayBuffer> | null {
+  const first = credential.getClientExtensionResults().prf?.results?.first
+  if (!first) return null
+  const bytes = ArrayBuffer.isView(first)
+    ? new Uint8Array(first.buffer, first.byteOffset, first.byteLength)
+    : new Uint8Array(first)
+  return bytes.slice()
+}
+
+export function isPasskeySupported(): boolean {
+  return typeof window !== 'undefined' && !!window.PublicKeyCredential && !!navigator.credentials
+}
+
+export function newPrfSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(PRF_SALT_BYTES)))
+}
+
+/**
+ * Ask the authenticator for the PRF output of one of the credentials
+ *
+ * @returns The credential the user picked and its output for that credential's salt
+ */
+export async function evaluatePrf(
+  credentials: PrfCredentialRequest[]
+): Promise<{ credentialId: string; output: Uint8Array<ArrayBuffer> }> {
+  const assertion = await navigator.credentials.get({
+    publicKey: {
+      challenge: crypto.getRandomValues(new Uint8Array(32)),
+      allowCredentials: credentials.map(credential => ({
+        type: 'public-key' as const,
+        id: fromBase64Url(credential.credentialId),
+      })),
+      userVerification: 'required',
+      extensions: {
+        prf: {
+          evalByCredential: Object.fromEntries(
+            credentials.map(credential => [credential.credentialId, { first: fromBase64(credential.salt) }])
+          ),
+        },
+      },
+    },
+  }) as PublicKeyCredential | null
+
+  if (!assertion) {
+    throw new PasskeyUnavailableError('No passkey was used.')
+  }
+  const output = prfFirstOutput(assertion)
+  if (!output) {
+    throw new PasskeyUnavailableError('This passkey cannot protect your keys (the authenticator has no PRF support).')
+  }
+  return { credentialId: toBase64Url(new Uint8Array(assertion.rawId)), output }
+}
+
+/**
+ * Create a passkey for unlocking this browser's keys and get its PRF output for `salt`
+ */
+export async function createPrfCredential(
+  userId: string,
+  username: string,
+  salt: string
+): Promise<{ credentialId: string; output: Uint8Array<ArrayBuffer> }> {
+  const credential = await navigator.credentials.create({
+    publicKey: {
+      rp: { name: 'Cipherlink' },
+      user: {
+        id: new TextEncoder().encode(userId),
+        name: username,
+        displayName: username,
+      },
+      challenge: crypto.getRandomValues(new Uint8Array(32)),
+      pubKeyCredParams: [
+        { type: 'public-key', alg: -8 }, // Ed25519
+        { type: 'public-key', alg: -7 }, // ES256
+        { type: 'public-key', alg: -257 }, // RS256
+      ],
+      authenticatorSelection: { residentKey: 'preferred', userVerification: 'required' },
+      extensions: { prf: { eval: { first: fromBase64(salt) } } },
+    },
+  }) as PublicKeyCredential | null
+
+  if (!credential) {
+    throw new PasskeyUnavailableError('No passkey was created.')
+  }
+  if (!credential.getClientExtensionResults().prf?.enabled) {
+    throw new PasskeyUnavailableError('This passkey cannot protect your keys (the authenticator has no PRF support).')
+  }
+
+  const credentialId = toBase64Url(new Uint8Array(credential.rawId))
+  // Not every authenticator evaluates the PRF while creating the credential
+  const output = prfFirstOutput(credential)
+  if (output) {
+    return { credentialId, output }
+  }
+  return evaluatePrf([{ credentialId, salt }])
+}
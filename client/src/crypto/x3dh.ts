@@ -0,0 +1,276 @@
+/**
+ * X3DH-style asynchronous session setup
+ *
+ * Each user publishes a signed prekey (ECDH P-256, signed with their RSA-PSS or Ed25519
+ * identity key) and a batch of one-time prekeys. A sender fetches the recipient's bundle,
+ * verifies the signed prekey, and derives the session secret from a fresh ephemeral key:
+ *
+ *   DH1 = ECDH(EK_sender, SPK_recipient)
+ *   DH2 = ECDH(EK_sender, OPK_recipient)   (when a one-time prekey was available)
+ *   sharedSecret = DH1 || DH2
+ *
+ * Identity keys are signing keys and do not take part in ECDH, so the sender
+ * authenticates by signing the prekey header instead.
+ *
+ * Prekeys stay on P-256 even for Ed25519 accounts. A bundle is published before the
+ * sender is known, and a sender whose client predates X25519 could not use it.
+ */
+
+import { HandshakeTranscript, InvalidSignatureError, KEY_DERIVATION_VERSION, LEGACY_KEY_DERIVATION_VERSION } from './keyExchange'
+import { signWithIdentityKey, verifyIdentitySignature } from './keyAlgorithms'
+
+export interface PreKeyHeader {
+  ephemeralKey: string // spki, base64
+  signedPreKeyId: number
+  oneTimePreKeyId?: number
+  timestamp: number
+  version?: number // key derivation version, absent on legacy headers
+  signature: string
+}
+
+export interface PreKeyBundle {
+  userId: string
+  identityKey: string
+  signedPreKey: {
+    keyId: number
+    publicKey: string
+    signature: string
+  }
+  oneTimePreKey: {
+    keyId: number
+    publicKey: string
+  } | null
+}
+
+export interface GeneratedPreKey {
+  keyId: number
+  keyPair: CryptoKeyPair
+  publicKey: string
+}
+
+export interface GeneratedSignedPreKey extends GeneratedPreKey {
+  signature: string
+}
+
+// Number of one-time prekeys generated per upload
+export const PREKEY_BATCH_SIZE = 20
+
+// Top up once the server holds fewer than this many one-time prekeys
+export const PREKEY_MIN_COUNT = 5
+
+// Signed prekeys are rotated after a week
+export const SIGNED_PREKEY_MAX_AGE = 7 * 24 * 60 * 60 * 1000
+
+function toBase64(buffer: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(buffer)))
+}
+
+function fromBase64(value: string) {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0))
+}
+
+function generateKeyId(): number {
+  return crypto.getRandomValues(new Uint32Array(1))[0] & 0x7fffffff
+}
+
+async function generatePreKey(): Promise<GeneratedPreKey> {
+  const keyPair = await crypto.subtle.generateKey(
+    {
+      name: 'ECDH',
+      namedCurve: 'P-256',
+    },
+    true,
+    ['deriveKey', 'deriveBits']
+  )
+  const publicKey = toBase64(await crypto.subtle.exportKey('spki', keyPair.publicKey))
+  return { keyId: generateKeyId(), keyPair, publicKey }
+}
+
+function signedPreKeyData(userId: string, keyId: number, publicKey: string) {
+  return new TextEncoder().encode(JSON.stringify({
+    type: 'signed-prekey',
+    userId,
+    keyId,
+    publicKey,
+  }))
+}
+
+function preKeyHeaderData(
+  fromUserId: string,
+  toUserId: string,
+  header: Omit<PreKeyHeader, 'signature'>
+) {
+  return new TextEncoder().encode(JSON.stringify({
+    type: 'prekey-message',
+    fromUserId,
+    toUserId,
+    ephemeralKey: header.ephemeralKey,
+    signedPreKeyId: header.signedPreKeyId,
+    oneTimePreKeyId: header.oneTimePreKeyId ?? null,
+    timestamp: header.timestamp,
+    version: header.version,
+  }))
+}
+
+async function importEcdhPublicKey(publicKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'spki',
+    fromBase64(publicKey),
+    {
+      name: 'ECDH',
+      namedCurve: 'P-256',
+    },
+    false,
+    []
+  )
+}
+
+function concatSecrets(dh1: ArrayBuffer, dh2: ArrayBuffer | null): ArrayBuffer {
+  if (!dh2) return dh1
+
+  const combined = new Uint8Array(dh1.byteLength + dh2.byteLength)
+  combined.set(new Uint8Array(dh1), 0)
+  combined.set(new Uint8Array(dh2), dh1.byteLength)
+  return combined.buffer
+}
+
+/**
+ * Generate a signed prekey, signed with the user's identity key (RSA-PSS or Ed25519)
+ */
+export async function generateSignedPreKey(
+  myPrivateKey: CryptoKey,
+  myUserId: string
+): Promise<GeneratedSignedPreKey> {
+  const preKey = await generatePreKey()
+  const signature = await signWithIdentityKey(myPrivateKey, signedPreKeyData(myUserId, preKey.keyId, preKey.publicKey))
+  return { ...preKey, signature }
+}
+
+export async function generateOneTimePreKeys(count: number = PREKEY_BATCH_SIZE): Promise<GeneratedPreKey[]> {
+  const preKeys: GeneratedPreKey[] = []
+  for (let i = 0; i < count; i++) {
+    preKeys.push(await generatePreKey())
+  }
+  return preKeys
+}
+
+/**
+ * Sender side: verify the recipient's bundle and derive the session secret
+ *
+ * @returns The shared secret, the header to attach to outgoing messages, and the
+ *          recipient's signed prekey (their first ratchet public key)
+ */
+export async function initiatePreKeySession(
+  bundle: PreKeyBundle,
+  recipientIdentityKey: CryptoKey,
+  myPrivateKey: CryptoKey,
+  myUserId: string
+): Promise<{ sharedSecret: ArrayBuffer; header: PreKeyHeader; signedPreKey: string }> {
+  const { signedPreKey, oneTimePreKey } = bundle
+
+  const isValid = await verifyIdentitySignature(
+    recipientIdentityKey,
+    signedPreKey.signature,
+    signedPreKeyData(bundle.userId, signedPreKey.keyId, signedPreKey.publicKey)
+  )
+  if (!isValid) {
+    console.error('[X3DH] Signed prekey signature verification failed for user:', bundle.userId)
+    throw new InvalidSignatureError('prekey bundle')
+  }
+
+  const ephemeralKeyPair = await crypto.subtle.generateKey(
+    {
+      name: 'ECDH',
+      namedCurve: 'P-256',
+    },
+    true,
+    ['deriveKey', 'deriveBits']
+  )
+
+  const dh1 = await crypto.subtle.deriveBits(
+    { name: 'ECDH', public: await importEcdhPublicKey(signedPreKey.publicKey) },
+    ephemeralKeyPair.privateKey,
+    256
+  )
+  const dh2 = oneTimePreKey
+    ? await crypto.subtle.deriveBits(
+        { name: 'ECDH', public: await importEcdhPublicKey(oneTimePreKey.publicKey) },
+        ephemeralKeyPair.privateKey,
+        256
+      )
+    : null
+  const sharedSecret = concatSecrets(dh1, dh2)
+
+  const unsignedHeader: Omit<PreKeyHeader, 'signature'> = {
+    ephemeralKey: toBase64(await crypto.subtle.exportKey('spki', ephemeralKeyPair.publicKey)),
+    signedPreKeyId: signedPreKey.keyId,
+    ...(oneTimePreKey && { oneTimePreKeyId: oneTimePreKey.keyId }),
+    timestamp: Date.now(),
+    version: KEY_DERIVATION_VERSION,
+  }
+
+  const signature = await signWithIdentityKey(myPrivateKey, preKeyHeaderData(myUserId, bundle.userId, unsignedHeader))
+
+  console.log('[X3DH] Session initiated with prekey bundle:', {
+    recipientId: bundle.userId,
+    signedPreKeyId: signedPreKey.keyId,
+    oneTimePreKeyId: oneTimePreKey?.keyId,
+  })
+
+  return {
+    sharedSecret,
+    header: { ...unsignedHeader, signature },
+    signedPreKey: signedPreKey.publicKey,
+  }
+}
+
+/**
+ * Recipient side: verify the sender's prekey header and derive the same session secret
+ */
+export async function acceptPreKeySession(
+  header: PreKeyHeader,
+  senderIdentityKey: CryptoKey,
+  senderId: string,
+  myUserId: string,
+  signedPreKeyPair: CryptoKeyPair,
+  oneTimePreKeyPair: CryptoKeyPair | null
+): Promise<ArrayBuffer> {
+  const isValid = await verifyIdentitySignature(senderIdentityKey, header.signature, preKeyHeaderData(senderId, myUserId, header))
+  if (!isValid) {
+    console.error('[X3DH] Prekey header signature verification failed for sender:', senderId)
+    throw new InvalidSignatureError('prekey')
+  }
+
+  if (header.oneTimePreKeyId !== undefined && !oneTimePreKeyPair) {
+    throw new Error('One-time prekey already used or missing')
+  }
+
+  const ephemeralKey = await importEcdhPublicKey(header.ephemeralKey)
+  const dh1 = await crypto.subtle.deriveBits({ name: 'ECDH', public: ephemeralKey }, signedPreKeyPair.privateKey, 256)
+  const dh2 = oneTimePreKeyPair
+    ? await crypto.subtle.deriveBits({ name: 'ECDH', public: ephemeralKey }, oneTimePreKeyPair.privateKey, 256)
+    : null
+
+  console.log('[X3DH] Accepted prekey session from:', senderId)
+  return concatSecrets(dh1, dh2)
+}
+
+/**
+ * Handshake transcript of a prekey session, used for session key derivation
+ * The signed prekey plays the responder's handshake key, the ephemeral key the initiator's
+ */
+export function preKeyTranscript(
+  header: PreKeyHeader,
+  initiatorId: string,
+  responderId: string,
+  signedPreKey: string
+): HandshakeTranscript {
+  return {
+    version: header.version ?? LEGACY_KEY_DERIVATION_VERSION,
+    exchangeId: `prekey-${header.signedPreKeyId}-${header.oneTimePreKeyId ?? 'none'}-${header.timestamp}`,
+    initiatorId,
+    responderId,
+    initiatorPublicKey: header.ephemeralKey,
+    responderPublicKey: signedPreKey,
+  }
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import {
   SidebarInset,
   Sidebar,
@@ -46,20 +46,51 @@ import {
   ChevronUp,
   Plus,
   ListFilter,
+  Shield,
+  ShieldAlert,
+  ShieldCheck,
+  Smartphone,
 } from "lucide-react"
 import { useAuth } from "@/context/AuthContext"
 import { useNavigate } from "react-router-dom"
 import { authService } from "@/services/authService"
 import { messageService, Message } from "@/services/messageService"
 import { fileService } from "@/services/fileService"
-import { getPrivateKey, storeEcdhKeyPairPersistent, getEcdhKeyPairPersistent, deleteEcdhKeyPairPersistent, storeSessionKeyPersistent, getSessionKeyPersistent, deleteSessionKeyPersistent } from "@/storage/keyStorage"
-import { initiateKeyExchange, handleKeyExchangeResponse, sendKeyConfirmation, storeSessionKey, getSessionKey, deriveSessionKey, storeEcdhKeyPair, getEcdhKeyPair, clearEcdhKeyPair } from "@/crypto/keyExchange"
-import { encryptMessage, decryptMessage } from "@/crypto/messageEncryption"
+import { realtimeService } from "@/services/realtimeService"
+import { deleteEcdhKeyPairPersistent, deleteSessionKeyPersistent, deleteRatchetStatePersistent, deletePreKeyPersistent, ContactVerification, getContactVerification, storeContactVerification, getStoredDeviceInfo, deleteDeviceKeyPersistent, hasPrivateKey, getMessageReceipts, advanceMessageReceipts, markControlMessages } from "@/storage/keyStorage"
+import { keyVault, requestVaultUnlock, VaultLockedError } from "@/storage/keyVault"
+import { initiateKeyExchange, handleKeyExchangeResponse, sendKeyConfirmation, computeKeyConfirmation, keyConfirmationsMatch, HandshakeTranscript, KeyExchangeError, signKeyExchange, verifyKeyExchangeSignature, KEY_DERIVATION_VERSION, LEGACY_KEY_DERIVATION_VERSION, storeSessionKey, getSessionKey, clearSessionKey, deriveSessionKey, storeEcdhKeyPair, getEcdhKeyPair, clearEcdhKeyPair } from "@/crypto/keyExchange"
+import { RatchetState, initializeRatchetAsInitiator, initializeRatchetAsResponder, ratchetEncrypt, storeRatchetState, getRatchetState, clearRatchetState, cacheDecryptedMessage } from "@/crypto/doubleRatchet"
+import { encryptMessage, decryptMessage, createReplayProtectionFields } from "@/crypto/messageEncryption"
+import { receiptStatusAtLeast, MAX_RECEIPT_MESSAGE_IDS } from "@/crypto/receipts"
+import { MessagePayload, receiptPayload, textPayload } from "@/crypto/messagePayload"
 import { encryptFile, decryptFile } from "@/crypto/fileEncryption"
+import { initiatePreKeySession, acceptPreKeySession, preKeyTranscript } from "@/crypto/x3dh"
+import { fingerprintPublicKey } from "@/crypto/safetyNumber"
+import { importIdentityPublicKey, importKeyAgreementPublicKey, generateKeyAgreementKeyPair, negotiateKeyAgreementCurve, keyAgreementCurve, deriveSharedSecret, exportKey } from "@/crypto/keyAlgorithms"
+import { UnlockedDevice } from "@/crypto/deviceKeys"
+import { SafetyNumberSheet } from "@/components/SafetyNumberSheet"
+import { DevicesSheet } from "@/components/DevicesSheet"
+import { LinkDeviceSheet } from "@/components/LinkDeviceSheet"
+import { KeyBackupSheet } from "@/components/KeyBackupSheet"
+import { PasskeySheet } from "@/components/PasskeySheet"
+import { TwoFactorSheet } from "@/components/TwoFactorSheet"
+import { SessionsSheet } from "@/components/SessionsSheet"
+import { ChangePasswordSheet } from "@/components/ChangePasswordSheet"
+import { IdentityKeyChangedError, checkContactIdentityKey, acceptIdentityKeyChange, getTrustedPublicKey } from "@/services/identityService"
 import { keyExchangeService } from "@/services/keyExchangeService"
+import { preKeyService, ensurePreKeySupply } from "@/services/preKeyService"
+import { rotateIdentityKey } from "@/services/keyRotationService"
+import { deviceService, getUnlockedDevice, unlockDevice, lockDevice, getMessageTargets, sealForDevices } from "@/services/deviceService"
 import { MessageList } from "@/components/MessageList"
 import { SidebarProvider } from "@/components/blocks/sidebar"
 
+const KEY_EXCHANGE_EXPIRED =
+  'The other side never confirmed the session key in time. Starting a new session.'
+
+const KEY_CONFIRMATION_MISMATCH =
+  'Key confirmation failed: the session keys on both sides do not match. This can indicate a man-in-the-middle attack. The session was discarded.'
+
 const Chat = () => {
   const { user, logout } = useAuth()
   const navigate = useNavigate()
@@ -81,9 +112,39 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
   const [contacts, setContacts] = useState<any[]>([])
   const [currentChat, setCurrentChat] = useState<{ name: string; id: string } | null>(null)
   const [messages, setMessages] = useState<Message[]>([])
+  // Messages as of the last render, for loads that finish after the chat changed
+  const messagesRef = useRef<Message[]>([])
+  messagesRef.current = messages
+  const [hasOlderMessages, setHasOlderMessages] = useState(false)
+  const [loadingOlderMessages, setLoadingOlderMessages] = useState(false)
+  // Sends run one at a time: the ratchet must not hand out a message key twice, and the
+  // server rejects sequence numbers that arrive out of order
+  const sendQueue = useRef<Promise<unknown>>(Promise.resolve())
+  // Received messages opened in the current chat, and those with a receipt on its way
+  const openedMessageIds = useRef<{ conversationId: string; messageIds: string[] } | null>(null)
+  const receiptsInFlight = useRef(new Set<string>())
   const [message, setMessage] = useState("")
   const [searchQuery, setSearchQuery] = useState("")
   const [loading, setLoading] = useState(false)
+  const [keyExchangeError, setKeyExchangeError] = useState<string | null>(null)
+  const [myIdentityKey, setMyIdentityKey] = useState<string | null>(null)
+  const [contactIdentityKey, setContactIdentityKey] = useState<string | null>(null)
+  const [contactVerification, setContactVerification] = useState<ContactVerification | null>(null)
+  const [safetyNumberOpen, setSafetyNumberOpen] = useState(false)
+  const [identityKeyChange, setIdentityKeyChange] = useState<IdentityKeyChangedError | null>(null)
+  const [identityKeyRevision, setIdentityKeyRevision] = useState(0)
+  // Primary devices hold the identity key and ratchet sessions; linked devices only read device copies
+  const [deviceRole, setDeviceRole] = useState<'primary' | 'linked' | 'unlinked' | null>(null)
+  const [currentDeviceId, setCurrentDeviceId] = useState<string | null>(null)
+  const [currentDevice, setCurrentDevice] = useState<UnlockedDevice | null>(null)
+  const [devicesOpen, setDevicesOpen] = useState(false)
+  const [linkDeviceOpen, setLinkDeviceOpen] = useState(false)
+  const [keyBackupOpen, setKeyBackupOpen] = useState(false)
+  const [passkeyOpen, setPasskeyOpen] = useState(false)
+  const [twoFactorOpen, setTwoFactorOpen] = useState(false)
+  const [sessionsOpen, setSessionsOpen] = useState(false)
+  const [changePasswordOpen, setChangePasswordOpen] = useState(false)
+  const [deviceRevision, setDeviceRevision] = useState(0)
 
   // Load conversations/contacts on mount
   useEffect(() => {
@@ -138,215 +199,332 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
   }, [user?.id])
 
   useEffect(() => {
-    if (!currentChat) return
+    if (!user?.id) return
+    realtimeService.connect()
+    return () => realtimeService.disconnect()
+  }, [user?.id])
+
+  // Messages that arrived while the tab was in the background are read once it is shown
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      const opened = openedMessageIds.current
+      if (document.visibilityState === 'visible' && opened) {
+        acknowledgeMessages(opened.conversationId, opened.messageIds)
+      }
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange)
+  }, [currentChat?.id, deviceRole, contactIdentityKey, myIdentityKey])
+
+  // Find out whether this browser is the primary device, a linked device, or not linked yet
+  useEffect(() => {
+    if (!user?.id) return
+
+    let cancelled = false
+    const loadDevice = async () => {
+      try {
+        const info = await getStoredDeviceInfo(user.id)
+        if (!info) {
+          // Accounts from before devices existed register their primary when first unlocked
+          const role = (await hasPrivateKey(user.id)) ? 'primary' : 'unlinked'
+          if (!cancelled) setDeviceRole(role)
+          return
+        }
+
+        const devices = (await deviceService.getMyDevices()).filter(device => device.revokedAt === null)
+        if (!devices.some(device => device.deviceId === info.deviceId)) {
+          console.warn('[DEVICES] This device was unlinked from the account')
+          lockDevice()
+          await deleteDeviceKeyPersistent(user.id)
+          if (!cancelled) {
+            setCurrentDevice(null)
+            setCurrentDeviceId(null)
+            setDeviceRole(info.primary ? 'primary' : 'unlinked')
+          }
+          return
+        }
+
+        if (cancelled) return
+        setCurrentDeviceId(info.deviceId)
+        setDeviceRole(info.primary ? 'primary' : 'linked')
+        setCurrentDevice(getUnlockedDevice(user.id))
+
+        // A linked device cannot read anything without its key; the primary only needs it once it has linked devices
+        if (!getUnlockedDevice(user.id) && (!info.primary || devices.length > 1)) {
+          if (!(await requestVaultUnlock(user.id, 'Enter your password to unlock this device.')) || cancelled) return
+          const device = await unlockDevice(user.id)
+          if (!device) {
+            alert('Could not unlock this device.')
+            return
+          }
+          if (!cancelled) setCurrentDevice(device)
+        }
+      } catch (error) {
+        console.error('[DEVICES] Failed to load device:', error)
+      }
+    }
+
+    loadDevice()
+    return () => {
+      cancelled = true
+    }
+  }, [user?.id, deviceRevision])
+
+  useEffect(() => {
+    if (!currentChat || !deviceRole) return
+    setKeyExchangeError(null)
 
     const ensureSessionForChat = async () => {
+      // Only the primary device has sessions; other devices just read their device copies
+      if (deviceRole !== 'primary') {
+        await loadMessages()
+        return
+      }
+
       let existingKey = getSessionKey(currentChat.id)
       
+      // A contact may have started a session from our prekeys while we were offline
+      try {
+        if (await acceptIncomingPreKeyMessage()) {
+          await loadMessages()
+          return
+        }
+      } catch (error) {
+        if (error instanceof KeyExchangeError) reportKeyExchangeError(error)
+        console.error('[X3DH] Failed to accept prekey message:', error)
+      }
+
       // If not in memory, don't establish a new one automatically
       // User can send a message to establish session if needed
       if (!existingKey) {
         console.log('[KEY EXCHANGE] Session key not in memory. Messages may not decrypt until session is established.')
         console.log('[KEY EXCHANGE] User can send a message to establish session, or old messages may be from previous sessions.')
-        // Load messages anyway - some might decrypt if session key is in IndexedDB and user enters password
-        await loadMessages()
-        return
-      }
-      
-      if (existingKey) {
+      } else {
         console.log('[KEY EXCHANGE] Session key exists, loading messages...')
-        await loadMessages()
-        return
       }
-      try {
-        // First, check if there's a response to an exchange we initiated
-        try {
-          const responsesCheck = await keyExchangeService.getResponses(currentChat.id)
-          if (responsesCheck.responses && responsesCheck.responses.length > 0) {
-            console.log('[KEY EXCHANGE] Found response to our exchange, attempting to complete...')
-            const response = responsesCheck.responses[0]
-            
-            // Try to get ECDH key pair from memory first, then IndexedDB
-            let storedKeyPair = getEcdhKeyPair(response.exchangeId)
-            
-            if (!storedKeyPair) {
-              console.log('[KEY EXCHANGE] ECDH key pair not in memory, checking IndexedDB...')
-              const password = prompt('Enter your password to retrieve ECDH key pair:')
-              if (password) {
-                storedKeyPair = await getEcdhKeyPairPersistent(response.exchangeId, password)
-                if (storedKeyPair) {
-                  console.log('[KEY EXCHANGE] Retrieved ECDH key pair from IndexedDB')
-                  storeEcdhKeyPair(response.exchangeId, storedKeyPair)
-                }
-              }
-            }
-            
-            if (storedKeyPair) {
-              // We have the key pair, complete the exchange
-              const recipient = await authService.getPublicKey(currentChat.id)
-              const recipientPubKeyBuffer = Uint8Array.from(atob(recipient.publicKey), c => c.charCodeAt(0))
-              const recipientPubKey = await crypto.subtle.importKey(
-                'spki',
-                recipientPubKeyBuffer,
-                { name: 'RSA-PSS', hash: 'SHA-256' },
-                false,
-                ['verify']
-              )
-              
-              const password = prompt('Enter your password to complete key exchange:')
-              if (!password) return
-              
-              const privateKey = await getPrivateKey(user.id, password)
-              if (!privateKey) return
-              
-              // Verify response signature
-              const responseData = JSON.stringify({
-                type: 'response',
-                fromUserId: response.toUserId,
-                toUserId: response.fromUserId,
-                publicKey: response.responsePublicKey,
-                timestamp: response.responseTimestamp,
-              })
-              const encoder = new TextEncoder()
-              const responseBytes = encoder.encode(responseData)
-              const responseSignatureBytes = Uint8Array.from(atob(response.responseSignature), c => c.charCodeAt(0))
-              
-              const isValid = await crypto.subtle.verify(
-                { name: 'RSA-PSS', saltLength: 32 },
-                recipientPubKey,
-                responseSignatureBytes,
-                responseBytes
-              )
-              
-              if (!isValid) {
-                console.error('[KEY EXCHANGE] Invalid response signature')
-                return
-              }
-              
-              // Derive session key
-              const otherEcdhPublicKeyBuffer = Uint8Array.from(atob(response.responsePublicKey), c => c.charCodeAt(0))
-              const otherEcdhPublicKeyCrypto = await crypto.subtle.importKey(
-                'spki',
-                otherEcdhPublicKeyBuffer,
-                { name: 'ECDH', namedCurve: 'P-256' },
-                false,
-                []
-              )
-              
-              const sharedSecret = await crypto.subtle.deriveBits(
-                { name: 'ECDH', public: otherEcdhPublicKeyCrypto },
-                storedKeyPair.privateKey,
-                256
-              )
-              
-              const sessionKey = await deriveSessionKey(
-                sharedSecret,
-                response.responsePublicKey,
-                user.id,
-                response.toUserId
-              )
-              
-              storeSessionKey(currentChat.id, sessionKey)
-              // Also store in IndexedDB for persistence
-              try {
-                const password = prompt('Enter your password to store session key:')
-                if (password) {
-                  await storeSessionKeyPersistent(currentChat.id, sessionKey, password)
-                  console.log('[KEY EXCHANGE] Session key stored in IndexedDB')
-                }
-              } catch (error) {
-                console.warn('[KEY EXCHANGE] Failed to store session key in IndexedDB:', error)
-              }
-              
-              clearEcdhKeyPair(response.exchangeId)
-              // Also delete from IndexedDB
-              try {
-                await deleteEcdhKeyPairPersistent(response.exchangeId)
-              } catch (error) {
-                console.warn('[KEY EXCHANGE] Failed to delete ECDH key pair from IndexedDB:', error)
-              }
-              
-              const confirmation = await sendKeyConfirmation(sessionKey, currentChat.id, user.id)
-              await keyExchangeService.confirm(response.exchangeId, confirmation.confirmationHash!)
-              
-              console.log('[KEY EXCHANGE] Session key established from response')
-              await loadMessages()
-              return
-            } else {
-              console.warn('[KEY EXCHANGE] ECDH key pair not found, cannot complete exchange')
-            }
+      // Some messages may still decrypt from keys in IndexedDB if the vault is unlocked
+      await loadMessages()
+    }
+
+    ensureSessionForChat()
+
+    const checkConfirmation = () => {
+      if (!getRatchetState(currentChat.id)?.pendingConfirmation) return
+      checkPendingConfirmation(currentChat.id).catch((error) => {
+        console.warn('[KEY CONFIRM] Failed to check peer confirmation:', error)
+      })
+    }
+
+    // New messages and handshake steps are pushed by the server
+    const unsubscribe = realtimeService.subscribe((event) => {
+      const canRead = getSessionKey(currentChat.id) || deviceRole !== 'primary'
+
+      switch (event.type) {
+        case 'ready':
+          // Anything could have arrived while we were disconnected
+          if (!event.resumed && canRead) {
+            checkConfirmation()
+            loadMessages()
           }
-        } catch (error) {
-          console.log('[KEY EXCHANGE] No responses found or error:', error)
-        }
-        
-        // No response found, establish new session
-        let recipientPublicKey = contacts.find(c => c._id === currentChat.id)?.publicKey
-        if (!recipientPublicKey) {
-          console.log('[KEY EXCHANGE] Fetching recipient public key from server...')
-          const recipient = await authService.getPublicKey(currentChat.id)
-          recipientPublicKey = recipient.publicKey
+          break
+        case 'message': {
+          const { message } = event
+          if (message.senderId !== currentChat.id && message.recipientId !== currentChat.id) break
+
+          // A contact starting a new session from our prekeys
+          if (message.preKeyHeader && message.senderId === currentChat.id && deviceRole === 'primary') {
+            ensureSessionForChat()
+            break
+          }
+          if (!canRead) break
+          setMessages(prev => prev.some(m => m._id === message._id) ? prev : [...prev, message])
+          break
         }
+        case 'key-exchange':
+          if (event.fromUserId === currentChat.id) checkConfirmation()
+          break
+        case 'file':
+          if (event.file.senderId === currentChat.id) {
+            console.log('[FILE] New file from', currentChat.name, ':', event.file._id)
+          }
+          break
+      }
+    })
+
+    return unsubscribe
+  }, [currentChat, contacts, deviceRole])
 
-        if (!recipientPublicKey) {
-          console.error('[KEY EXCHANGE] Unable to determine recipient public key')
+  // Load both identity keys, check the contact's key against the pinned one and
+  // against the one we verified
+  useEffect(() => {
+    if (!currentChat || !user?.id) return
+
+    let cancelled = false
+    setContactIdentityKey(null)
+    setContactVerification(null)
+    setIdentityKeyChange(null)
+
+    const loadContactVerification = async () => {
+      try {
+        const [own, contact] = await Promise.all([
+          authService.getPublicKey(user.id),
+          authService.getPublicKey(currentChat.id),
+        ])
+
+        try {
+          await checkContactIdentityKey(user.id, currentChat.id, contact.publicKey)
+        } catch (error) {
+          if (!(error instanceof IdentityKeyChangedError)) throw error
+          // Show the safety number of the new key so it can be verified before accepting it
+          if (cancelled) return
+          setMyIdentityKey(own.publicKey)
+          setContactIdentityKey(contact.publicKey)
+          setContactVerification(await getContactVerification(user.id, currentChat.id))
+          setIdentityKeyChange(error)
           return
         }
 
-        console.log('[KEY EXCHANGE] Establishing session before reading messages...')
-        const sessionKey = await establishSession(currentChat.id, recipientPublicKey)
-        if (sessionKey) {
-          console.log('[KEY EXCHANGE] Session established, loading messages...')
-          await loadMessages()
-        } else {
-          console.error('[KEY EXCHANGE] Failed to establish session key')
+        const fingerprint = await fingerprintPublicKey(contact.publicKey)
+        let verification = await getContactVerification(user.id, currentChat.id)
+
+        if (verification && verification.publicKeyFingerprint !== fingerprint) {
+          console.warn('[SAFETY NUMBER] ⚠️ Identity key of', currentChat.id, 'changed since it was verified')
+          verification = {
+            ...verification,
+            publicKeyFingerprint: fingerprint,
+            verified: false,
+            verifiedAt: null,
+            keyChangedAt: verification.verified ? Date.now() : verification.keyChangedAt,
+          }
+          await storeContactVerification(verification)
         }
+
+        if (cancelled) return
+        setMyIdentityKey(own.publicKey)
+        setContactIdentityKey(contact.publicKey)
+        setContactVerification(verification)
       } catch (error) {
-        console.error('[KEY EXCHANGE] Failed to ensure session key:', error)
+        if (error instanceof KeyExchangeError && !cancelled) reportKeyExchangeError(error)
+        console.error('[SAFETY NUMBER] Failed to load identity keys:', error)
       }
     }
 
-    ensureSessionForChat()
-    
-    // Poll for new messages every 3 seconds
-    const messagePollInterval = setInterval(() => {
-      if (currentChat && getSessionKey(currentChat.id)) {
-        loadMessages()
+    loadContactVerification()
+    return () => {
+      cancelled = true
+    }
+  }, [currentChat?.id, user?.id, identityKeyRevision])
+
+  useEffect(() => {
+    setSafetyNumberOpen(false)
+    setMessages([])
+    setHasOlderMessages(false)
+  }, [currentChat?.id])
+
+  const handleAcceptIdentityKey = async () => {
+    if (!identityKeyChange) return
+    try {
+      await acceptIdentityKeyChange(user.id, identityKeyChange.contactId, identityKeyChange.newPublicKey)
+      setIdentityKeyChange(null)
+      setKeyExchangeError(null)
+      setIdentityKeyRevision((revision) => revision + 1)
+    } catch (error) {
+      console.error('[TOFU] Failed to accept new identity key:', error)
+    }
+  }
+
+  const handleRotateIdentityKey = async () => {
+    if (!window.confirm('Replace your identity key with a new one? Your contacts will see the change, verify that the new key is signed by your old one, and set up new secure sessions with you.')) {
+      return
+    }
+    if (!(await requestVaultUnlock(user.id, 'Enter your password to rotate your identity key.'))) return
+
+    try {
+      const publicKey = await rotateIdentityKey(user.id)
+
+      // Sessions were set up under the old key; contacts drop theirs once they see the rotation
+      for (const contact of contacts) {
+        clearSessionKey(contact._id)
+        clearRatchetState(contact._id)
+        await deleteSessionKeyPersistent(contact._id)
+        await deleteRatchetStatePersistent(contact._id)
+      }
+      setMyIdentityKey(publicKey)
+      alert('Your identity key was rotated. New secure sessions will be set up with your next messages.')
+    } catch (error: any) {
+      console.error('[KEY ROTATION] Failed to rotate identity key:', error)
+      alert(`Failed to rotate identity key: ${error.response?.data?.error || error.message}`)
+    }
+  }
+
+  const handleVerifiedChange = async (verified: boolean) => {
+    if (!currentChat || !contactIdentityKey) return
+
+    // Verifying the safety number of a changed key is an explicit acceptance of that key
+    if (verified && identityKeyChange?.contactId === currentChat.id) {
+      try {
+        await acceptIdentityKeyChange(user.id, currentChat.id, identityKeyChange.newPublicKey)
+        setIdentityKeyChange(null)
+        setKeyExchangeError(null)
+      } catch (error) {
+        console.error('[TOFU] Failed to accept new identity key:', error)
+        return
       }
-    }, 3000)
+    }
 
-    return () => {
-      clearInterval(messagePollInterval)
+    const verification: ContactVerification = {
+      id: `${user.id}:${currentChat.id}`,
+      userId: user.id,
+      contactId: currentChat.id,
+      publicKeyFingerprint: await fingerprintPublicKey(contactIdentityKey),
+      verified,
+      verifiedAt: verified ? Date.now() : null,
+      keyChangedAt: verified ? null : contactVerification?.keyChangedAt ?? null,
+    }
+    try {
+      await storeContactVerification(verification)
+      setContactVerification(verification)
+      console.log('[SAFETY NUMBER] Contact', currentChat.id, verified ? 'marked as verified' : 'verification cleared')
+    } catch (error) {
+      console.error('[SAFETY NUMBER] Failed to store verification:', error)
     }
-  }, [currentChat, contacts])
+  }
 
   const loadMessages = async () => {
     if (!currentChat) return
     
     const sessionKey = getSessionKey(currentChat.id)
-    if (!sessionKey) {
+    if (!sessionKey && deviceRole === 'primary') {
       console.log('[MESSAGE] No session key, skipping message load')
       return
     }
     
+    const chatId = currentChat.id
     try {
-      console.log('[MESSAGE] Loading messages for conversation with:', currentChat.id)
-      const msgs = await messageService.getConversation(currentChat.id)
-      console.log('[MESSAGE] Loaded', msgs.length, 'messages')
-      
-      // Only update if we got messages or if messages array changed
-      setMessages(prev => {
-        if (prev.length !== msgs.length) {
-          return msgs
-        }
-        // Check if any message IDs changed
-        const prevIds = new Set(prev.map(m => m._id))
-        const newIds = new Set(msgs.map(m => m._id))
-        if (prevIds.size !== newIds.size || ![...prevIds].every(id => newIds.has(id))) {
-          return msgs
-        }
-        return prev
-      })
+      console.log('[MESSAGE] Loading messages for conversation with:', chatId)
+      const page = await messageService.getConversation(chatId)
+      console.log('[MESSAGE] Loaded', page.messages.length, 'messages')
+
+      // Older pages the user scrolled back to are kept as long as the newest page still
+      // connects to them; otherwise the list starts over from the newest page
+      const prev = messagesRef.current.filter(m => m.senderId === chatId || m.recipientId === chatId)
+      const first = page.messages[0]
+      const last = page.messages[page.messages.length - 1]
+      const connected = first && prev.some(m => m._id === first._id)
+      const merged = connected
+        ? [
+            ...prev.filter(m => m._id < first._id),
+            ...page.messages,
+            // Pushed while the page was loading
+            ...prev.filter(m => m._id > last._id),
+          ]
+        : page.messages
+      if (!connected) setHasOlderMessages(page.hasMore)
+
+      // Only update if any message IDs changed
+      setMessages(current =>
+        current.length === merged.length && current.every((m, i) => m._id === merged[i]._id) ? current : merged
+      )
     } catch (error: any) {
       if (error.response?.status === 404) {
         console.log('[MESSAGE] No messages found (404) - this is normal for new conversations')
@@ -357,6 +535,104 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
     }
   }
 
+  // Called by the message list when the user scrolls up to the oldest loaded message
+  const loadOlderMessages = async () => {
+    const oldest = messagesRef.current[0]
+    if (!currentChat || !oldest || loadingOlderMessages) return
+
+    const chatId = currentChat.id
+    setLoadingOlderMessages(true)
+    try {
+      const page = await messageService.getConversation(chatId, { before: oldest._id })
+      console.log('[MESSAGE] Loaded', page.messages.length, 'older messages')
+      // Dropped if the chat changed or the list started over while loading
+      if (messagesRef.current[0]?._id !== oldest._id) return
+      setMessages(prev => prev[0]?._id === oldest._id ? [...page.messages, ...prev] : prev)
+      setHasOlderMessages(page.hasMore)
+    } catch (error) {
+      console.error('[MESSAGE] Failed to load older messages:', error)
+    } finally {
+      setLoadingOlderMessages(false)
+    }
+  }
+
+  const acceptIncomingPreKeyMessage = async (): Promise<boolean> => {
+    if (!currentChat) return false
+
+    const { messages: msgs } = await messageService.getConversation(currentChat.id)
+    const incoming = [...msgs].reverse().find(m => m.senderId === currentChat.id && m.preKeyHeader)
+    if (!incoming?.preKeyHeader) return false
+
+    const header = incoming.preKeyHeader
+    const current = getRatchetState(currentChat.id)
+    if (current && (current.preKeyEphemeralKey === header.ephemeralKey || current.createdAt > header.timestamp)) {
+      return false
+    }
+
+    console.log('[X3DH] Found prekey message from', currentChat.id)
+    if (!(await requestVaultUnlock(user.id, `Enter your password to open the secure session started by ${currentChat.name}.`))) {
+      return false
+    }
+
+    // Already accepted in an earlier page session, or superseded by a newer session
+    const existing = await keyVault.getRatchetState(currentChat.id)
+    if (existing && (existing.preKeyEphemeralKey === header.ephemeralKey || existing.createdAt > header.timestamp)) {
+      const sessionKey = await keyVault.getSessionKey(currentChat.id)
+      if (sessionKey) {
+        console.log('[X3DH] Prekey session already accepted, restored from IndexedDB')
+        storeSessionKey(currentChat.id, sessionKey)
+        storeRatchetState(currentChat.id, existing)
+        return true
+      }
+    }
+
+    const signedPreKeyPair = await keyVault.getPreKey(user.id, header.signedPreKeyId)
+    if (!signedPreKeyPair) {
+      console.error('[X3DH] Signed prekey not found locally:', header.signedPreKeyId)
+      return false
+    }
+    const oneTimePreKeyPair = header.oneTimePreKeyId !== undefined
+      ? await keyVault.getPreKey(user.id, header.oneTimePreKeyId)
+      : null
+
+    const senderPublicKey = await getTrustedPublicKey(user.id, currentChat.id)
+    const senderPubKey = await importIdentityPublicKey(senderPublicKey)
+
+    const sharedSecret = await acceptPreKeySession(
+      header,
+      senderPubKey,
+      currentChat.id,
+      user.id,
+      signedPreKeyPair,
+      oneTimePreKeyPair
+    )
+
+    const signedPreKey = btoa(String.fromCharCode(...new Uint8Array(
+      await crypto.subtle.exportKey('spki', signedPreKeyPair.publicKey)
+    )))
+    const transcript = preKeyTranscript(header, currentChat.id, user.id, signedPreKey)
+    const sessionKey = await deriveSessionKey(sharedSecret, transcript, user.id, currentChat.id)
+    // The signed prekey acts as our handshake key, so it becomes our first ratchet key pair
+    const ratchet = await initializeRatchetAsResponder(sharedSecret, signedPreKeyPair, transcript)
+    ratchet.preKeyEphemeralKey = header.ephemeralKey
+    await startRatchet(currentChat.id, ratchet)
+
+    storeSessionKey(currentChat.id, sessionKey)
+    try {
+      await keyVault.storeSessionKey(currentChat.id, sessionKey)
+      console.log('[X3DH] Session key stored in IndexedDB')
+    } catch (error) {
+      console.warn('[X3DH] Failed to store session key in IndexedDB:', error)
+    }
+
+    if (header.oneTimePreKeyId !== undefined) {
+      await deletePreKeyPersistent(user.id, header.oneTimePreKeyId)
+    }
+
+    console.log('[X3DH] ✅ Prekey session accepted')
+    return true
+  }
+
   const handleSearch = async (query: string) => {
     if (query.length < 2) {
       setContacts([])
@@ -370,63 +646,160 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
     }
   }
 
+  const startRatchet = async (partnerId: string, ratchet: RatchetState) => {
+    storeRatchetState(partnerId, ratchet)
+    try {
+      await keyVault.storeRatchetState(partnerId, ratchet)
+      console.log('[RATCHET] Ratchet state stored in IndexedDB')
+    } catch (error) {
+      console.warn('[RATCHET] Failed to store ratchet state in IndexedDB:', error)
+    }
+  }
+
+  const reportKeyExchangeError = (error: KeyExchangeError) => {
+    console.error('[KEY EXCHANGE] ❌', `${error.name}:`, error.message)
+    if (error instanceof IdentityKeyChangedError) {
+      setIdentityKeyChange(error)
+      return
+    }
+    setKeyExchangeError(error.message)
+  }
+
+  // The response is signed by the responder, so the roles are swapped relative to the exchange
+  const verifyResponseSignature = (response: any, recipientPubKey: CryptoKey) =>
+    verifyKeyExchangeSignature({
+      type: 'response',
+      exchangeId: response.exchangeId,
+      fromUserId: response.toUserId,
+      toUserId: response.fromUserId,
+      publicKey: response.responsePublicKey,
+      timestamp: response.responseTimestamp,
+      version: response.version,
+    }, response.responseSignature, recipientPubKey)
+
+  const failKeyConfirmation = async (partnerId: string, reason: string) => {
+    console.error('[KEY CONFIRM] ❌', reason)
+    clearSessionKey(partnerId)
+    clearRatchetState(partnerId)
+    try {
+      await deleteSessionKeyPersistent(partnerId)
+      await deleteRatchetStatePersistent(partnerId)
+    } catch (error) {
+      console.warn('[KEY CONFIRM] Failed to delete session from IndexedDB:', error)
+    }
+    setKeyExchangeError(reason)
+  }
+
+  /**
+   * Publish our key confirmation MAC and check the peer's if it is already there.
+   * If the peer has not confirmed yet, the ratchet is marked pending and sending stays
+   * blocked until checkPendingConfirmation sees a valid MAC.
+   * Returns false on a mismatch - the session must then be discarded.
+   */
+  const confirmSessionKey = async (
+    partnerId: string,
+    sharedSecret: ArrayBuffer,
+    transcript: HandshakeTranscript,
+    ratchet: RatchetState
+  ): Promise<boolean> => {
+    const confirmation = await sendKeyConfirmation(sharedSecret, transcript, user.id, partnerId)
+    const result = await keyExchangeService.confirm(transcript.exchangeId, confirmation.confirmationHash!)
+
+    const expectedConfirmation = await computeKeyConfirmation(sharedSecret, transcript, partnerId)
+    const peerConfirmation = (result.confirmations || []).find((c: any) => c.userId === partnerId)
+
+    if (!peerConfirmation) {
+      console.log('[KEY CONFIRM] Waiting for peer to confirm exchange', transcript.exchangeId)
+      ratchet.pendingConfirmation = { exchangeId: transcript.exchangeId, expectedConfirmation }
+      return true
+    }
+
+    if (!keyConfirmationsMatch(peerConfirmation.confirmationHash, expectedConfirmation)) {
+      await failKeyConfirmation(partnerId, KEY_CONFIRMATION_MISMATCH)
+      return false
+    }
+
+    console.log('[KEY CONFIRM] ✅ Peer confirmation verified')
+    setKeyExchangeError(null)
+    return true
+  }
+
+  const checkPendingConfirmation = async (partnerId: string): Promise<'confirmed' | 'pending' | 'failed'> => {
+    const ratchet = getRatchetState(partnerId)
+    if (!ratchet?.pendingConfirmation) return 'confirmed'
+
+    const { exchangeId, expectedConfirmation } = ratchet.pendingConfirmation
+    let status
+    try {
+      status = await keyExchangeService.getConfirmations(exchangeId)
+    } catch (error: any) {
+      if (error.response?.status === 404) return restartExpiredSession(partnerId)
+      throw error
+    }
+
+    const peerConfirmation = (status.confirmations || []).find((c: any) => c.userId === partnerId)
+    if (!peerConfirmation) {
+      // Expired exchanges stay readable until they are purged, but can no longer be confirmed
+      return status.state === 'expired' ? restartExpiredSession(partnerId) : 'pending'
+    }
+
+    if (!keyConfirmationsMatch(peerConfirmation.confirmationHash, expectedConfirmation)) {
+      await failKeyConfirmation(partnerId, KEY_CONFIRMATION_MISMATCH)
+      return 'failed'
+    }
+
+    console.log('[KEY CONFIRM] ✅ Peer confirmation verified for exchange', exchangeId)
+    delete ratchet.pendingConfirmation
+    await keyVault.updateRatchetState(partnerId, ratchet)
+    setKeyExchangeError(null)
+    return 'confirmed'
+  }
+
+  /**
+   * Discard a session whose key exchange ended unconfirmed and start a new exchange, so
+   * sending is not blocked until the old one is purged from the server
+   */
+  const restartExpiredSession = async (partnerId: string): Promise<'confirmed' | 'pending' | 'failed'> => {
+    await failKeyConfirmation(partnerId, KEY_EXCHANGE_EXPIRED)
+
+    const publicKey = contacts.find(c => c._id === partnerId)?.publicKey
+      ?? (await authService.getPublicKey(partnerId)).publicKey
+    if (!(await establishSession(partnerId, publicKey))) return 'failed'
+    return getRatchetState(partnerId)?.pendingConfirmation ? 'pending' : 'confirmed'
+  }
+
   const establishSession = async (recipientId: string, recipientPublicKey: string) => {
     try {
-      let password = prompt('Enter your password to access private key:')
-      if (!password) {
-        console.log('[KEY EXCHANGE] User cancelled password prompt')
+      // Never start a handshake with a key that is unlogged or differs from the pinned one
+      await checkContactIdentityKey(user.id, recipientId, recipientPublicKey)
+
+      if (!(await requestVaultUnlock(user.id))) {
+        console.log('[KEY EXCHANGE] User cancelled vault unlock')
         return null
       }
 
       console.log('[KEY EXCHANGE] Retrieving private key for user:', user.id)
-      let privateKey = await getPrivateKey(user.id, password)
-      
-      // If password is wrong, give 2 more attempts
-      let attempts = 0
-      while (!privateKey && attempts < 2) {
-        attempts++
-        password = prompt(`Incorrect password. Try again (${attempts}/2):`)
-        if (!password) {
-          console.log('[KEY EXCHANGE] User cancelled password prompt')
-          return null
-        }
-        privateKey = await getPrivateKey(user.id, password)
-      }
+      const privateKey = await keyVault.getPrivateKey(user.id)
       
       if (!privateKey) {
-        console.error('[KEY EXCHANGE] Failed to retrieve private key after 3 attempts')
-        alert('Failed to retrieve private key. Password incorrect.\n\nIMPORTANT: Private keys are stored locally during registration.\nIf you logged in from a different browser/device, you need to use the original browser where you registered, or register a new account.')
+        console.error('[KEY EXCHANGE] Failed to retrieve private key')
+        alert('Failed to retrieve private key.\n\nIMPORTANT: Private keys are stored locally during registration.\nIf you logged in from a different browser/device, you need to use the original browser where you registered, or register a new account.')
         return null
       }
 
       console.log('[KEY EXCHANGE] Private key retrieved successfully')
 
+      // The identity key is at hand, so top up our published prekeys in the background
+      ensurePreKeySupply(user.id, privateKey).catch((error) => {
+        console.warn('[PREKEYS] Failed to top up prekeys:', error)
+      })
+
       console.log('[KEY EXCHANGE] Getting own public key from server')
       const ownUserData = await authService.getPublicKey(user.id)
-      const ownPublicKeyBuffer = Uint8Array.from(atob(ownUserData.publicKey), c => c.charCodeAt(0))
-      const ownPublicKey = await crypto.subtle.importKey(
-        'spki',
-        ownPublicKeyBuffer,
-        {
-          name: 'RSA-PSS',
-          hash: 'SHA-256',
-        },
-        false,
-        ['verify']
-      )
+      const ownPublicKey = await importIdentityPublicKey(ownUserData.publicKey)
 
       console.log('[KEY EXCHANGE] Importing recipient public key')
-      const recipientPubKeyBuffer = Uint8Array.from(atob(recipientPublicKey), c => c.charCodeAt(0))
-      const recipientPubKey = await crypto.subtle.importKey(
-        'spki',
-        recipientPubKeyBuffer,
-        {
-          name: 'RSA-PSS',
-          hash: 'SHA-256',
-        },
-        false,
-        ['verify']
-      )
+      const recipientPubKey = await importIdentityPublicKey(recipientPublicKey)
 
       console.log('[KEY EXCHANGE] Starting key exchange process')
       
@@ -479,97 +852,59 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
           hasPublicKey: !!otherEcdhPublicKey
         })
 
-        // Generate our ECDH key pair for the response
-        myEcdhKeyPair = await crypto.subtle.generateKey(
-          {
-            name: 'ECDH',
-            namedCurve: 'P-256',
-          },
-          true,
-          ['deriveKey', 'deriveBits']
-        )
+        // Generate our ECDH key pair for the response, on the curve the initiator chose
+        myEcdhKeyPair = await generateKeyAgreementKeyPair(keyAgreementCurve(otherEcdhPublicKey))
 
-        const myEcdhPublicKeyBuffer = await crypto.subtle.exportKey('spki', myEcdhKeyPair.publicKey)
+        const myEcdhPublicKeyBuffer = await exportKey('spki', myEcdhKeyPair.publicKey)
         myEcdhPublicKeyBase64 = btoa(String.fromCharCode(...new Uint8Array(myEcdhPublicKeyBuffer)))
 
+        // Authenticate the initiator before answering: an unverified exchange gets no response
+        await verifyKeyExchangeSignature({
+          type: 'initiate',
+          exchangeId,
+          fromUserId: exchange.fromUserId,
+          toUserId: exchange.toUserId,
+          publicKey: otherEcdhPublicKey,
+          timestamp: exchange.timestamp,
+          version: exchange.version,
+        }, exchange.signature, recipientPubKey)
+
         const responseTimestamp = Date.now()
-        const responseData = JSON.stringify({
+        const responseSignature = await signKeyExchange({
           type: 'response',
+          exchangeId,
           fromUserId: user.id,
           toUserId: recipientId,
           publicKey: myEcdhPublicKeyBase64,
           timestamp: responseTimestamp,
-        })
-
-        const encoder = new TextEncoder()
-        const responseBytes = encoder.encode(responseData)
-        const responseSignature = await crypto.subtle.sign(
-          {
-            name: 'RSA-PSS',
-            saltLength: 32,
-          },
-          privateKey,
-          responseBytes
-        )
+          version: exchange.version,
+        }, privateKey)
 
         console.log('[KEY EXCHANGE] Sending response to existing exchange')
-        const responseResult = await keyExchangeService.respond(
+        await keyExchangeService.respond(
           exchangeId,
           myEcdhPublicKeyBase64,
-          btoa(String.fromCharCode(...new Uint8Array(responseSignature))),
+          responseSignature,
           responseTimestamp
         )
 
-        // Verify the original signature
-        const originalSignatureBytes = Uint8Array.from(atob(responseResult.originalSignature), c => c.charCodeAt(0))
-        const originalData = JSON.stringify({
-          type: 'initiate',
-          fromUserId: exchange.fromUserId,
-          toUserId: exchange.toUserId,
-          publicKey: otherEcdhPublicKey,
-          timestamp: exchange.timestamp,
-        })
-        const originalDataBytes = encoder.encode(originalData)
-        
-        const isValidOriginal = await crypto.subtle.verify(
-          {
-            name: 'RSA-PSS',
-            saltLength: 32,
-          },
-          recipientPubKey,
-          originalSignatureBytes,
-          originalDataBytes
-        )
-
-        if (!isValidOriginal) {
-          throw new Error('Invalid signature in original exchange')
-        }
-
         // Derive session key using recipient's public key and our private key
-        const otherEcdhPublicKeyBuffer = Uint8Array.from(atob(otherEcdhPublicKey), c => c.charCodeAt(0))
-        const otherEcdhPublicKeyCrypto = await crypto.subtle.importKey(
-          'spki',
-          otherEcdhPublicKeyBuffer,
-          {
-            name: 'ECDH',
-            namedCurve: 'P-256',
-          },
-          false,
-          []
-        )
+        const otherEcdhPublicKeyCrypto = await importKeyAgreementPublicKey(otherEcdhPublicKey)
+        const sharedSecret = await deriveSharedSecret(myEcdhKeyPair.privateKey, otherEcdhPublicKeyCrypto)
 
-        const sharedSecret = await crypto.subtle.deriveBits(
-          {
-            name: 'ECDH',
-            public: otherEcdhPublicKeyCrypto,
-          },
-          myEcdhKeyPair.privateKey,
-          256
-        )
+        // Exchanges signed without a version come from clients that still use the legacy derivation
+        const transcript: HandshakeTranscript = {
+          version: exchange.version ?? LEGACY_KEY_DERIVATION_VERSION,
+          exchangeId,
+          initiatorId: exchange.fromUserId,
+          responderId: user.id,
+          initiatorPublicKey: otherEcdhPublicKey,
+          responderPublicKey: myEcdhPublicKeyBase64,
+        }
 
         const sessionKey = await deriveSessionKey(
           sharedSecret,
-          otherEcdhPublicKey, // This is the base64 string
+          transcript,
           user.id, // Current user (responder)
           exchange.fromUserId // Initiator
         )
@@ -581,18 +916,25 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
           sessionKeyExists: !!sessionKey
         })
 
+        // Our response key pair becomes the first ratchet key pair on this side
+        const ratchet = await initializeRatchetAsResponder(
+          sharedSecret,
+          myEcdhKeyPair,
+          transcript
+        )
+
+        if (!(await confirmSessionKey(recipientId, sharedSecret, transcript, ratchet))) return null
+        await startRatchet(recipientId, ratchet)
+
         storeSessionKey(recipientId, sessionKey)
         // Also store in IndexedDB for persistence
         try {
-          await storeSessionKeyPersistent(recipientId, sessionKey, password)
+          await keyVault.storeSessionKey(recipientId, sessionKey)
           console.log('[KEY EXCHANGE] Session key stored in IndexedDB')
         } catch (error) {
           console.warn('[KEY EXCHANGE] Failed to store session key in IndexedDB:', error)
         }
 
-        const confirmation = await sendKeyConfirmation(sessionKey, recipientId, user.id)
-        await keyExchangeService.confirm(exchangeId, confirmation.confirmationHash!)
-
         console.log('[KEY EXCHANGE] ✅ Key exchange completed as recipient - session key stored')
         return sessionKey
       } 
@@ -608,20 +950,13 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
         if (!storedKeyPair) {
           console.log('[KEY EXCHANGE] ECDH key pair not found in memory, checking IndexedDB...')
           // Try to get from IndexedDB (persistent storage)
-          // Use the same password that was used for private key (we already have it from establishSession)
-          // But we need to prompt again since we don't store it
-          const password = prompt('Enter your password to retrieve ECDH key pair:')
-          if (password) {
-            storedKeyPair = await getEcdhKeyPairPersistent(response.exchangeId, password)
-            if (storedKeyPair) {
-              console.log('[KEY EXCHANGE] ✅ Retrieved ECDH key pair from IndexedDB')
-              // Also store in memory for faster access
-              storeEcdhKeyPair(response.exchangeId, storedKeyPair)
-            } else {
-              console.log('[KEY EXCHANGE] ECDH key pair not found in IndexedDB either')
-            }
+          storedKeyPair = await keyVault.getEcdhKeyPair(response.exchangeId)
+          if (storedKeyPair) {
+            console.log('[KEY EXCHANGE] ✅ Retrieved ECDH key pair from IndexedDB')
+            // Also store in memory for faster access
+            storeEcdhKeyPair(response.exchangeId, storedKeyPair)
           } else {
-            console.log('[KEY EXCHANGE] User cancelled password prompt for ECDH key pair')
+            console.log('[KEY EXCHANGE] ECDH key pair not found in IndexedDB either')
           }
         }
         
@@ -633,32 +968,24 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
           // Don't return here - let it fall through to initiate new exchange
         } else {
           console.log('[KEY EXCHANGE] Found stored ECDH key pair, completing exchange...')
+          await verifyResponseSignature(response, recipientPubKey)
           
           // Derive session key using our stored ECDH private key and their public key
-          const otherEcdhPublicKeyBuffer = Uint8Array.from(atob(response.responsePublicKey), c => c.charCodeAt(0))
-          const otherEcdhPublicKeyCrypto = await crypto.subtle.importKey(
-            'spki',
-            otherEcdhPublicKeyBuffer,
-            {
-              name: 'ECDH',
-              namedCurve: 'P-256',
-            },
-            false,
-            []
-          )
-
-          const sharedSecret = await crypto.subtle.deriveBits(
-            {
-              name: 'ECDH',
-              public: otherEcdhPublicKeyCrypto,
-            },
-            storedKeyPair.privateKey,
-            256
-          )
+          const otherEcdhPublicKeyCrypto = await importKeyAgreementPublicKey(response.responsePublicKey)
+          const sharedSecret = await deriveSharedSecret(storedKeyPair.privateKey, otherEcdhPublicKeyCrypto)
+
+          const transcript: HandshakeTranscript = {
+            version: response.version ?? LEGACY_KEY_DERIVATION_VERSION,
+            exchangeId: response.exchangeId,
+            initiatorId: user.id,
+            responderId: recipientId,
+            initiatorPublicKey: response.originalPublicKey,
+            responderPublicKey: response.responsePublicKey,
+          }
 
           const sessionKey = await deriveSessionKey(
             sharedSecret,
-            response.responsePublicKey,
+            transcript,
             user.id, // Current user (initiator completing)
             recipientId // Recipient
           )
@@ -670,10 +997,19 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
             sessionKeyExists: !!sessionKey
           })
 
+          const ratchet = await initializeRatchetAsInitiator(
+            sharedSecret,
+            response.responsePublicKey,
+            transcript
+          )
+
+          if (!(await confirmSessionKey(recipientId, sharedSecret, transcript, ratchet))) return null
+          await startRatchet(recipientId, ratchet)
+
           storeSessionKey(recipientId, sessionKey)
           // Also store in IndexedDB for persistence
           try {
-            await storeSessionKeyPersistent(recipientId, sessionKey, password)
+            await keyVault.storeSessionKey(recipientId, sessionKey)
             console.log('[KEY EXCHANGE] Session key stored in IndexedDB')
           } catch (error) {
             console.warn('[KEY EXCHANGE] Failed to store session key in IndexedDB:', error)
@@ -687,59 +1023,85 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
             console.warn('[KEY EXCHANGE] Failed to delete ECDH key pair from IndexedDB:', error)
           }
 
-          const confirmation = await sendKeyConfirmation(sessionKey, recipientId, user.id)
-          await keyExchangeService.confirm(response.exchangeId, confirmation.confirmationHash!)
-
           console.log('[KEY EXCHANGE] ✅ Key exchange completed as initiator - session key stored')
           return sessionKey
         }
       }
       
-      // No pending exchanges and no responses - initiate new exchange
+      // No pending exchanges and no responses - start from the recipient's prekeys so
+      // the first message can be sent while they are offline
+      try {
+        console.log('[X3DH] Fetching prekey bundle for recipient...')
+        const bundle = await preKeyService.getBundle(recipientId)
+        const { sharedSecret, header, signedPreKey } = await initiatePreKeySession(
+          bundle,
+          recipientPubKey,
+          privateKey,
+          user.id
+        )
+
+        const transcript = preKeyTranscript(header, user.id, recipientId, signedPreKey)
+        const sessionKey = await deriveSessionKey(sharedSecret, transcript, user.id, recipientId)
+        // The recipient's signed prekey acts as their handshake key for the ratchet
+        const ratchet = await initializeRatchetAsInitiator(sharedSecret, signedPreKey, transcript)
+        ratchet.preKeyHeader = header
+        await startRatchet(recipientId, ratchet)
+
+        storeSessionKey(recipientId, sessionKey)
+        try {
+          await keyVault.storeSessionKey(recipientId, sessionKey)
+          console.log('[KEY EXCHANGE] Session key stored in IndexedDB')
+        } catch (error) {
+          console.warn('[KEY EXCHANGE] Failed to store session key in IndexedDB:', error)
+        }
+
+        console.log('[X3DH] ✅ Session established from prekey bundle')
+        return sessionKey
+      } catch (error: any) {
+        if (error.response?.status === 404) {
+          console.log('[X3DH] Recipient has no prekeys published, falling back to interactive exchange')
+        } else if (error instanceof KeyExchangeError) {
+          reportKeyExchangeError(error)
+          return null
+        } else {
+          console.error('[X3DH] Prekey session setup failed:', error)
+          alert(`Could not verify the recipient's prekeys: ${error.message}`)
+          return null
+        }
+      }
+
+      // No prekeys available either - initiate new interactive exchange
       {
         // Initiate new exchange (we are the initiator)
         console.log('[KEY EXCHANGE] No pending exchanges found, initiating new exchange')
         
-        myEcdhKeyPair = await crypto.subtle.generateKey(
-          {
-            name: 'ECDH',
-            namedCurve: 'P-256',
-          },
-          true,
-          ['deriveKey', 'deriveBits']
-        )
+        myEcdhKeyPair = await generateKeyAgreementKeyPair(negotiateKeyAgreementCurve(privateKey, recipientPublicKey))
 
-        const myEcdhPublicKeyBuffer = await crypto.subtle.exportKey('spki', myEcdhKeyPair.publicKey)
+        const myEcdhPublicKeyBuffer = await exportKey('spki', myEcdhKeyPair.publicKey)
         myEcdhPublicKeyBase64 = btoa(String.fromCharCode(...new Uint8Array(myEcdhPublicKeyBuffer)))
 
+        // The exchange ID is chosen here so that it is covered by our signature
+        exchangeId = crypto.randomUUID()
         const initiateTimestamp = Date.now()
-        const initiateData = JSON.stringify({
+        const initiateSignature = await signKeyExchange({
           type: 'initiate',
+          exchangeId,
           fromUserId: user.id,
           toUserId: recipientId,
           publicKey: myEcdhPublicKeyBase64,
           timestamp: initiateTimestamp,
-        })
-
-        const encoder = new TextEncoder()
-        const initiateBytes = encoder.encode(initiateData)
-        const initiateSignature = await crypto.subtle.sign(
-          {
-            name: 'RSA-PSS',
-            saltLength: 32,
-          },
-          privateKey,
-          initiateBytes
-        )
+          version: KEY_DERIVATION_VERSION,
+        }, privateKey)
 
         console.log('[KEY EXCHANGE] Sending initiate request to server')
         const exchangeResponse = await keyExchangeService.initiate(
+          exchangeId,
           recipientId,
           myEcdhPublicKeyBase64,
-          btoa(String.fromCharCode(...new Uint8Array(initiateSignature))),
-          initiateTimestamp
+          initiateSignature,
+          initiateTimestamp,
+          KEY_DERIVATION_VERSION
         )
-        exchangeId = exchangeResponse.exchangeId
         console.log('[KEY EXCHANGE] Initiate response received:', exchangeResponse)
         
         // Store the ECDH key pair in memory AND IndexedDB (persistent)
@@ -747,7 +1109,7 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
         
         // Also store in IndexedDB for persistence across page refreshes
         try {
-          await storeEcdhKeyPairPersistent(exchangeId, myEcdhKeyPair, password)
+          await keyVault.storeEcdhKeyPair(exchangeId, myEcdhKeyPair)
           console.log('[KEY EXCHANGE] ECDH key pair stored in IndexedDB for persistence')
         } catch (error) {
           console.warn('[KEY EXCHANGE] Failed to store ECDH key pair in IndexedDB:', error)
@@ -767,13 +1129,10 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
               
               if (!storedKeyPair) {
                 console.log('[KEY EXCHANGE] ECDH key pair not in memory, checking IndexedDB...')
-                const password = prompt('Enter your password to retrieve ECDH key pair:')
-                if (password) {
-                  storedKeyPair = await getEcdhKeyPairPersistent(exchangeId, password)
-                  if (storedKeyPair) {
-                    console.log('[KEY EXCHANGE] Retrieved ECDH key pair from IndexedDB')
-                    storeEcdhKeyPair(exchangeId, storedKeyPair)
-                  }
+                storedKeyPair = await keyVault.getEcdhKeyPair(exchangeId)
+                if (storedKeyPair) {
+                  console.log('[KEY EXCHANGE] Retrieved ECDH key pair from IndexedDB')
+                  storeEcdhKeyPair(exchangeId, storedKeyPair)
                 }
               }
               
@@ -782,31 +1141,24 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
                 return null
               }
               
-              // Derive session key using our stored ECDH private key and their public key
-              const otherEcdhPublicKeyBuffer = Uint8Array.from(atob(response.responsePublicKey), c => c.charCodeAt(0))
-              const otherEcdhPublicKeyCrypto = await crypto.subtle.importKey(
-                'spki',
-                otherEcdhPublicKeyBuffer,
-                {
-                  name: 'ECDH',
-                  namedCurve: 'P-256',
-                },
-                false,
-                []
-              )
+              await verifyResponseSignature(response, recipientPubKey)
 
-              const sharedSecret = await crypto.subtle.deriveBits(
-                {
-                  name: 'ECDH',
-                  public: otherEcdhPublicKeyCrypto,
-                },
-                storedKeyPair.privateKey,
-                256
-              )
+              // Derive session key using our stored ECDH private key and their public key
+              const otherEcdhPublicKeyCrypto = await importKeyAgreementPublicKey(response.responsePublicKey)
+              const sharedSecret = await deriveSharedSecret(storedKeyPair.privateKey, otherEcdhPublicKeyCrypto)
+
+              const transcript: HandshakeTranscript = {
+                version: KEY_DERIVATION_VERSION,
+                exchangeId,
+                initiatorId: user.id,
+                responderId: recipientId,
+                initiatorPublicKey: myEcdhPublicKeyBase64,
+                responderPublicKey: response.responsePublicKey,
+              }
 
               const sessionKey = await deriveSessionKey(
                 sharedSecret,
-                response.responsePublicKey,
+                transcript,
                 user.id, // Current user (initiator)
                 recipientId // Recipient
               )
@@ -818,10 +1170,19 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
                 sessionKeyExists: !!sessionKey
               })
 
+              const ratchet = await initializeRatchetAsInitiator(
+                sharedSecret,
+                response.responsePublicKey,
+                transcript
+              )
+
+              if (!(await confirmSessionKey(recipientId, sharedSecret, transcript, ratchet))) return null
+              await startRatchet(recipientId, ratchet)
+
               storeSessionKey(recipientId, sessionKey)
               // Also store in IndexedDB for persistence
               try {
-                await storeSessionKeyPersistent(recipientId, sessionKey, password)
+                await keyVault.storeSessionKey(recipientId, sessionKey)
                 console.log('[KEY EXCHANGE] Session key stored in IndexedDB')
               } catch (error) {
                 console.warn('[KEY EXCHANGE] Failed to store session key in IndexedDB:', error)
@@ -835,14 +1196,12 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
                 console.warn('[KEY EXCHANGE] Failed to delete ECDH key pair from IndexedDB:', error)
               }
 
-              const confirmation = await sendKeyConfirmation(sessionKey, recipientId, user.id)
-              await keyExchangeService.confirm(exchangeId, confirmation.confirmationHash!)
-
               console.log('[KEY EXCHANGE] Key exchange completed as initiator')
               return sessionKey
             }
           }
         } catch (error) {
+          if (error instanceof KeyExchangeError) throw error
           console.log('[KEY EXCHANGE] Error checking for responses:', error)
         }
         
@@ -851,6 +1210,10 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
         return null
       }
     } catch (error: any) {
+      if (error instanceof KeyExchangeError) {
+        reportKeyExchangeError(error)
+        return null
+      }
       console.error('[KEY EXCHANGE] Key exchange failed:', error)
       console.error('[KEY EXCHANGE] Error details:', {
         name: error.name,
@@ -861,31 +1224,161 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
     }
   }
 
+  // This browser's device key, unlocked on first use
+  const ensureDeviceUnlocked = async (): Promise<UnlockedDevice | null> => {
+    const unlocked = getUnlockedDevice(user.id)
+    if (unlocked) return unlocked
+
+    if (!(await requestVaultUnlock(user.id, 'Enter your password to unlock this device.'))) return null
+    const device = await unlockDevice(user.id)
+    if (!device) {
+      alert('Could not unlock this device.')
+      return null
+    }
+    setCurrentDevice(device)
+    setCurrentDeviceId(device.deviceId)
+    return device
+  }
+
+  const enqueueSend = <T,>(task: () => Promise<T>): Promise<T> => {
+    const run = sendQueue.current.then(task, task)
+    sendQueue.current = run.catch(() => {})
+    return run
+  }
+
+  // The sending key is gone once a message is sent, so what we sent is kept in the vault
+  const rememberSentMessage = async (messageId: string, payload: MessagePayload) => {
+    cacheDecryptedMessage(messageId, payload)
+    await keyVault.storeMessagePayloads({ [messageId]: payload })
+  }
+
+  // Receipts go through the ratchet session like any message, but only once it is set up
+  // and confirmed, and they never ask for the password or a device unlock
+  const sendReceipt = async (partnerId: string, status: 'delivered' | 'read', messageIds: string[]) => {
+    const ratchet = getRatchetState(partnerId)
+    if (!ratchet?.sendingChainKey || ratchet.pendingConfirmation) return
+
+    const payload = receiptPayload({ status, messageIds })
+    const device = getUnlockedDevice(user.id)
+    const targets = device
+      ? await getMessageTargets(
+          { userId: user.id, deviceId: device.deviceId, identityPublicKey: myIdentityKey || user.publicKey },
+          { userId: partnerId, identityPublicKey: contactIdentityKey ?? await getTrustedPublicKey(user.id, partnerId) },
+          true
+        )
+      : []
+
+    await enqueueSend(async () => {
+      const { header, messageKey } = await ratchetEncrypt(ratchet)
+      await keyVault.storeRatchetState(partnerId, ratchet)
+      const encrypted = await encryptMessage(payload, messageKey, { senderId: user.id, recipientId: partnerId }, header)
+      if (ratchet.preKeyHeader) {
+        encrypted.preKeyHeader = ratchet.preKeyHeader
+      }
+      if (device && targets.length > 0) {
+        encrypted.senderDeviceId = device.deviceId
+        encrypted.deviceCopies = await sealForDevices(payload, encrypted.nonce, device, targets)
+      }
+      const sent = await messageService.send(partnerId, encrypted)
+      cacheDecryptedMessage(sent.messageId, payload)
+      await markControlMessages(user.id, [sent.messageId])
+    })
+    await advanceMessageReceipts(user.id, messageIds, status)
+    console.log(`[RECEIPT] Sent ${status} receipt for ${messageIds.length} message(s) to ${partnerId}`)
+  }
+
+  // Tell the sender that messages reached this browser, and that they were read if the
+  // chat is on screen. Only the primary device holds the session to send receipts with.
+  const acknowledgeMessages = async (conversationId: string, messageIds: string[]) => {
+    openedMessageIds.current = { conversationId, messageIds }
+    if (deviceRole !== 'primary' || currentChat?.id !== conversationId) return
+
+    const status = document.visibilityState === 'visible' ? 'read' : 'delivered'
+    const receipts = await getMessageReceipts(messageIds)
+    const pending = messageIds
+      .filter(id => !receiptsInFlight.current.has(id) && !receiptStatusAtLeast(receipts.get(id)?.status, status))
+      .slice(-MAX_RECEIPT_MESSAGE_IDS)
+    if (pending.length === 0) return
+
+    pending.forEach(id => receiptsInFlight.current.add(id))
+    try {
+      await sendReceipt(conversationId, status, pending)
+    } catch (error) {
+      if (!(error instanceof VaultLockedError)) {
+        console.warn('[RECEIPT] Failed to send receipt:', error)
+      }
+    } finally {
+      pending.forEach(id => receiptsInFlight.current.delete(id))
+    }
+  }
+
+  // Linked devices have no ratchet sessions, so their messages only consist of device copies
+  const sendFromLinkedDevice = async () => {
+    if (!currentChat) return
+    if (deviceRole === 'unlinked') {
+      alert('Link this browser to your account before sending messages from it.')
+      setLinkDeviceOpen(true)
+      return
+    }
+
+    const device = await ensureDeviceUnlocked()
+    if (!device) return
+
+    const targets = await getMessageTargets(
+      { userId: user.id, deviceId: device.deviceId, identityPublicKey: myIdentityKey || user.publicKey },
+      { userId: currentChat.id, identityPublicKey: contactIdentityKey ?? await getTrustedPublicKey(user.id, currentChat.id) },
+      false
+    )
+    if (!targets.some(target => target.userId === currentChat.id)) {
+      alert(`${currentChat.name} has no devices that can receive messages from a linked device yet.`)
+      return
+    }
+
+    const payload = textPayload(message)
+    await enqueueSend(async () => {
+      const envelope = createReplayProtectionFields(`${user.id}-${currentChat.id}`)
+      const deviceCopies = await sealForDevices(payload, envelope.nonce, device, targets)
+      const sent = await messageService.send(currentChat.id, { ...envelope, senderDeviceId: device.deviceId, deviceCopies })
+      await rememberSentMessage(sent.messageId, payload)
+    })
+    setMessage("")
+    await loadMessages()
+  }
+
   const handleSendMessage = async () => {
     console.log('[SEND] handleSendMessage called', { message: message.trim(), currentChat, loading })
     if (!message.trim() || !currentChat) {
       console.log('[SEND] Blocked: empty message or no chat selected')
       return
     }
+    if (identityKeyChange?.contactId === currentChat.id) {
+      console.log('[SEND] Blocked: contact identity key changed and was not accepted')
+      return
+    }
 
     setLoading(true)
     try {
+      if (deviceRole !== 'primary') {
+        await sendFromLinkedDevice()
+        return
+      }
+
       let sessionKey = getSessionKey(currentChat.id)
       
       // If not in memory, try IndexedDB first (don't establish new key if old one exists)
       if (!sessionKey) {
         console.log('[MESSAGE] Session key not in memory, checking IndexedDB...')
-        const password = prompt('Enter your password to retrieve session key (or cancel to establish new session):')
-        if (password) {
-          sessionKey = await getSessionKeyPersistent(currentChat.id, password)
-          if (sessionKey) {
-            console.log('[MESSAGE] Retrieved session key from IndexedDB')
-            storeSessionKey(currentChat.id, sessionKey)
-          } else {
-            console.log('[MESSAGE] No session key in IndexedDB, will establish new one')
+        sessionKey = await keyVault.getSessionKey(currentChat.id)
+        if (sessionKey) {
+          console.log('[MESSAGE] Retrieved session key from IndexedDB')
+          storeSessionKey(currentChat.id, sessionKey)
+          const ratchet = await keyVault.getRatchetState(currentChat.id)
+          if (ratchet) {
+            console.log('[MESSAGE] Retrieved ratchet state from IndexedDB')
+            storeRatchetState(currentChat.id, ratchet)
           }
         } else {
-          console.log('[MESSAGE] User cancelled password prompt, will establish new session')
+          console.log('[MESSAGE] No session key in IndexedDB, will establish new one')
         }
       }
       
@@ -904,11 +1397,52 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
         }
       }
 
-      const encrypted = await encryptMessage(message, sessionKey, `${user.id}-${currentChat.id}`)
-      await messageService.send(currentChat.id, encrypted)
+      const confirmationStatus = await checkPendingConfirmation(currentChat.id)
+      if (confirmationStatus !== 'confirmed') {
+        if (confirmationStatus === 'pending') {
+          alert(`Waiting for ${currentChat.name} to confirm the session key. Try again once they have opened the chat.`)
+        }
+        return
+      }
+
+      // Linked devices on either side get their own copy; the recipient's primary reads the session message
+      const targets = await getMessageTargets(
+        { userId: user.id, deviceId: getUnlockedDevice(user.id)?.deviceId ?? currentDeviceId, identityPublicKey: myIdentityKey || user.publicKey },
+        { userId: currentChat.id, identityPublicKey: contactIdentityKey ?? await getTrustedPublicKey(user.id, currentChat.id) },
+        true
+      )
+      const device = targets.length > 0 ? await ensureDeviceUnlocked() : null
+      if (targets.length > 0 && !device) return
+
+      const payload = textPayload(message)
+      await enqueueSend(async () => {
+        let encrypted
+        const ratchet = getRatchetState(currentChat.id)
+        if (ratchet) {
+          const { header, messageKey } = await ratchetEncrypt(ratchet)
+          // Persist the advanced chain before sending so a message key is never reused
+          await keyVault.storeRatchetState(currentChat.id, ratchet)
+          encrypted = await encryptMessage(payload, messageKey, { senderId: user.id, recipientId: currentChat.id }, header)
+          if (ratchet.preKeyHeader) {
+            encrypted.preKeyHeader = ratchet.preKeyHeader
+          }
+        } else {
+          console.warn('[MESSAGE] No ratchet state for this session, using static session key')
+          encrypted = await encryptMessage(payload, sessionKey, { senderId: user.id, recipientId: currentChat.id })
+        }
+        if (device) {
+          encrypted.senderDeviceId = device.deviceId
+          encrypted.deviceCopies = await sealForDevices(payload, encrypted.nonce, device, targets)
+        }
+        const sent = await messageService.send(currentChat.id, encrypted)
+        if (encrypted.ratchetHeader) {
+          await rememberSentMessage(sent.messageId, payload)
+        }
+      })
       setMessage("")
       await loadMessages()
     } catch (error) {
+      if (error instanceof VaultLockedError) return
       console.error('Failed to send message:', error)
       alert('Failed to send message')
     } finally {
@@ -917,7 +1451,15 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
   }
 
   const handleFileUpload = async (file: File) => {
-    if (!currentChat) return
+    if (!currentChat || !user) return
+    if (identityKeyChange?.contactId === currentChat.id) {
+      console.log('[SEND] Blocked: contact identity key changed and was not accepted')
+      return
+    }
+    if (deviceRole !== 'primary') {
+      alert('Files can only be sent from your primary device.')
+      return
+    }
 
     setLoading(true)
     try {
@@ -935,7 +1477,17 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
         }
       }
 
-      const encryptedFile = await encryptFile(file, sessionKey)
+      const confirmationStatus = await checkPendingConfirmation(currentChat.id)
+      if (confirmationStatus !== 'confirmed') {
+        if (confirmationStatus === 'pending') {
+          alert(`Waiting for ${currentChat.name} to confirm the session key. Try again once they have opened the chat.`)
+        }
+        return
+      }
+
+      // The check above replaces the session if its key exchange expired
+      sessionKey = getSessionKey(currentChat.id) ?? sessionKey
+      const encryptedFile = await encryptFile(file, sessionKey, { senderId: user.id, recipientId: currentChat.id })
       await fileService.upload(currentChat.id, encryptedFile)
       alert('File uploaded successfully')
     } catch (error) {
@@ -1000,6 +1552,35 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
                   <DropdownMenuItem>
                     <span>Account</span>
                   </DropdownMenuItem>
+                  {deviceRole === 'unlinked' ? (
+                    <DropdownMenuItem onClick={() => setLinkDeviceOpen(true)}>
+                      <span>Link this device</span>
+                    </DropdownMenuItem>
+                  ) : (
+                    <DropdownMenuItem onClick={() => setDevicesOpen(true)}>
+                      <span>Devices</span>
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem onClick={() => setKeyBackupOpen(true)}>
+                    <span>{deviceRole === 'unlinked' ? "Restore from backup" : "Key backup"}</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setPasskeyOpen(true)}>
+                    <span>Passkey unlock</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setTwoFactorOpen(true)}>
+                    <span>Two-factor authentication</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setSessionsOpen(true)}>
+                    <span>Active sessions</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setChangePasswordOpen(true)}>
+                    <span>Change password</span>
+                  </DropdownMenuItem>
+                  {deviceRole === 'primary' && (
+                    <DropdownMenuItem onClick={handleRotateIdentityKey}>
+                      <span>Rotate identity key</span>
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuItem onClick={onLogout}>
                     <span>Sign out</span>
                   </DropdownMenuItem>
@@ -1010,6 +1591,43 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
         </SidebarFooter>
       </Sidebar>
 
+      <DevicesSheet
+        open={devicesOpen}
+        onOpenChange={setDevicesOpen}
+        currentUserId={user.id}
+        currentDeviceId={currentDeviceId}
+        isPrimary={deviceRole === 'primary'}
+        onDevicesChanged={() => setDeviceRevision((revision) => revision + 1)}
+      />
+      <LinkDeviceSheet
+        open={linkDeviceOpen}
+        onOpenChange={setLinkDeviceOpen}
+        currentUserId={user.id}
+        onLinked={() => setDeviceRevision((revision) => revision + 1)}
+      />
+      <KeyBackupSheet
+        open={keyBackupOpen}
+        onOpenChange={setKeyBackupOpen}
+        currentUserId={user.id}
+        username={user.username}
+        mode={deviceRole === 'primary' ? 'backup' : deviceRole === 'unlinked' ? 'restore' : 'none'}
+        onRestored={() => setDeviceRevision((revision) => revision + 1)}
+      />
+      <PasskeySheet
+        open={passkeyOpen}
+        onOpenChange={setPasskeyOpen}
+        currentUserId={user.id}
+        username={user.username}
+      />
+      <TwoFactorSheet open={twoFactorOpen} onOpenChange={setTwoFactorOpen} username={user.username} />
+      <SessionsSheet open={sessionsOpen} onOpenChange={setSessionsOpen} />
+      <ChangePasswordSheet
+        open={changePasswordOpen}
+        onOpenChange={setChangePasswordOpen}
+        currentUserId={user.id}
+        username={user.username}
+      />
+
       <SidebarInset>
         <ResizablePanelGroup direction="horizontal" className="h-screen">
           <ResizablePanel defaultSize={25} minSize={20} className="flex-grow">
@@ -1101,6 +1719,30 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
                       <CardTitle>{currentChat.name}</CardTitle>
                       <CardDescription>Encrypted</CardDescription>
                     </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="ml-auto"
+                      onClick={() => setSafetyNumberOpen(true)}
+                      disabled={!contactIdentityKey}
+                    >
+                      {contactVerification?.verified ? (
+                        <><ShieldCheck className="size-4 mr-1 text-green-600" /> Verified</>
+                      ) : (
+                        <><Shield className="size-4 mr-1" /> Verify safety number</>
+                      )}
+                    </Button>
+                    <SafetyNumberSheet
+                      open={safetyNumberOpen}
+                      onOpenChange={setSafetyNumberOpen}
+                      currentUserId={user.id}
+                      myPublicKey={myIdentityKey}
+                      contactId={currentChat.id}
+                      contactName={currentChat.name}
+                      contactPublicKey={contactIdentityKey}
+                      verified={!!contactVerification?.verified}
+                      onVerifiedChange={handleVerifiedChange}
+                    />
                   </>
                 ) : (
                   <div className="flex-1 flex items-center justify-center h-full">
@@ -1109,12 +1751,75 @@ const ChatContent = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
                 )}
               </div>
 
+              {identityKeyChange && identityKeyChange.contactId === currentChat?.id && (
+                <div className="m-3 p-3 flex items-start gap-2 text-sm font-medium text-destructive-foreground bg-destructive rounded-md">
+                  <ShieldAlert className="size-5 shrink-0" />
+                  <div className="flex-1">
+                    {currentChat.name}'s identity key is different from the one you first saw. This happens when
+                    they re-register, but it can also mean the server is intercepting your messages. Sending is
+                    blocked until you accept the new key - verify the safety number with {currentChat.name} first.
+                  </div>
+                  <div className="flex flex-col gap-2">
+                    <Button size="sm" variant="outline" className="text-foreground" onClick={() => setSafetyNumberOpen(true)}>
+                      Verify
+                    </Button>
+                    <Button size="sm" variant="outline" className="text-foreground" onClick={handleAcceptIdentityKey}>
+                      Accept new key
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {!identityKeyChange && contactVerification?.keyChangedAt && (
+                <div className="m-3 p-3 flex items-start gap-2 text-sm font-medium text-destructive-foreground bg-destructive rounded-md">
+                  <ShieldAlert className="size-5 shrink-0" />
+                  <div className="flex-1">
+                    {currentChat?.name}'s identity key has changed since you verified it. This happens when
+                    they re-register, but it can also mean someone is intercepting your messages.
+                    Verify the new safety number before trusting this conversation.
+                  </div>
+                  <Button size="sm" variant="outline" className="text-foreground" onClick={() => setSafetyNumberOpen(true)}>
+                    Verify
+                  </Button>
+                </div>
+              )}
+
+              {deviceRole === 'unlinked' && (
+                <div className="m-3 p-3 flex items-start gap-2 text-sm bg-muted rounded-md">
+                  <Smartphone className="size-5 shrink-0" />
+                  <div className="flex-1">
+                    This browser does not have keys for your account, so it cannot read or send messages.
+                    Link it from a device you already use, or restore a key backup.
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => setLinkDeviceOpen(true)}>
+                    Link this device
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setKeyBackupOpen(true)}>
+                    Restore
+                  </Button>
+                </div>
+              )}
+
+              {keyExchangeError && (
+                <div className="m-3 p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+                  {keyExchangeError}
+                </div>
+              )}
+
               <ScrollArea className="flex-1 p-4 mb-2">
                 {currentChat && messages.length > 0 ? (
                   <MessageList
                     messages={messages}
                     currentUserId={user.id}
                     conversationId={currentChat.id}
+                    deviceRole={deviceRole ?? 'primary'}
+                    device={currentDevice}
+                    myIdentityKey={myIdentityKey}
+                    contactIdentityKey={contactIdentityKey}
+                    hasOlderMessages={hasOlderMessages}
+                    loadingOlderMessages={loadingOlderMessages}
+                    onLoadOlderMessages={loadOlderMessages}
+                    onMessagesOpened={acknowledgeMessages}
                   />
                 ) : currentChat ? (
                   <div className="text-center text-muted-foreground">
@@ -1,6 +1,7 @@
 import { useState } from 'react'
 import { useNavigate, Link } from 'react-router-dom'
 import { useAuth } from '@/context/AuthContext'
+import { InvalidCredentialsError } from '@/services/authService'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -10,7 +11,10 @@ const Login = () => {
   const [password, setPassword] = useState('')
   const [error, setError] = useState('')
   const [loading, setLoading] = useState(false)
-  const { login } = useAuth()
+  const [twoFactorStep, setTwoFactorStep] = useState(false)
+  const [code, setCode] = useState('')
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const { login, completeTwoFactorLogin } = useAuth()
   const navigate = useNavigate()
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -19,15 +23,105 @@ const Login = () => {
     setLoading(true)
 
     try {
-      await login(username, password)
+      const { twoFactorRequired } = await login(username, password)
+      if (twoFactorRequired) {
+        setCode('')
+        setUseRecoveryCode(false)
+        setTwoFactorStep(true)
+        return
+      }
+      navigate('/chat')
+    } catch (err: any) {
+      setError(err.response?.data?.error || (err instanceof InvalidCredentialsError ? err.message : 'Login failed'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setLoading(true)
+
+    try {
+      await completeTwoFactorLogin(useRecoveryCode ? { recoveryCode: code } : { code })
       navigate('/chat')
     } catch (err: any) {
       setError(err.response?.data?.error || 'Login failed')
+      setCode('')
     } finally {
       setLoading(false)
     }
   }
 
+  const backToCredentials = () => {
+    setTwoFactorStep(false)
+    setPassword('')
+    setCode('')
+    setError('')
+  }
+
+  if (twoFactorStep) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="text-2xl">Two-factor authentication</CardTitle>
+            <CardDescription>
+              {useRecoveryCode
+                ? 'Enter one of your recovery codes. Each code works only once.'
+                : 'Enter the 6-digit code from your authenticator app'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCodeSubmit} className="space-y-4">
+              {error && (
+                <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+                  {error}
+                </div>
+              )}
+              <div className="space-y-2">
+                <label htmlFor="code" className="text-sm font-medium">
+                  {useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+                </label>
+                <Input
+                  id="code"
+                  type="text"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  required
+                  autoFocus
+                  autoComplete="one-time-code"
+                  inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                  placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? 'Verifying...' : 'Verify'}
+              </Button>
+              <div className="flex justify-between text-sm">
+                <button
+                  type="button"
+                  className="text-primary hover:underline"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode)
+                    setCode('')
+                    setError('')
+                  }}
+                >
+                  {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+                </button>
+                <button type="button" className="text-muted-foreground hover:underline" onClick={backToCredentials}>
+                  Back to login
+                </button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background p-4">
       <Card className="w-full max-w-md">
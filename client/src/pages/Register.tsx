@@ -4,35 +4,22 @@ import { useAuth } from '@/context/AuthContext'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { storePrivateKey } from '@/storage/keyStorage'
+import { enrollVaultPasskey, keyVault } from '@/storage/keyVault'
+import { ensurePreKeySupply } from '@/services/preKeyService'
+import { registerPrimaryDevice } from '@/services/deviceService'
+import { generateIdentityKeyPair } from '@/crypto/keyAlgorithms'
+import { isPasskeySupported } from '@/crypto/webauthnPrf'
 
 const Register = () => {
   const [username, setUsername] = useState('')
   const [password, setPassword] = useState('')
   const [confirmPassword, setConfirmPassword] = useState('')
+  const [usePasskey, setUsePasskey] = useState(false)
   const [error, setError] = useState('')
   const [loading, setLoading] = useState(false)
   const { register } = useAuth()
   const navigate = useNavigate()
 
-  const generateKeyPair = async () => {
-    const keyPair = await window.crypto.subtle.generateKey(
-      {
-        name: 'RSA-PSS',
-        modulusLength: 2048,
-        publicExponent: new Uint8Array([1, 0, 1]),
-        hash: 'SHA-256',
-      },
-      true,
-      ['sign', 'verify']
-    )
-
-    const publicKeyBuffer = await window.crypto.subtle.exportKey('spki', keyPair.publicKey)
-    const publicKeyBase64 = btoa(String.fromCharCode(...new Uint8Array(publicKeyBuffer)))
-
-    return { keyPair, publicKeyBase64 }
-  }
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
@@ -51,16 +38,39 @@ const Register = () => {
 
     try {
       console.log('[REGISTER] Starting registration process...')
-      const { keyPair, publicKeyBase64 } = await generateKeyPair()
-      console.log('[REGISTER] Key pair generated, registering with server...')
+      const { keyPair, publicKeyBase64, algorithm } = await generateIdentityKeyPair()
+      console.log(`[REGISTER] ${algorithm} key pair generated, registering with server...`)
       await register(username, password, publicKeyBase64)
       console.log('[REGISTER] Server registration successful')
       const user = JSON.parse(localStorage.getItem('user') || '{}')
       console.log('[REGISTER] User from localStorage:', user)
       if (user.id) {
         console.log('[REGISTER] Storing private key for user:', user.id)
-        await storePrivateKey(user.id, keyPair.privateKey, password)
+        await keyVault.storePrivateKey(user.id, keyPair.privateKey)
         console.log('[REGISTER] Private key stored successfully')
+        try {
+          await registerPrimaryDevice(user.id, keyPair.privateKey)
+        } catch (deviceError) {
+          // Not fatal: this browser registers itself as the primary device when first unlocked
+          console.warn('[REGISTER] Failed to register primary device:', deviceError)
+        }
+        try {
+          await ensurePreKeySupply(user.id, keyPair.privateKey)
+          console.log('[REGISTER] Prekeys published')
+        } catch (prekeyError) {
+          // Not fatal: prekeys are topped up again on the next key exchange
+          console.warn('[REGISTER] Failed to publish prekeys:', prekeyError)
+        }
+        if (usePasskey) {
+          try {
+            if (await enrollVaultPasskey(user.id, username, password)) {
+              console.log('[REGISTER] Passkey unlock enabled')
+            }
+          } catch (passkeyError) {
+            // Not fatal: a passkey can be added later from the account menu
+            console.warn('[REGISTER] Failed to add passkey:', passkeyError)
+          }
+        }
       } else {
         console.error('[REGISTER] No user.id found in localStorage!')
       }
@@ -128,6 +138,16 @@ const Register = () => {
                 placeholder="Confirm your password"
               />
             </div>
+            {isPasskeySupported() && (
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={usePasskey}
+                  onChange={(e) => setUsePasskey(e.target.checked)}
+                />
+                Also unlock my keys on this device with a passkey
+              </label>
+            )}
             <Button type="submit" className="w-full" disabled={loading}>
               {loading ? 'Creating account...' : 'Register'}
             </Button>
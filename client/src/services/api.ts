@@ -1,6 +1,11 @@
-import axios from 'axios'
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios'
 import { API_URL } from '@/config/api'
 
+// Fired on window when the session cannot be refreshed; AuthContext logs out on it
+export const SESSION_ENDED_EVENT = 'auth:session-ended'
+
+export type SessionEndedReason = 'expired' | 'refresh-token-reused'
+
 const api = axios.create({
   baseURL: API_URL,
   headers: {
@@ -10,12 +15,102 @@ const api = axios.create({
 
 api.interceptors.request.use((config) => {
   const token = localStorage.getItem('token')
-  if (token) {
+  // Requests made before a new session is stored bring their own token
+  if (token && !config.headers.Authorization) {
     config.headers.Authorization = `Bearer ${token}`
   }
   return config
 })
 
-export default api
+// Endpoints whose 401 means wrong credentials rather than an expired access token
+const NO_REFRESH_PATHS = [
+  '/auth/login',
+  '/auth/login/2fa',
+  '/auth/register',
+  '/auth/refresh',
+  '/auth/logout',
+  '/auth/opaque/migrate',
+]
+
+let refreshing: Promise<string | null> | null = null
+
+const endSession = (reason: SessionEndedReason) => {
+  localStorage.removeItem('token')
+  localStorage.removeItem('refreshToken')
+  window.dispatchEvent(new CustomEvent<SessionEndedReason>(SESSION_ENDED_EVENT, { detail: reason }))
+}
+
+/**
+ * Get a new access token with the stored refresh token
+ *
+ * Refresh tokens are single-use: the server revokes the whole session if one is presented
+ * twice. Refreshes are therefore serialized, within this tab by sharing one request and
+ * across tabs with a Web Lock, and a tab that finds a token newer than `staleToken`
+ * after waiting uses that instead of refreshing again.
+ *
+ * @returns The new access token, or null if the session has ended
+ */
+export async function refreshAccessToken(staleToken: string | null): Promise<string | null> {
+  const refresh = async (): Promise<string | null> => {
+    const current = localStorage.getItem('token')
+    if (current && current !== staleToken) return current
+
+    const refreshToken = localStorage.getItem('refreshToken')
+    if (!refreshToken) {
+      endSession('expired')
+      return null
+    }
+
+    try {
+      const response = await axios.post(`${API_URL}/auth/refresh`, { refreshToken })
+      localStorage.setItem('token', response.data.token)
+      localStorage.setItem('refreshToken', response.data.refreshToken)
+      console.log('[AUTH] Access token refreshed')
+      return response.data.token
+    } catch (error: any) {
+      const status = error.response?.status
+      if (status === 400 || status === 401) {
+        const reused = error.response.data?.code === 'REFRESH_TOKEN_REUSED'
+        if (reused) {
+          console.warn('[AUTH] Refresh token was used twice; the server ended this session')
+        }
+        endSession(reused ? 'refresh-token-reused' : 'expired')
+        return null
+      }
+      throw error
+    }
+  }
 
+  const refreshAcrossTabs = async (): Promise<string | null> =>
+    navigator.locks ? navigator.locks.request('cipherlink-token-refresh', refresh) : refresh()
 
+  if (!refreshing) {
+    refreshing = refreshAcrossTabs().finally(() => {
+      refreshing = null
+    })
+  }
+  return refreshing
+}
+
+// Retry a request once with a fresh access token when the current one was rejected
+api.interceptors.response.use(undefined, async (error: AxiosError) => {
+  const config = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined
+  if (
+    error.response?.status !== 401 ||
+    !config ||
+    config._retried ||
+    NO_REFRESH_PATHS.includes(config.url ?? '')
+  ) {
+    throw error
+  }
+
+  const staleToken = String(config.headers.Authorization ?? '').replace(/^Bearer /, '') || null
+  const token = await refreshAccessToken(staleToken)
+  if (!token) throw error
+
+  config._retried = true
+  config.headers.Authorization = `Bearer ${token}`
+  return api(config)
+})
+
+export default api
@@ -1,33 +1,168 @@
+import * as opaque from '@serenity-kit/opaque'
 import api from './api'
 
 export interface RegisterData {
   username: string
-  password: string
+  registrationRecord: string
   publicKey: string
 }
 
+// Password login, only accepted for accounts that were not moved to OPAQUE yet, with
+// the token the OPAQUE login start hands out for them
 export interface LoginData {
   username: string
   password: string
+  passwordLoginToken: string
 }
 
 export interface User {
   id: string
   username: string
   publicKey: string
+  keyAlgorithm?: 'RSA-PSS' | 'Ed25519'
+}
+
+export interface AuthResponse {
+  token: string
+  refreshToken: string
+  user: User
+  // Password logins of accounts without an OPAQUE record; valid with this session's token
+  migrationToken?: string
+}
+
+// Returned by login instead of a token when the account has two-factor authentication
+export interface TwoFactorChallenge {
+  twoFactorRequired: true
+  challengeToken: string
+}
+
+export interface TwoFactorLoginData {
+  challengeToken: string
+  code?: string
+  recoveryCode?: string
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  enabledAt: string | null
+  recoveryCodesLeft: number
+}
+
+// Proof of the password for settings that ask for it again
+export type PasswordProof = { reauthToken: string } | { password: string; passwordLoginToken: string }
+
+// Answer of the OPAQUE login start for accounts that have no OPAQUE record yet
+export interface PasswordLoginGrant {
+  legacy: true
+  passwordLoginToken: string
+}
+
+export interface AuthSession {
+  id: string
+  userAgent: string | null
+  ip: string | null
+  createdAt: string
+  lastUsedAt: string
+  current: boolean
+}
+
+export class InvalidCredentialsError extends Error {
+  constructor() {
+    super('Invalid credentials')
+    this.name = 'InvalidCredentialsError'
+  }
 }
 
 export const authService = {
-  register: async (data: RegisterData) => {
+  register: async (data: RegisterData): Promise<AuthResponse> => {
     const response = await api.post('/auth/register', data)
     return response.data
   },
 
-  login: async (data: LoginData) => {
+  login: async (data: LoginData): Promise<AuthResponse | TwoFactorChallenge> => {
     const response = await api.post('/auth/login', data)
     return response.data
   },
 
+  opaqueRegisterStart: async (data: { username: string; registrationRequest: string }): Promise<{ registrationResponse: string }> => {
+    const response = await api.post('/auth/opaque/register/start', data)
+    return response.data
+  },
+
+  opaqueLoginStart: async (data: {
+    username: string
+    startLoginRequest: string
+    purpose: 'login' | 'reauth'
+  }): Promise<{ loginId: string; loginResponse: string } | PasswordLoginGrant> => {
+    const response = await api.post('/auth/opaque/login/start', data)
+    return response.data
+  },
+
+  opaqueLoginFinish: async (data: { loginId: string; finishLoginRequest: string }) => {
+    const response = await api.post('/auth/opaque/login/finish', data)
+    return response.data
+  },
+
+  changePassword: async (
+    data: PasswordProof & { registrationRecord: string }
+  ): Promise<{ success: boolean; sessionsRevoked: number }> => {
+    const response = await api.post('/auth/change-password', data)
+    return response.data
+  },
+
+  // Runs before the session is stored, so its token is passed in
+  opaqueMigrate: async (token: string, data: { migrationToken: string; registrationRecord: string }) => {
+    const response = await api.post('/auth/opaque/migrate', data, {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+    return response.data
+  },
+
+  loginTwoFactor: async (data: TwoFactorLoginData): Promise<AuthResponse> => {
+    const response = await api.post('/auth/login/2fa', data)
+    return response.data
+  },
+
+  logout: async (refreshToken: string) => {
+    const response = await api.post('/auth/logout', { refreshToken })
+    return response.data
+  },
+
+  getSessions: async (): Promise<AuthSession[]> => {
+    const response = await api.get('/auth/sessions')
+    return response.data
+  },
+
+  revokeSession: async (sessionId: string) => {
+    const response = await api.delete(`/auth/sessions/${sessionId}`)
+    return response.data
+  },
+
+  revokeOtherSessions: async (): Promise<{ revoked: number }> => {
+    const response = await api.delete('/auth/sessions')
+    return response.data
+  },
+
+  getTwoFactorStatus: async (): Promise<TwoFactorStatus> => {
+    const response = await api.get('/auth/2fa')
+    return response.data
+  },
+
+  setupTwoFactor: async (proof: PasswordProof): Promise<{ secret: string; otpauthUri: string }> => {
+    const response = await api.post('/auth/2fa/setup', proof)
+    return response.data
+  },
+
+  enableTwoFactor: async (code: string): Promise<{ recoveryCodes: string[] }> => {
+    const response = await api.post('/auth/2fa/enable', { code })
+    return response.data
+  },
+
+  disableTwoFactor: async (data: PasswordProof & { code?: string; recoveryCode?: string }) => {
+    const response = await api.post('/auth/2fa/disable', data)
+    return response.data
+  },
+
   getPublicKey: async (userId: string) => {
     const response = await api.get(`/users/${userId}/public-key`)
     return response.data
@@ -39,3 +174,154 @@ export const authService = {
   },
 }
 
+
+// OPAQUE export keys are unpadded base64url
+function exportKeyBytes(exportKey: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(exportKey.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0))
+}
+
+/**
+ * Register the password with OPAQUE, for a new account or one that still uses a
+ * password login. Only the resulting record is sent to the server, never the password.
+ */
+async function createOpaqueRecord(
+  username: string,
+  password: string
+): Promise<{ registrationRecord: string; exportKey: Uint8Array<ArrayBuffer> }> {
+  await opaque.ready
+  const { clientRegistrationState, registrationRequest } = opaque.client.startRegistration({ password })
+  const { registrationResponse } = await authService.opaqueRegisterStart({ username, registrationRequest })
+  const { registrationRecord, exportKey } = opaque.client.finishRegistration({
+    clientRegistrationState,
+    registrationResponse,
+    password,
+  })
+  return { registrationRecord, exportKey: exportKeyBytes(exportKey) }
+}
+
+// Usernames that logged in with OPAQUE on this device. Their password is never sent, even
+// if the server claims they have no OPAQUE record.
+const opaqueAccountKey = (username: string) => `opaqueAccount:${username}`
+
+function rememberOpaqueAccount(username: string) {
+  localStorage.setItem(opaqueAccountKey(username), '1')
+}
+
+/**
+ * Run both OPAQUE login messages
+ *
+ * @returns The server's answer to the second message and the export key, or the token for
+ *          the password login if the server says the account has no OPAQUE record yet
+ * @throws InvalidCredentialsError if the password is wrong or the account does not exist
+ *         (the server answers both the same way)
+ */
+async function opaqueLogin(
+  username: string,
+  password: string,
+  purpose: 'login' | 'reauth'
+): Promise<{ response: any; exportKey: Uint8Array<ArrayBuffer> } | { passwordLoginToken: string }> {
+  await opaque.ready
+  const { clientLoginState, startLoginRequest } = opaque.client.startLogin({ password })
+  const start = await authService.opaqueLoginStart({ username, startLoginRequest, purpose })
+
+  if ('legacy' in start) {
+    if (localStorage.getItem(opaqueAccountKey(username))) {
+      throw new Error('Server asked for the password of an account that uses OPAQUE login')
+    }
+    return { passwordLoginToken: start.passwordLoginToken }
+  }
+
+  const finish = opaque.client.finishLogin({ clientLoginState, loginResponse: start.loginResponse, password })
+  if (!finish) {
+    throw new InvalidCredentialsError()
+  }
+  const response = await authService.opaqueLoginFinish({ loginId: start.loginId, finishLoginRequest: finish.finishLoginRequest })
+  rememberOpaqueAccount(username)
+  return { response, exportKey: exportKeyBytes(finish.exportKey) }
+}
+
+export async function registerWithPassword(
+  username: string,
+  password: string,
+  publicKey: string
+): Promise<{ response: AuthResponse; exportKey: Uint8Array<ArrayBuffer> }> {
+  const { registrationRecord, exportKey } = await createOpaqueRecord(username, password)
+  const response = await authService.register({ username, registrationRecord, publicKey })
+  rememberOpaqueAccount(username)
+  return { response, exportKey }
+}
+
+/**
+ * Log in without sending the password. Accounts that have no OPAQUE record yet are marked
+ * as such by the login start; only those log in with the password once more, and are
+ * moved over as soon as they have a session.
+ *
+ * @returns The session or second factor challenge, and the export key (null if the
+ *          account was not moved yet; see moveToOpaque)
+ */
+export async function loginWithPassword(
+  username: string,
+  password: string
+): Promise<{ response: AuthResponse | TwoFactorChallenge; exportKey: Uint8Array<ArrayBuffer> | null }> {
+  const login = await opaqueLogin(username, password, 'login')
+  if (!('passwordLoginToken' in login)) return login
+
+  const response = await authService.login({ username, password, passwordLoginToken: login.passwordLoginToken })
+  if ('twoFactorRequired' in response) return { response, exportKey: null }
+  return { response, exportKey: await moveToOpaque(username, password, response) }
+}
+
+/**
+ * Register an OPAQUE record for an account that just logged in with its password. The
+ * server only hands out the migration token with a session, after the second factor if
+ * the account has one.
+ *
+ * @returns The export key, or null if the session carries no migration token or moving
+ *          the account failed (it is retried on the next login)
+ */
+export async function moveToOpaque(
+  username: string,
+  password: string,
+  response: AuthResponse
+): Promise<Uint8Array<ArrayBuffer> | null> {
+  if (!response.migrationToken) return null
+  try {
+    const { registrationRecord, exportKey } = await createOpaqueRecord(username, password)
+    await authService.opaqueMigrate(response.token, { migrationToken: response.migrationToken, registrationRecord })
+    rememberOpaqueAccount(username)
+    console.log('[AUTH] Account moved to OPAQUE login')
+    return exportKey
+  } catch (error) {
+    console.warn('[AUTH] Failed to move account to OPAQUE login, retrying on next login:', error)
+    return null
+  }
+}
+
+/**
+ * Prove the password again for a settings change, without sending it. As with the login,
+ * only accounts the server marks as not moved to OPAQUE yet send the password itself.
+ *
+ * @throws InvalidCredentialsError if the password is wrong
+ */
+export async function confirmPassword(username: string, password: string): Promise<PasswordProof> {
+  const login = await opaqueLogin(username, password, 'reauth')
+  if ('passwordLoginToken' in login) return { password, passwordLoginToken: login.passwordLoginToken }
+  return { reauthToken: login.response.reauthToken }
+}
+
+/**
+ * Change the password on the server: prove the old one, then register the new one
+ *
+ * @returns The export key of the new password
+ */
+export async function changePasswordOnServer(
+  username: string,
+  oldPassword: string,
+  newPassword: string
+): Promise<Uint8Array<ArrayBuffer>> {
+  const proof = await confirmPassword(username, oldPassword)
+  const { registrationRecord, exportKey } = await createOpaqueRecord(username, newPassword)
+  await authService.changePassword({ ...proof, registrationRecord })
+  rememberOpaqueAccount(username)
+  return exportKey
+}
@@ -0,0 +1,88 @@
+import api from './api'
+import {
+  BackupSecret,
+  KeyBackupError,
+  KeyBackupFile,
+  decryptKeyBackup,
+  encryptKeyBackup,
+} from '@/crypto/keyBackup'
+import { keyVault } from '@/storage/keyVault'
+import { keyRotationService } from './keyRotationService'
+import { clearDeviceCache, lockDevice } from './deviceService'
+
+export interface StoredBackup {
+  backup: string
+  updatedAt: string
+}
+
+export const backupService = {
+  get: async (): Promise<StoredBackup> => {
+    const response = await api.get('/backup')
+    return response.data
+  },
+
+  upload: async (backup: string): Promise<{ updatedAt: string }> => {
+    const response = await api.put('/backup', { backup })
+    return response.data
+  },
+
+  remove: async () => {
+    const response = await api.delete('/backup')
+    return response.data
+  },
+}
+
+async function currentIdentityPublicKey(): Promise<string> {
+  const history = await keyRotationService.getMyKeys()
+  return history[history.length - 1].publicKey
+}
+
+/**
+ * Export this browser's keys for the account and encrypt them into a backup file
+ *
+ * @returns The backup file as JSON text
+ */
+export async function createKeyBackup(userId: string, secret: BackupSecret): Promise<string> {
+  const keys = await keyVault.exportBackupData(userId)
+  if (!keys) {
+    throw new KeyBackupError('Could not unlock your keys.')
+  }
+
+  const file = await encryptKeyBackup({ identityPublicKey: await currentIdentityPublicKey(), keys }, secret)
+  console.log('[BACKUP] Created key backup with', keys.ratchetStates.length, 'sessions')
+  return JSON.stringify(file)
+}
+
+export function downloadKeyBackup(backup: string, username: string): void {
+  const url = URL.createObjectURL(new Blob([backup], { type: 'application/json' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `cipherlink-keys-${username}-${new Date().toISOString().slice(0, 10)}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Decrypt a backup and write its keys into this browser's key vault
+ */
+export async function restoreKeyBackup(
+  userId: string,
+  file: KeyBackupFile,
+  secret: string
+): Promise<void> {
+  if (file.userId !== userId) {
+    throw new KeyBackupError('This backup belongs to another account.')
+  }
+
+  const payload = await decryptKeyBackup(file, secret)
+  if (payload.identityPublicKey !== (await currentIdentityPublicKey())) {
+    throw new KeyBackupError(
+      'This backup was made before your identity key was rotated. Restore a newer backup.'
+    )
+  }
+
+  await keyVault.importBackupData(payload.keys)
+  lockDevice()
+  clearDeviceCache()
+  console.log('[BACKUP] ✅ Restored key backup from', new Date(file.createdAt).toISOString())
+}
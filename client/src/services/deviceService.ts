@@ -0,0 +1,361 @@
+import api from './api'
+import {
+  DeviceCopy,
+  DeviceLinkCode,
+  DeviceRecord,
+  UnlockedDevice,
+  computeLinkMac,
+  createDeviceLinkCode,
+  generateDeviceId,
+  generateDeviceKeyPair,
+  openDeviceCopy,
+  parseDeviceLinkCode,
+  sealForDevice,
+  signDeviceStatement,
+  verifyDeviceRecord,
+  verifyLinkMac,
+} from '@/crypto/deviceKeys'
+import { MessagePayload, decodeMessagePayload, encodeMessagePayload } from '@/crypto/messagePayload'
+import { getStoredDeviceInfo } from '@/storage/keyStorage'
+import { keyVault, onVaultLock } from '@/storage/keyVault'
+
+export interface DeviceRegistration {
+  deviceId: string
+  name: string
+  publicKey: string
+  primary: boolean
+  createdAt: number
+  signature: string
+  linkId?: string
+}
+
+export interface DeviceLink {
+  linkId: string
+  expiresAt: string
+  // Submitted by the device that scanned the code, until it is approved
+  device: {
+    deviceId: string
+    name: string
+    publicKey: string
+    mac: string
+  } | null
+  completed: boolean
+}
+
+export interface DeviceTarget {
+  userId: string
+  device: DeviceRecord
+}
+
+export const deviceService = {
+  getMyDevices: async (): Promise<DeviceRecord[]> => {
+    const response = await api.get('/users/me/devices')
+    return response.data.devices
+  },
+
+  getDevices: async (userId: string): Promise<DeviceRecord[]> => {
+    const response = await api.get(`/users/${userId}/devices`)
+    return response.data.devices
+  },
+
+  register: async (data: DeviceRegistration): Promise<DeviceRecord> => {
+    const response = await api.post('/users/me/devices', data)
+    return response.data.device
+  },
+
+  updateSignature: async (deviceId: string, signature: string): Promise<DeviceRecord> => {
+    const response = await api.put(`/users/me/devices/${deviceId}/signature`, { signature })
+    return response.data.device
+  },
+
+  revoke: async (deviceId: string) => {
+    const response = await api.delete(`/users/me/devices/${deviceId}`)
+    return response.data
+  },
+
+  createLink: async (): Promise<DeviceLink> => {
+    const response = await api.post('/users/me/devices/links')
+    return response.data
+  },
+
+  getLink: async (linkId: string): Promise<DeviceLink> => {
+    const response = await api.get(`/users/me/devices/links/${linkId}`)
+    return response.data
+  },
+
+  submitLink: async (linkId: string, device: NonNullable<DeviceLink['device']>): Promise<DeviceLink> => {
+    const response = await api.post(`/users/me/devices/links/${linkId}`, device)
+    return response.data
+  },
+}
+
+// Unlocked device key of this browser, kept until the key vault locks
+let unlockedDevice: UnlockedDevice | null = null
+
+// Verified device lists, refetched after a minute so new and revoked devices show up
+const DEVICE_CACHE_TTL = 60 * 1000
+const deviceCache = new Map<string, { devices: DeviceRecord[]; fetchedAt: number }>()
+
+export function getUnlockedDevice(userId: string): UnlockedDevice | null {
+  return unlockedDevice?.userId === userId ? unlockedDevice : null
+}
+
+export function lockDevice(): void {
+  unlockedDevice = null
+}
+
+onVaultLock(lockDevice)
+
+export function defaultDeviceName(): string {
+  const platform = (navigator as any).userAgentData?.platform || navigator.platform || 'Unknown platform'
+  const browser = /Firefox\//.test(navigator.userAgent)
+    ? 'Firefox'
+    : /Edg\//.test(navigator.userAgent)
+    ? 'Edge'
+    : /Chrome\//.test(navigator.userAgent)
+    ? 'Chrome'
+    : /Safari\//.test(navigator.userAgent)
+    ? 'Safari'
+    : 'Browser'
+  return `${browser} on ${platform}`
+}
+
+/**
+ * Create, sign and publish the primary device of an account. Called at registration,
+ * and on first use for accounts created before devices existed.
+ */
+export async function registerPrimaryDevice(
+  userId: string,
+  identityPrivateKey: CryptoKey
+): Promise<UnlockedDevice> {
+  const deviceId = generateDeviceId()
+  const { keyPair, publicKey } = await generateDeviceKeyPair()
+  const fields = { userId, deviceId, name: defaultDeviceName(), publicKey, primary: true, createdAt: Date.now() }
+  const signature = await signDeviceStatement(fields, identityPrivateKey)
+
+  await deviceService.register({ ...fields, signature })
+  await keyVault.storeDeviceKey(userId, deviceId, true, keyPair)
+  console.log('[DEVICES] Registered primary device', deviceId)
+
+  unlockedDevice = { userId, deviceId, primary: true, publicKey, privateKey: keyPair.privateKey }
+  return unlockedDevice
+}
+
+/**
+ * Unlock this browser's device key. A browser that holds the identity key but has
+ * no device yet registers itself as the primary device.
+ *
+ * @returns null if this browser is not a device of the account
+ */
+export async function unlockDevice(userId: string): Promise<UnlockedDevice | null> {
+  const existing = getUnlockedDevice(userId)
+  if (existing) return existing
+
+  const info = await getStoredDeviceInfo(userId)
+  if (!info) {
+    const identityPrivateKey = await keyVault.getPrivateKey(userId)
+    if (!identityPrivateKey) return null
+    return registerPrimaryDevice(userId, identityPrivateKey)
+  }
+
+  const keyPair = await keyVault.getDeviceKey(userId)
+  if (!keyPair) return null
+
+  unlockedDevice = {
+    userId,
+    deviceId: info.deviceId,
+    primary: info.primary,
+    publicKey: info.publicKey,
+    privateKey: keyPair.privateKey,
+  }
+  console.log('[DEVICES] Unlocked device', info.deviceId)
+  return unlockedDevice
+}
+
+/**
+ * Active devices of a user whose statements are signed by `identityPublicKey`.
+ * Devices with a bad signature are dropped, so the server cannot add its own.
+ */
+export async function getVerifiedDevices(userId: string, identityPublicKey: string): Promise<DeviceRecord[]> {
+  const cacheKey = `${userId}:${identityPublicKey}`
+  const cached = deviceCache.get(cacheKey)
+  if (cached && Date.now() - cached.fetchedAt < DEVICE_CACHE_TTL) return cached.devices
+
+  const devices: DeviceRecord[] = []
+  for (const device of await deviceService.getDevices(userId)) {
+    if (device.revokedAt !== null) continue
+    if (await verifyDeviceRecord(userId, device, identityPublicKey)) {
+      devices.push(device)
+    } else {
+      console.error('[DEVICES] ⚠️ Device', device.deviceId, 'of', userId, 'is not signed by their identity key, ignoring it')
+    }
+  }
+
+  deviceCache.set(cacheKey, { devices, fetchedAt: Date.now() })
+  return devices
+}
+
+export function clearDeviceCache(): void {
+  deviceCache.clear()
+}
+
+/**
+ * Devices that need their own copy of a message to `recipientId`: the recipient's
+ * devices and our own other devices. A primary device skips the recipient's primary,
+ * which reads the message through the session the two primaries share.
+ */
+export async function getMessageTargets(
+  sender: { userId: string; deviceId: string | null; identityPublicKey: string },
+  recipient: { userId: string; identityPublicKey: string },
+  skipRecipientPrimary: boolean
+): Promise<DeviceTarget[]> {
+  const [recipientDevices, ownDevices] = await Promise.all([
+    getVerifiedDevices(recipient.userId, recipient.identityPublicKey),
+    getVerifiedDevices(sender.userId, sender.identityPublicKey),
+  ])
+
+  return [
+    ...recipientDevices
+      .filter(device => !(skipRecipientPrimary && device.primary))
+      .map(device => ({ userId: recipient.userId, device })),
+    ...ownDevices
+      .filter(device => device.deviceId !== sender.deviceId)
+      .map(device => ({ userId: sender.userId, device })),
+  ]
+}
+
+export async function sealForDevices(
+  payload: MessagePayload,
+  messageNonce: string,
+  sender: UnlockedDevice,
+  targets: DeviceTarget[]
+): Promise<DeviceCopy[]> {
+  const plaintext = encodeMessagePayload(payload)
+  return Promise.all(
+    targets.map(target => sealForDevice(plaintext, messageNonce, sender, target.userId, target.device))
+  )
+}
+
+/**
+ * Decrypt this device's copy of a message, after checking the sending device
+ * belongs to the sender
+ *
+ * @returns The payload, checked like in decryptMessage, or null if the message has no
+ * copy for this device
+ */
+export async function openMessageCopy(
+  message: { senderId: string; senderDeviceId?: string; nonce: string; deviceCopies?: DeviceCopy[] },
+  device: UnlockedDevice,
+  senderIdentityPublicKey: string
+): Promise<MessagePayload | null> {
+  const copy = message.deviceCopies?.find(c => c.deviceId === device.deviceId)
+  if (!copy) return null
+
+  const senderDevices = await getVerifiedDevices(message.senderId, senderIdentityPublicKey)
+  const senderDevice = senderDevices.find(d => d.deviceId === message.senderDeviceId)
+  if (!senderDevice) {
+    throw new Error('Sent from a device that is not (or no longer) linked to the sender')
+  }
+  return decodeMessagePayload(await openDeviceCopy(copy, message.nonce, device, message.senderId, senderDevice))
+}
+
+/**
+ * Trusted device: open a link session and return the code to show as a QR code
+ */
+export async function startDeviceLink(userId: string): Promise<{ code: DeviceLinkCode; text: string; expiresAt: string }> {
+  const link = await deviceService.createLink()
+  const { code, text } = createDeviceLinkCode(userId, link.linkId)
+  return { code, text, expiresAt: link.expiresAt }
+}
+
+/**
+ * Trusted device: check that the device which submitted itself scanned our code, and
+ * sign it into the account with the identity key
+ */
+export async function approveDeviceLink(
+  userId: string,
+  code: DeviceLinkCode,
+  pending: NonNullable<DeviceLink['device']>
+): Promise<DeviceRecord> {
+  if (!(await verifyLinkMac(code, pending.deviceId, pending.name, pending.publicKey, pending.mac))) {
+    throw new Error('The device did not prove it scanned this code. Do not link it.')
+  }
+
+  const identityPrivateKey = await keyVault.getPrivateKey(userId)
+  if (!identityPrivateKey) {
+    throw new Error('Could not unlock your identity key.')
+  }
+
+  const fields = {
+    userId,
+    deviceId: pending.deviceId,
+    name: pending.name,
+    publicKey: pending.publicKey,
+    primary: false,
+    createdAt: Date.now(),
+  }
+  const signature = await signDeviceStatement(fields, identityPrivateKey)
+  const device = await deviceService.register({ ...fields, signature, linkId: code.linkId })
+  clearDeviceCache()
+  console.log('[DEVICES] Linked device', device.deviceId)
+  return device
+}
+
+/**
+ * New device: generate a device key and submit it to the link session in the code.
+ * The key is stored once the trusted device approves it (see completeDeviceLink).
+ */
+export async function requestDeviceLink(
+  userId: string,
+  codeText: string
+): Promise<{ deviceId: string; keyPair: CryptoKeyPair }> {
+  const code = parseDeviceLinkCode(codeText)
+  if (!code) {
+    throw new Error('This is not a Cipherlink device link code.')
+  }
+  if (code.userId !== userId) {
+    throw new Error('This code was shown by a device of another account.')
+  }
+
+  const deviceId = generateDeviceId()
+  const name = defaultDeviceName()
+  const { keyPair, publicKey } = await generateDeviceKeyPair()
+  const mac = await computeLinkMac(code, deviceId, name, publicKey)
+
+  await deviceService.submitLink(code.linkId, { deviceId, name, publicKey, mac })
+  console.log('[DEVICES] Submitted device', deviceId, 'for approval')
+  return { deviceId, keyPair }
+}
+
+/**
+ * New device: once approved, store the device key so the device stays linked
+ *
+ * @returns false while the trusted device has not approved it yet
+ */
+export async function completeDeviceLink(
+  userId: string,
+  deviceId: string,
+  keyPair: CryptoKeyPair
+): Promise<boolean> {
+  const devices = await deviceService.getMyDevices()
+  const device = devices.find(d => d.deviceId === deviceId && d.revokedAt === null)
+  if (!device) return false
+
+  await keyVault.storeDeviceKey(userId, deviceId, false, keyPair)
+  unlockedDevice = { userId, deviceId, primary: false, publicKey: device.publicKey, privateKey: keyPair.privateKey }
+  console.log('[DEVICES] ✅ This device is now linked')
+  return true
+}
+
+/**
+ * Re-sign every active device with a new identity key after a rotation
+ */
+export async function resignDevices(userId: string, identityPrivateKey: CryptoKey): Promise<void> {
+  const devices = await deviceService.getMyDevices()
+  for (const device of devices) {
+    if (device.revokedAt !== null) continue
+    const signature = await signDeviceStatement({ userId, ...device }, identityPrivateKey)
+    await deviceService.updateSignature(device.deviceId, signature)
+  }
+  clearDeviceCache()
+}
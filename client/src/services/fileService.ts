@@ -9,6 +9,7 @@ export interface File {
   fileSize: number
   mimeType: string
   chunks: EncryptedFile['chunks']
+  version?: number
   uploadedAt: Date
 }
 
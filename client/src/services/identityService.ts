@@ -0,0 +1,197 @@
+import { authService } from './authService'
+import { KeyExchangeError, clearSessionKey } from '@/crypto/keyExchange'
+import { clearRatchetState } from '@/crypto/doubleRatchet'
+import { fingerprintPublicKey } from '@/crypto/safetyNumber'
+import { verifyKeyRotationChain } from '@/crypto/keyRotation'
+import { verifyLoggedKey } from './keyTransparencyService'
+import { keyRotationService } from './keyRotationService'
+import {
+  PinnedIdentityKey,
+  getPinnedIdentityKey,
+  storePinnedIdentityKey,
+  appendIdentityKeyLog,
+  getIdentityKeyLog,
+  deleteSessionKeyPersistent,
+  deleteRatchetStatePersistent,
+} from '@/storage/keyStorage'
+
+// Trust on first use: the first identity key seen for a contact is pinned, and every
+// later key served for them is compared against it. A changed key is only pinned again
+// once the user explicitly accepts it, or when the contact rotated it with a signature
+// chain from the pinned key. Detections and decisions are logged locally.
+
+export class IdentityKeyChangedError extends KeyExchangeError {
+  constructor(
+    public contactId: string,
+    public newPublicKey: string,
+    public pinnedFingerprint: string,
+    public newFingerprint: string
+  ) {
+    super('The identity key of this contact has changed since you first talked to them. Sending is blocked until you accept the new key.')
+    this.name = 'IdentityKeyChangedError'
+  }
+}
+
+/**
+ * Pin a contact's rotated key if their key history chains it to the pinned key, and
+ * drop the session set up with the old key so the next message runs a new key exchange
+ *
+ * @returns false if the rotation cannot be verified
+ */
+async function followKeyRotation(pinned: PinnedIdentityKey, publicKey: string, fingerprint: string): Promise<boolean> {
+  const { userId, contactId } = pinned
+  try {
+    const history = await keyRotationService.getKeyHistory(contactId)
+    if (!(await verifyKeyRotationChain(contactId, history, pinned.publicKey, publicKey))) return false
+  } catch (error) {
+    console.error('[TOFU] Failed to check key history of', contactId, error)
+    return false
+  }
+
+  await storePinnedIdentityKey({
+    id: `${userId}:${contactId}`,
+    userId,
+    contactId,
+    publicKey,
+    fingerprint,
+    pinnedAt: Date.now(),
+  })
+  await appendIdentityKeyLog({
+    contact: `${userId}:${contactId}`,
+    action: 'rotated',
+    previousFingerprint: pinned.fingerprint,
+    fingerprint,
+    timestamp: Date.now(),
+  })
+
+  clearSessionKey(contactId)
+  clearRatchetState(contactId)
+  try {
+    await deleteSessionKeyPersistent(contactId)
+    await deleteRatchetStatePersistent(contactId)
+  } catch (error) {
+    console.warn('[TOFU] Failed to delete session from IndexedDB:', error)
+  }
+
+  console.log('[TOFU] ✅ Followed signed key rotation of', contactId, fingerprint)
+  return true
+}
+
+/**
+ * Compare a contact's identity key against the pinned one, pinning it on first contact
+ *
+ * @returns The key, once it is known to match the pin or to be a signed rotation of it
+ * @throws IdentityKeyChangedError if a different key is pinned
+ */
+export async function checkPinnedIdentityKey(
+  userId: string,
+  contactId: string,
+  publicKey: string
+): Promise<string> {
+  const fingerprint = await fingerprintPublicKey(publicKey)
+  const pinned = await getPinnedIdentityKey(userId, contactId)
+
+  if (!pinned) {
+    await storePinnedIdentityKey({
+      id: `${userId}:${contactId}`,
+      userId,
+      contactId,
+      publicKey,
+      fingerprint,
+      pinnedAt: Date.now(),
+    })
+    await appendIdentityKeyLog({
+      contact: `${userId}:${contactId}`,
+      action: 'pinned',
+      previousFingerprint: null,
+      fingerprint,
+      timestamp: Date.now(),
+    })
+    console.log('[TOFU] Pinned identity key of', contactId, fingerprint)
+    return publicKey
+  }
+
+  if (pinned.fingerprint === fingerprint) {
+    return publicKey
+  }
+
+  if (await followKeyRotation(pinned, publicKey, fingerprint)) {
+    return publicKey
+  }
+
+  console.warn('[TOFU] ⚠️ Identity key of', contactId, 'does not match the pinned key:', {
+    pinned: pinned.fingerprint,
+    received: fingerprint,
+  })
+
+  // Log each distinct mismatch once, not on every check
+  const log = await getIdentityKeyLog(userId, contactId)
+  const alreadyLogged = log.some(
+    entry => entry.action === 'mismatch' && entry.fingerprint === fingerprint && entry.timestamp > pinned.pinnedAt
+  )
+  if (!alreadyLogged) {
+    await appendIdentityKeyLog({
+      contact: `${userId}:${contactId}`,
+      action: 'mismatch',
+      previousFingerprint: pinned.fingerprint,
+      fingerprint,
+      timestamp: Date.now(),
+    })
+  }
+
+  throw new IdentityKeyChangedError(contactId, publicKey, pinned.fingerprint, fingerprint)
+}
+
+/**
+ * Pin a changed identity key after the user explicitly accepted it
+ */
+export async function acceptIdentityKeyChange(
+  userId: string,
+  contactId: string,
+  publicKey: string
+): Promise<void> {
+  const fingerprint = await fingerprintPublicKey(publicKey)
+  const previous = await getPinnedIdentityKey(userId, contactId)
+
+  await storePinnedIdentityKey({
+    id: `${userId}:${contactId}`,
+    userId,
+    contactId,
+    publicKey,
+    fingerprint,
+    pinnedAt: Date.now(),
+  })
+  await appendIdentityKeyLog({
+    contact: `${userId}:${contactId}`,
+    action: 'accepted',
+    previousFingerprint: previous?.fingerprint ?? null,
+    fingerprint,
+    timestamp: Date.now(),
+  })
+  console.log('[TOFU] User accepted new identity key of', contactId, fingerprint)
+}
+
+/**
+ * Full check of a contact's identity key: it must be in the transparency log, and
+ * match the pinned key (or be pinned now, on first contact)
+ *
+ * @throws KeyTransparencyError or IdentityKeyChangedError
+ */
+export async function checkContactIdentityKey(
+  userId: string,
+  contactId: string,
+  publicKey: string
+): Promise<string> {
+  await verifyLoggedKey(userId, contactId, publicKey)
+  return checkPinnedIdentityKey(userId, contactId, publicKey)
+}
+
+/**
+ * Fetch a contact's identity key from the server and run the full identity check on it
+ *
+ * @throws KeyTransparencyError or IdentityKeyChangedError
+ */
+export async function getTrustedPublicKey(userId: string, contactId: string): Promise<string> {
+  const contact = await authService.getPublicKey(contactId)
+  return checkContactIdentityKey(userId, contactId, contact.publicKey)
+}
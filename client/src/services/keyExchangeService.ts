@@ -1,12 +1,14 @@
 import api from './api'
 
 export const keyExchangeService = {
-  initiate: async (recipientId: string, publicKey: string, signature: string, timestamp: number) => {
+  initiate: async (exchangeId: string, recipientId: string, publicKey: string, signature: string, timestamp: number, version?: number) => {
     const response = await api.post('/key-exchange/initiate', {
+      exchangeId,
       recipientId,
       publicKey,
       signature,
       timestamp,
+      version,
     })
     return response.data
   },
@@ -38,6 +40,11 @@ export const keyExchangeService = {
     const response = await api.get(`/key-exchange/responses/${userId}`)
     return response.data
   },
+
+  getConfirmations: async (exchangeId: string) => {
+    const response = await api.get(`/key-exchange/confirmation/${exchangeId}`)
+    return response.data
+  },
 }
 
 
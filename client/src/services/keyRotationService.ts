@@ -0,0 +1,80 @@
+import api from './api'
+import { IdentityKeyRecord, signKeyRotation } from '@/crypto/keyRotation'
+import { generateIdentityKeyPair } from '@/crypto/keyAlgorithms'
+import { keyVault } from '@/storage/keyVault'
+import { ensurePreKeySupply } from './preKeyService'
+import { resignDevices } from './deviceService'
+
+export interface KeyRotationRequest {
+  publicKey: string
+  timestamp: number
+  signature: string
+}
+
+export const keyRotationService = {
+  getMyKeys: async (): Promise<IdentityKeyRecord[]> => {
+    const response = await api.get('/users/me/keys')
+    return response.data.keys
+  },
+
+  getKeyHistory: async (userId: string): Promise<IdentityKeyRecord[]> => {
+    const response = await api.get(`/users/${userId}/keys`)
+    return response.data.keys
+  },
+
+  rotate: async (data: KeyRotationRequest): Promise<IdentityKeyRecord[]> => {
+    const response = await api.post('/users/me/keys', data)
+    return response.data.keys
+  },
+}
+
+/**
+ * Replace our identity key: sign the new key with the old one, publish it, then store
+ * the new private key, and sign a new prekey and our devices with it
+ *
+ * @returns The new public key
+ */
+export async function rotateIdentityKey(userId: string): Promise<string> {
+  const previousPrivateKey = await keyVault.getPrivateKey(userId)
+  if (!previousPrivateKey) {
+    throw new Error('Could not unlock your current identity key.')
+  }
+
+  const history = await keyRotationService.getMyKeys()
+  const previousPublicKey = history[history.length - 1].publicKey
+
+  console.log('[KEY ROTATION] Generating new identity key pair...')
+  const { keyPair, publicKeyBase64 } = await generateIdentityKeyPair()
+  const timestamp = Date.now()
+  const signature = await signKeyRotation({
+    userId,
+    previousPublicKey,
+    publicKey: publicKeyBase64,
+    timestamp,
+  }, previousPrivateKey)
+
+  await keyRotationService.rotate({ publicKey: publicKeyBase64, timestamp, signature })
+  console.log('[KEY ROTATION] Server accepted the new identity key')
+
+  await keyVault.storePrivateKey(userId, keyPair.privateKey)
+  const storedUser = JSON.parse(localStorage.getItem('user') || '{}')
+  localStorage.setItem('user', JSON.stringify({ ...storedUser, publicKey: publicKeyBase64 }))
+
+  // The server dropped our signed prekey, since it was signed by the revoked key
+  try {
+    await ensurePreKeySupply(userId, keyPair.privateKey)
+  } catch (error) {
+    // Not fatal: prekeys are topped up again on the next key exchange
+    console.warn('[KEY ROTATION] Failed to publish a new signed prekey:', error)
+  }
+
+  // Device statements were signed by the revoked key; until re-signed, contacts skip those devices
+  try {
+    await resignDevices(userId, keyPair.privateKey)
+  } catch (error) {
+    console.warn('[KEY ROTATION] Failed to re-sign devices:', error)
+  }
+  console.log('[KEY ROTATION] ✅ Identity key rotated')
+
+  return publicKeyBase64
+}
@@ -0,0 +1,102 @@
+import api from './api'
+import {
+  KeyLogEntry,
+  KeyLogHead,
+  KeyTransparencyError,
+  hashLogEntry,
+  verifyInclusion,
+  verifyConsistency,
+} from '@/crypto/keyTransparency'
+
+export interface KeyProof extends KeyLogHead {
+  entry: KeyLogEntry
+  proof: string[]
+}
+
+export interface ConsistencyProof {
+  from: number
+  to: number
+  rootHash: string
+  proof: string[]
+}
+
+export const keyTransparencyService = {
+  getHead: async (): Promise<KeyLogHead> => {
+    const response = await api.get('/users/key-log/head')
+    return response.data
+  },
+
+  getKeyProof: async (userId: string, treeSize?: number): Promise<KeyProof> => {
+    const response = await api.get(`/users/${userId}/key-proof`, { params: { treeSize } })
+    return response.data
+  },
+
+  getConsistencyProof: async (from: number, to: number): Promise<ConsistencyProof> => {
+    const response = await api.get('/users/key-log/consistency', { params: { from, to } })
+    return response.data
+  },
+
+  getEntries: async (start: number, end: number): Promise<KeyLogEntry[]> => {
+    const response = await api.get('/users/key-log/entries', { params: { start, end } })
+    return response.data.entries
+  },
+}
+
+// Last tree head this client verified, per local user
+function loadTrustedHead(userId: string): KeyLogHead | null {
+  const stored = localStorage.getItem(`keyLogHead:${userId}`)
+  return stored ? JSON.parse(stored) : null
+}
+
+function storeTrustedHead(userId: string, head: KeyLogHead) {
+  localStorage.setItem(`keyLogHead:${userId}`, JSON.stringify(head))
+}
+
+/**
+ * Check that `publicKey` is the latest key logged for `contactId`, and that the log
+ * we are shown is consistent with every log head we verified before
+ *
+ * @throws KeyTransparencyError if any proof fails
+ */
+export async function verifyLoggedKey(myUserId: string, contactId: string, publicKey: string): Promise<void> {
+  let keyProof: KeyProof
+  try {
+    keyProof = await keyTransparencyService.getKeyProof(contactId)
+  } catch (error: any) {
+    if (error.response?.status === 404) {
+      throw new KeyTransparencyError('the contact\'s key is not in the transparency log')
+    }
+    throw error
+  }
+
+  const { entry, proof, treeSize, rootHash } = keyProof
+  if (entry.userId !== contactId || entry.publicKey !== publicKey) {
+    console.error('[KEY LOG] Served key does not match the latest logged key of', contactId)
+    throw new KeyTransparencyError('the server returned a key that is not the contact\'s latest logged key')
+  }
+
+  const leafHash = await hashLogEntry(entry)
+  if (!(await verifyInclusion(leafHash, entry.index, treeSize, proof, rootHash))) {
+    console.error('[KEY LOG] Inclusion proof failed for', contactId, { index: entry.index, treeSize })
+    throw new KeyTransparencyError('the inclusion proof for the contact\'s key is invalid')
+  }
+
+  const trustedHead = loadTrustedHead(myUserId)
+  if (trustedHead) {
+    if (treeSize < trustedHead.treeSize) {
+      console.error('[KEY LOG] Log shrank:', { trusted: trustedHead.treeSize, served: treeSize })
+      throw new KeyTransparencyError('the transparency log is smaller than it was before')
+    }
+
+    const consistency = await keyTransparencyService.getConsistencyProof(trustedHead.treeSize, treeSize)
+    const consistent = consistency.rootHash === rootHash &&
+      await verifyConsistency(trustedHead, { treeSize, rootHash }, consistency.proof)
+    if (!consistent) {
+      console.error('[KEY LOG] Consistency proof failed:', { trusted: trustedHead, served: { treeSize, rootHash } })
+      throw new KeyTransparencyError('the transparency log was rewritten since it was last checked')
+    }
+  }
+
+  storeTrustedHead(myUserId, { treeSize, rootHash })
+  console.log('[KEY LOG] ✅ Key of', contactId, 'verified in transparency log at index', entry.index, 'of', treeSize)
+}
@@ -1,5 +1,8 @@
 import api from './api'
-import { EncryptedMessage } from '@/crypto/messageEncryption'
+import { EncryptedMessage, DeviceCopiesMessage } from '@/crypto/messageEncryption'
+import { RatchetHeader } from '@/crypto/doubleRatchet'
+import { PreKeyHeader } from '@/crypto/x3dh'
+import { DeviceCopy } from '@/crypto/deviceKeys'
 
 export interface Message {
   _id: string
@@ -11,11 +14,29 @@ export interface Message {
   timestamp: Date
   sequenceNumber: number
   nonce: string
+  version?: number
+  ratchetHeader?: RatchetHeader
+  preKeyHeader?: PreKeyHeader
+  senderDeviceId?: string
+  deviceCopies?: DeviceCopy[]
   createdAt: Date
 }
 
+// Oldest message first; `hasMore` says whether there is another page in the direction asked for
+export interface ConversationPage {
+  messages: Message[]
+  hasMore: boolean
+}
+
+// At most one of `before` and `after`, both message IDs. Without either, the newest page.
+export interface ConversationCursor {
+  before?: string
+  after?: string
+  limit?: number
+}
+
 export const messageService = {
-  send: async (recipientId: string, encrypted: EncryptedMessage) => {
+  send: async (recipientId: string, encrypted: EncryptedMessage | DeviceCopiesMessage) => {
     const response = await api.post('/messages/send', {
       recipientId,
       ...encrypted,
@@ -28,9 +49,9 @@ export const messageService = {
     return response.data as string[] // Array of user IDs
   },
 
-  getConversation: async (userId: string) => {
-    const response = await api.get(`/messages/conversation/${userId}`)
-    return response.data as Message[]
+  getConversation: async (userId: string, cursor: ConversationCursor = {}) => {
+    const response = await api.get(`/messages/conversation/${userId}`, { params: cursor })
+    return response.data as ConversationPage
   },
 
   getMessage: async (messageId: string) => {
@@ -0,0 +1,84 @@
+import api from './api'
+import {
+  PreKeyBundle,
+  PREKEY_BATCH_SIZE,
+  PREKEY_MIN_COUNT,
+  SIGNED_PREKEY_MAX_AGE,
+  generateSignedPreKey,
+  generateOneTimePreKeys,
+} from '@/crypto/x3dh'
+import { keyVault } from '@/storage/keyVault'
+
+export interface PreKeyUpload {
+  signedPreKey?: {
+    keyId: number
+    publicKey: string
+    signature: string
+  }
+  oneTimePreKeys?: {
+    keyId: number
+    publicKey: string
+  }[]
+}
+
+export interface PreKeyStatus {
+  oneTimePreKeys: number
+  signedPreKey: { keyId: number; createdAt: string } | null
+}
+
+export const preKeyService = {
+  upload: async (data: PreKeyUpload) => {
+    const response = await api.post('/prekeys', data)
+    return response.data
+  },
+
+  getStatus: async () => {
+    const response = await api.get('/prekeys/status')
+    return response.data as PreKeyStatus
+  },
+
+  getBundle: async (userId: string) => {
+    const response = await api.get(`/prekeys/${userId}/bundle`)
+    return response.data as PreKeyBundle
+  },
+}
+
+/**
+ * Rotate the signed prekey when it is missing or too old, and top up one-time
+ * prekeys when the server is running low. Private halves stay in IndexedDB.
+ */
+export async function ensurePreKeySupply(
+  userId: string,
+  privateKey: CryptoKey
+): Promise<void> {
+  const status = await preKeyService.getStatus()
+  const upload: PreKeyUpload = {}
+
+  const signedPreKeyAge = status.signedPreKey
+    ? Date.now() - new Date(status.signedPreKey.createdAt).getTime()
+    : Infinity
+  if (signedPreKeyAge > SIGNED_PREKEY_MAX_AGE) {
+    console.log('[PREKEYS] Generating new signed prekey')
+    const signedPreKey = await generateSignedPreKey(privateKey, userId)
+    await keyVault.storePreKey(userId, signedPreKey.keyId, 'signed', signedPreKey.keyPair)
+    upload.signedPreKey = {
+      keyId: signedPreKey.keyId,
+      publicKey: signedPreKey.publicKey,
+      signature: signedPreKey.signature,
+    }
+  }
+
+  if (status.oneTimePreKeys < PREKEY_MIN_COUNT) {
+    console.log(`[PREKEYS] Only ${status.oneTimePreKeys} one-time prekeys left, generating ${PREKEY_BATCH_SIZE} more`)
+    const oneTimePreKeys = await generateOneTimePreKeys()
+    for (const preKey of oneTimePreKeys) {
+      await keyVault.storePreKey(userId, preKey.keyId, 'one-time', preKey.keyPair)
+    }
+    upload.oneTimePreKeys = oneTimePreKeys.map(k => ({ keyId: k.keyId, publicKey: k.publicKey }))
+  }
+
+  if (!upload.signedPreKey && !upload.oneTimePreKeys) return
+
+  await preKeyService.upload(upload)
+  console.log('[PREKEYS] Prekeys published')
+}
@@ -0,0 +1,150 @@
+import { API_URL } from '@/config/api'
+import { refreshAccessToken } from './api'
+import { Message } from './messageService'
+import { File } from './fileService'
+
+export type KeyExchangeEventName = 'initiated' | 'responded' | 'confirmed'
+
+export type RealtimeEvent =
+  // Sent once per connection, after any missed messages were replayed.
+  // `resumed` is false when nothing could be replayed, so anything may have been missed.
+  | { type: 'ready'; resumed: boolean }
+  | { type: 'message'; message: Message }
+  | { type: 'key-exchange'; event: KeyExchangeEventName; exchangeId: string; fromUserId: string }
+  | { type: 'file'; file: Omit<File, 'chunks'> }
+
+export type RealtimeListener = (event: RealtimeEvent) => void
+
+const REALTIME_URL = `${API_URL.replace(/^http/, 'ws')}/realtime`
+
+// Close codes used by the server for a rejected or expired access token and a revoked session
+const CLOSE_UNAUTHORIZED = 4001
+const CLOSE_SESSION_REVOKED = 4003
+
+const MIN_RECONNECT_DELAY = 1000
+const MAX_RECONNECT_DELAY = 30000
+
+const listeners = new Set<RealtimeListener>()
+let socket: WebSocket | null = null
+let connected = false
+let reconnectAttempts = 0
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+// Newest message seen on this connection or an earlier one, sent on reconnect so the
+// server replays what arrived in between
+let lastMessageId: string | null = null
+
+const emit = (event: RealtimeEvent) => {
+  for (const listener of listeners) {
+    try {
+      listener(event)
+    } catch (error) {
+      console.error('[REALTIME] Listener failed:', error)
+    }
+  }
+}
+
+// Exponential backoff with jitter, so clients dropped together do not reconnect together
+const scheduleReconnect = () => {
+  if (!connected || reconnectTimer) return
+  const delay = Math.min(MAX_RECONNECT_DELAY, MIN_RECONNECT_DELAY * 2 ** reconnectAttempts)
+  reconnectAttempts++
+  console.log(`[REALTIME] Reconnecting in ${Math.round(delay / 1000)}s`)
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null
+    open()
+  }, delay / 2 + Math.random() * (delay / 2))
+}
+
+const open = () => {
+  const token = localStorage.getItem('token')
+  if (!connected || !token) return
+
+  const ws = new WebSocket(REALTIME_URL)
+  socket = ws
+
+  ws.onopen = () => {
+    ws.send(JSON.stringify({ type: 'auth', token, lastMessageId }))
+  }
+
+  ws.onmessage = (e) => {
+    let event: RealtimeEvent
+    try {
+      event = JSON.parse(e.data)
+    } catch {
+      return
+    }
+
+    if (event.type === 'ready') {
+      reconnectAttempts = 0
+      console.log('[REALTIME] Connected', event.resumed ? '(resumed)' : '')
+    } else if (event.type === 'message') {
+      // Object IDs of the same length sort by creation time
+      if (!lastMessageId || event.message._id > lastMessageId) {
+        lastMessageId = event.message._id
+      }
+    }
+    emit(event)
+  }
+
+  ws.onclose = async (e) => {
+    if (socket !== ws) return
+    socket = null
+    if (!connected) return
+
+    if (e.code === CLOSE_UNAUTHORIZED || e.code === CLOSE_SESSION_REVOKED) {
+      // Also how a revoked session finds out: its refresh fails and ends the session
+      try {
+        if (!(await refreshAccessToken(token))) {
+          console.log('[REALTIME] Session ended, not reconnecting')
+          return
+        }
+      } catch (error) {
+        console.warn('[REALTIME] Failed to refresh access token:', error)
+      }
+    }
+    scheduleReconnect()
+  }
+}
+
+// Skip the backoff wait when the network comes back
+const handleOnline = () => {
+  if (!connected || socket) return
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer)
+    reconnectTimer = null
+  }
+  reconnectAttempts = 0
+  open()
+}
+
+export const realtimeService = {
+  /** Open the connection for the logged-in user; it reconnects by itself until disconnect() */
+  connect: () => {
+    if (connected) return
+    connected = true
+    reconnectAttempts = 0
+    window.addEventListener('online', handleOnline)
+    open()
+  },
+
+  disconnect: () => {
+    connected = false
+    lastMessageId = null
+    window.removeEventListener('online', handleOnline)
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer)
+      reconnectTimer = null
+    }
+    const ws = socket
+    socket = null
+    ws?.close()
+  },
+
+  /** @returns A function that removes the listener */
+  subscribe: (listener: RealtimeListener) => {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  },
+}
@@ -1,13 +1,53 @@
+import type { RatchetState } from '@/crypto/doubleRatchet'
+import type { MessagePayload } from '@/crypto/messagePayload'
+import { ReceiptStatus, receiptStatusAtLeast } from '@/crypto/receipts'
+import {
+  exportKey,
+  importIdentityPrivateKey,
+  importKeyAgreementPrivateKey,
+  importKeyAgreementPublicKey,
+} from '@/crypto/keyAlgorithms'
+import {
+  KeyEnvelope,
+  KeyEnvelopeKdf,
+  deriveExportKeyEnvelopeKey,
+  derivePrfEnvelopeKey,
+  isOutdatedKeyEnvelope,
+  isVaultKeyEnvelope,
+  legacyKeyEnvelope,
+  newExportKeyEnvelopeKdf,
+  openKeyEnvelope,
+  openWithEnvelopeKey,
+  sealKeyEnvelope,
+  sealWithEnvelopeKey,
+} from '@/crypto/keyEnvelope'
+
 const DB_NAME = 'CipherlinkKeys'
-const DB_VERSION = 3
+const DB_VERSION = 11
 const STORE_NAME = 'privateKeys'
 const ECDH_STORE_NAME = 'ecdhKeyPairs'
 const SESSION_KEYS_STORE_NAME = 'sessionKeys'
-
+const RATCHET_STORE_NAME = 'ratchetStates'
+const PREKEY_STORE_NAME = 'preKeys'
+const CONTACT_VERIFICATION_STORE_NAME = 'contactVerifications'
+const PINNED_IDENTITY_STORE_NAME = 'pinnedIdentityKeys'
+const IDENTITY_LOG_STORE_NAME = 'identityKeyLog'
+const DEVICE_STORE_NAME = 'deviceKeys'
+const VAULT_STORE_NAME = 'vaultKeys'
+const RECEIPT_STORE_NAME = 'messageReceipts'
+const MESSAGE_PAYLOAD_STORE_NAME = 'messagePayloads'
+
+const VAULT_KEY_KDF: KeyEnvelopeKdf = { id: 'vault-key' }
+
+// Key records are sealed with the account's vault key. Records written before the
+// vault sealed each secret with the password, and records written before key envelopes
+// have the iv || ciphertext field named in each interface and a PBKDF2 `salt` instead
+// of `envelope`. Both are moved under the vault key when the vault is first created.
 export interface StoredKey {
   userId: string
-  encryptedKey: string
-  salt: string
+  envelope?: KeyEnvelope
+  encryptedKey?: string
+  salt?: string
 }
 
 async function openDB(): Promise<IDBDatabase> {
@@ -28,83 +68,125 @@ async function openDB(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(SESSION_KEYS_STORE_NAME)) {
         db.createObjectStore(SESSION_KEYS_STORE_NAME, { keyPath: 'userId' })
       }
+      if (!db.objectStoreNames.contains(RATCHET_STORE_NAME)) {
+        db.createObjectStore(RATCHET_STORE_NAME, { keyPath: 'userId' })
+      }
+      if (!db.objectStoreNames.contains(PREKEY_STORE_NAME)) {
+        db.createObjectStore(PREKEY_STORE_NAME, { keyPath: 'id' })
+      }
+      if (!db.objectStoreNames.contains(CONTACT_VERIFICATION_STORE_NAME)) {
+        db.createObjectStore(CONTACT_VERIFICATION_STORE_NAME, { keyPath: 'id' })
+      }
+      if (!db.objectStoreNames.contains(PINNED_IDENTITY_STORE_NAME)) {
+        db.createObjectStore(PINNED_IDENTITY_STORE_NAME, { keyPath: 'id' })
+      }
+      if (!db.objectStoreNames.contains(IDENTITY_LOG_STORE_NAME)) {
+        const logStore = db.createObjectStore(IDENTITY_LOG_STORE_NAME, { keyPath: 'seq', autoIncrement: true })
+        logStore.createIndex('contact', 'contact')
+      }
+      if (!db.objectStoreNames.contains(DEVICE_STORE_NAME)) {
+        db.createObjectStore(DEVICE_STORE_NAME, { keyPath: 'userId' })
+      }
+      if (!db.objectStoreNames.contains(VAULT_STORE_NAME)) {
+        db.createObjectStore(VAULT_STORE_NAME, { keyPath: 'userId' })
+      }
+      if (!db.objectStoreNames.contains(RECEIPT_STORE_NAME)) {
+        db.createObjectStore(RECEIPT_STORE_NAME, { keyPath: 'messageId' })
+      }
+      if (!db.objectStoreNames.contains(MESSAGE_PAYLOAD_STORE_NAME)) {
+        db.createObjectStore(MESSAGE_PAYLOAD_STORE_NAME, { keyPath: 'id' })
+      }
     }
   })
 }
 
-async function deriveKeyFromPassword(password: string, salt: Uint8Array): Promise<CryptoKey> {
-  const encoder = new TextEncoder()
-  const passwordKey = await crypto.subtle.importKey(
-    'raw',
-    encoder.encode(password),
-    'PBKDF2',
-    false,
-    ['deriveBits', 'deriveKey']
-  )
 
-  return crypto.subtle.deriveKey(
-    {
-      name: 'PBKDF2',
-      salt: salt,
-      iterations: 100000,
-      hash: 'SHA-256',
-    },
-    passwordKey,
-    {
-      name: 'AES-GCM',
-      length: 256,
-    },
-    false,
-    ['encrypt', 'decrypt']
-  )
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary)
 }
 
-export async function storePrivateKey(
-  userId: string,
-  privateKey: CryptoKey,
-  password: string
-): Promise<void> {
+async function readAllRecords<T>(storeName: string): Promise<T[]> {
   const db = await openDB()
-  const salt = crypto.getRandomValues(new Uint8Array(16))
-  const derivedKey = await deriveKeyFromPassword(password, salt)
-
-  const exportedKey = await crypto.subtle.exportKey('pkcs8', privateKey)
-  const keyData = new Uint8Array(exportedKey)
-
-  const iv = crypto.getRandomValues(new Uint8Array(12))
-  const encrypted = await crypto.subtle.encrypt(
-    {
-      name: 'AES-GCM',
-      iv: iv,
-    },
-    derivedKey,
-    keyData
-    )
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], 'readonly')
+    const store = transaction.objectStore(storeName)
+    const request = store.getAll()
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
 
-  const encryptedArray = new Uint8Array(encrypted)
-  const combined = new Uint8Array(iv.length + encryptedArray.length)
-  combined.set(iv, 0)
-  combined.set(encryptedArray, iv.length)
+async function readRecord<T>(storeName: string, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], 'readonly')
+    const store = transaction.objectStore(storeName)
+    const request = store.get(key)
 
-  const stored: StoredKey = {
-    userId,
-    encryptedKey: btoa(String.fromCharCode(...combined)),
-    salt: btoa(String.fromCharCode(...salt)),
-  }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
 
+async function putRecord(storeName: string, record: object): Promise<void> {
+  const db = await openDB()
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readwrite')
-    const store = transaction.objectStore(STORE_NAME)
-    const request = store.put(stored)
+    const transaction = db.transaction([storeName], 'readwrite')
+    const store = transaction.objectStore(storeName)
+    const request = store.put(record)
 
     request.onsuccess = () => resolve()
     request.onerror = () => reject(request.error)
   })
 }
 
+function recordEnvelope<T extends { envelope?: KeyEnvelope; salt?: string }>(stored: T, legacyField: keyof T): KeyEnvelope {
+  return stored.envelope ?? legacyKeyEnvelope(stored[legacyField] as string, stored.salt as string)
+}
+
+/**
+ * Decrypt a stored record with the vault key. Throws if the record is still sealed
+ * with a password, which means it belongs to an account whose vault was never created.
+ */
+async function openRecord<T extends { envelope?: KeyEnvelope; salt?: string }>(
+  stored: T,
+  legacyField: keyof T,
+  vaultKey: CryptoKey
+): Promise<Uint8Array<ArrayBuffer>> {
+  const envelope = recordEnvelope(stored, legacyField)
+  if (!isVaultKeyEnvelope(envelope)) {
+    throw new Error('Record is not sealed with the vault key')
+  }
+  return openWithEnvelopeKey(envelope, vaultKey)
+}
+
+function sealRecord(data: Uint8Array<ArrayBuffer>, vaultKey: CryptoKey): Promise<KeyEnvelope> {
+  return sealWithEnvelopeKey(data, vaultKey, VAULT_KEY_KDF)
+}
+
+export async function storePrivateKey(
+  userId: string,
+  privateKey: CryptoKey,
+  vaultKey: CryptoKey
+): Promise<void> {
+  const exportedKey = await exportKey('pkcs8', privateKey)
+
+  const stored: StoredKey = {
+    userId,
+    envelope: await sealRecord(new Uint8Array(exportedKey), vaultKey),
+  }
+
+  await putRecord(STORE_NAME, stored)
+}
+
 export async function getPrivateKey(
   userId: string,
-  password: string
+  vaultKey: CryptoKey
 ): Promise<CryptoKey | null> {
   try {
     console.log('[KEY STORAGE] Attempting to retrieve private key for:', userId)
@@ -123,39 +205,13 @@ export async function getPrivateKey(
       return null
     }
 
-    console.log('[KEY STORAGE] Key found in IndexedDB, attempting decryption...')
-    const salt = Uint8Array.from(atob(stored.salt), c => c.charCodeAt(0))
-    const derivedKey = await deriveKeyFromPassword(password, salt)
-
-    const combined = Uint8Array.from(atob(stored.encryptedKey), c => c.charCodeAt(0))
-    const iv = combined.slice(0, 12)
-    const encrypted = combined.slice(12)
-
-    console.log('[KEY STORAGE] Attempting to decrypt with provided password...')
-    const decrypted = await crypto.subtle.decrypt(
-      {
-        name: 'AES-GCM',
-        iv: iv,
-      },
-      derivedKey,
-      encrypted
-    )
-
+    console.log('[KEY STORAGE] Key found in IndexedDB, attempting decryption')
+    const keyData = await openRecord(stored, 'encryptedKey', vaultKey)
     console.log('[KEY STORAGE] Decryption successful')
-    const keyData = new Uint8Array(decrypted)
     
     try {
-      const key = await crypto.subtle.importKey(
-        'pkcs8',
-        keyData,
-        {
-          name: 'RSA-PSS',
-          hash: 'SHA-256',
-        },
-        false,
-        ['sign']
-      )
-      console.log('[KEY STORAGE] Successfully imported RSA-PSS key')
+      const key = await importIdentityPrivateKey(keyData)
+      console.log('[KEY STORAGE] Successfully imported', key.algorithm.name, 'key')
       return key
     } catch (pssError) {
       console.warn('Failed to import as RSA-PSS, trying RSA-OAEP (old format):', pssError)
@@ -179,7 +235,7 @@ export async function getPrivateKey(
     }
   } catch (error: any) {
     if (error.name === 'OperationError' && error.message.includes('operation failed')) {
-      console.error('[KEY STORAGE] Wrong password - decryption failed')
+      console.error('[KEY STORAGE] Wrong vault key - decryption failed')
     } else {
       console.error('[KEY STORAGE] Failed to retrieve private key:', error)
     }
@@ -199,65 +255,48 @@ export async function deletePrivateKey(userId: string): Promise<void> {
   })
 }
 
+export async function hasPrivateKey(userId: string): Promise<boolean> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME], 'readonly')
+    const store = transaction.objectStore(STORE_NAME)
+    const request = store.count(userId)
+
+    request.onsuccess = () => resolve(request.result > 0)
+    request.onerror = () => reject(request.error)
+  })
+}
+
 export interface StoredEcdhKeyPair {
   exchangeId: string
-  encryptedPrivateKey: string
+  envelope?: KeyEnvelope
+  encryptedPrivateKey?: string
   publicKey: string
-  salt: string
+  salt?: string
   createdAt: number
 }
 
 export async function storeEcdhKeyPairPersistent(
   exchangeId: string,
   keyPair: CryptoKeyPair,
-  password: string
+  vaultKey: CryptoKey
 ): Promise<void> {
-  const db = await openDB()
-  const salt = crypto.getRandomValues(new Uint8Array(16))
-  const derivedKey = await deriveKeyFromPassword(password, salt)
-
-  const exportedPrivateKey = await crypto.subtle.exportKey('pkcs8', keyPair.privateKey)
-  const privateKeyData = new Uint8Array(exportedPrivateKey)
-
-  const exportedPublicKey = await crypto.subtle.exportKey('spki', keyPair.publicKey)
-  const publicKeyData = new Uint8Array(exportedPublicKey)
-
-  const iv = crypto.getRandomValues(new Uint8Array(12))
-  const encrypted = await crypto.subtle.encrypt(
-    {
-      name: 'AES-GCM',
-      iv: iv,
-    },
-    derivedKey,
-    privateKeyData
-  )
-
-  const encryptedArray = new Uint8Array(encrypted)
-  const combined = new Uint8Array(iv.length + encryptedArray.length)
-  combined.set(iv, 0)
-  combined.set(encryptedArray, iv.length)
+  const exportedPrivateKey = await exportKey('pkcs8', keyPair.privateKey)
+  const exportedPublicKey = await exportKey('spki', keyPair.publicKey)
 
   const stored: StoredEcdhKeyPair = {
     exchangeId,
-    encryptedPrivateKey: btoa(String.fromCharCode(...combined)),
-    publicKey: btoa(String.fromCharCode(...publicKeyData)),
-    salt: btoa(String.fromCharCode(...salt)),
+    envelope: await sealRecord(new Uint8Array(exportedPrivateKey), vaultKey),
+    publicKey: bytesToBase64(new Uint8Array(exportedPublicKey)),
     createdAt: Date.now(),
   }
 
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction([ECDH_STORE_NAME], 'readwrite')
-    const store = transaction.objectStore(ECDH_STORE_NAME)
-    const request = store.put(stored)
-
-    request.onsuccess = () => resolve()
-    request.onerror = () => reject(request.error)
-  })
+  await putRecord(ECDH_STORE_NAME, stored)
 }
 
 export async function getEcdhKeyPairPersistent(
   exchangeId: string,
-  password: string
+  vaultKey: CryptoKey
 ): Promise<CryptoKeyPair | null> {
   try {
     const db = await openDB()
@@ -282,46 +321,10 @@ export async function getEcdhKeyPairPersistent(
       return null
     }
 
-    const salt = Uint8Array.from(atob(stored.salt), c => c.charCodeAt(0))
-    const derivedKey = await deriveKeyFromPassword(password, salt)
-
-    const combined = Uint8Array.from(atob(stored.encryptedPrivateKey), c => c.charCodeAt(0))
-    const iv = combined.slice(0, 12)
-    const encrypted = combined.slice(12)
-
-    const decrypted = await crypto.subtle.decrypt(
-      {
-        name: 'AES-GCM',
-        iv: iv,
-      },
-      derivedKey,
-      encrypted
-    )
-
-    const privateKeyData = new Uint8Array(decrypted)
-    const publicKeyData = Uint8Array.from(atob(stored.publicKey), c => c.charCodeAt(0))
-
-    const privateKey = await crypto.subtle.importKey(
-      'pkcs8',
-      privateKeyData,
-      {
-        name: 'ECDH',
-        namedCurve: 'P-256',
-      },
-      false,
-      ['deriveKey', 'deriveBits']
-    )
+    const privateKeyData = await openRecord(stored, 'encryptedPrivateKey', vaultKey)
 
-    const publicKey = await crypto.subtle.importKey(
-      'spki',
-      publicKeyData,
-      {
-        name: 'ECDH',
-        namedCurve: 'P-256',
-      },
-      true,
-      []
-    )
+    const privateKey = await importKeyAgreementPrivateKey(privateKeyData)
+    const publicKey = await importKeyAgreementPublicKey(stored.publicKey)
 
     return { privateKey, publicKey }
   } catch (error) {
@@ -344,58 +347,31 @@ export async function deleteEcdhKeyPairPersistent(exchangeId: string): Promise<v
 
 export interface StoredSessionKey {
   userId: string
-  encryptedKey: string
-  salt: string
+  envelope?: KeyEnvelope
+  encryptedKey?: string
+  salt?: string
   establishedAt: number
 }
 
 export async function storeSessionKeyPersistent(
   userId: string,
   sessionKey: CryptoKey,
-  password: string
+  vaultKey: CryptoKey
 ): Promise<void> {
-  const db = await openDB()
-  const salt = crypto.getRandomValues(new Uint8Array(16))
-  const derivedKey = await deriveKeyFromPassword(password, salt)
-
   const exportedKey = await crypto.subtle.exportKey('raw', sessionKey)
-  const keyData = new Uint8Array(exportedKey)
-
-  const iv = crypto.getRandomValues(new Uint8Array(12))
-  const encrypted = await crypto.subtle.encrypt(
-    {
-      name: 'AES-GCM',
-      iv: iv,
-    },
-    derivedKey,
-    keyData
-  )
-
-  const encryptedArray = new Uint8Array(encrypted)
-  const combined = new Uint8Array(iv.length + encryptedArray.length)
-  combined.set(iv, 0)
-  combined.set(encryptedArray, iv.length)
 
   const stored: StoredSessionKey = {
     userId,
-    encryptedKey: btoa(String.fromCharCode(...combined)),
-    salt: btoa(String.fromCharCode(...salt)),
+    envelope: await sealRecord(new Uint8Array(exportedKey), vaultKey),
     establishedAt: Date.now(),
   }
 
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction([SESSION_KEYS_STORE_NAME], 'readwrite')
-    const store = transaction.objectStore(SESSION_KEYS_STORE_NAME)
-    const request = store.put(stored)
-
-    request.onsuccess = () => resolve()
-    request.onerror = () => reject(request.error)
-  })
+  await putRecord(SESSION_KEYS_STORE_NAME, stored)
 }
 
 export async function getSessionKeyPersistent(
   userId: string,
-  password: string
+  vaultKey: CryptoKey
 ): Promise<CryptoKey | null> {
   try {
     const db = await openDB()
@@ -420,23 +396,7 @@ export async function getSessionKeyPersistent(
       return null
     }
 
-    const salt = Uint8Array.from(atob(stored.salt), c => c.charCodeAt(0))
-    const derivedKey = await deriveKeyFromPassword(password, salt)
-
-    const combined = Uint8Array.from(atob(stored.encryptedKey), c => c.charCodeAt(0))
-    const iv = combined.slice(0, 12)
-    const encrypted = combined.slice(12)
-
-    const decrypted = await crypto.subtle.decrypt(
-      {
-        name: 'AES-GCM',
-        iv: iv,
-      },
-      derivedKey,
-      encrypted
-    )
-
-    const keyData = new Uint8Array(decrypted)
+    const keyData = await openRecord(stored, 'encryptedKey', vaultKey)
 
     return await crypto.subtle.importKey(
       'raw',
@@ -466,3 +426,1037 @@ export async function deleteSessionKeyPersistent(userId: string): Promise<void>
   })
 }
 
+
+export interface StoredRatchetState {
+  userId: string
+  envelope?: KeyEnvelope
+  encryptedState?: string
+  salt?: string
+  updatedAt: number
+}
+
+export async function storeRatchetStatePersistent(
+  userId: string,
+  state: RatchetState,
+  vaultKey: CryptoKey
+): Promise<void> {
+  const encoder = new TextEncoder()
+
+  const stored: StoredRatchetState = {
+    userId,
+    envelope: await sealRecord(encoder.encode(JSON.stringify(state)), vaultKey),
+    updatedAt: state.updatedAt,
+  }
+
+  await putRecord(RATCHET_STORE_NAME, stored)
+}
+
+export async function getRatchetStatePersistent(
+  userId: string,
+  vaultKey: CryptoKey
+): Promise<RatchetState | null> {
+  try {
+    const db = await openDB()
+    const stored = await new Promise<StoredRatchetState | undefined>((resolve, reject) => {
+      const transaction = db.transaction([RATCHET_STORE_NAME], 'readonly')
+      const store = transaction.objectStore(RATCHET_STORE_NAME)
+      const request = store.get(userId)
+
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+
+    if (!stored) return null
+
+    const decrypted = await openRecord(stored, 'encryptedState', vaultKey)
+
+    const decoder = new TextDecoder()
+    return JSON.parse(decoder.decode(decrypted)) as RatchetState
+  } catch (error) {
+    console.error('Failed to retrieve ratchet state:', error)
+    return null
+  }
+}
+
+export async function deleteRatchetStatePersistent(userId: string): Promise<void> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([RATCHET_STORE_NAME], 'readwrite')
+    const store = transaction.objectStore(RATCHET_STORE_NAME)
+    const request = store.delete(userId)
+
+    request.onsuccess = () => resolve()
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export interface StoredPreKey {
+  id: string // "<userId>:<keyId>"
+  userId: string
+  keyId: number
+  kind: 'signed' | 'one-time'
+  envelope?: KeyEnvelope
+  encryptedPrivateKey?: string
+  publicKey: string
+  salt?: string
+  createdAt: number
+}
+
+export async function storePreKeyPersistent(
+  userId: string,
+  keyId: number,
+  kind: StoredPreKey['kind'],
+  keyPair: CryptoKeyPair,
+  vaultKey: CryptoKey
+): Promise<void> {
+  const exportedPrivateKey = await crypto.subtle.exportKey('pkcs8', keyPair.privateKey)
+  const exportedPublicKey = await crypto.subtle.exportKey('spki', keyPair.publicKey)
+
+  const stored: StoredPreKey = {
+    id: `${userId}:${keyId}`,
+    userId,
+    keyId,
+    kind,
+    envelope: await sealRecord(new Uint8Array(exportedPrivateKey), vaultKey),
+    publicKey: bytesToBase64(new Uint8Array(exportedPublicKey)),
+    createdAt: Date.now(),
+  }
+
+  await putRecord(PREKEY_STORE_NAME, stored)
+}
+
+export async function getPreKeyPersistent(
+  userId: string,
+  keyId: number,
+  vaultKey: CryptoKey
+): Promise<CryptoKeyPair | null> {
+  try {
+    const db = await openDB()
+    const stored = await new Promise<StoredPreKey | undefined>((resolve, reject) => {
+      const transaction = db.transaction([PREKEY_STORE_NAME], 'readonly')
+      const store = transaction.objectStore(PREKEY_STORE_NAME)
+      const request = store.get(`${userId}:${keyId}`)
+
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+
+    if (!stored) return null
+
+    const privateKeyData = await openRecord(stored, 'encryptedPrivateKey', vaultKey)
+    const publicKeyData = Uint8Array.from(atob(stored.publicKey), c => c.charCodeAt(0))
+
+    // Extractable so the signed prekey can seed the Double Ratchet state
+    const privateKey = await crypto.subtle.importKey(
+      'pkcs8',
+      privateKeyData,
+      {
+        name: 'ECDH',
+        namedCurve: 'P-256',
+      },
+      true,
+      ['deriveKey', 'deriveBits']
+    )
+
+    const publicKey = await crypto.subtle.importKey(
+      'spki',
+      publicKeyData,
+      {
+        name: 'ECDH',
+        namedCurve: 'P-256',
+      },
+      true,
+      []
+    )
+
+    return { privateKey, publicKey }
+  } catch (error) {
+    console.error('Failed to retrieve prekey:', error)
+    return null
+  }
+}
+
+export async function deletePreKeyPersistent(userId: string, keyId: number): Promise<void> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([PREKEY_STORE_NAME], 'readwrite')
+    const store = transaction.objectStore(PREKEY_STORE_NAME)
+    const request = store.delete(`${userId}:${keyId}`)
+
+    request.onsuccess = () => resolve()
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Safety number verification of a contact's identity key. Only public data is stored,
+// so the record is not encrypted.
+export interface ContactVerification {
+  id: string // "<userId>:<contactId>"
+  userId: string
+  contactId: string
+  publicKeyFingerprint: string // SHA-256 of the contact's identity key
+  verified: boolean
+  verifiedAt: number | null
+  keyChangedAt: number | null // set when the key changed after it was verified
+}
+
+export async function storeContactVerification(verification: ContactVerification): Promise<void> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([CONTACT_VERIFICATION_STORE_NAME], 'readwrite')
+    const store = transaction.objectStore(CONTACT_VERIFICATION_STORE_NAME)
+    const request = store.put(verification)
+
+    request.onsuccess = () => resolve()
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export async function getContactVerification(
+  userId: string,
+  contactId: string
+): Promise<ContactVerification | null> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([CONTACT_VERIFICATION_STORE_NAME], 'readonly')
+    const store = transaction.objectStore(CONTACT_VERIFICATION_STORE_NAME)
+    const request = store.get(`${userId}:${contactId}`)
+
+    request.onsuccess = () => resolve(request.result || null)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Receipt state of a message. For our own messages it is what the recipient reported,
+// for received ones what we reported back. Receipts are messages too and are recorded
+// with `control` set, so they stay hidden once their plaintext is no longer available
+// (ratchet message keys are single-use). Message IDs only, so the record is not encrypted.
+export interface MessageReceipt {
+  messageId: string
+  userId: string
+  status: ReceiptStatus | null // null for receipts themselves
+  control: boolean
+  updatedAt: number
+}
+
+export async function getMessageReceipts(messageIds: string[]): Promise<Map<string, MessageReceipt>> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([RECEIPT_STORE_NAME], 'readonly')
+    const store = transaction.objectStore(RECEIPT_STORE_NAME)
+    const receipts = new Map<string, MessageReceipt>()
+
+    for (const messageId of messageIds) {
+      const request = store.get(messageId)
+      request.onsuccess = () => {
+        if (request.result) receipts.set(messageId, request.result)
+      }
+    }
+    transaction.oncomplete = () => resolve(receipts)
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+/**
+ * Move messages forward to a receipt status. Statuses never go back, so receipts that
+ * arrive late or twice change nothing.
+ *
+ * @returns The IDs whose status changed
+ */
+export async function advanceMessageReceipts(
+  userId: string,
+  messageIds: string[],
+  status: ReceiptStatus
+): Promise<string[]> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([RECEIPT_STORE_NAME], 'readwrite')
+    const store = transaction.objectStore(RECEIPT_STORE_NAME)
+    const changed: string[] = []
+
+    for (const messageId of messageIds) {
+      const request = store.get(messageId)
+      request.onsuccess = () => {
+        const current: MessageReceipt | undefined = request.result
+        if (current?.control || receiptStatusAtLeast(current?.status, status)) return
+        store.put({ messageId, userId, status, control: false, updatedAt: Date.now() })
+        changed.push(messageId)
+      }
+    }
+    transaction.oncomplete = () => resolve(changed)
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+export async function markControlMessages(userId: string, messageIds: string[]): Promise<void> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([RECEIPT_STORE_NAME], 'readwrite')
+    const store = transaction.objectStore(RECEIPT_STORE_NAME)
+    for (const messageId of messageIds) {
+      store.put({ messageId, userId, status: null, control: true, updatedAt: Date.now() })
+    }
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+// Plaintext of an opened message. Ratchet message keys are single-use and our own are
+// discarded right after sending, so this is the only copy of the history once the page
+// is reloaded.
+export interface StoredMessagePayload {
+  id: string // "<userId>:<messageId>"
+  userId: string
+  messageId: string
+  envelope: KeyEnvelope
+  storedAt: number
+}
+
+export async function storeMessagePayloadsPersistent(
+  userId: string,
+  payloads: { [messageId: string]: MessagePayload },
+  vaultKey: CryptoKey
+): Promise<void> {
+  const encoder = new TextEncoder()
+  const records: StoredMessagePayload[] = await Promise.all(
+    Object.entries(payloads).map(async ([messageId, payload]) => ({
+      id: `${userId}:${messageId}`,
+      userId,
+      messageId,
+      envelope: await sealRecord(encoder.encode(JSON.stringify(payload)), vaultKey),
+      storedAt: Date.now(),
+    }))
+  )
+  if (records.length === 0) return
+
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([MESSAGE_PAYLOAD_STORE_NAME], 'readwrite')
+    const store = transaction.objectStore(MESSAGE_PAYLOAD_STORE_NAME)
+    for (const record of records) {
+      store.put(record)
+    }
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+/**
+ * @returns The stored payloads among `messageIds`; records that do not open are left out
+ */
+export async function getMessagePayloadsPersistent(
+  userId: string,
+  messageIds: string[],
+  vaultKey: CryptoKey
+): Promise<Map<string, MessagePayload>> {
+  const db = await openDB()
+  const stored = await new Promise<StoredMessagePayload[]>((resolve, reject) => {
+    const transaction = db.transaction([MESSAGE_PAYLOAD_STORE_NAME], 'readonly')
+    const store = transaction.objectStore(MESSAGE_PAYLOAD_STORE_NAME)
+    const records: StoredMessagePayload[] = []
+
+    for (const messageId of messageIds) {
+      const request = store.get(`${userId}:${messageId}`)
+      request.onsuccess = () => {
+        if (request.result) records.push(request.result)
+      }
+    }
+    transaction.oncomplete = () => resolve(records)
+    transaction.onerror = () => reject(transaction.error)
+  })
+
+  const decoder = new TextDecoder()
+  const payloads = new Map<string, MessagePayload>()
+  for (const record of stored) {
+    try {
+      const data = await openWithEnvelopeKey(record.envelope, vaultKey)
+      payloads.set(record.messageId, JSON.parse(decoder.decode(data)) as MessagePayload)
+    } catch (error) {
+      console.error(`[KEY STORAGE] Failed to open stored message ${record.messageId}:`, error)
+    }
+  }
+  return payloads
+}
+
+// Contact identity key pinned on first contact (trust on first use)
+export interface PinnedIdentityKey {
+  id: string // "<userId>:<contactId>"
+  userId: string
+  contactId: string
+  publicKey: string // spki, base64
+  fingerprint: string
+  pinnedAt: number
+}
+
+export async function storePinnedIdentityKey(pinned: PinnedIdentityKey): Promise<void> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([PINNED_IDENTITY_STORE_NAME], 'readwrite')
+    const store = transaction.objectStore(PINNED_IDENTITY_STORE_NAME)
+    const request = store.put(pinned)
+
+    request.onsuccess = () => resolve()
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export async function getPinnedIdentityKey(
+  userId: string,
+  contactId: string
+): Promise<PinnedIdentityKey | null> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([PINNED_IDENTITY_STORE_NAME], 'readonly')
+    const store = transaction.objectStore(PINNED_IDENTITY_STORE_NAME)
+    const request = store.get(`${userId}:${contactId}`)
+
+    request.onsuccess = () => resolve(request.result || null)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Local, append-only record of identity key events and the user's decisions
+export interface IdentityKeyLogEntry {
+  seq?: number
+  contact: string // "<userId>:<contactId>"
+  action: 'pinned' | 'mismatch' | 'accepted' | 'rotated'
+  previousFingerprint: string | null
+  fingerprint: string
+  timestamp: number
+}
+
+export async function appendIdentityKeyLog(entry: IdentityKeyLogEntry): Promise<void> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([IDENTITY_LOG_STORE_NAME], 'readwrite')
+    const store = transaction.objectStore(IDENTITY_LOG_STORE_NAME)
+    const request = store.add(entry)
+
+    request.onsuccess = () => resolve()
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export async function getIdentityKeyLog(userId: string, contactId: string): Promise<IdentityKeyLogEntry[]> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([IDENTITY_LOG_STORE_NAME], 'readonly')
+    const index = transaction.objectStore(IDENTITY_LOG_STORE_NAME).index('contact')
+    const request = index.getAll(`${userId}:${contactId}`)
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// This browser's device key for an account. The device ID and role are readable
+// without the vault key so the app knows whether it is linked before unlocking.
+export interface StoredDeviceKey {
+  userId: string
+  deviceId: string
+  primary: boolean
+  envelope?: KeyEnvelope
+  encryptedPrivateKey?: string
+  publicKey: string
+  salt?: string
+  createdAt: number
+}
+
+export type StoredDeviceInfo = Pick<StoredDeviceKey, 'userId' | 'deviceId' | 'primary' | 'publicKey' | 'createdAt'>
+
+export async function storeDeviceKeyPersistent(
+  userId: string,
+  deviceId: string,
+  primary: boolean,
+  keyPair: CryptoKeyPair,
+  vaultKey: CryptoKey
+): Promise<void> {
+  const exportedPrivateKey = await exportKey('pkcs8', keyPair.privateKey)
+  const exportedPublicKey = await exportKey('spki', keyPair.publicKey)
+
+  const stored: StoredDeviceKey = {
+    userId,
+    deviceId,
+    primary,
+    envelope: await sealRecord(new Uint8Array(exportedPrivateKey), vaultKey),
+    publicKey: bytesToBase64(new Uint8Array(exportedPublicKey)),
+    createdAt: Date.now(),
+  }
+
+  await putRecord(DEVICE_STORE_NAME, stored)
+}
+
+async function readDeviceKey(userId: string): Promise<StoredDeviceKey | undefined> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([DEVICE_STORE_NAME], 'readonly')
+    const store = transaction.objectStore(DEVICE_STORE_NAME)
+    const request = store.get(userId)
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export async function getStoredDeviceInfo(userId: string): Promise<StoredDeviceInfo | null> {
+  const stored = await readDeviceKey(userId)
+  if (!stored) return null
+  const { deviceId, primary, publicKey, createdAt } = stored
+  return { userId, deviceId, primary, publicKey, createdAt }
+}
+
+export async function getDeviceKeyPersistent(
+  userId: string,
+  vaultKey: CryptoKey
+): Promise<CryptoKeyPair | null> {
+  try {
+    const stored = await readDeviceKey(userId)
+    if (!stored) return null
+
+    const privateKeyData = await openRecord(stored, 'encryptedPrivateKey', vaultKey)
+
+    const privateKey = await importKeyAgreementPrivateKey(privateKeyData)
+    const publicKey = await importKeyAgreementPublicKey(stored.publicKey)
+
+    return { privateKey, publicKey }
+  } catch (error) {
+    console.error('Failed to retrieve device key:', error)
+    return null
+  }
+}
+
+export async function deleteDeviceKeyPersistent(userId: string): Promise<void> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([DEVICE_STORE_NAME], 'readwrite')
+    const store = transaction.objectStore(DEVICE_STORE_NAME)
+    const request = store.delete(userId)
+
+    request.onsuccess = () => resolve()
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Plaintext copy of an account's local key material, for an encrypted backup.
+// Session keys and pending key exchanges are left out; they expire within the hour.
+export interface KeyBackupData {
+  userId: string
+  identityPrivateKey: string // pkcs8, base64
+  device: { deviceId: string; primary: boolean; publicKey: string; privateKey: string } | null
+  preKeys: { keyId: number; kind: StoredPreKey['kind']; publicKey: string; privateKey: string }[]
+  ratchetStates: { contactId: string; state: RatchetState }[]
+  pinnedIdentityKeys: PinnedIdentityKey[]
+  contactVerifications: ContactVerification[]
+  identityKeyLog: IdentityKeyLogEntry[]
+}
+
+/**
+ * Unwrap everything stored for an account with its vault key
+ *
+ * @returns null if there is no identity key or it does not open with the vault key
+ */
+export async function exportKeyBackupData(userId: string, vaultKey: CryptoKey): Promise<KeyBackupData | null> {
+  const storedKeys = await readAllRecords<StoredKey>(STORE_NAME)
+  const identity = storedKeys.find(key => key.userId === userId)
+  if (!identity) return null
+
+  let identityPrivateKey: Uint8Array
+  try {
+    identityPrivateKey = await openRecord(identity, 'encryptedKey', vaultKey)
+  } catch {
+    console.error('[KEY STORAGE] Wrong vault key - cannot export keys')
+    return null
+  }
+
+  const storedDevice = await readDeviceKey(userId)
+  const device = storedDevice
+    ? {
+        deviceId: storedDevice.deviceId,
+        primary: storedDevice.primary,
+        publicKey: storedDevice.publicKey,
+        privateKey: bytesToBase64(await openRecord(storedDevice, 'encryptedPrivateKey', vaultKey)),
+      }
+    : null
+
+  const preKeys: KeyBackupData['preKeys'] = []
+  for (const preKey of await readAllRecords<StoredPreKey>(PREKEY_STORE_NAME)) {
+    if (preKey.userId !== userId) continue
+    preKeys.push({
+      keyId: preKey.keyId,
+      kind: preKey.kind,
+      publicKey: preKey.publicKey,
+      privateKey: bytesToBase64(await openRecord(preKey, 'encryptedPrivateKey', vaultKey)),
+    })
+  }
+
+  // Ratchet states are stored per contact only, so states of other accounts on this
+  // browser are told apart by not opening with this vault key
+  const ratchetStates: KeyBackupData['ratchetStates'] = []
+  for (const stored of await readAllRecords<StoredRatchetState>(RATCHET_STORE_NAME)) {
+    try {
+      const decrypted = await openRecord(stored, 'encryptedState', vaultKey)
+      ratchetStates.push({ contactId: stored.userId, state: JSON.parse(new TextDecoder().decode(decrypted)) })
+    } catch {
+      console.warn('[KEY STORAGE] Skipping ratchet state that does not belong to this account:', stored.userId)
+    }
+  }
+
+  const ownRecord = (record: { userId: string }) => record.userId === userId
+  return {
+    userId,
+    identityPrivateKey: bytesToBase64(identityPrivateKey),
+    device,
+    preKeys,
+    ratchetStates,
+    pinnedIdentityKeys: (await readAllRecords<PinnedIdentityKey>(PINNED_IDENTITY_STORE_NAME)).filter(ownRecord),
+    contactVerifications: (await readAllRecords<ContactVerification>(CONTACT_VERIFICATION_STORE_NAME)).filter(ownRecord),
+    identityKeyLog: (await readAllRecords<IdentityKeyLogEntry>(IDENTITY_LOG_STORE_NAME))
+      .filter(entry => entry.contact.startsWith(`${userId}:`)),
+  }
+}
+
+/**
+ * Write the contents of a backup into this browser, sealed with the account's vault key.
+ * The identity key is written last, so an interrupted restore leaves no usable account.
+ */
+export async function importKeyBackupData(data: KeyBackupData, vaultKey: CryptoKey): Promise<void> {
+  const fromBase64 = (base64: string) => Uint8Array.from(atob(base64), c => c.charCodeAt(0))
+
+  if (data.device) {
+    const stored: StoredDeviceKey = {
+      userId: data.userId,
+      deviceId: data.device.deviceId,
+      primary: data.device.primary,
+      envelope: await sealRecord(fromBase64(data.device.privateKey), vaultKey),
+      publicKey: data.device.publicKey,
+      createdAt: Date.now(),
+    }
+    await putRecord(DEVICE_STORE_NAME, stored)
+  }
+
+  for (const preKey of data.preKeys) {
+    const stored: StoredPreKey = {
+      id: `${data.userId}:${preKey.keyId}`,
+      userId: data.userId,
+      keyId: preKey.keyId,
+      kind: preKey.kind,
+      envelope: await sealRecord(fromBase64(preKey.privateKey), vaultKey),
+      publicKey: preKey.publicKey,
+      createdAt: Date.now(),
+    }
+    await putRecord(PREKEY_STORE_NAME, stored)
+  }
+
+  for (const { contactId, state } of data.ratchetStates) {
+    await storeRatchetStatePersistent(contactId, state, vaultKey)
+  }
+
+  for (const pinned of data.pinnedIdentityKeys) {
+    await putRecord(PINNED_IDENTITY_STORE_NAME, pinned)
+  }
+  for (const verification of data.contactVerifications) {
+    await putRecord(CONTACT_VERIFICATION_STORE_NAME, verification)
+  }
+
+  // The log is append-only; contacts that already have local history keep it as is
+  const loggedContacts = new Set((await readAllRecords<IdentityKeyLogEntry>(IDENTITY_LOG_STORE_NAME)).map(entry => entry.contact))
+  for (const { seq, ...entry } of data.identityKeyLog) {
+    if (!loggedContacts.has(entry.contact)) {
+      await appendIdentityKeyLog(entry)
+    }
+  }
+
+  const stored: StoredKey = { userId: data.userId, envelope: await sealRecord(fromBase64(data.identityPrivateKey), vaultKey) }
+  await putRecord(STORE_NAME, stored)
+  console.log('[KEY STORAGE] Restored keys for:', data.userId)
+}
+
+// A passkey that can open the vault: the vault key in an envelope keyed by the
+// passkey's PRF output for the salt in `envelope.kdf`
+export interface VaultPasskey {
+  credentialId: string
+  envelope: KeyEnvelope
+  createdAt: number
+}
+
+export interface VaultPasskeyInfo {
+  credentialId: string
+  prfSalt: string
+  createdAt: number
+}
+
+// The account's vault key: 32 random bytes kept in a password envelope, and optionally
+// in passkey envelopes and an envelope keyed by the OPAQUE export key. Every other key
+// record of the account is sealed with it.
+export interface StoredVaultKey {
+  userId: string
+  envelope: KeyEnvelope
+  passkeys?: VaultPasskey[]
+  exportKeyEnvelope?: KeyEnvelope
+  // The vault key under a new password while a password change is under way (see
+  // changeVaultPassword)
+  pendingEnvelope?: KeyEnvelope
+  createdAt: number
+  // Set once the password-sealed records have been moved, so an interrupted move resumes
+  migrated: boolean
+}
+
+function importVaultKey(raw: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', raw, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+}
+
+type SealedRecord = Record<string, unknown> & { envelope?: KeyEnvelope; salt?: string }
+
+/**
+ * Whether the password opens the account's existing identity or device record, so a
+ * new vault is not created around a mistyped password
+ */
+async function passwordOpensAccountRecords(userId: string, password: string): Promise<boolean> {
+  const identity = await readRecord<StoredKey>(STORE_NAME, userId)
+  const device = await readDeviceKey(userId)
+  const record = identity
+    ? recordEnvelope(identity, 'encryptedKey')
+    : device && recordEnvelope(device, 'encryptedPrivateKey')
+  if (!record || isVaultKeyEnvelope(record)) return true
+
+  try {
+    await openKeyEnvelope(record, password)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Re-seal every record the password opens with the vault key. Exchange, session and
+ * ratchet records are stored per contact only, so records of other accounts on this
+ * browser are told apart by not opening with this password and are left as they are.
+ */
+async function moveRecordsUnderVaultKey(userId: string, password: string, vaultKey: CryptoKey): Promise<void> {
+  const ownRecord = (record: SealedRecord) => record.userId === userId
+  const anyRecord = () => true
+  const stores: [string, string, (record: SealedRecord) => boolean][] = [
+    [STORE_NAME, 'encryptedKey', ownRecord],
+    [DEVICE_STORE_NAME, 'encryptedPrivateKey', ownRecord],
+    [PREKEY_STORE_NAME, 'encryptedPrivateKey', ownRecord],
+    [ECDH_STORE_NAME, 'encryptedPrivateKey', anyRecord],
+    [SESSION_KEYS_STORE_NAME, 'encryptedKey', anyRecord],
+    [RATCHET_STORE_NAME, 'encryptedState', anyRecord],
+  ]
+
+  let moved = 0
+  for (const [storeName, legacyField, belongs] of stores) {
+    for (const stored of await readAllRecords<SealedRecord>(storeName)) {
+      if (!belongs(stored)) continue
+      const envelope = recordEnvelope(stored, legacyField)
+      if (isVaultKeyEnvelope(envelope)) continue
+
+      let data: Uint8Array<ArrayBuffer>
+      try {
+        data = await openKeyEnvelope(envelope, password)
+      } catch {
+        continue
+      }
+      const upgraded: SealedRecord = { ...stored, envelope: await sealRecord(data, vaultKey) }
+      delete upgraded[legacyField]
+      delete upgraded.salt
+      await putRecord(storeName, upgraded)
+      moved++
+    }
+  }
+
+  console.log('[KEY STORAGE] Moved', moved, 'password-sealed records under the vault key for:', userId)
+}
+
+/**
+ * Open the vault key with the password, settling a password change that was staged but
+ * never committed. That is only decided on logins the server checked: if the current
+ * envelope opens, the server kept the old password and the staged envelope is dropped;
+ * if only the staged one opens, the server already took the new password.
+ */
+async function openVaultWithPassword(
+  vault: StoredVaultKey,
+  password: string,
+  serverVerified: boolean
+): Promise<{ raw: Uint8Array<ArrayBuffer>; vault: StoredVaultKey } | null> {
+  const settled: StoredVaultKey = { ...vault }
+  delete settled.pendingEnvelope
+
+  try {
+    const raw = await openKeyEnvelope(vault.envelope, password)
+    if (serverVerified && vault.pendingEnvelope) {
+      await putRecord(VAULT_STORE_NAME, settled)
+      console.log('[KEY STORAGE] Dropped a password change that did not reach the server')
+      return { raw, vault: settled }
+    }
+    return { raw, vault }
+  } catch {
+    if (!serverVerified || !vault.pendingEnvelope) return null
+  }
+
+  try {
+    const raw = await openKeyEnvelope(vault.pendingEnvelope, password)
+    settled.envelope = vault.pendingEnvelope
+    await putRecord(VAULT_STORE_NAME, settled)
+    console.log('[KEY STORAGE] Finished an interrupted password change')
+    return { raw, vault: settled }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Open the account's vault key with its password. The first unlock on a browser
+ * creates the vault and moves the account's password-sealed records under it.
+ * With the OPAQUE export key of the login, the vault key is also sealed under it, so
+ * the next login opens the vault with unlockVaultKeyWithExportKey.
+ *
+ * @returns null if the password is wrong
+ */
+export async function unlockVaultKey(
+  userId: string,
+  password: string,
+  exportKey?: Uint8Array<ArrayBuffer>
+): Promise<CryptoKey | null> {
+  let vault = await readRecord<StoredVaultKey>(VAULT_STORE_NAME, userId)
+  let raw: Uint8Array<ArrayBuffer>
+
+  if (vault) {
+    const opened = await openVaultWithPassword(vault, password, !!exportKey)
+    if (!opened) {
+      console.error('[KEY STORAGE] Wrong password - cannot unlock the key vault')
+      return null
+    }
+    raw = opened.raw
+    vault = opened.vault
+
+    if (isOutdatedKeyEnvelope(vault.envelope)) {
+      try {
+        vault = { ...vault, envelope: await sealKeyEnvelope(raw, password) }
+        await putRecord(VAULT_STORE_NAME, vault)
+        console.log('[KEY STORAGE] Re-sealed vault key with the current KDF')
+      } catch (error) {
+        console.warn('[KEY STORAGE] Failed to re-seal vault key, keeping the old one:', error)
+      }
+    }
+  } else {
+    if (!(await passwordOpensAccountRecords(userId, password))) {
+      console.error('[KEY STORAGE] Wrong password - cannot create the key vault')
+      return null
+    }
+
+    raw = crypto.getRandomValues(new Uint8Array(32))
+    vault = { userId, envelope: await sealKeyEnvelope(raw, password), createdAt: Date.now(), migrated: false }
+    await putRecord(VAULT_STORE_NAME, vault)
+    console.log('[KEY STORAGE] Created key vault for:', userId)
+  }
+
+  const vaultKey = await importVaultKey(raw)
+  if (!vault.migrated) {
+    await moveRecordsUnderVaultKey(userId, password, vaultKey)
+    vault = { ...vault, migrated: true }
+    await putRecord(VAULT_STORE_NAME, vault)
+  }
+  if (exportKey) {
+    const kdf = newExportKeyEnvelopeKdf()
+    const exportKeyEnvelope = await sealWithEnvelopeKey(raw, await deriveExportKeyEnvelopeKey(kdf, exportKey), kdf)
+    await putRecord(VAULT_STORE_NAME, { ...vault, exportKeyEnvelope })
+    console.log('[KEY STORAGE] Sealed vault key with the login export key for:', userId)
+  }
+  return vaultKey
+}
+
+/**
+ * Open the account's vault key with the OPAQUE export key of a login. The export key
+ * changes with the password, after which the password unlock seals it again.
+ *
+ * @returns null if the vault has no export key envelope or this key does not open it
+ */
+export async function unlockVaultKeyWithExportKey(
+  userId: string,
+  exportKey: Uint8Array<ArrayBuffer>
+): Promise<CryptoKey | null> {
+  const vault = await readRecord<StoredVaultKey>(VAULT_STORE_NAME, userId)
+  const envelope = vault?.exportKeyEnvelope
+  if (!vault?.migrated || !envelope || envelope.kdf.id !== 'opaque-export-key') return null
+
+  try {
+    const raw = await openWithEnvelopeKey(envelope, await deriveExportKeyEnvelopeKey(envelope.kdf, exportKey))
+    return await importVaultKey(raw)
+  } catch {
+    console.warn('[KEY STORAGE] Export key did not open the key vault')
+    return null
+  }
+}
+
+/**
+ * Change the password sealing the vault key, around the change on the server. Every
+ * other record is sealed with the vault key, so only its envelope is re-sealed.
+ *
+ * The envelope under the new password is staged next to the current one first, and only
+ * replaces it once `changeOnServer` succeeded, in a single write together with the new
+ * export key envelope. If this stops in between, the next login settles it (see
+ * openVaultWithPassword), so the keys open with whichever password the server has.
+ *
+ * @param changeOnServer Changes the password on the server and returns the new export key
+ * @returns false if the old password does not open the vault
+ */
+export async function changeVaultPassword(
+  userId: string,
+  oldPassword: string,
+  newPassword: string,
+  changeOnServer: () => Promise<Uint8Array<ArrayBuffer>>
+): Promise<boolean> {
+  let vault = await readRecord<StoredVaultKey>(VAULT_STORE_NAME, userId)
+  if (!vault) {
+    // No keys of this account on this browser
+    await changeOnServer()
+    return true
+  }
+
+  // Records still sealed with the old password would not open afterwards
+  if (!vault.migrated) {
+    if (!(await unlockVaultKey(userId, oldPassword))) return false
+    vault = (await readRecord<StoredVaultKey>(VAULT_STORE_NAME, userId))!
+  }
+
+  let raw: Uint8Array<ArrayBuffer>
+  try {
+    raw = await openKeyEnvelope(vault.envelope, oldPassword)
+  } catch {
+    console.error('[KEY STORAGE] Wrong password - cannot change the key vault password')
+    return false
+  }
+
+  const pendingEnvelope = await sealKeyEnvelope(raw, newPassword)
+  await putRecord(VAULT_STORE_NAME, { ...vault, pendingEnvelope })
+  console.log('[KEY STORAGE] Staged the key vault under the new password')
+
+  const exportKey = await changeOnServer()
+
+  const kdf = newExportKeyEnvelopeKdf()
+  const exportKeyEnvelope = await sealWithEnvelopeKey(raw, await deriveExportKeyEnvelopeKey(kdf, exportKey), kdf)
+  // Re-read, so passkeys added meanwhile are kept
+  const committed: StoredVaultKey = {
+    ...((await readRecord<StoredVaultKey>(VAULT_STORE_NAME, userId)) ?? vault),
+    envelope: pendingEnvelope,
+    exportKeyEnvelope,
+  }
+  delete committed.pendingEnvelope
+  await putRecord(VAULT_STORE_NAME, committed)
+  console.log('[KEY STORAGE] Key vault now opens with the new password for:', userId)
+  return true
+}
+
+/**
+ * Re-seal the vault key under the account's current password, on a browser whose vault
+ * still opens with a password that was changed elsewhere
+ *
+ * @returns false if the previous password does not open the vault
+ */
+export async function resealVaultPassword(
+  userId: string,
+  previousPassword: string,
+  password: string,
+  exportKey: Uint8Array<ArrayBuffer>
+): Promise<boolean> {
+  const vault = await readRecord<StoredVaultKey>(VAULT_STORE_NAME, userId)
+  if (!vault) return false
+
+  let raw: Uint8Array<ArrayBuffer>
+  try {
+    raw = await openKeyEnvelope(vault.envelope, previousPassword)
+  } catch {
+    return false
+  }
+
+  const kdf = newExportKeyEnvelopeKdf()
+  const resealed: StoredVaultKey = {
+    ...vault,
+    envelope: await sealKeyEnvelope(raw, password),
+    exportKeyEnvelope: await sealWithEnvelopeKey(raw, await deriveExportKeyEnvelopeKey(kdf, exportKey), kdf),
+  }
+  delete resealed.pendingEnvelope
+  await putRecord(VAULT_STORE_NAME, resealed)
+  console.log('[KEY STORAGE] Key vault moved to the changed password for:', userId)
+  return true
+}
+
+export async function getVaultPasskeys(userId: string): Promise<VaultPasskeyInfo[]> {
+  const vault = await readRecord<StoredVaultKey>(VAULT_STORE_NAME, userId)
+  return (vault?.passkeys ?? []).flatMap(({ credentialId, envelope, createdAt }) =>
+    envelope.kdf.id === 'webauthn-prf' ? [{ credentialId, prfSalt: envelope.kdf.salt, createdAt }] : []
+  )
+}
+
+/**
+ * Let a passkey open the vault. The password is needed to get at the vault key, which
+ * is only held as a non-extractable key once unlocked.
+ *
+ * @returns false if there is no vault yet or the password is wrong
+ */
+export async function addVaultPasskey(
+  userId: string,
+  password: string,
+  credentialId: string,
+  prfSalt: string,
+  prfOutput: Uint8Array<ArrayBuffer>
+): Promise<boolean> {
+  const vault = await readRecord<StoredVaultKey>(VAULT_STORE_NAME, userId)
+  if (!vault) return false
+
+  let raw: Uint8Array<ArrayBuffer>
+  try {
+    raw = await openKeyEnvelope(vault.envelope, password)
+  } catch {
+    console.error('[KEY STORAGE] Wrong password - cannot add a passkey to the key vault')
+    return false
+  }
+
+  const kdf = { id: 'webauthn-prf' as const, credentialId, salt: prfSalt }
+  const passkey: VaultPasskey = {
+    credentialId,
+    envelope: await sealWithEnvelopeKey(raw, await derivePrfEnvelopeKey(kdf, prfOutput), kdf),
+    createdAt: Date.now(),
+  }
+  const passkeys = (vault.passkeys ?? []).filter(existing => existing.credentialId !== credentialId)
+  await putRecord(VAULT_STORE_NAME, { ...vault, passkeys: [...passkeys, passkey] })
+  console.log('[KEY STORAGE] Added passkey to the key vault for:', userId)
+  return true
+}
+
+export async function removeVaultPasskey(userId: string, credentialId: string): Promise<void> {
+  const vault = await readRecord<StoredVaultKey>(VAULT_STORE_NAME, userId)
+  if (!vault?.passkeys) return
+  await putRecord(VAULT_STORE_NAME, {
+    ...vault,
+    passkeys: vault.passkeys.filter(passkey => passkey.credentialId !== credentialId),
+  })
+}
+
+/**
+ * Open the account's vault key with a passkey's PRF output. Only works once the vault
+ * exists and its records were moved under it, which takes the password.
+ *
+ * @returns null if the passkey is not enrolled or the output does not open it
+ */
+export async function unlockVaultKeyWithPasskey(
+  userId: string,
+  credentialId: string,
+  prfOutput: Uint8Array<ArrayBuffer>
+): Promise<CryptoKey | null> {
+  const vault = await readRecord<StoredVaultKey>(VAULT_STORE_NAME, userId)
+  const passkey = vault?.passkeys?.find(existing => existing.credentialId === credentialId)
+  if (!vault?.migrated || !passkey) return null
+
+  const kdf = passkey.envelope.kdf
+  if (kdf.id !== 'webauthn-prf' || kdf.credentialId !== credentialId) return null
+
+  try {
+    const raw = await openWithEnvelopeKey(passkey.envelope, await derivePrfEnvelopeKey(kdf, prfOutput))
+    return await importVaultKey(raw)
+  } catch {
+    console.error('[KEY STORAGE] Passkey did not open the key vault')
+    return null
+  }
+}
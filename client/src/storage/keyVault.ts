@@ -0,0 +1,354 @@
+/**
+ * In-memory key vault
+ *
+ * The vault key that seals this browser's key records is unlocked once per login and
+ * kept in memory as a non-extractable CryptoKey, together with the unwrapped identity
+ * key. Everything that reads or writes key records goes through `keyVault`, so the
+ * password is never asked for again until the vault locks.
+ *
+ * The vault locks on logout and after a configurable idle period. Reads while it is
+ * locked ask the mounted unlock dialog for the password or a passkey (see
+ * requestVaultUnlock).
+ */
+
+import type { RatchetState } from '@/crypto/doubleRatchet'
+import type { MessagePayload } from '@/crypto/messagePayload'
+import { createPrfCredential, evaluatePrf, newPrfSalt } from '@/crypto/webauthnPrf'
+import {
+  KeyBackupData,
+  StoredPreKey,
+  exportKeyBackupData,
+  getDeviceKeyPersistent,
+  getEcdhKeyPairPersistent,
+  getMessagePayloadsPersistent,
+  getPreKeyPersistent,
+  getPrivateKey,
+  getRatchetStatePersistent,
+  getSessionKeyPersistent,
+  importKeyBackupData,
+  addVaultPasskey,
+  getVaultPasskeys,
+  storeDeviceKeyPersistent,
+  storeEcdhKeyPairPersistent,
+  storeMessagePayloadsPersistent,
+  storePreKeyPersistent,
+  storePrivateKey,
+  storeRatchetStatePersistent,
+  storeSessionKeyPersistent,
+  resealVaultPassword,
+  unlockVaultKey,
+  unlockVaultKeyWithExportKey,
+  unlockVaultKeyWithPasskey,
+} from './keyStorage'
+
+const IDLE_MINUTES_STORAGE_KEY = 'vaultIdleMinutes'
+const DEFAULT_IDLE_MINUTES = 15
+export const VAULT_IDLE_MINUTE_OPTIONS = [5, 15, 30, 60]
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super('The key vault is locked')
+    this.name = 'VaultLockedError'
+  }
+}
+
+interface UnlockedVault {
+  userId: string
+  vaultKey: CryptoKey
+  identityKey: CryptoKey | null
+}
+
+let unlocked: UnlockedVault | null = null
+let idleTimer: ReturnType<typeof setTimeout> | null = null
+let pendingUnlock: Promise<boolean> | null = null
+let unlockHandler: ((reason?: string) => Promise<boolean>) | null = null
+// A login the server accepted whose password did not open this browser's vault, i.e. the
+// password was changed on another device. The next unlock with the previous password
+// re-seals the vault under this one.
+let changedPasswordLogin: { userId: string; password: string; exportKey: Uint8Array<ArrayBuffer> } | null = null
+const lockListeners = new Set<() => void>()
+
+export function getVaultIdleMinutes(): number {
+  const stored = Number(localStorage.getItem(IDLE_MINUTES_STORAGE_KEY))
+  return VAULT_IDLE_MINUTE_OPTIONS.includes(stored) ? stored : DEFAULT_IDLE_MINUTES
+}
+
+export function setVaultIdleMinutes(minutes: number): void {
+  localStorage.setItem(IDLE_MINUTES_STORAGE_KEY, String(minutes))
+  touchVault()
+}
+
+/**
+ * Restart the idle timer. Called on every vault access and on user activity.
+ */
+export function touchVault(): void {
+  if (!unlocked) return
+  if (idleTimer) clearTimeout(idleTimer)
+  idleTimer = setTimeout(() => {
+    console.log('[KEY VAULT] Locking after', getVaultIdleMinutes(), 'idle minutes')
+    lockVault()
+  }, getVaultIdleMinutes() * 60 * 1000)
+}
+
+/**
+ * Unlock the vault for an account with its password. At login, the OPAQUE export key
+ * opens it without stretching the password; the password is only used (and the export
+ * key sealed for next time) when it does not.
+ *
+ * @returns false if the password is wrong
+ */
+export async function unlockVault(
+  userId: string,
+  password: string,
+  exportKey?: Uint8Array<ArrayBuffer>
+): Promise<boolean> {
+  const vaultKey =
+    (exportKey && (await unlockVaultKeyWithExportKey(userId, exportKey))) ||
+    (await unlockVaultKey(userId, password, exportKey))
+  if (!vaultKey) {
+    if (exportKey) {
+      changedPasswordLogin = { userId, password, exportKey }
+    }
+    return false
+  }
+
+  if (!exportKey && changedPasswordLogin?.userId === userId) {
+    try {
+      await resealVaultPassword(userId, password, changedPasswordLogin.password, changedPasswordLogin.exportKey)
+    } catch (error) {
+      console.warn('[KEY VAULT] Failed to move the vault to the changed password:', error)
+    }
+  }
+  changedPasswordLogin = null
+
+  unlocked = { userId, vaultKey, identityKey: null }
+  touchVault()
+  console.log('[KEY VAULT] Unlocked for:', userId)
+  return true
+}
+
+/**
+ * Whether this browser's vault still needs the password from before it was changed on
+ * another device
+ */
+export function vaultNeedsPreviousPassword(userId: string): boolean {
+  return changedPasswordLogin?.userId === userId
+}
+
+export async function hasVaultPasskey(userId: string): Promise<boolean> {
+  return (await getVaultPasskeys(userId)).length > 0
+}
+
+/**
+ * Unlock the vault with one of the account's passkeys on this browser
+ *
+ * @returns false if the passkey did not open the vault
+ */
+export async function unlockVaultWithPasskey(userId: string): Promise<boolean> {
+  const passkeys = await getVaultPasskeys(userId)
+  if (passkeys.length === 0) return false
+
+  const { credentialId, output } = await evaluatePrf(
+    passkeys.map(passkey => ({ credentialId: passkey.credentialId, salt: passkey.prfSalt }))
+  )
+  const vaultKey = await unlockVaultKeyWithPasskey(userId, credentialId, output)
+  if (!vaultKey) return false
+
+  unlocked = { userId, vaultKey, identityKey: null }
+  touchVault()
+  console.log('[KEY VAULT] Unlocked with passkey for:', userId)
+  return true
+}
+
+/**
+ * Create a passkey and let it unlock the account's vault on this browser. The
+ * password stays a way to unlock it.
+ *
+ * @returns false if the password is wrong
+ */
+export async function enrollVaultPasskey(userId: string, username: string, password: string): Promise<boolean> {
+  // Check the password first, so a wrong one does not leave an unused passkey behind
+  if (!(await unlockVaultKey(userId, password))) return false
+
+  const salt = newPrfSalt()
+  const { credentialId, output } = await createPrfCredential(userId, username, salt)
+  return addVaultPasskey(userId, password, credentialId, salt, output)
+}
+
+export function lockVault(): void {
+  changedPasswordLogin = null
+  if (idleTimer) clearTimeout(idleTimer)
+  idleTimer = null
+  if (!unlocked) return
+
+  unlocked = null
+  lockListeners.forEach(listener => listener())
+  console.log('[KEY VAULT] Locked')
+}
+
+export function isVaultUnlocked(userId: string): boolean {
+  return unlocked?.userId === userId
+}
+
+/**
+ * Run a callback whenever the vault locks, e.g. to drop keys unwrapped with it
+ *
+ * @returns A function that removes the listener
+ */
+export function onVaultLock(listener: () => void): () => void {
+  lockListeners.add(listener)
+  return () => lockListeners.delete(listener)
+}
+
+/**
+ * Let the unlock dialog answer unlock requests. Only one handler is active at a time.
+ */
+export function setVaultUnlockHandler(handler: ((reason?: string) => Promise<boolean>) | null): void {
+  unlockHandler = handler
+}
+
+/**
+ * Make sure the vault is unlocked for the account, asking for the password if needed.
+ * Concurrent callers share one dialog.
+ *
+ * @returns false if the user cancelled
+ */
+export async function requestVaultUnlock(userId: string, reason?: string): Promise<boolean> {
+  if (isVaultUnlocked(userId)) return true
+  if (!unlockHandler) {
+    console.warn('[KEY VAULT] No unlock dialog is mounted')
+    return false
+  }
+
+  if (!pendingUnlock) {
+    pendingUnlock = unlockHandler(reason).finally(() => {
+      pendingUnlock = null
+    })
+  }
+  return (await pendingUnlock) && isVaultUnlocked(userId)
+}
+
+async function vaultKeyFor(userId: string): Promise<CryptoKey> {
+  if (!(await requestVaultUnlock(userId))) {
+    throw new VaultLockedError()
+  }
+  touchVault()
+  return unlocked!.vaultKey
+}
+
+// The logged-in account, for records stored per contact or exchange
+function currentVaultUser(): string {
+  const userId = unlocked?.userId ?? JSON.parse(localStorage.getItem('user') || '{}').id
+  if (!userId) throw new VaultLockedError()
+  return userId
+}
+
+/**
+ * Key records of the logged-in account. Reads and writes ask for the password if the
+ * vault is locked and throw VaultLockedError if the user cancels.
+ */
+export const keyVault = {
+  getPrivateKey: async (userId: string): Promise<CryptoKey | null> => {
+    const vaultKey = await vaultKeyFor(userId)
+    if (unlocked!.identityKey) return unlocked!.identityKey
+
+    const identityKey = await getPrivateKey(userId, vaultKey)
+    if (identityKey && unlocked?.vaultKey === vaultKey) {
+      unlocked.identityKey = identityKey
+    }
+    return identityKey
+  },
+
+  storePrivateKey: async (userId: string, privateKey: CryptoKey): Promise<void> => {
+    const vaultKey = await vaultKeyFor(userId)
+    await storePrivateKey(userId, privateKey, vaultKey)
+    if (unlocked?.vaultKey === vaultKey) {
+      unlocked.identityKey = privateKey
+    }
+  },
+
+  getEcdhKeyPair: async (exchangeId: string): Promise<CryptoKeyPair | null> =>
+    getEcdhKeyPairPersistent(exchangeId, await vaultKeyFor(currentVaultUser())),
+
+  storeEcdhKeyPair: async (exchangeId: string, keyPair: CryptoKeyPair): Promise<void> =>
+    storeEcdhKeyPairPersistent(exchangeId, keyPair, await vaultKeyFor(currentVaultUser())),
+
+  getSessionKey: async (contactId: string): Promise<CryptoKey | null> =>
+    getSessionKeyPersistent(contactId, await vaultKeyFor(currentVaultUser())),
+
+  storeSessionKey: async (contactId: string, sessionKey: CryptoKey): Promise<void> =>
+    storeSessionKeyPersistent(contactId, sessionKey, await vaultKeyFor(currentVaultUser())),
+
+  getRatchetState: async (contactId: string): Promise<RatchetState | null> =>
+    getRatchetStatePersistent(contactId, await vaultKeyFor(currentVaultUser())),
+
+  storeRatchetState: async (contactId: string, state: RatchetState): Promise<void> =>
+    storeRatchetStatePersistent(contactId, state, await vaultKeyFor(currentVaultUser())),
+
+  /**
+   * Re-save a ratchet state after a message without prompting, for background work
+   * Returns false if the vault is locked (the update is kept in memory only)
+   */
+  updateRatchetState: async (contactId: string, state: RatchetState): Promise<boolean> => {
+    if (!unlocked) {
+      console.warn('[KEY VAULT] Vault locked, ratchet update kept in memory only:', contactId)
+      return false
+    }
+    await storeRatchetStatePersistent(contactId, state, unlocked.vaultKey)
+    return true
+  },
+
+  /**
+   * Read opened messages back without prompting, since every decrypt pass asks for them
+   * Returns null if the vault is locked
+   */
+  getMessagePayloads: async (messageIds: string[]): Promise<Map<string, MessagePayload> | null> => {
+    if (!unlocked) return null
+    return getMessagePayloadsPersistent(unlocked.userId, messageIds, unlocked.vaultKey)
+  },
+
+  /**
+   * Keep opened messages without prompting, like updateRatchetState
+   * Returns false if the vault is locked (they are then only cached in memory)
+   */
+  storeMessagePayloads: async (payloads: { [messageId: string]: MessagePayload }): Promise<boolean> => {
+    if (Object.keys(payloads).length === 0) return true
+    if (!unlocked) {
+      console.warn('[KEY VAULT] Vault locked, opened messages kept in memory only')
+      return false
+    }
+    await storeMessagePayloadsPersistent(unlocked.userId, payloads, unlocked.vaultKey)
+    return true
+  },
+
+  getPreKey: async (userId: string, keyId: number): Promise<CryptoKeyPair | null> =>
+    getPreKeyPersistent(userId, keyId, await vaultKeyFor(userId)),
+
+  storePreKey: async (
+    userId: string,
+    keyId: number,
+    kind: StoredPreKey['kind'],
+    keyPair: CryptoKeyPair
+  ): Promise<void> => storePreKeyPersistent(userId, keyId, kind, keyPair, await vaultKeyFor(userId)),
+
+  getDeviceKey: async (userId: string): Promise<CryptoKeyPair | null> =>
+    getDeviceKeyPersistent(userId, await vaultKeyFor(userId)),
+
+  storeDeviceKey: async (
+    userId: string,
+    deviceId: string,
+    primary: boolean,
+    keyPair: CryptoKeyPair
+  ): Promise<void> => storeDeviceKeyPersistent(userId, deviceId, primary, keyPair, await vaultKeyFor(userId)),
+
+  exportBackupData: async (userId: string): Promise<KeyBackupData | null> =>
+    exportKeyBackupData(userId, await vaultKeyFor(userId)),
+
+  importBackupData: async (data: KeyBackupData): Promise<void> => {
+    const vaultKey = await vaultKeyFor(data.userId)
+    await importKeyBackupData(data, vaultKey)
+    if (unlocked?.vaultKey === vaultKey) {
+      unlocked.identityKey = null
+    }
+  },
+}
@@ -9,8 +9,14 @@ export const authenticate = (req, res, next) => {
     }
 
     const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    // Tokens issued for a single step (like the second login factor) are not sessions, and
+    // tokens from before sessions existed cannot be revoked, so neither is accepted
+    if (decoded.purpose || !decoded.sessionId) {
+      return res.status(401).json({ error: 'Invalid token' });
+    }
     req.userId = decoded.userId;
     req.username = decoded.username;
+    req.sessionId = decoded.sessionId;
     next();
   } catch (error) {
     res.status(401).json({ error: 'Invalid token' });
@@ -0,0 +1,22 @@
+import mongoose from 'mongoose';
+
+// Encrypted key backup of a user, one per account. The client encrypts it with a
+// recovery code or passphrase that never reaches the server, so it is stored as is.
+const backupSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true
+  },
+  backup: {
+    type: String,
+    required: true
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+export default mongoose.model('Backup', backupSchema);
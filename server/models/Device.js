@@ -0,0 +1,51 @@
+import mongoose from 'mongoose';
+
+// A browser an account is used from. Each device has its own X25519 key, added to the
+// account by a signature of the owner's identity key. The primary device holds the
+// identity key; the others are linked from it.
+const deviceSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  // Random ID chosen by the device (hex)
+  deviceId: {
+    type: String,
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  // X25519 public key (spki, base64)
+  publicKey: {
+    type: String,
+    required: true
+  },
+  primary: {
+    type: Boolean,
+    required: true
+  },
+  // Signed with the device statement, so stored as the client's millisecond timestamp
+  createdAt: {
+    type: Number,
+    required: true
+  },
+  // Identity key signature over the device statement
+  signature: {
+    type: String,
+    required: true
+  },
+  revokedAt: {
+    type: Number,
+    default: null
+  }
+});
+
+deviceSchema.index({ userId: 1, deviceId: 1 }, { unique: true });
+
+export default mongoose.model('Device', deviceSchema);
@@ -0,0 +1,39 @@
+import mongoose from 'mongoose';
+
+// Short-lived session for linking a new device. The trusted device opens it and shows
+// its ID in a QR code; the new device submits its key to it, and the trusted device
+// then signs that key into the account.
+const deviceLinkSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  linkId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  // Device that scanned the code, with a MAC keyed by the code's secret
+  device: {
+    type: new mongoose.Schema({
+      deviceId: { type: String, required: true },
+      name: { type: String, required: true, maxlength: 100 },
+      publicKey: { type: String, required: true },
+      mac: { type: String, required: true }
+    }, { _id: false }),
+    default: null
+  },
+  completedAt: {
+    type: Date,
+    default: null
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+});
+
+deviceLinkSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model('DeviceLink', deviceLinkSchema);
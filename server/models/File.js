@@ -23,6 +23,11 @@ const fileSchema = new mongoose.Schema({
     type: String,
     required: true
   },
+  // Version of the metadata authenticated with each chunk (absent on older files)
+  version: {
+    type: Number,
+    required: false
+  },
   chunks: [{
     chunkIndex: Number,
     ciphertext: String,
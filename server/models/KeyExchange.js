@@ -0,0 +1,109 @@
+import mongoose from 'mongoose';
+
+// How long a handshake may stay open before it is treated as expired
+export const EXCHANGE_TTL = 5 * 60 * 1000;
+
+// How long finished (confirmed or expired) exchanges are kept before MongoDB purges them
+const RETENTION_SECONDS = 24 * 60 * 60;
+
+export const EXCHANGE_STATES = ['initiated', 'responded', 'confirmed-by-one', 'confirmed', 'expired'];
+
+const keyExchangeSchema = new mongoose.Schema({
+  exchangeId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  fromUserId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  toUserId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // initiated -> responded -> confirmed-by-one -> confirmed
+  // Any open state becomes expired once expiresAt has passed
+  state: {
+    type: String,
+    enum: EXCHANGE_STATES,
+    default: 'initiated',
+    required: true
+  },
+  // Initiator's signed ECDH public key
+  publicKey: {
+    type: String,
+    required: true
+  },
+  signature: {
+    type: String,
+    required: true
+  },
+  timestamp: {
+    type: Number
+  },
+  // Key derivation version signed by the initiator; absent for legacy exchanges
+  version: {
+    type: Number
+  },
+  // Responder's signed ECDH public key
+  responsePublicKey: String,
+  responseSignature: String,
+  responseTimestamp: Number,
+  respondedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  respondedAt: Date,
+  confirmations: [{
+    _id: false,
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    confirmationHash: {
+      type: String,
+      required: true
+    },
+    confirmedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+    default: () => new Date(Date.now() + EXCHANGE_TTL)
+  }
+});
+
+keyExchangeSchema.index({ toUserId: 1, fromUserId: 1, state: 1 });
+keyExchangeSchema.index({ fromUserId: 1, toUserId: 1, state: 1 });
+
+// TTL index: documents are purged RETENTION_SECONDS after their handshake deadline
+keyExchangeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: RETENTION_SECONDS });
+
+keyExchangeSchema.methods.isParticipant = function(userId) {
+  return this.fromUserId.toString() === userId.toString() ||
+         this.toUserId.toString() === userId.toString();
+};
+
+// Move open exchanges past their deadline into the expired state
+keyExchangeSchema.statics.expireStale = function() {
+  return this.updateMany(
+    {
+      state: { $in: ['initiated', 'responded', 'confirmed-by-one'] },
+      expiresAt: { $lte: new Date() }
+    },
+    { $set: { state: 'expired' } }
+  );
+};
+
+export default mongoose.model('KeyExchange', keyExchangeSchema);
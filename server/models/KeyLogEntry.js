@@ -0,0 +1,96 @@
+import mongoose from 'mongoose';
+import { hashLeaf } from '../utils/merkle.js';
+
+export const KEY_LOG_ACTIONS = ['register', 'rotate'];
+
+// One leaf of the key transparency log. Entries are append-only: the position in the
+// log is `index`, and the Merkle tree over all leaf hashes commits to the whole history.
+const keyLogEntrySchema = new mongoose.Schema({
+  index: {
+    type: Number,
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  publicKey: {
+    type: String,
+    required: true
+  },
+  action: {
+    type: String,
+    enum: KEY_LOG_ACTIONS,
+    required: true
+  },
+  timestamp: {
+    type: Number,
+    required: true
+  },
+  leafHash: {
+    type: String,
+    required: true
+  }
+});
+
+keyLogEntrySchema.index({ userId: 1, index: -1 });
+
+// The log must never be rewritten
+const rejectMutation = function(next) {
+  next(new Error('Key transparency log entries cannot be modified or deleted'));
+};
+for (const operation of ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'deleteOne', 'deleteMany', 'findOneAndDelete']) {
+  keyLogEntrySchema.pre(operation, rejectMutation);
+}
+
+// Canonical leaf content; clients and auditors hash exactly this string
+export const leafData = (entry) => JSON.stringify({
+  index: entry.index,
+  userId: entry.userId.toString(),
+  publicKey: entry.publicKey,
+  action: entry.action,
+  timestamp: entry.timestamp,
+});
+
+export const serializeEntry = (entry) => ({
+  index: entry.index,
+  userId: entry.userId.toString(),
+  publicKey: entry.publicKey,
+  action: entry.action,
+  timestamp: entry.timestamp,
+  leafHash: entry.leafHash,
+});
+
+// Append a key to the log at the next free index. Concurrent appends race on the
+// unique index, and the loser retries with the following one.
+keyLogEntrySchema.statics.append = async function(userId, publicKey, action) {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const last = await this.findOne().sort({ index: -1 }).select('index');
+    const entry = {
+      index: last ? last.index + 1 : 0,
+      userId,
+      publicKey,
+      action,
+      timestamp: Date.now(),
+    };
+    entry.leafHash = hashLeaf(leafData(entry));
+
+    try {
+      return await this.create(entry);
+    } catch (error) {
+      if (error.code !== 11000) throw error;
+    }
+  }
+  throw new Error('Failed to append to key transparency log');
+};
+
+// Leaf hashes of the first `treeSize` entries, in log order
+keyLogEntrySchema.statics.leafHashes = async function(treeSize) {
+  if (treeSize === 0) return [];
+  const entries = await this.find().sort({ index: 1 }).limit(treeSize).select('leafHash');
+  return entries.map((entry) => entry.leafHash);
+};
+
+export default mongoose.model('KeyLogEntry', keyLogEntrySchema);
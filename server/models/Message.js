@@ -1,5 +1,10 @@
 import mongoose from 'mongoose';
 
+// Messages sent from a linked device only carry per-device copies
+function hasNoDeviceCopies() {
+  return !this.deviceCopies?.length;
+}
+
 const messageSchema = new mongoose.Schema({
   senderId: {
     type: mongoose.Schema.Types.ObjectId,
@@ -15,15 +20,15 @@ const messageSchema = new mongoose.Schema({
   },
   ciphertext: {
     type: String,
-    required: true
+    required: hasNoDeviceCopies
   },
   iv: {
     type: String,
-    required: true
+    required: hasNoDeviceCopies
   },
   tag: {
     type: String,
-    required: true
+    required: hasNoDeviceCopies
   },
   // Timestamp from client (for replay protection)
   timestamp: {
@@ -65,6 +70,47 @@ const messageSchema = new mongoose.Schema({
       message: 'Nonce must be valid base64 string'
     }
   },
+  // Version of the metadata authenticated alongside the ciphertext (absent on older messages)
+  version: {
+    type: Number,
+    required: false
+  },
+  // Double Ratchet header (absent on messages encrypted with the legacy static session key)
+  ratchetHeader: {
+    type: new mongoose.Schema({
+      dh: { type: String, required: true },
+      pn: { type: Number, required: true, min: 0 },
+      n: { type: Number, required: true, min: 0 }
+    }, { _id: false }),
+    required: false
+  },
+  // X3DH-style prekey header, repeated on the sender's messages until the recipient replies
+  preKeyHeader: {
+    type: new mongoose.Schema({
+      ephemeralKey: { type: String, required: true },
+      signedPreKeyId: { type: Number, required: true },
+      oneTimePreKeyId: { type: Number },
+      timestamp: { type: Number, required: true },
+      version: { type: Number },
+      signature: { type: String, required: true }
+    }, { _id: false }),
+    required: false
+  },
+  // Device that sent the message; its key authenticates the device copies
+  senderDeviceId: {
+    type: String,
+    required: false
+  },
+  // The message sealed separately to each linked device of the recipient and sender
+  deviceCopies: {
+    type: [new mongoose.Schema({
+      deviceId: { type: String, required: true },
+      ephemeralKey: { type: String, required: true },
+      iv: { type: String, required: true },
+      ciphertext: { type: String, required: true }
+    }, { _id: false })],
+    default: undefined
+  },
   createdAt: {
     type: Date,
     default: Date.now,
@@ -0,0 +1,42 @@
+import mongoose from 'mongoose';
+
+// Prekeys published by a user so others can start a session while they are offline.
+// Each user has one current signed prekey and a pool of one-time prekeys.
+const preKeySchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  keyId: {
+    type: Number,
+    required: true
+  },
+  kind: {
+    type: String,
+    enum: ['signed', 'one-time'],
+    required: true
+  },
+  // ECDH P-256 public key (spki, base64)
+  publicKey: {
+    type: String,
+    required: true
+  },
+  // RSA-PSS signature by the owner's identity key (signed prekeys only)
+  signature: {
+    type: String,
+    required: function() {
+      return this.kind === 'signed';
+    }
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+preKeySchema.index({ userId: 1, kind: 1, keyId: 1 }, { unique: true });
+preKeySchema.index({ userId: 1, kind: 1, createdAt: 1 });
+
+export default mongoose.model('PreKey', preKeySchema);
@@ -1,5 +1,32 @@
 import mongoose from 'mongoose';
 import bcrypt from 'bcrypt';
+import { IDENTITY_KEY_ALGORITHMS, identityKeyAlgorithm } from '../utils/identityKeys.js';
+
+// One identity key in a user's history. Every key after the first carries a signature
+// by the key it replaced, and the replaced key gets a revocation timestamp.
+const identityKeySchema = new mongoose.Schema({
+  publicKey: {
+    type: String,
+    required: true
+  },
+  algorithm: {
+    type: String,
+    enum: IDENTITY_KEY_ALGORITHMS,
+    default: null
+  },
+  createdAt: {
+    type: Number,
+    required: true
+  },
+  revokedAt: {
+    type: Number,
+    default: null
+  },
+  rotationSignature: {
+    type: String,
+    default: null
+  }
+}, { _id: false });
 
 const userSchema = new mongoose.Schema({
   username: {
@@ -8,27 +35,72 @@ const userSchema = new mongoose.Schema({
     unique: true,
     trim: true
   },
+  // bcrypt hash, only kept for accounts that have not logged in since OPAQUE was added
   passwordHash: {
     type: String,
-    required: true
+    default: null
+  },
+  // OPAQUE registration record; the server never sees the password itself
+  opaqueRecord: {
+    type: String,
+    default: null
   },
   publicKey: {
     type: String,
     required: true
   },
+  // Algorithm of `publicKey`; null for accounts created before it was stored
+  algorithm: {
+    type: String,
+    enum: IDENTITY_KEY_ALGORITHMS,
+    default: null
+  },
+  // All identity keys in order, the last one being `publicKey`
+  keyHistory: [identityKeySchema],
   createdAt: {
     type: Date,
     default: Date.now
   },
   lastLogin: {
     type: Date
+  },
+  // TOTP second factor. `secret` is set when enrolment starts and only guards logins
+  // once a code from it was verified (`enabledAt`).
+  twoFactor: {
+    secret: { type: String, default: null },
+    enabledAt: { type: Date, default: null },
+    // Last time step a code was accepted for, so a code cannot be used twice
+    lastUsedStep: { type: Number, default: null },
+    // bcrypt hashes of the unused recovery codes
+    recoveryCodeHashes: { type: [String], default: [] }
   }
 });
 
 userSchema.methods.comparePassword = async function(password) {
+  if (!this.passwordHash) return false;
   return bcrypt.compare(password, this.passwordHash);
 };
 
+userSchema.methods.hasTwoFactor = function() {
+  return !!(this.twoFactor?.enabledAt && this.twoFactor.secret);
+};
+
+userSchema.methods.getKeyAlgorithm = function() {
+  return this.algorithm ?? identityKeyAlgorithm(this.publicKey);
+};
+
+// Accounts created before key rotation existed have no stored history
+userSchema.methods.getKeyHistory = function() {
+  if (this.keyHistory?.length) return this.keyHistory;
+  return [{
+    publicKey: this.publicKey,
+    algorithm: this.getKeyAlgorithm(),
+    createdAt: this.createdAt.getTime(),
+    revokedAt: null,
+    rotationSignature: null
+  }];
+};
+
 export default mongoose.model('User', userSchema);
 
 
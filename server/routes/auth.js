@@ -1,23 +1,214 @@
 import express from 'express';
 import mongoose from 'mongoose';
 import User from '../models/User.js';
+import Session from '../models/Session.js';
+import KeyLogEntry from '../models/KeyLogEntry.js';
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
-import { logAuthAttempt } from '../utils/logger.js';
+import { authenticate } from '../middleware/auth.js';
+import { logAuthAttempt, logSecurityEvent } from '../utils/logger.js';
+import { identityKeyAlgorithm } from '../utils/identityKeys.js';
+import { createRegistrationResponse, finishLogin, startLogin } from '../utils/opaque.js';
+import { closeRevokedSessions } from '../utils/realtime.js';
+import {
+  createSession,
+  hashRefreshToken,
+  refreshTokenSessionId,
+  revokeSession,
+  rotateRefreshToken,
+  signAccessToken
+} from '../utils/sessions.js';
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  totpUri,
+  verifyTotp
+} from '../utils/totp.js';
 
 const router = express.Router();
 
+// Accounts with two-factor authentication get this token after the password step and
+// trade it for a session token with a code. `authenticate` rejects it.
+const TWO_FACTOR_PURPOSE = 'login-2fa';
+const TWO_FACTOR_CHALLENGE_TTL = '5m';
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+// Accounts that still log in with a bcrypt password get this token with their session,
+// after the second factor if they have one, and use it to store their first OPAQUE record
+const OPAQUE_MIGRATION_PURPOSE = 'opaque-migrate';
+const OPAQUE_MIGRATION_TTL = '10m';
+
+// Accounts without an OPAQUE record get this token from the OPAQUE login start. The
+// password login and password proofs only look at a password that comes with it, so a
+// client never has a reason to send the password of an account that uses OPAQUE.
+const PASSWORD_LOGIN_PURPOSE = 'password-login';
+const PASSWORD_LOGIN_TTL = '5m';
+
+// An OPAQUE login with purpose 'reauth' proves the password again without starting a
+// session, for settings that ask for it
+const REAUTH_PURPOSE = 'reauth';
+const REAUTH_TTL = '5m';
+
+// Wrong codes per challenge (by its jti), so a challenge cannot be used to guess codes
+// Key: jti, Value: { attempts, expiresAt }
+const challengeAttempts = new Map();
+
+setInterval(() => {
+  const now = Date.now();
+  for (const [jti, entry] of challengeAttempts.entries()) {
+    if (entry.expiresAt < now) {
+      challengeAttempts.delete(jti);
+    }
+  }
+}, 60000);
+
+const sessionResponse = async (user, req, { opaqueMigration = false } = {}) => {
+  const { token, refreshToken, sessionId } = await createSession(user, req);
+  const response = {
+    token,
+    refreshToken,
+    user: {
+      id: user._id,
+      username: user.username,
+      publicKey: user.publicKey,
+      keyAlgorithm: user.getKeyAlgorithm()
+    }
+  };
+  // Bound to this session, so it is only good together with the session's access token
+  if (opaqueMigration && !user.opaqueRecord) {
+    response.migrationToken = jwt.sign(
+      { userId: user._id, sessionId, purpose: OPAQUE_MIGRATION_PURPOSE },
+      process.env.JWT_SECRET,
+      { expiresIn: OPAQUE_MIGRATION_TTL }
+    );
+  }
+  return response;
+};
+
+// Check an authenticator code or a recovery code and use it up. The updates are
+// conditional, so two requests racing with the same code cannot both pass.
+// Returns 'totp', 'recovery-code' or null.
+const consumeSecondFactor = async (user, { code, recoveryCode }) => {
+  if (code) {
+    const step = verifyTotp(user.twoFactor.secret, code, user.twoFactor.lastUsedStep);
+    if (step === null) return null;
+    const result = await User.updateOne(
+      {
+        _id: user._id,
+        $or: [{ 'twoFactor.lastUsedStep': null }, { 'twoFactor.lastUsedStep': { $lt: step } }]
+      },
+      { $set: { 'twoFactor.lastUsedStep': step } }
+    );
+    return result.modifiedCount === 1 ? 'totp' : null;
+  }
+
+  if (recoveryCode) {
+    const normalized = normalizeRecoveryCode(recoveryCode);
+    for (const hash of user.twoFactor.recoveryCodeHashes) {
+      if (await bcrypt.compare(normalized, hash)) {
+        const result = await User.updateOne(
+          { _id: user._id, 'twoFactor.recoveryCodeHashes': hash },
+          { $pull: { 'twoFactor.recoveryCodeHashes': hash } }
+        );
+        return result.modifiedCount === 1 ? 'recovery-code' : null;
+      }
+    }
+  }
+
+  return null;
+};
+
+// The password checked out: ask for the second factor, or start the session. With
+// `opaqueMigration` the session comes with a migration token, also after the second factor.
+const completePasswordLogin = async (user, req, res, { opaqueMigration = false } = {}) => {
+  if (user.hasTwoFactor()) {
+    console.log(`[AUTH] Password accepted, second factor required for user: ${user.username}`);
+    const challengeToken = jwt.sign(
+      { userId: user._id, purpose: TWO_FACTOR_PURPOSE, jti: crypto.randomUUID(), opaqueMigration },
+      process.env.JWT_SECRET,
+      { expiresIn: TWO_FACTOR_CHALLENGE_TTL }
+    );
+    return res.json({ twoFactorRequired: true, challengeToken });
+  }
+
+  console.log(`[AUTH] Login successful for user: ${user.username} (ID: ${user._id})`);
+  logAuthAttempt(user.username, true, req.ip);
+
+  user.lastLogin = new Date();
+  await user.save();
+
+  res.json(await sessionResponse(user, req, { opaqueMigration }));
+};
+
+// Whether a password may be checked for this account: it has no OPAQUE record, and the
+// client was told so by the login start
+const passwordLoginAllowed = (user, passwordLoginToken) => {
+  if (user.opaqueRecord || !passwordLoginToken) return false;
+  try {
+    const grant = jwt.verify(passwordLoginToken, process.env.JWT_SECRET);
+    return grant.purpose === PASSWORD_LOGIN_PURPOSE && grant.userId === user._id.toString();
+  } catch {
+    return false;
+  }
+};
+
+// Settings that need the password again take a reauth token, or the password itself
+// from accounts that were not moved to OPAQUE yet
+const checkPasswordProof = async (user, { reauthToken, password, passwordLoginToken }) => {
+  if (reauthToken) {
+    try {
+      const proof = jwt.verify(reauthToken, process.env.JWT_SECRET);
+      return proof.purpose === REAUTH_PURPOSE && proof.userId === user._id.toString();
+    } catch {
+      return false;
+    }
+  }
+  return !!password && passwordLoginAllowed(user, passwordLoginToken) && user.comparePassword(password);
+};
+
+// First OPAQUE registration message, for new accounts and for moving existing ones.
+// Nothing is stored until the record is submitted.
+router.post('/opaque/register/start', async (req, res) => {
+  try {
+    const { username, registrationRequest } = req.body;
+
+    if (typeof username !== 'string' || !username || typeof registrationRequest !== 'string') {
+      return res.status(400).json({ error: 'Missing username or registration request' });
+    }
+
+    let registrationResponse;
+    try {
+      registrationResponse = createRegistrationResponse(username, registrationRequest);
+    } catch {
+      return res.status(400).json({ error: 'Malformed registration request' });
+    }
+
+    res.json({ registrationResponse });
+  } catch (error) {
+    console.error('[AUTH] OPAQUE registration error:', error);
+    res.status(500).json({ error: 'Registration failed' });
+  }
+});
+
 router.post('/register', async (req, res) => {
   try {
-    const { username, password, publicKey } = req.body;
+    const { username, registrationRecord, publicKey } = req.body;
 
     console.log(`[AUTH] Registration attempt for username: ${username}`);
 
-    if (!username || !password || !publicKey) {
-      console.log(`[AUTH] Missing fields - username: ${!!username}, password: ${!!password}, publicKey: ${!!publicKey}`);
+    if (!username || !registrationRecord || !publicKey) {
+      console.log(`[AUTH] Missing fields - username: ${!!username}, registrationRecord: ${!!registrationRecord}, publicKey: ${!!publicKey}`);
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
+    const algorithm = identityKeyAlgorithm(publicKey);
+    if (!algorithm) {
+      console.log(`[AUTH] Unsupported identity key for username: ${username}`);
+      return res.status(400).json({ error: 'Unsupported identity key' });
+    }
+
     if (mongoose.connection.readyState !== 1) {
       console.error('[AUTH] Database not connected. ReadyState:', mongoose.connection.readyState);
       return res.status(503).json({ error: 'Database connection unavailable. Please try again.' });
@@ -29,49 +220,46 @@ router.post('/register', async (req, res) => {
       return res.status(400).json({ error: 'Username already exists' });
     }
 
-    const saltRounds = 10;
-    const passwordHash = await bcrypt.hash(password, saltRounds);
-
     const user = new User({
       username,
-      passwordHash,
-      publicKey
+      opaqueRecord: registrationRecord,
+      publicKey,
+      algorithm,
+      keyHistory: [{ publicKey, algorithm, createdAt: Date.now() }]
     });
 
     await user.save();
 
+    // Every key a user ever had must be in the transparency log
+    try {
+      await KeyLogEntry.append(user._id, publicKey, 'register');
+    } catch (error) {
+      await User.deleteOne({ _id: user._id });
+      throw error;
+    }
+
     console.log(`[AUTH] User registered successfully: ${username} (ID: ${user._id})`);
 
     logAuthAttempt(username, true, req.ip);
 
-    const token = jwt.sign(
-      { userId: user._id, username: user.username },
-      process.env.JWT_SECRET,
-      { expiresIn: '7d' }
-    );
-
-    res.status(201).json({
-      token,
-      user: {
-        id: user._id,
-        username: user.username,
-        publicKey: user.publicKey
-      }
-    });
+    res.status(201).json(await sessionResponse(user, req));
   } catch (error) {
     console.error('Registration error:', error);
     res.status(500).json({ error: 'Registration failed' });
   }
 });
 
+// Password login for accounts without an OPAQUE record yet, with the token from the
+// login start. The session carries a migration token so the client can register one
+// right away.
 router.post('/login', async (req, res) => {
   try {
-    const { username, password } = req.body;
+    const { username, password, passwordLoginToken } = req.body;
 
     console.log(`[AUTH] Login attempt for username: ${username}`);
 
-    if (!username || !password) {
-      console.log(`[AUTH] Missing credentials - username: ${!!username}, password: ${!!password}`);
+    if (!username || !password || !passwordLoginToken) {
+      console.log(`[AUTH] Missing credentials - username: ${!!username}, password: ${!!password}, token: ${!!passwordLoginToken}`);
       return res.status(400).json({ error: 'Missing credentials' });
     }
 
@@ -87,6 +275,14 @@ router.post('/login', async (req, res) => {
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
+    // Checked before the password is looked at: accounts with an OPAQUE record never log
+    // in with it again
+    if (!passwordLoginAllowed(user, passwordLoginToken)) {
+      console.log(`[AUTH] Password login refused for username: ${username}`);
+      logAuthAttempt(username, false, req.ip);
+      return res.status(401).json({ error: 'Invalid credentials' });
+    }
+
     const isValid = await user.comparePassword(password);
     if (!isValid) {
       console.log(`[AUTH] Invalid password for user: ${username}`);
@@ -94,29 +290,494 @@ router.post('/login', async (req, res) => {
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
-    console.log(`[AUTH] Login successful for user: ${username} (ID: ${user._id})`);
-    logAuthAttempt(username, true, req.ip);
+    await completePasswordLogin(user, req, res, { opaqueMigration: true });
+  } catch (error) {
+    console.error('Login error:', error);
+    res.status(500).json({ error: 'Login failed' });
+  }
+});
+
+// First OPAQUE login message. Accounts that have no record yet are told so, with the
+// token the password login needs, which moves them over. Unknown usernames get a made-up
+// response, so a wrong username and a wrong password fail the same way.
+router.post('/opaque/login/start', async (req, res) => {
+  try {
+    const { username, startLoginRequest, purpose = 'login' } = req.body;
+
+    if (typeof username !== 'string' || !username || typeof startLoginRequest !== 'string') {
+      return res.status(400).json({ error: 'Missing credentials' });
+    }
+    if (purpose !== 'login' && purpose !== REAUTH_PURPOSE) {
+      return res.status(400).json({ error: 'Invalid login purpose' });
+    }
+
+    console.log(`[AUTH] OPAQUE ${purpose} attempt for username: ${username}`);
+
+    const user = await User.findOne({ username });
+
+    if (user && !user.opaqueRecord) {
+      const passwordLoginToken = jwt.sign(
+        { userId: user._id, purpose: PASSWORD_LOGIN_PURPOSE },
+        process.env.JWT_SECRET,
+        { expiresIn: PASSWORD_LOGIN_TTL }
+      );
+      return res.json({ legacy: true, passwordLoginToken });
+    }
+
+    let login;
+    try {
+      login = startLogin(username, user?.opaqueRecord, startLoginRequest, { userId: user?._id.toString(), purpose });
+    } catch {
+      return res.status(400).json({ error: 'Malformed login request' });
+    }
+
+    res.json(login);
+  } catch (error) {
+    console.error('[AUTH] OPAQUE login start error:', error);
+    res.status(500).json({ error: 'Login failed' });
+  }
+});
+
+router.post('/opaque/login/finish', async (req, res) => {
+  try {
+    const { loginId, finishLoginRequest } = req.body;
+
+    if (typeof loginId !== 'string' || typeof finishLoginRequest !== 'string') {
+      return res.status(400).json({ error: 'Missing login ID or finish request' });
+    }
+
+    const result = finishLogin(loginId, finishLoginRequest);
+    if (!result) {
+      return res.status(401).json({ error: 'Login expired, please try again' });
+    }
+    if (!result.verified) {
+      console.log(`[AUTH] OPAQUE ${result.purpose} failed for username: ${result.username}`);
+      logAuthAttempt(result.username, false, req.ip);
+      return res.status(401).json({ error: 'Invalid credentials' });
+    }
+
+    const user = await User.findById(result.userId);
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid credentials' });
+    }
+
+    if (result.purpose === REAUTH_PURPOSE) {
+      const reauthToken = jwt.sign(
+        { userId: user._id, purpose: REAUTH_PURPOSE },
+        process.env.JWT_SECRET,
+        { expiresIn: REAUTH_TTL }
+      );
+      return res.json({ reauthToken });
+    }
+
+    await completePasswordLogin(user, req, res);
+  } catch (error) {
+    console.error('[AUTH] OPAQUE login finish error:', error);
+    res.status(500).json({ error: 'Login failed' });
+  }
+});
+
+// Store the first OPAQUE record of an account that logged in with its password. The
+// bcrypt hash is dropped at the same time, so the password login stops working.
+// Needs the session the migration token was issued with, so the password alone (without
+// the second factor) is never enough to replace the account's credential.
+router.post('/opaque/migrate', authenticate, async (req, res) => {
+  try {
+    const { migrationToken, registrationRecord } = req.body;
+
+    if (!migrationToken || typeof registrationRecord !== 'string') {
+      return res.status(400).json({ error: 'Missing migration token or registration record' });
+    }
+
+    let migration;
+    try {
+      migration = jwt.verify(migrationToken, process.env.JWT_SECRET);
+    } catch {
+      return res.status(401).json({ error: 'Migration expired, it is retried on the next login' });
+    }
+    if (
+      migration.purpose !== OPAQUE_MIGRATION_PURPOSE ||
+      String(migration.userId) !== String(req.userId) ||
+      String(migration.sessionId) !== String(req.sessionId)
+    ) {
+      return res.status(401).json({ error: 'Invalid migration token' });
+    }
+
+    const result = await User.updateOne(
+      { _id: migration.userId, opaqueRecord: null },
+      { $set: { opaqueRecord: registrationRecord, passwordHash: null } }
+    );
+    if (result.modifiedCount === 0) {
+      return res.status(400).json({ error: 'Account already uses OPAQUE' });
+    }
+
+    console.log(`[AUTH] Account moved to OPAQUE: ${migration.userId}`);
+    logSecurityEvent('opaque_migrated', { userId: migration.userId });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[AUTH] OPAQUE migration error:', error);
+    res.status(500).json({ error: 'Migration failed' });
+  }
+});
+
+// Second login step: an authenticator code or a recovery code for the challenge token
+router.post('/login/2fa', async (req, res) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    if (!challengeToken || (!code && !recoveryCode)) {
+      return res.status(400).json({ error: 'Missing challenge token or code' });
+    }
+
+    if (mongoose.connection.readyState !== 1) {
+      console.error('[AUTH] Database not connected. ReadyState:', mongoose.connection.readyState);
+      return res.status(503).json({ error: 'Database connection unavailable. Please try again.' });
+    }
+
+    let challenge;
+    try {
+      challenge = jwt.verify(challengeToken, process.env.JWT_SECRET);
+    } catch {
+      return res.status(401).json({ error: 'Login expired, please log in again' });
+    }
+    if (challenge.purpose !== TWO_FACTOR_PURPOSE || !challenge.jti) {
+      return res.status(401).json({ error: 'Invalid challenge token' });
+    }
+
+    const attempts = challengeAttempts.get(challenge.jti) ?? { attempts: 0, expiresAt: challenge.exp * 1000 };
+    if (attempts.attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+      return res.status(401).json({ error: 'Too many attempts, please log in again' });
+    }
+
+    const user = await User.findById(challenge.userId);
+    if (!user || !user.hasTwoFactor()) {
+      return res.status(401).json({ error: 'Invalid challenge token' });
+    }
+
+    const method = await consumeSecondFactor(user, { code, recoveryCode });
+    if (!method) {
+      attempts.attempts++;
+      challengeAttempts.set(challenge.jti, attempts);
+      console.log(`[AUTH] Invalid second factor for user: ${user.username} (attempt ${attempts.attempts})`);
+      logAuthAttempt(user.username, false, req.ip);
+      return res.status(401).json({ error: 'Invalid code' });
+    }
+
+    // A challenge logs in once
+    challengeAttempts.set(challenge.jti, { attempts: MAX_TWO_FACTOR_ATTEMPTS, expiresAt: attempts.expiresAt });
+
+    console.log(`[AUTH] Login successful for user: ${user.username} (ID: ${user._id}) with ${method}`);
+    logAuthAttempt(user.username, true, req.ip);
+    if (method === 'recovery-code') {
+      logSecurityEvent('2fa_recovery_code_used', {
+        userId: user._id.toString(),
+        remaining: user.twoFactor.recoveryCodeHashes.length - 1
+      });
+    }
 
     user.lastLogin = new Date();
     await user.save();
 
-    const token = jwt.sign(
-      { userId: user._id, username: user.username },
-      process.env.JWT_SECRET,
-      { expiresIn: '7d' }
-    );
+    res.json(await sessionResponse(user, req, { opaqueMigration: !!challenge.opaqueMigration }));
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    res.status(500).json({ error: 'Login failed' });
+  }
+});
+
+// Trade a refresh token for a new access token and refresh token. A refresh token that
+// was already rotated out means it was copied, so the whole session is revoked.
+router.post('/refresh', async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+
+    const sessionId = refreshTokenSessionId(refreshToken);
+    if (!sessionId) {
+      return res.status(400).json({ error: 'Missing or malformed refresh token' });
+    }
+
+    const session = await Session.findById(sessionId);
+    if (!session || !session.isActive()) {
+      return res.status(401).json({ error: 'Session expired, please log in again' });
+    }
+
+    const presentedHash = hashRefreshToken(refreshToken);
+    const nextRefreshToken = session.refreshTokenHash === presentedHash
+      ? await rotateRefreshToken(session, presentedHash)
+      : null;
+
+    if (!nextRefreshToken) {
+      await revokeSession({ _id: session._id }, 'refresh-token-reuse');
+      await closeRevokedSessions(session.userId);
+      console.warn(`[AUTH] Refresh token reuse, session revoked: ${session._id} (user ${session.userId})`);
+      logSecurityEvent('refresh_token_reuse', {
+        userId: session.userId.toString(),
+        sessionId: session._id.toString(),
+        ip: req.ip || 'unknown'
+      });
+      return res.status(401).json({ error: 'Session revoked, please log in again', code: 'REFRESH_TOKEN_REUSED' });
+    }
+
+    const user = await User.findById(session.userId);
+    if (!user) {
+      return res.status(401).json({ error: 'Session expired, please log in again' });
+    }
+
+    res.json({ token: signAccessToken(user, session._id), refreshToken: nextRefreshToken });
+  } catch (error) {
+    console.error('[AUTH] Refresh error:', error);
+    res.status(500).json({ error: 'Failed to refresh session' });
+  }
+});
+
+// Ends the session of a refresh token. Works without an access token, so a client whose
+// access token already expired can still log out.
+router.post('/logout', async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+
+    const sessionId = refreshTokenSessionId(refreshToken);
+    if (!sessionId) {
+      return res.status(400).json({ error: 'Missing or malformed refresh token' });
+    }
+
+    // Only the current refresh token can end a session this way
+    await revokeSession({ _id: sessionId, refreshTokenHash: hashRefreshToken(refreshToken) }, 'logout');
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[AUTH] Logout error:', error);
+    res.status(500).json({ error: 'Failed to log out' });
+  }
+});
+
+// Replace the account's OPAQUE record with one for a new password. Other sessions are
+// logged out, since the password change may be a response to someone else using them.
+router.post('/change-password', authenticate, async (req, res) => {
+  try {
+    const { reauthToken, password, passwordLoginToken, registrationRecord } = req.body;
+
+    if ((!reauthToken && !password) || typeof registrationRecord !== 'string') {
+      return res.status(400).json({ error: 'Password confirmation and a new registration record are required' });
+    }
+
+    const user = await User.findById(req.userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (!(await checkPasswordProof(user, { reauthToken, password, passwordLoginToken }))) {
+      console.log(`[AUTH] Password change with wrong password for user: ${user.username}`);
+      return res.status(401).json({ error: 'Invalid password' });
+    }
+
+    user.opaqueRecord = registrationRecord;
+    user.passwordHash = null;
+    await user.save();
+
+    const result = await revokeSession({ userId: user._id, _id: { $ne: req.sessionId } }, 'password-change');
+    await closeRevokedSessions(user._id);
+
+    console.log(`[AUTH] Password changed for user: ${user.username}, ${result.modifiedCount} other sessions revoked`);
+    logSecurityEvent('password_changed', { userId: user._id.toString(), sessionsRevoked: result.modifiedCount });
+
+    res.json({ success: true, sessionsRevoked: result.modifiedCount });
+  } catch (error) {
+    console.error('[AUTH] Change password error:', error);
+    res.status(500).json({ error: 'Failed to change password' });
+  }
+});
+
+router.get('/sessions', authenticate, async (req, res) => {
+  try {
+    const sessions = await Session.find({
+      userId: req.userId,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() }
+    }).sort({ lastUsedAt: -1 });
+
+    res.json(sessions.map(session => ({
+      id: session._id,
+      userAgent: session.userAgent,
+      ip: session.ip,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      current: session._id.toString() === req.sessionId
+    })));
+  } catch (error) {
+    console.error('[AUTH] List sessions error:', error);
+    res.status(500).json({ error: 'Failed to load sessions' });
+  }
+});
+
+// Log out every session except the one making the request
+router.delete('/sessions', authenticate, async (req, res) => {
+  try {
+    const result = await revokeSession({ userId: req.userId, _id: { $ne: req.sessionId } }, 'user');
+    await closeRevokedSessions(req.userId);
+
+    console.log(`[AUTH] ${result.modifiedCount} other sessions revoked for user: ${req.username}`);
+    logSecurityEvent('sessions_revoked', { userId: req.userId, count: result.modifiedCount });
+
+    res.json({ revoked: result.modifiedCount });
+  } catch (error) {
+    console.error('[AUTH] Revoke sessions error:', error);
+    res.status(500).json({ error: 'Failed to revoke sessions' });
+  }
+});
+
+router.delete('/sessions/:sessionId', authenticate, async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.sessionId)) {
+      return res.status(400).json({ error: 'Invalid session ID' });
+    }
+
+    const result = await revokeSession({ _id: req.params.sessionId, userId: req.userId }, 'user');
+    if (result.modifiedCount === 0) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    await closeRevokedSessions(req.userId);
+
+    console.log(`[AUTH] Session ${req.params.sessionId} revoked for user: ${req.username}`);
+    logSecurityEvent('sessions_revoked', { userId: req.userId, sessionId: req.params.sessionId, count: 1 });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[AUTH] Revoke session error:', error);
+    res.status(500).json({ error: 'Failed to revoke session' });
+  }
+});
+
+router.get('/2fa', authenticate, async (req, res) => {
+  try {
+    const user = await User.findById(req.userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
 
     res.json({
-      token,
-      user: {
-        id: user._id,
-        username: user.username,
-        publicKey: user.publicKey
-      }
+      enabled: user.hasTwoFactor(),
+      enabledAt: user.twoFactor?.enabledAt ?? null,
+      recoveryCodesLeft: user.hasTwoFactor() ? user.twoFactor.recoveryCodeHashes.length : 0
     });
   } catch (error) {
-    console.error('Login error:', error);
-    res.status(500).json({ error: 'Login failed' });
+    console.error('[2FA] Status error:', error);
+    res.status(500).json({ error: 'Failed to load two-factor status' });
+  }
+});
+
+// Start enrolment: a new secret that only takes effect once a code from it is verified
+router.post('/2fa/setup', authenticate, async (req, res) => {
+  try {
+    const { reauthToken, password, passwordLoginToken } = req.body;
+
+    if (!reauthToken && !password) {
+      return res.status(400).json({ error: 'Password confirmation is required' });
+    }
+
+    const user = await User.findById(req.userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (user.hasTwoFactor()) {
+      return res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+    }
+    if (!(await checkPasswordProof(user, { reauthToken, password, passwordLoginToken }))) {
+      return res.status(401).json({ error: 'Invalid password' });
+    }
+
+    const secret = generateTotpSecret();
+    user.twoFactor = { secret, enabledAt: null, lastUsedStep: null, recoveryCodeHashes: [] };
+    await user.save();
+
+    console.log(`[2FA] Enrolment started for user: ${user.username}`);
+
+    res.json({ secret, otpauthUri: totpUri(secret, user.username) });
+  } catch (error) {
+    console.error('[2FA] Setup error:', error);
+    res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+});
+
+// Finish enrolment with a code from the new secret. The recovery codes are only ever
+// returned here.
+router.post('/2fa/enable', authenticate, async (req, res) => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      return res.status(400).json({ error: 'Code is required' });
+    }
+
+    const user = await User.findById(req.userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (user.hasTwoFactor()) {
+      return res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+    }
+    if (!user.twoFactor?.secret) {
+      return res.status(400).json({ error: 'Two-factor setup was not started' });
+    }
+
+    const step = verifyTotp(user.twoFactor.secret, code);
+    if (step === null) {
+      return res.status(400).json({ error: 'Invalid code' });
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    const saltRounds = 10;
+    user.twoFactor.recoveryCodeHashes = await Promise.all(
+      recoveryCodes.map(recoveryCode => bcrypt.hash(normalizeRecoveryCode(recoveryCode), saltRounds))
+    );
+    user.twoFactor.lastUsedStep = step;
+    user.twoFactor.enabledAt = new Date();
+    await user.save();
+
+    console.log(`[2FA] Enabled for user: ${user.username}`);
+    logSecurityEvent('2fa_enabled', { userId: user._id.toString() });
+
+    res.json({ recoveryCodes });
+  } catch (error) {
+    console.error('[2FA] Enable error:', error);
+    res.status(500).json({ error: 'Failed to enable two-factor authentication' });
+  }
+});
+
+router.post('/2fa/disable', authenticate, async (req, res) => {
+  try {
+    const { reauthToken, password, passwordLoginToken, code, recoveryCode } = req.body;
+
+    if ((!reauthToken && !password) || (!code && !recoveryCode)) {
+      return res.status(400).json({ error: 'Password confirmation and a code are required' });
+    }
+
+    const user = await User.findById(req.userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (!user.hasTwoFactor()) {
+      return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    }
+    if (!(await checkPasswordProof(user, { reauthToken, password, passwordLoginToken }))) {
+      return res.status(401).json({ error: 'Invalid password' });
+    }
+    if (!(await consumeSecondFactor(user, { code, recoveryCode }))) {
+      return res.status(401).json({ error: 'Invalid code' });
+    }
+
+    await User.updateOne(
+      { _id: user._id },
+      { $set: { twoFactor: { secret: null, enabledAt: null, lastUsedStep: null, recoveryCodeHashes: [] } } }
+    );
+
+    console.log(`[2FA] Disabled for user: ${user.username}`);
+    logSecurityEvent('2fa_disabled', { userId: user._id.toString() });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[2FA] Disable error:', error);
+    res.status(500).json({ error: 'Failed to disable two-factor authentication' });
   }
 });
 
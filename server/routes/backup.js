@@ -0,0 +1,73 @@
+import express from 'express';
+import Backup from '../models/Backup.js';
+import { authenticate } from '../middleware/auth.js';
+import { logSecurityEvent } from '../utils/logger.js';
+
+const router = express.Router();
+
+// Largest backup accepted, in characters of the encrypted JSON file
+const MAX_BACKUP_SIZE = 2 * 1024 * 1024;
+
+// Store or replace the current user's encrypted key backup
+router.put('/', authenticate, async (req, res) => {
+  try {
+    const { backup } = req.body;
+
+    if (typeof backup !== 'string' || backup.length === 0) {
+      return res.status(400).json({ error: 'Missing backup' });
+    }
+
+    if (backup.length > MAX_BACKUP_SIZE) {
+      return res.status(413).json({ error: 'Backup is too large' });
+    }
+
+    const stored = await Backup.findOneAndUpdate(
+      { userId: req.userId },
+      { backup, updatedAt: new Date() },
+      { upsert: true, new: true }
+    );
+
+    logSecurityEvent('key_backup_stored', {
+      userId: req.userId,
+      size: backup.length,
+    });
+
+    res.json({ status: 'stored', updatedAt: stored.updatedAt });
+  } catch (error) {
+    console.error('[BACKUP] Store error:', error);
+    res.status(500).json({ error: 'Failed to store backup' });
+  }
+});
+
+router.get('/', authenticate, async (req, res) => {
+  try {
+    const stored = await Backup.findOne({ userId: req.userId });
+    if (!stored) {
+      return res.status(404).json({ error: 'No backup stored' });
+    }
+
+    logSecurityEvent('key_backup_fetched', { userId: req.userId });
+
+    res.json({ backup: stored.backup, updatedAt: stored.updatedAt });
+  } catch (error) {
+    console.error('[BACKUP] Fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch backup' });
+  }
+});
+
+router.delete('/', authenticate, async (req, res) => {
+  try {
+    const result = await Backup.deleteOne({ userId: req.userId });
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ error: 'No backup stored' });
+    }
+
+    logSecurityEvent('key_backup_deleted', { userId: req.userId });
+    res.json({ status: 'deleted' });
+  } catch (error) {
+    console.error('[BACKUP] Delete error:', error);
+    res.status(500).json({ error: 'Failed to delete backup' });
+  }
+});
+
+export default router;
@@ -2,28 +2,48 @@ import express from 'express';
 import File from '../models/File.js';
 import { authenticate } from '../middleware/auth.js';
 import { logSecurityEvent } from '../utils/logger.js';
+import { publishToUser } from '../utils/realtime.js';
 
 const router = express.Router();
 
 router.post('/upload', authenticate, async (req, res) => {
   try {
-    const { recipientId, fileName, fileSize, mimeType, chunks } = req.body;
+    const { recipientId, fileName, fileSize, mimeType, chunks, version } = req.body;
 
     if (!recipientId || !fileName || !chunks || !Array.isArray(chunks)) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
+    if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+      return res.status(400).json({ error: 'Invalid protocol version' });
+    }
+
     const file = new File({
       senderId: req.userId,
       recipientId,
       fileName,
       fileSize,
       mimeType,
+      version,
       chunks,
     });
 
     await file.save();
 
+    // Only a notice: the recipient fetches the chunks when it opens the file
+    publishToUser(recipientId, {
+      type: 'file',
+      file: {
+        _id: file._id,
+        senderId: file.senderId,
+        recipientId: file.recipientId,
+        fileName: file.fileName,
+        fileSize: file.fileSize,
+        mimeType: file.mimeType,
+        uploadedAt: file.uploadedAt,
+      },
+    });
+
     logSecurityEvent('file_uploaded', {
       userId: req.userId,
       recipientId,
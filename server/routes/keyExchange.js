@@ -1,14 +1,33 @@
 import express from 'express';
+import KeyExchange from '../models/KeyExchange.js';
 import { authenticate } from '../middleware/auth.js';
 import { logSecurityEvent, logKeyExchange, logInvalidSignature } from '../utils/logger.js';
+import { publishToUser } from '../utils/realtime.js';
 
 const router = express.Router();
 
-const pendingExchanges = new Map();
+const EXCHANGE_ID_PATTERN = /^[A-Za-z0-9-]{16,128}$/;
+
+const participantFilter = (userId) => ({
+  $or: [{ fromUserId: userId }, { toUserId: userId }]
+});
+
+// Confirmation MACs are only meaningful to the peers, who verify them client-side
+const serializeConfirmations = (exchange) => exchange.confirmations.map((c) => ({
+  userId: c.userId,
+  confirmationHash: c.confirmationHash,
+  confirmedAt: c.confirmedAt,
+}));
+
+// Tell the other peer that the exchange moved on, so it does not have to poll for it
+const notifyPeer = (exchange, userId, event) => {
+  const peerId = exchange.fromUserId.toString() === userId.toString() ? exchange.toUserId : exchange.fromUserId;
+  publishToUser(peerId, { type: 'key-exchange', event, exchangeId: exchange.exchangeId, fromUserId: userId });
+};
 
 router.post('/initiate', authenticate, async (req, res) => {
   try {
-    const { recipientId, publicKey, signature, timestamp } = req.body;
+    const { exchangeId: requestedExchangeId, recipientId, publicKey, signature, timestamp, version } = req.body;
 
     console.log(`[KEY EXCHANGE] Initiate request from user ${req.userId} to ${recipientId}`);
 
@@ -17,22 +36,27 @@ router.post('/initiate', authenticate, async (req, res) => {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
-    const exchangeId = `${req.userId}-${recipientId}-${Date.now()}`;
-    pendingExchanges.set(exchangeId, {
+    if (version !== undefined && !Number.isInteger(version)) {
+      return res.status(400).json({ error: 'Invalid key derivation version' });
+    }
+
+    // Versioned clients pick the exchange ID themselves so it is covered by their signature
+    if (requestedExchangeId !== undefined && !EXCHANGE_ID_PATTERN.test(requestedExchangeId)) {
+      return res.status(400).json({ error: 'Invalid exchange ID' });
+    }
+
+    const exchangeId = requestedExchangeId || `${req.userId}-${recipientId}-${Date.now()}`;
+    const exchange = await KeyExchange.create({
+      exchangeId,
       fromUserId: req.userId,
       toUserId: recipientId,
       publicKey,
       signature,
       timestamp,
-      createdAt: Date.now(),
+      version,
     });
 
-    console.log(`[KEY EXCHANGE] Exchange ${exchangeId} created, will expire in 5 minutes`);
-
-    setTimeout(() => {
-      pendingExchanges.delete(exchangeId);
-      console.log(`[KEY EXCHANGE] Exchange ${exchangeId} expired and removed`);
-    }, 5 * 60 * 1000);
+    console.log(`[KEY EXCHANGE] Exchange ${exchangeId} created, expires at ${exchange.expiresAt.toISOString()}`);
 
     logSecurityEvent('key_exchange_initiated', {
       userId: req.userId,
@@ -40,9 +64,14 @@ router.post('/initiate', authenticate, async (req, res) => {
       exchangeId,
     });
 
+    notifyPeer(exchange, req.userId, 'initiated');
+
     console.log(`[KEY EXCHANGE] Successfully initiated exchange ${exchangeId}`);
     res.json({ exchangeId, status: 'initiated' });
   } catch (error) {
+    if (error.code === 11000) {
+      return res.status(409).json({ error: 'Exchange ID already in use' });
+    }
     console.error('[KEY EXCHANGE] Initiate error:', error);
     logSecurityEvent('key_exchange_failed', {
       userId: req.userId,
@@ -63,31 +92,61 @@ router.post('/response', authenticate, async (req, res) => {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
-    const exchange = pendingExchanges.get(exchangeId);
+    // Atomic initiated -> responded transition: of two concurrent responders, only
+    // the first update matches the state filter
+    const exchange = await KeyExchange.findOneAndUpdate(
+      {
+        exchangeId,
+        state: 'initiated',
+        expiresAt: { $gt: new Date() },
+        ...participantFilter(req.userId),
+      },
+      {
+        $set: {
+          state: 'responded',
+          responsePublicKey: publicKey,
+          responseSignature: signature,
+          responseTimestamp: timestamp,
+          respondedBy: req.userId,
+          respondedAt: new Date(),
+        },
+      },
+      { new: true }
+    );
+
     if (!exchange) {
-      console.log(`[KEY EXCHANGE] Exchange ${exchangeId} not found or expired`);
-      logSecurityEvent('key_exchange_not_found', {
+      const existing = await KeyExchange.findOne({ exchangeId });
+
+      if (!existing || existing.state === 'expired' || existing.expiresAt <= new Date()) {
+        console.log(`[KEY EXCHANGE] Exchange ${exchangeId} not found or expired`);
+        logSecurityEvent('key_exchange_not_found', {
+          userId: req.userId,
+          exchangeId,
+        });
+        return res.status(404).json({ error: 'Key exchange not found or expired' });
+      }
+
+      if (!existing.isParticipant(req.userId)) {
+        console.log(`[KEY EXCHANGE] Unauthorized - exchange is between ${existing.fromUserId} and ${existing.toUserId}, but current user is ${req.userId}`);
+        logSecurityEvent('key_exchange_unauthorized', {
+          userId: req.userId,
+          fromUserId: existing.fromUserId,
+          toUserId: existing.toUserId,
+          exchangeId,
+        });
+        return res.status(403).json({ error: 'Unauthorized - you are not part of this exchange' });
+      }
+
+      console.log(`[KEY EXCHANGE] Exchange ${exchangeId} already answered (state: ${existing.state})`);
+      logSecurityEvent('key_exchange_response_conflict', {
         userId: req.userId,
         exchangeId,
+        state: existing.state,
       });
-      return res.status(404).json({ error: 'Key exchange not found or expired' });
+      return res.status(409).json({ error: 'Key exchange already has a response' });
     }
 
-    console.log(`[KEY EXCHANGE] Exchange found - from: ${exchange.fromUserId}, to: ${exchange.toUserId}, current user: ${req.userId}`);
-
     const isInitiator = exchange.fromUserId.toString() === req.userId.toString();
-    const isRecipient = exchange.toUserId.toString() === req.userId.toString();
-
-    if (!isInitiator && !isRecipient) {
-      console.log(`[KEY EXCHANGE] Unauthorized - exchange is between ${exchange.fromUserId} and ${exchange.toUserId}, but current user is ${req.userId}`);
-      logSecurityEvent('key_exchange_unauthorized', {
-        userId: req.userId,
-        fromUserId: exchange.fromUserId,
-        toUserId: exchange.toUserId,
-        exchangeId,
-      });
-      return res.status(403).json({ error: 'Unauthorized - you are not part of this exchange' });
-    }
 
     if (isInitiator) {
       console.log(`[KEY EXCHANGE] User ${req.userId} is responding to their own initiation (mutual key exchange)`);
@@ -99,12 +158,7 @@ router.post('/response', authenticate, async (req, res) => {
       role: isInitiator ? 'initiator' : 'recipient',
     });
 
-    // Store the response in the exchange object
-    exchange.responsePublicKey = publicKey;
-    exchange.responseSignature = signature;
-    exchange.responseTimestamp = timestamp;
-    exchange.respondedBy = req.userId;
-    exchange.respondedAt = Date.now();
+    notifyPeer(exchange, req.userId, 'responded');
 
     console.log(`[KEY EXCHANGE] Response successful for exchange ${exchangeId} by ${isInitiator ? 'initiator' : 'recipient'}`);
     res.json({
@@ -130,22 +184,26 @@ router.get('/pending/:userId', authenticate, async (req, res) => {
     
     console.log(`[KEY EXCHANGE] Checking for pending exchanges with user ${userId} for current user ${req.userId}`);
 
+    await KeyExchange.expireStale();
+
     // Find exchanges where current user is the recipient (waiting for them to respond)
-    const pendingForMe = Array.from(pendingExchanges.entries())
-      .filter(([exchangeId, exchange]) => {
-        return exchange.toUserId.toString() === req.userId.toString() &&
-               exchange.fromUserId.toString() === userId.toString() &&
-               !exchange.responsePublicKey; // Only return exchanges without responses yet
-      })
-      .map(([exchangeId, exchange]) => ({
-        exchangeId,
-        fromUserId: exchange.fromUserId,
-        toUserId: exchange.toUserId,
-        publicKey: exchange.publicKey,
-        signature: exchange.signature,
-        timestamp: exchange.timestamp,
-        createdAt: exchange.createdAt,
-      }));
+    const exchanges = await KeyExchange.find({
+      toUserId: req.userId,
+      fromUserId: userId,
+      state: 'initiated', // Only return exchanges without responses yet
+    }).sort({ createdAt: -1 });
+
+    const pendingForMe = exchanges.map((exchange) => ({
+      exchangeId: exchange.exchangeId,
+      fromUserId: exchange.fromUserId,
+      toUserId: exchange.toUserId,
+      publicKey: exchange.publicKey,
+      signature: exchange.signature,
+      timestamp: exchange.timestamp,
+      version: exchange.version,
+      createdAt: exchange.createdAt.getTime(),
+      state: exchange.state,
+    }));
 
     console.log(`[KEY EXCHANGE] Found ${pendingForMe.length} pending exchanges`);
 
@@ -163,33 +221,30 @@ router.get('/responses/:userId', authenticate, async (req, res) => {
     
     console.log(`[KEY EXCHANGE] Checking for responses to exchanges with user ${userId} for current user ${req.userId}`);
 
-    // Find exchanges where current user is the initiator and recipient has responded
-    // Also filter out expired exchanges
-    const now = Date.now()
-    const EXCHANGE_EXPIRY = 5 * 60 * 1000 // 5 minutes
-    
-    const responses = Array.from(pendingExchanges.entries())
-      .filter(([exchangeId, exchange]) => {
-        const isExpired = now - exchange.createdAt > EXCHANGE_EXPIRY
-        if (isExpired) {
-          // Clean up expired exchange
-          pendingExchanges.delete(exchangeId)
-          return false
-        }
-        return exchange.fromUserId.toString() === req.userId.toString() &&
-               exchange.toUserId.toString() === userId.toString() &&
-               exchange.responsePublicKey; // Only return exchanges with responses
-      })
-      .map(([exchangeId, exchange]) => ({
-        exchangeId,
-        originalPublicKey: exchange.publicKey,
-        originalSignature: exchange.signature,
-        responsePublicKey: exchange.responsePublicKey,
-        responseSignature: exchange.responseSignature,
-        responseTimestamp: exchange.responseTimestamp,
-        fromUserId: exchange.fromUserId,
-        toUserId: exchange.toUserId,
-      }));
+    await KeyExchange.expireStale();
+
+    // Find exchanges where current user is the initiator, the recipient has responded,
+    // and the current user has not confirmed yet
+    const exchanges = await KeyExchange.find({
+      fromUserId: req.userId,
+      toUserId: userId,
+      state: { $in: ['responded', 'confirmed-by-one'] },
+      'confirmations.userId': { $ne: req.userId },
+    }).sort({ respondedAt: -1 });
+
+    const responses = exchanges.map((exchange) => ({
+      exchangeId: exchange.exchangeId,
+      originalPublicKey: exchange.publicKey,
+      originalSignature: exchange.signature,
+      responsePublicKey: exchange.responsePublicKey,
+      responseSignature: exchange.responseSignature,
+      responseTimestamp: exchange.responseTimestamp,
+      version: exchange.version,
+      fromUserId: exchange.fromUserId,
+      toUserId: exchange.toUserId,
+      state: exchange.state,
+      confirmations: serializeConfirmations(exchange),
+    }));
 
     console.log(`[KEY EXCHANGE] Found ${responses.length} responses`);
 
@@ -212,40 +267,67 @@ router.post('/confirm', authenticate, async (req, res) => {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
-    const exchange = pendingExchanges.get(exchangeId);
+    const confirmation = { userId: req.userId, confirmationHash, confirmedAt: new Date() };
+    const openExchange = {
+      exchangeId,
+      expiresAt: { $gt: new Date() },
+      'confirmations.userId': { $ne: req.userId },
+      ...participantFilter(req.userId),
+    };
+
+    // Atomic transitions, each guarded by the current state:
+    // responded -> confirmed-by-one (first confirmation), confirmed-by-one -> confirmed (second)
+    let exchange = await KeyExchange.findOneAndUpdate(
+      { ...openExchange, state: 'responded' },
+      { $set: { state: 'confirmed-by-one' }, $push: { confirmations: confirmation } },
+      { new: true }
+    );
+
     if (!exchange) {
-      console.log(`[KEY EXCHANGE] Exchange ${exchangeId} not found for confirmation`);
-      return res.status(404).json({ error: 'Key exchange not found or expired' });
+      exchange = await KeyExchange.findOneAndUpdate(
+        { ...openExchange, state: 'confirmed-by-one' },
+        { $set: { state: 'confirmed' }, $push: { confirmations: confirmation } },
+        { new: true }
+      );
     }
 
-    // Track who has confirmed
-    if (!exchange.confirmedBy) {
-      exchange.confirmedBy = [];
-    }
-    
-    if (!exchange.confirmedBy.includes(req.userId.toString())) {
-      exchange.confirmedBy.push(req.userId.toString());
-      console.log(`[KEY EXCHANGE] User ${req.userId} confirmed exchange ${exchangeId}`);
+    if (!exchange) {
+      const existing = await KeyExchange.findOne({ exchangeId, ...participantFilter(req.userId) });
+      const alreadyConfirmed = existing?.confirmations.some(c => c.userId.toString() === req.userId.toString());
+
+      if (!alreadyConfirmed) {
+        console.log(`[KEY EXCHANGE] Exchange ${exchangeId} cannot be confirmed (state: ${existing?.state || 'not found'})`);
+        return res.status(404).json({ error: 'Key exchange not found or expired' });
+      }
+
+      // Repeated confirmation from the same user is a no-op
+      console.log(`[KEY EXCHANGE] User ${req.userId} already confirmed exchange ${exchangeId}`);
+      exchange = existing;
+    } else {
+      console.log(`[KEY EXCHANGE] User ${req.userId} confirmed exchange ${exchangeId} (state: ${exchange.state})`);
     }
 
     logSecurityEvent('key_exchange_confirmed', {
       userId: req.userId,
       exchangeId,
+      state: exchange.state,
     });
 
-    // Only delete exchange when BOTH users have confirmed
-    const bothConfirmed = exchange.confirmedBy.length >= 2 || 
-                         (exchange.confirmedBy.includes(exchange.fromUserId.toString()) && 
-                          exchange.confirmedBy.includes(exchange.toUserId.toString()));
-    
+    notifyPeer(exchange, req.userId, 'confirmed');
+
+    const bothConfirmed = exchange.state === 'confirmed';
     if (bothConfirmed) {
-      pendingExchanges.delete(exchangeId);
-      console.log(`[KEY EXCHANGE] Exchange ${exchangeId} confirmed by both parties and removed`);
+      console.log(`[KEY EXCHANGE] Exchange ${exchangeId} confirmed by both parties`);
     } else {
-      console.log(`[KEY EXCHANGE] Exchange ${exchangeId} confirmed by ${exchange.confirmedBy.length} party/parties, waiting for other party`);
+      console.log(`[KEY EXCHANGE] Exchange ${exchangeId} confirmed by ${exchange.confirmations.length} party/parties, waiting for other party`);
     }
 
-    res.json({ status: 'confirmed', bothConfirmed });
+    res.json({
+      status: 'confirmed',
+      state: exchange.state,
+      bothConfirmed,
+      confirmations: serializeConfirmations(exchange),
+    });
   } catch (error) {
     console.error('[KEY EXCHANGE] Confirm error:', error);
     logSecurityEvent('key_exchange_confirm_failed', {
@@ -256,5 +338,28 @@ router.post('/confirm', authenticate, async (req, res) => {
   }
 });
 
+// Lets a peer that confirmed first pick up the other side's confirmation later
+router.get('/confirmation/:exchangeId', authenticate, async (req, res) => {
+  try {
+    const { exchangeId } = req.params;
+
+    await KeyExchange.expireStale();
+
+    const exchange = await KeyExchange.findOne({ exchangeId, ...participantFilter(req.userId) });
+    if (!exchange) {
+      return res.status(404).json({ error: 'Key exchange not found or expired' });
+    }
+
+    res.json({
+      exchangeId,
+      state: exchange.state,
+      confirmations: serializeConfirmations(exchange),
+    });
+  } catch (error) {
+    console.error('[KEY EXCHANGE] Get confirmation error:', error);
+    res.status(500).json({ error: 'Failed to get key confirmation' });
+  }
+});
+
 export default router;
 
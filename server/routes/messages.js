@@ -1,22 +1,56 @@
 import express from 'express';
+import mongoose from 'mongoose';
 import Message from '../models/Message.js';
+import Device from '../models/Device.js';
 import { authenticate } from '../middleware/auth.js';
 import { replayProtection } from '../middleware/replayProtection.js';
 import { logSecurityEvent, logFailedDecryption } from '../utils/logger.js';
+import { publishToUser } from '../utils/realtime.js';
 
 const router = express.Router();
 
+// Recipient's and sender's devices, at most 10 each
+const MAX_DEVICE_COPIES = 20;
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
 router.post('/send', authenticate, replayProtection, async (req, res) => {
   try {
-    const { recipientId, ciphertext, iv, tag, timestamp, sequenceNumber, nonce } = req.body;
+    const { recipientId, ciphertext, iv, tag, timestamp, sequenceNumber, nonce, version, ratchetHeader, preKeyHeader, senderDeviceId, deviceCopies } = req.body;
 
     console.log(`[MESSAGE] Send request from user ${req.userId} to ${recipientId}`);
 
-    if (!recipientId || !ciphertext || !iv || !tag || !nonce) {
-      console.log(`[MESSAGE] Missing fields - recipientId: ${!!recipientId}, ciphertext: ${!!ciphertext}, iv: ${!!iv}, tag: ${!!tag}, nonce: ${!!nonce}`);
+    const hasDeviceCopies = Array.isArray(deviceCopies) && deviceCopies.length > 0;
+    if (!recipientId || !nonce || (!hasDeviceCopies && (!ciphertext || !iv || !tag))) {
+      console.log(`[MESSAGE] Missing fields - recipientId: ${!!recipientId}, ciphertext: ${!!ciphertext}, iv: ${!!iv}, tag: ${!!tag}, nonce: ${!!nonce}, deviceCopies: ${hasDeviceCopies}`);
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
+    if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+      return res.status(400).json({ error: 'Invalid protocol version' });
+    }
+
+    if (deviceCopies !== undefined) {
+      if (!Array.isArray(deviceCopies) || deviceCopies.length > MAX_DEVICE_COPIES ||
+          deviceCopies.some(c => !c?.deviceId || !c?.ephemeralKey || !c?.iv || !c?.ciphertext)) {
+        return res.status(400).json({ error: 'Invalid device copies' });
+      }
+    }
+
+    if (hasDeviceCopies && !senderDeviceId) {
+      return res.status(400).json({ error: 'Device copies require the sending device' });
+    }
+
+    // A revoked device must not be able to keep sending under the account
+    if (senderDeviceId && !(await Device.exists({ userId: req.userId, deviceId: senderDeviceId, revokedAt: null }))) {
+      logSecurityEvent('message_from_unknown_device', {
+        userId: req.userId,
+        senderDeviceId,
+      });
+      return res.status(403).json({ error: 'Sending device is not linked to this account' });
+    }
+
     const message = new Message({
       senderId: req.userId,
       recipientId,
@@ -26,12 +60,23 @@ router.post('/send', authenticate, replayProtection, async (req, res) => {
       timestamp: new Date(timestamp),
       sequenceNumber,
       nonce,
+      version,
+      ratchetHeader,
+      preKeyHeader,
+      senderDeviceId,
+      deviceCopies: hasDeviceCopies ? deviceCopies : undefined,
     });
 
     await message.save();
 
     console.log(`[MESSAGE] Message ${message._id} saved successfully`);
 
+    // The sender's other devices show the message too
+    publishToUser(recipientId, { type: 'message', message });
+    if (recipientId.toString() !== req.userId.toString()) {
+      publishToUser(req.userId, { type: 'message', message });
+    }
+
     logSecurityEvent('message_sent', {
       userId: req.userId,
       recipientId,
@@ -63,21 +108,43 @@ router.post('/send', authenticate, replayProtection, async (req, res) => {
   }
 });
 
+// A page of a conversation, oldest message first. Without a cursor this is the newest
+// page; `before` pages back through older history and `after` fetches what was sent since
+// a message. Message IDs increase with time, so they double as the cursor.
 router.get('/conversation/:userId', authenticate, async (req, res) => {
   try {
     const { userId } = req.params;
+    const { before, after } = req.query;
+    const limit = req.query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(req.query.limit);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return res.status(400).json({ error: `Limit must be between 1 and ${MAX_PAGE_SIZE}` });
+    }
+    if ((before !== undefined && !mongoose.isValidObjectId(before)) ||
+        (after !== undefined && !mongoose.isValidObjectId(after)) ||
+        (before !== undefined && after !== undefined)) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
     
     logSecurityEvent('message_access', {
       userId: req.userId,
       conversationWith: userId,
     });
 
-    const messages = await Message.find({
+    const filter = {
       $or: [
         { senderId: req.userId, recipientId: userId },
         { senderId: userId, recipientId: req.userId }
       ]
-    }).sort({ createdAt: 1 }).limit(100);
+    };
+    if (before) filter._id = { $lt: before };
+    if (after) filter._id = { $gt: after };
+
+    // One extra message tells whether there is another page in the same direction
+    const found = await Message.find(filter).sort({ _id: after ? 1 : -1 }).limit(limit + 1);
+    const hasMore = found.length > limit;
+    const messages = found.slice(0, limit);
+    if (!after) messages.reverse();
 
     logSecurityEvent('messages_retrieved', {
       userId: req.userId,
@@ -85,7 +152,7 @@ router.get('/conversation/:userId', authenticate, async (req, res) => {
       messageCount: messages.length,
     });
 
-    res.json(messages);
+    res.json({ messages, hasMore });
   } catch (error) {
     console.error('Get messages error:', error);
     logSecurityEvent('message_access_failed', {
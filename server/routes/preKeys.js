@@ -0,0 +1,157 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import PreKey from '../models/PreKey.js';
+import User from '../models/User.js';
+import { authenticate } from '../middleware/auth.js';
+import { logSecurityEvent } from '../utils/logger.js';
+
+const router = express.Router();
+
+// Upper bound on stored one-time prekeys per user
+const MAX_ONE_TIME_PREKEYS = 200;
+
+// Publish a signed prekey and/or a batch of one-time prekeys
+router.post('/', authenticate, async (req, res) => {
+  try {
+    const { signedPreKey, oneTimePreKeys = [] } = req.body;
+
+    if (!Array.isArray(oneTimePreKeys) ||
+        oneTimePreKeys.some(k => !Number.isInteger(k?.keyId) || !k?.publicKey)) {
+      return res.status(400).json({ error: 'Invalid one-time prekeys' });
+    }
+
+    console.log(`[PREKEYS] Upload from user ${req.userId} - signed: ${!!signedPreKey}, one-time: ${oneTimePreKeys.length}`);
+
+    if (!signedPreKey && oneTimePreKeys.length === 0) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    if (signedPreKey) {
+      if (!Number.isInteger(signedPreKey.keyId) || !signedPreKey.publicKey || !signedPreKey.signature) {
+        return res.status(400).json({ error: 'Invalid signed prekey' });
+      }
+
+      // Only the latest signed prekey is handed out; older ones stay on the owner's device.
+      // Replaced in one step, so a bundle fetched meanwhile always has a signed prekey.
+      await PreKey.findOneAndUpdate(
+        { userId: req.userId, kind: 'signed' },
+        {
+          $set: {
+            keyId: signedPreKey.keyId,
+            publicKey: signedPreKey.publicKey,
+            signature: signedPreKey.signature,
+            createdAt: new Date(),
+          },
+        },
+        { upsert: true, runValidators: true }
+      );
+    }
+
+    if (oneTimePreKeys.length > 0) {
+      const existing = await PreKey.countDocuments({ userId: req.userId, kind: 'one-time' });
+      if (existing + oneTimePreKeys.length > MAX_ONE_TIME_PREKEYS) {
+        return res.status(400).json({ error: `At most ${MAX_ONE_TIME_PREKEYS} one-time prekeys can be stored` });
+      }
+
+      await PreKey.insertMany(oneTimePreKeys.map(k => ({
+        userId: req.userId,
+        keyId: k.keyId,
+        kind: 'one-time',
+        publicKey: k.publicKey,
+      })));
+    }
+
+    logSecurityEvent('prekeys_uploaded', {
+      userId: req.userId,
+      signedPreKeyId: signedPreKey?.keyId,
+      oneTimePreKeyCount: oneTimePreKeys.length,
+    });
+
+    const remaining = await PreKey.countDocuments({ userId: req.userId, kind: 'one-time' });
+    res.status(201).json({ status: 'uploaded', oneTimePreKeys: remaining });
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(409).json({ error: 'Duplicate prekey ID' });
+    }
+    console.error('[PREKEYS] Upload error:', error);
+    logSecurityEvent('prekeys_upload_failed', {
+      userId: req.userId,
+      error: error.message,
+    });
+    res.status(500).json({ error: 'Failed to upload prekeys' });
+  }
+});
+
+// Remaining supply for the current user, so the client knows when to top up
+router.get('/status', authenticate, async (req, res) => {
+  try {
+    const [oneTimePreKeys, signedPreKey] = await Promise.all([
+      PreKey.countDocuments({ userId: req.userId, kind: 'one-time' }),
+      PreKey.findOne({ userId: req.userId, kind: 'signed' }).select('keyId createdAt'),
+    ]);
+
+    res.json({
+      oneTimePreKeys,
+      signedPreKey: signedPreKey ? { keyId: signedPreKey.keyId, createdAt: signedPreKey.createdAt } : null,
+    });
+  } catch (error) {
+    console.error('[PREKEYS] Status error:', error);
+    res.status(500).json({ error: 'Failed to get prekey status' });
+  }
+});
+
+// Fetch a prekey bundle for another user. The one-time prekey is removed in the same
+// operation that returns it, so two senders can never be handed the same one.
+router.get('/:userId/bundle', authenticate, async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    const [user, signedPreKey] = await Promise.all([
+      User.findById(userId).select('publicKey'),
+      PreKey.findOne({ userId, kind: 'signed' }),
+    ]);
+
+    if (!user || !signedPreKey) {
+      return res.status(404).json({ error: 'No prekey bundle available' });
+    }
+
+    const oneTimePreKey = await PreKey.findOneAndDelete(
+      { userId, kind: 'one-time' },
+      { sort: { createdAt: 1 } }
+    );
+
+    logSecurityEvent('prekey_bundle_fetched', {
+      userId: req.userId,
+      bundleOwner: userId,
+      signedPreKeyId: signedPreKey.keyId,
+      oneTimePreKeyId: oneTimePreKey?.keyId,
+    });
+
+    if (!oneTimePreKey) {
+      console.warn(`[PREKEYS] User ${userId} has no one-time prekeys left, bundle has signed prekey only`);
+    }
+
+    res.json({
+      userId,
+      identityKey: user.publicKey,
+      signedPreKey: {
+        keyId: signedPreKey.keyId,
+        publicKey: signedPreKey.publicKey,
+        signature: signedPreKey.signature,
+      },
+      oneTimePreKey: oneTimePreKey ? {
+        keyId: oneTimePreKey.keyId,
+        publicKey: oneTimePreKey.publicKey,
+      } : null,
+    });
+  } catch (error) {
+    console.error('[PREKEYS] Bundle error:', error);
+    res.status(500).json({ error: 'Failed to get prekey bundle' });
+  }
+});
+
+export default router;
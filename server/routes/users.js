@@ -1,25 +1,526 @@
 import express from 'express';
+import crypto from 'crypto';
 import User from '../models/User.js';
+import PreKey from '../models/PreKey.js';
+import Device from '../models/Device.js';
+import DeviceLink from '../models/DeviceLink.js';
+import KeyLogEntry, { serializeEntry } from '../models/KeyLogEntry.js';
 import { authenticate } from '../middleware/auth.js';
-import { logMetadataAccess } from '../utils/logger.js';
+import { logMetadataAccess, logInvalidSignature, logSecurityEvent } from '../utils/logger.js';
+import { computeRoot, inclusionProof, consistencyProof } from '../utils/merkle.js';
+import { identityKeyAlgorithm, verifyIdentitySignature } from '../utils/identityKeys.js';
 
 const router = express.Router();
 
+// Largest page of raw log entries served to auditors
+const KEY_LOG_PAGE_SIZE = 1000;
+
+// Parse a tree size from the query, defaulting to the current size of the log
+const parseTreeSize = (value, currentSize) => {
+  if (value === undefined) return currentSize;
+  const size = Number(value);
+  return Number.isInteger(size) && size >= 0 && size <= currentSize ? size : null;
+};
+
+// A rotation must be signed within this window of the server's clock
+const KEY_ROTATION_MAX_AGE = 5 * 60 * 1000;
+
+const serializeKeyHistory = (history) => history.map((key) => ({
+  publicKey: key.publicKey,
+  algorithm: key.algorithm ?? identityKeyAlgorithm(key.publicKey),
+  createdAt: key.createdAt,
+  revokedAt: key.revokedAt ?? null,
+  rotationSignature: key.rotationSignature ?? null,
+}));
+
+// Canonical rotation statement, signed by the key being replaced; must match the client
+const keyRotationPayload = (fields) => JSON.stringify({
+  type: 'identity-key-rotation',
+  userId: fields.userId,
+  previousPublicKey: fields.previousPublicKey,
+  publicKey: fields.publicKey,
+  timestamp: fields.timestamp,
+});
+
+// Linked devices per account, and how long a link code stays valid
+const MAX_DEVICES = 10;
+const DEVICE_LINK_TTL = 10 * 60 * 1000;
+const DEVICE_STATEMENT_MAX_AGE = 5 * 60 * 1000;
+
+const serializeDevice = (device) => ({
+  deviceId: device.deviceId,
+  name: device.name,
+  publicKey: device.publicKey,
+  primary: device.primary,
+  createdAt: device.createdAt,
+  signature: device.signature,
+  revokedAt: device.revokedAt ?? null,
+});
+
+const serializeDeviceLink = (link) => ({
+  linkId: link.linkId,
+  expiresAt: link.expiresAt,
+  device: link.device ?? null,
+  completed: !!link.completedAt,
+});
+
+const isDevicePublicKey = (publicKey) => {
+  try {
+    const key = crypto.createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' });
+    return key.asymmetricKeyType === 'x25519';
+  } catch {
+    return false;
+  }
+};
+
+// Canonical device statement, signed by the identity key; must match the client
+const devicePayload = (fields) => JSON.stringify({
+  type: 'device',
+  userId: fields.userId,
+  deviceId: fields.deviceId,
+  name: fields.name,
+  publicKey: fields.publicKey,
+  primary: fields.primary,
+  createdAt: fields.createdAt,
+});
+
+// Own identity key history
+router.get('/me/keys', authenticate, async (req, res) => {
+  try {
+    const user = await User.findById(req.userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    res.json({ keys: serializeKeyHistory(user.getKeyHistory()) });
+  } catch (error) {
+    console.error('[KEY ROTATION] Get own keys error:', error);
+    res.status(500).json({ error: 'Failed to get key history' });
+  }
+});
+
+// Rotate the identity key: the new key must be signed by the current one, which is revoked
+router.post('/me/keys', authenticate, async (req, res) => {
+  try {
+    const { publicKey, timestamp, signature } = req.body;
+
+    console.log(`[KEY ROTATION] Rotation request from user ${req.userId}`);
+
+    if (!publicKey || !signature || !Number.isInteger(timestamp)) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    const algorithm = identityKeyAlgorithm(publicKey);
+    if (!algorithm) {
+      return res.status(400).json({ error: 'Unsupported identity key' });
+    }
+
+    if (Math.abs(Date.now() - timestamp) > KEY_ROTATION_MAX_AGE) {
+      return res.status(400).json({ error: 'Rotation timestamp is too old or in the future' });
+    }
+
+    const user = await User.findById(req.userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    // Keys stored before the algorithm was recorded get it filled in here
+    const history = user.getKeyHistory().map((key) => {
+      const entry = { ...(key.toObject?.() ?? key) };
+      return { ...entry, algorithm: entry.algorithm ?? identityKeyAlgorithm(entry.publicKey) };
+    });
+    if (history.some((key) => key.publicKey === publicKey)) {
+      return res.status(400).json({ error: 'This key was already used by this account' });
+    }
+
+    const previousPublicKey = user.publicKey;
+    const previousAlgorithm = user.algorithm;
+    const fields = { userId: req.userId, previousPublicKey, publicKey, timestamp };
+    if (!verifyIdentitySignature(previousPublicKey, keyRotationPayload(fields), signature)) {
+      logInvalidSignature(req.userId, { type: 'identity_key_rotation' });
+      return res.status(403).json({ error: 'Rotation is not signed by the current identity key' });
+    }
+
+    history[history.length - 1].revokedAt = timestamp;
+    history.push({ publicKey, algorithm, createdAt: timestamp, revokedAt: null, rotationSignature: signature });
+
+    // Conditional on the old key, so two concurrent rotations cannot both succeed
+    const result = await User.updateOne(
+      { _id: req.userId, publicKey: previousPublicKey },
+      { $set: { publicKey, algorithm, keyHistory: history } }
+    );
+    if (result.matchedCount === 0) {
+      return res.status(409).json({ error: 'Identity key changed concurrently' });
+    }
+
+    try {
+      await KeyLogEntry.append(req.userId, publicKey, 'rotate');
+    } catch (error) {
+      await User.updateOne(
+        { _id: req.userId, publicKey },
+        { $set: { publicKey: previousPublicKey, algorithm: previousAlgorithm, keyHistory: user.keyHistory } }
+      );
+      throw error;
+    }
+
+    // The signed prekey was signed by the revoked key; the client publishes a new one
+    await PreKey.deleteMany({ userId: req.userId, kind: 'signed' });
+
+    logSecurityEvent('identity_key_rotated', {
+      userId: req.userId,
+      keyCount: history.length,
+      timestamp,
+    });
+    console.log(`[KEY ROTATION] User ${req.userId} rotated to key ${history.length} (${algorithm})`);
+
+    res.status(201).json({ keys: serializeKeyHistory(history) });
+  } catch (error) {
+    console.error('[KEY ROTATION] Rotation error:', error);
+    res.status(500).json({ error: 'Failed to rotate identity key' });
+  }
+});
+
+// Devices of the current user, including revoked ones
+router.get('/me/devices', authenticate, async (req, res) => {
+  try {
+    const devices = await Device.find({ userId: req.userId }).sort({ createdAt: 1 });
+    res.json({ devices: devices.map(serializeDevice) });
+  } catch (error) {
+    console.error('[DEVICES] Get own devices error:', error);
+    res.status(500).json({ error: 'Failed to get devices' });
+  }
+});
+
+// Add a device signed by the identity key: the primary registers itself, any other
+// device must come through a link session it was submitted to
+router.post('/me/devices', authenticate, async (req, res) => {
+  try {
+    const { deviceId, name, publicKey, primary, createdAt, signature, linkId } = req.body;
+
+    console.log(`[DEVICES] Device registration from user ${req.userId} - primary: ${primary}, link: ${!!linkId}`);
+
+    if (!deviceId || !name || !publicKey || !signature ||
+        typeof primary !== 'boolean' || !Number.isInteger(createdAt)) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    if (!/^[0-9a-f]{32}$/.test(deviceId) || typeof name !== 'string' || name.length > 100 || !isDevicePublicKey(publicKey)) {
+      return res.status(400).json({ error: 'Invalid device' });
+    }
+
+    if (Math.abs(Date.now() - createdAt) > DEVICE_STATEMENT_MAX_AGE) {
+      return res.status(400).json({ error: 'Device timestamp is too old or in the future' });
+    }
+
+    if (primary === !!linkId) {
+      return res.status(400).json({ error: 'Only the primary device registers without a link' });
+    }
+
+    const user = await User.findById(req.userId).select('publicKey');
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const fields = { userId: req.userId, deviceId, name, publicKey, primary, createdAt };
+    if (!verifyIdentitySignature(user.publicKey, devicePayload(fields), signature)) {
+      logInvalidSignature(req.userId, { type: 'device_registration', deviceId });
+      return res.status(403).json({ error: 'Device is not signed by the current identity key' });
+    }
+
+    const activeDevices = await Device.find({ userId: req.userId, revokedAt: null }).select('primary');
+    if (activeDevices.length >= MAX_DEVICES) {
+      return res.status(400).json({ error: `At most ${MAX_DEVICES} devices can be linked` });
+    }
+    if (primary && activeDevices.some((device) => device.primary)) {
+      return res.status(409).json({ error: 'This account already has a primary device' });
+    }
+
+    let link = null;
+    if (linkId) {
+      link = await DeviceLink.findOne({ linkId, userId: req.userId, completedAt: null });
+      if (!link || link.expiresAt < new Date()) {
+        return res.status(404).json({ error: 'Link session not found or expired' });
+      }
+      if (!link.device || link.device.deviceId !== deviceId ||
+          link.device.name !== name || link.device.publicKey !== publicKey) {
+        return res.status(400).json({ error: 'Device does not match the one submitted to the link session' });
+      }
+    }
+
+    const device = await Device.create({ ...fields, signature });
+
+    if (link) {
+      link.completedAt = new Date();
+      await link.save();
+    }
+
+    logSecurityEvent('device_added', {
+      userId: req.userId,
+      deviceId,
+      primary,
+      deviceCount: activeDevices.length + 1,
+    });
+
+    res.status(201).json({ device: serializeDevice(device) });
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(409).json({ error: 'Device already registered' });
+    }
+    console.error('[DEVICES] Registration error:', error);
+    res.status(500).json({ error: 'Failed to register device' });
+  }
+});
+
+// Re-sign a device with the identity key, after the key was rotated
+router.put('/me/devices/:deviceId/signature', authenticate, async (req, res) => {
+  try {
+    const { signature } = req.body;
+    if (!signature) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    const [user, device] = await Promise.all([
+      User.findById(req.userId).select('publicKey'),
+      Device.findOne({ userId: req.userId, deviceId: req.params.deviceId, revokedAt: null }),
+    ]);
+    if (!user || !device) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    const fields = {
+      userId: req.userId,
+      deviceId: device.deviceId,
+      name: device.name,
+      publicKey: device.publicKey,
+      primary: device.primary,
+      createdAt: device.createdAt,
+    };
+    if (!verifyIdentitySignature(user.publicKey, devicePayload(fields), signature)) {
+      logInvalidSignature(req.userId, { type: 'device_signature', deviceId: device.deviceId });
+      return res.status(403).json({ error: 'Device is not signed by the current identity key' });
+    }
+
+    device.signature = signature;
+    await device.save();
+    res.json({ device: serializeDevice(device) });
+  } catch (error) {
+    console.error('[DEVICES] Update signature error:', error);
+    res.status(500).json({ error: 'Failed to update device signature' });
+  }
+});
+
+// Revoke a linked device; contacts stop encrypting to it once they refetch the list
+router.delete('/me/devices/:deviceId', authenticate, async (req, res) => {
+  try {
+    const device = await Device.findOne({ userId: req.userId, deviceId: req.params.deviceId, revokedAt: null });
+    if (!device) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+    if (device.primary) {
+      return res.status(400).json({ error: 'The primary device cannot be revoked' });
+    }
+
+    device.revokedAt = Date.now();
+    await device.save();
+
+    logSecurityEvent('device_revoked', { userId: req.userId, deviceId: device.deviceId });
+    console.log(`[DEVICES] User ${req.userId} revoked device ${device.deviceId}`);
+    res.json({ device: serializeDevice(device) });
+  } catch (error) {
+    console.error('[DEVICES] Revoke error:', error);
+    res.status(500).json({ error: 'Failed to revoke device' });
+  }
+});
+
+// Open a link session; its ID goes into the code shown on the trusted device
+router.post('/me/devices/links', authenticate, async (req, res) => {
+  try {
+    const link = await DeviceLink.create({
+      userId: req.userId,
+      linkId: crypto.randomBytes(16).toString('hex'),
+      expiresAt: new Date(Date.now() + DEVICE_LINK_TTL),
+    });
+
+    logSecurityEvent('device_link_started', { userId: req.userId, linkId: link.linkId });
+    res.status(201).json(serializeDeviceLink(link));
+  } catch (error) {
+    console.error('[DEVICES] Create link error:', error);
+    res.status(500).json({ error: 'Failed to start device link' });
+  }
+});
+
+// Polled by both devices while linking
+router.get('/me/devices/links/:linkId', authenticate, async (req, res) => {
+  try {
+    const link = await DeviceLink.findOne({ linkId: req.params.linkId, userId: req.userId });
+    if (!link || link.expiresAt < new Date()) {
+      return res.status(404).json({ error: 'Link session not found or expired' });
+    }
+    res.json(serializeDeviceLink(link));
+  } catch (error) {
+    console.error('[DEVICES] Get link error:', error);
+    res.status(500).json({ error: 'Failed to get device link' });
+  }
+});
+
+// The new device submits its key to the session it scanned
+router.post('/me/devices/links/:linkId', authenticate, async (req, res) => {
+  try {
+    const { deviceId, name, publicKey, mac } = req.body;
+    if (!deviceId || !name || !publicKey || !mac) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+    if (!/^[0-9a-f]{32}$/.test(deviceId) || typeof name !== 'string' || name.length > 100 || !isDevicePublicKey(publicKey)) {
+      return res.status(400).json({ error: 'Invalid device' });
+    }
+
+    // Only the first device to scan the code can claim the session
+    const link = await DeviceLink.findOneAndUpdate(
+      { linkId: req.params.linkId, userId: req.userId, device: null, expiresAt: { $gt: new Date() } },
+      { $set: { device: { deviceId, name, publicKey, mac } } },
+      { new: true }
+    );
+    if (!link) {
+      return res.status(409).json({ error: 'Link session not found, expired or already used' });
+    }
+
+    logSecurityEvent('device_link_submitted', { userId: req.userId, linkId: link.linkId, deviceId });
+    res.json(serializeDeviceLink(link));
+  } catch (error) {
+    console.error('[DEVICES] Submit link error:', error);
+    res.status(500).json({ error: 'Failed to submit device' });
+  }
+});
+
+// Current head (size and root hash) of the key transparency log
+router.get('/key-log/head', authenticate, async (req, res) => {
+  try {
+    const treeSize = await KeyLogEntry.countDocuments();
+    const rootHash = computeRoot(await KeyLogEntry.leafHashes(treeSize));
+    res.json({ treeSize, rootHash });
+  } catch (error) {
+    console.error('[KEY LOG] Get head error:', error);
+    res.status(500).json({ error: 'Failed to get key log head' });
+  }
+});
+
+// Raw entries, so auditors can replay the log and recompute every root
+router.get('/key-log/entries', authenticate, async (req, res) => {
+  try {
+    const start = Number(req.query.start ?? 0);
+    const end = Number(req.query.end ?? start + KEY_LOG_PAGE_SIZE);
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end < start || end - start > KEY_LOG_PAGE_SIZE) {
+      return res.status(400).json({ error: 'Invalid entry range' });
+    }
+
+    const entries = await KeyLogEntry.find({ index: { $gte: start, $lt: end } }).sort({ index: 1 });
+    res.json({ entries: entries.map(serializeEntry) });
+  } catch (error) {
+    console.error('[KEY LOG] Get entries error:', error);
+    res.status(500).json({ error: 'Failed to get key log entries' });
+  }
+});
+
+// Proof that the log at size `from` is a prefix of the log at size `to`
+router.get('/key-log/consistency', authenticate, async (req, res) => {
+  try {
+    const currentSize = await KeyLogEntry.countDocuments();
+    const from = parseTreeSize(req.query.from, currentSize);
+    const to = parseTreeSize(req.query.to, currentSize);
+    if (from === null || to === null || from > to) {
+      return res.status(400).json({ error: 'Invalid tree sizes' });
+    }
+
+    const leafHashes = await KeyLogEntry.leafHashes(to);
+    res.json({
+      from,
+      to,
+      rootHash: computeRoot(leafHashes),
+      proof: consistencyProof(from, leafHashes),
+    });
+  } catch (error) {
+    console.error('[KEY LOG] Get consistency proof error:', error);
+    res.status(500).json({ error: 'Failed to get consistency proof' });
+  }
+});
+
 router.get('/:userId/public-key', authenticate, async (req, res) => {
   try {
-    const user = await User.findById(req.params.userId).select('publicKey username');
+    const user = await User.findById(req.params.userId).select('publicKey algorithm username');
     if (!user) {
       return res.status(404).json({ error: 'User not found' });
     }
     
     logMetadataAccess(req.userId, 'public_key', req.params.userId);
-    res.json({ publicKey: user.publicKey, username: user.username });
+    res.json({
+      publicKey: user.publicKey,
+      keyAlgorithm: user.getKeyAlgorithm(),
+      username: user.username
+    });
   } catch (error) {
     console.error('Get public key error:', error);
     res.status(500).json({ error: 'Failed to get public key' });
   }
 });
 
+// Active devices of a user, so senders can encrypt a copy for each of them
+router.get('/:userId/devices', authenticate, async (req, res) => {
+  try {
+    const devices = await Device.find({ userId: req.params.userId, revokedAt: null }).sort({ createdAt: 1 });
+    logMetadataAccess(req.userId, 'devices', req.params.userId);
+    res.json({ devices: devices.map(serializeDevice) });
+  } catch (error) {
+    console.error('[DEVICES] Get devices error:', error);
+    res.status(500).json({ error: 'Failed to get devices' });
+  }
+});
+
+// Full key history, so contacts can follow the rotation chain from a key they trusted
+router.get('/:userId/keys', authenticate, async (req, res) => {
+  try {
+    const user = await User.findById(req.params.userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    logMetadataAccess(req.userId, 'key_history', req.params.userId);
+    res.json({ keys: serializeKeyHistory(user.getKeyHistory()) });
+  } catch (error) {
+    console.error('[KEY ROTATION] Get key history error:', error);
+    res.status(500).json({ error: 'Failed to get key history' });
+  }
+});
+
+// Latest log entry for a user's key, with its inclusion proof against the tree head
+router.get('/:userId/key-proof', authenticate, async (req, res) => {
+  try {
+    const currentSize = await KeyLogEntry.countDocuments();
+    const treeSize = parseTreeSize(req.query.treeSize, currentSize);
+    if (treeSize === null) {
+      return res.status(400).json({ error: 'Invalid tree size' });
+    }
+
+    const entry = await KeyLogEntry.findOne({
+      userId: req.params.userId,
+      index: { $lt: treeSize },
+    }).sort({ index: -1 });
+    if (!entry) {
+      return res.status(404).json({ error: 'No key log entry for this user' });
+    }
+
+    const leafHashes = await KeyLogEntry.leafHashes(treeSize);
+    logMetadataAccess(req.userId, 'key_proof', req.params.userId);
+    res.json({
+      entry: serializeEntry(entry),
+      treeSize,
+      rootHash: computeRoot(leafHashes),
+      proof: inclusionProof(entry.index, leafHashes),
+    });
+  } catch (error) {
+    console.error('[KEY LOG] Get key proof error:', error);
+    res.status(500).json({ error: 'Failed to get key proof' });
+  }
+});
+
 router.get('/search', authenticate, async (req, res) => {
   try {
     const { q } = req.query;
@@ -30,10 +531,15 @@ router.get('/search', authenticate, async (req, res) => {
     const users = await User.find({
       username: { $regex: q, $options: 'i' },
       _id: { $ne: req.userId }
-    }).select('username publicKey _id').limit(10);
+    }).select('username publicKey algorithm _id').limit(10);
 
     logMetadataAccess(req.userId, 'user_search', q);
-    res.json(users);
+    res.json(users.map((user) => ({
+      _id: user._id,
+      username: user.username,
+      publicKey: user.publicKey,
+      keyAlgorithm: user.getKeyAlgorithm(),
+    })));
   } catch (error) {
     console.error('Search error:', error);
     res.status(500).json({ error: 'Search failed' });
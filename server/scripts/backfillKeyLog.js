@@ -0,0 +1,36 @@
+import mongoose from 'mongoose';
+import User from '../models/User.js';
+import KeyLogEntry from '../models/KeyLogEntry.js';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Adds a 'register' entry to the key transparency log for every user whose current
+// key is not logged yet (accounts created before the log existed)
+async function backfillKeyLog() {
+  try {
+    await mongoose.connect(process.env.MONGODB_URI);
+    console.log('Connected to MongoDB');
+
+    const users = await User.find().sort({ createdAt: 1 }).select('_id username publicKey');
+    let appended = 0;
+
+    for (const user of users) {
+      const logged = await KeyLogEntry.exists({ userId: user._id, publicKey: user.publicKey });
+      if (logged) continue;
+
+      const entry = await KeyLogEntry.append(user._id, user.publicKey, 'register');
+      console.log(`- ${user.username}: logged at index ${entry.index}`);
+      appended++;
+    }
+
+    console.log(`\n✅ Appended ${appended} of ${users.length} users to the key transparency log\n`);
+
+    await mongoose.disconnect();
+  } catch (error) {
+    console.error('Error backfilling key log:', error);
+    process.exit(1);
+  }
+}
+
+backfillKeyLog();
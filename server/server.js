@@ -7,6 +7,9 @@ import userRoutes from './routes/users.js';
 import messageRoutes from './routes/messages.js';
 import fileRoutes from './routes/files.js';
 import keyExchangeRoutes from './routes/keyExchange.js';
+import preKeyRoutes from './routes/preKeys.js';
+import backupRoutes from './routes/backup.js';
+import { attachRealtime } from './utils/realtime.js';
 
 dotenv.config();
 
@@ -14,6 +17,8 @@ const app = express();
 const PORT = process.env.PORT || 5000;
 
 app.use(cors());
+// Key backups are larger than the default 100kb body limit; parsed here before the global parser
+app.use('/api/backup', express.json({ limit: '3mb' }));
 app.use(express.json());
 
 let isConnected = false;
@@ -71,6 +76,8 @@ app.use('/api/users', checkDBConnection, userRoutes);
 app.use('/api/messages', checkDBConnection, messageRoutes);
 app.use('/api/files', checkDBConnection, fileRoutes);
 app.use('/api/key-exchange', checkDBConnection, keyExchangeRoutes);
+app.use('/api/prekeys', checkDBConnection, preKeyRoutes);
+app.use('/api/backup', checkDBConnection, backupRoutes);
 
 app.get('/api/health', (req, res) => {
   res.json({ 
@@ -80,10 +87,10 @@ app.get('/api/health', (req, res) => {
   });
 });
 
-app.listen(PORT, '0.0.0.0', () => {
+const server = app.listen(PORT, '0.0.0.0', () => {
   console.log(`Server running on http://0.0.0.0:${PORT}`);
   console.log(`Accessible via http://localhost:${PORT}`);
   console.log(`Also accessible via network IPs`);
 });
 
-
+attachRealtime(server);
@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+
+// Identity keys are base64 SPKI, either RSA-PSS (legacy) or Ed25519. The algorithm is
+// read from the key itself when it is registered and stored next to it.
+
+export const IDENTITY_KEY_ALGORITHMS = ['RSA-PSS', 'Ed25519'];
+
+const importPublicKey = (publicKeyBase64) =>
+  crypto.createPublicKey({ key: Buffer.from(publicKeyBase64, 'base64'), format: 'der', type: 'spki' });
+
+// 'RSA-PSS', 'Ed25519', or null if the key is malformed or of another type
+export const identityKeyAlgorithm = (publicKeyBase64) => {
+  try {
+    switch (importPublicKey(publicKeyBase64).asymmetricKeyType) {
+      case 'rsa':
+        return 'RSA-PSS';
+      case 'ed25519':
+        return 'Ed25519';
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+};
+
+// Verify a signature as produced by WebCrypto on the client (RSA-PSS uses SHA-256 and a 32-byte salt)
+export const verifyIdentitySignature = (publicKeyBase64, data, signatureBase64) => {
+  try {
+    const key = importPublicKey(publicKeyBase64);
+    const signature = Buffer.from(signatureBase64, 'base64');
+    if (key.asymmetricKeyType === 'ed25519') {
+      return crypto.verify(null, Buffer.from(data), key, signature);
+    }
+    return crypto.verify(
+      'sha256',
+      Buffer.from(data),
+      { key, padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 },
+      signature
+    );
+  } catch (error) {
+    console.error('[KEYS] Signature verification error:', error.message);
+    return false;
+  }
+};
@@ -0,0 +1,57 @@
+import crypto from 'crypto';
+
+// RFC 9162 (Certificate Transparency v2) Merkle tree over base64-encoded SHA-256 hashes.
+// Leaves and interior nodes use distinct prefixes so a leaf can never pass as a node.
+
+const sha256 = (...parts) => {
+  const hash = crypto.createHash('sha256');
+  for (const part of parts) hash.update(part);
+  return hash.digest();
+};
+
+export const hashLeaf = (data) => sha256(Buffer.from([0x00]), Buffer.from(data, 'utf8')).toString('base64');
+
+const hashNode = (left, right) =>
+  sha256(Buffer.from([0x01]), Buffer.from(left, 'base64'), Buffer.from(right, 'base64')).toString('base64');
+
+// Largest power of two strictly smaller than n
+const splitPoint = (n) => {
+  let k = 1;
+  while (k * 2 < n) k *= 2;
+  return k;
+};
+
+export const computeRoot = (leafHashes) => {
+  const n = leafHashes.length;
+  if (n === 0) return sha256().toString('base64');
+  if (n === 1) return leafHashes[0];
+  const k = splitPoint(n);
+  return hashNode(computeRoot(leafHashes.slice(0, k)), computeRoot(leafHashes.slice(k)));
+};
+
+// Audit path for the leaf at `index` in the tree made of `leafHashes`
+export const inclusionProof = (index, leafHashes) => {
+  const n = leafHashes.length;
+  if (n <= 1) return [];
+  const k = splitPoint(n);
+  if (index < k) {
+    return [...inclusionProof(index, leafHashes.slice(0, k)), computeRoot(leafHashes.slice(k))];
+  }
+  return [...inclusionProof(index - k, leafHashes.slice(k)), computeRoot(leafHashes.slice(0, k))];
+};
+
+const subproof = (m, leafHashes, complete) => {
+  const n = leafHashes.length;
+  if (m === n) return complete ? [] : [computeRoot(leafHashes)];
+  const k = splitPoint(n);
+  if (m <= k) {
+    return [...subproof(m, leafHashes.slice(0, k), complete), computeRoot(leafHashes.slice(k))];
+  }
+  return [...subproof(m - k, leafHashes.slice(k), false), computeRoot(leafHashes.slice(0, k))];
+};
+
+// Proof that the tree of the first `oldSize` leaves is a prefix of the tree of all leaves
+export const consistencyProof = (oldSize, leafHashes) => {
+  if (oldSize === 0 || oldSize === leafHashes.length) return [];
+  return subproof(oldSize, leafHashes, true);
+};
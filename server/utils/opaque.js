@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import * as opaque from '@serenity-kit/opaque';
+
+// OPAQUE (an asymmetric PAKE): the client proves it knows the password without sending
+// it, and the server only stores a registration record that cannot be used to check
+// password guesses offline without the server setup below.
+//
+// The server setup holds the server's long-term keys and must stay the same across
+// restarts, or every registered account stops being able to log in.
+
+await opaque.ready;
+
+let serverSetup = null;
+
+// Read on first use, since .env is loaded after this module is imported
+const getServerSetup = () => {
+  if (serverSetup) return serverSetup;
+  if (process.env.OPAQUE_SERVER_SETUP) {
+    serverSetup = process.env.OPAQUE_SERVER_SETUP;
+  } else {
+    console.error('[OPAQUE] OPAQUE_SERVER_SETUP is not set. Using a temporary setup: accounts registered now');
+    console.error('[OPAQUE] cannot log in after a restart. Create one with: npx @serenity-kit/opaque create-server-setup');
+    serverSetup = opaque.server.createSetup();
+  }
+  return serverSetup;
+};
+
+// How long a client has between the two login messages
+const LOGIN_STATE_TTL = 2 * 60 * 1000;
+
+// Server half of logins in progress, used once
+// Key: loginId, Value: { serverLoginState, userId, username, purpose, expiresAt }
+const pendingLogins = new Map();
+
+setInterval(() => {
+  const now = Date.now();
+  for (const [loginId, pending] of pendingLogins.entries()) {
+    if (pending.expiresAt < now) {
+      pendingLogins.delete(loginId);
+    }
+  }
+}, 60000);
+
+// Usernames identify accounts in the protocol, so a record only works for its account
+export const createRegistrationResponse = (username, registrationRequest) =>
+  opaque.server.createRegistrationResponse({ serverSetup: getServerSetup(), userIdentifier: username, registrationRequest })
+    .registrationResponse;
+
+// First login message. Without a record (unknown user) the response is made up, so it
+// looks the same as for a real account and the login fails at the second message.
+export const startLogin = (username, registrationRecord, startLoginRequest, { userId, purpose }) => {
+  const { serverLoginState, loginResponse } = opaque.server.startLogin({
+    serverSetup: getServerSetup(),
+    userIdentifier: username,
+    registrationRecord: registrationRecord ?? null,
+    startLoginRequest
+  });
+  const loginId = crypto.randomUUID();
+  pendingLogins.set(loginId, {
+    serverLoginState,
+    userId: registrationRecord ? userId : null,
+    username,
+    purpose,
+    expiresAt: Date.now() + LOGIN_STATE_TTL
+  });
+  return { loginId, loginResponse };
+};
+
+// Second login message. Returns null for an unknown or expired login, otherwise
+// { verified, userId, username, purpose } where `verified` says whether the client knew
+// the password.
+export const finishLogin = (loginId, finishLoginRequest) => {
+  const pending = pendingLogins.get(loginId);
+  pendingLogins.delete(loginId);
+  if (!pending || pending.expiresAt < Date.now()) return null;
+
+  const { userId, username, purpose } = pending;
+  if (!userId) return { verified: false, userId, username, purpose };
+  try {
+    opaque.server.finishLogin({ serverLoginState: pending.serverLoginState, finishLoginRequest });
+    return { verified: true, userId, username, purpose };
+  } catch {
+    return { verified: false, userId, username, purpose };
+  }
+};
@@ -0,0 +1,243 @@
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { WebSocketServer } from 'ws';
+import Message from '../models/Message.js';
+import Session from '../models/Session.js';
+import { logSecurityEvent } from './logger.js';
+
+// Pushes new ciphertext, key exchange steps and file notices to the users they concern.
+// The server only relays what the HTTP routes already stored, so a client that misses a
+// push (or never connects) can still fetch everything over HTTP.
+//
+// Protocol, all frames JSON:
+//   client -> { type: 'auth', token, lastMessageId? }   first frame, within AUTH_TIMEOUT
+//   server -> { type: 'ready', resumed }                 resumed: messages since lastMessageId were replayed
+//   server -> { type: 'message', message }
+//   server -> { type: 'key-exchange', event, exchangeId, fromUserId }
+//   server -> { type: 'file', file }
+//
+// Browsers cannot set headers on a WebSocket, and a token in the URL ends up in access
+// logs, so the access token is sent in the first frame instead.
+
+export const REALTIME_PATH = '/api/realtime';
+
+// Close codes; the client refreshes its access token on both and reconnects if it can
+export const CLOSE_UNAUTHORIZED = 4001;
+export const CLOSE_SESSION_REVOKED = 4003;
+
+const AUTH_TIMEOUT = 10 * 1000;
+const HEARTBEAT_INTERVAL = 30 * 1000;
+// Longer gaps are not replayed; the client reloads the conversation instead
+const RESUME_LIMIT = 200;
+
+// Authenticated sockets per user
+// Key: userId, Value: Set of sockets ({ sessionId, resuming, queued } are set on each)
+const connections = new Map();
+
+const addConnection = (userId, socket) => {
+  if (!connections.has(userId)) connections.set(userId, new Set());
+  connections.get(userId).add(socket);
+};
+
+const removeConnection = (userId, socket) => {
+  const sockets = connections.get(userId);
+  if (!sockets) return;
+  sockets.delete(socket);
+  if (sockets.size === 0) connections.delete(userId);
+};
+
+const send = (socket, event) => {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(event));
+  }
+};
+
+// Same rules as the authenticate middleware: session access tokens only
+const verifyAccessToken = (token) => {
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    if (decoded.purpose || !decoded.sessionId) return null;
+    return decoded;
+  } catch {
+    return null;
+  }
+};
+
+// Messages of the user newer than lastMessageId, or null if there are too many to replay
+const missedMessages = async (userId, lastMessageId) => {
+  const messages = await Message.find({
+    _id: { $gt: lastMessageId },
+    $or: [{ senderId: userId }, { recipientId: userId }]
+  }).sort({ _id: 1 }).limit(RESUME_LIMIT + 1);
+  return messages.length > RESUME_LIMIT ? null : messages;
+};
+
+const authenticateSocket = async (socket, frame) => {
+  const decoded = verifyAccessToken(frame?.token);
+  if (!decoded) {
+    socket.close(CLOSE_UNAUTHORIZED, 'Invalid token');
+    return;
+  }
+
+  // Access tokens alone outlive their session by up to their lifetime, which is too
+  // long for a connection that can stay open for hours
+  const active = await Session.exists({ _id: decoded.sessionId, revokedAt: null, expiresAt: { $gt: new Date() } });
+  if (!active) {
+    socket.close(CLOSE_SESSION_REVOKED, 'Session revoked');
+    return;
+  }
+  if (socket.readyState !== socket.OPEN) return;
+
+  const userId = decoded.userId.toString();
+  socket.userId = userId;
+  socket.sessionId = decoded.sessionId;
+  socket.resuming = true;
+  socket.queued = [];
+  addConnection(userId, socket);
+
+  // The client refreshes and reconnects when its token runs out
+  socket.expiryTimer = setTimeout(
+    () => socket.close(CLOSE_UNAUTHORIZED, 'Token expired'),
+    decoded.exp * 1000 - Date.now()
+  );
+
+  console.log(`[REALTIME] User ${userId} connected (session ${decoded.sessionId})`);
+
+  // Events published while the replay runs are held back, so they arrive after it
+  let resumed = false;
+  const replayed = new Set();
+  if (mongoose.isValidObjectId(frame.lastMessageId)) {
+    try {
+      const messages = await missedMessages(userId, frame.lastMessageId);
+      if (messages) {
+        for (const message of messages) {
+          replayed.add(message._id.toString());
+          send(socket, { type: 'message', message });
+        }
+        resumed = true;
+      }
+    } catch (error) {
+      console.error('[REALTIME] Failed to replay missed messages:', error);
+    }
+  }
+
+  socket.resuming = false;
+  for (const event of socket.queued) {
+    if (event.type === 'message' && replayed.has(event.message._id.toString())) continue;
+    send(socket, event);
+  }
+  socket.queued = [];
+  send(socket, { type: 'ready', resumed });
+};
+
+const handleConnection = (socket, req) => {
+  socket.isAlive = true;
+  socket.on('pong', () => {
+    socket.isAlive = true;
+  });
+
+  const authTimer = setTimeout(() => {
+    if (!socket.userId) socket.close(CLOSE_UNAUTHORIZED, 'Authentication timed out');
+  }, AUTH_TIMEOUT);
+
+  socket.on('message', async (data) => {
+    // Nothing is accepted from the client after authentication
+    if (socket.userId || socket.authenticating) return;
+    socket.authenticating = true;
+    clearTimeout(authTimer);
+
+    let frame;
+    try {
+      frame = JSON.parse(data.toString());
+    } catch {
+      frame = null;
+    }
+    if (frame?.type !== 'auth') {
+      socket.close(CLOSE_UNAUTHORIZED, 'Expected authentication');
+      return;
+    }
+
+    try {
+      await authenticateSocket(socket, frame);
+    } catch (error) {
+      console.error('[REALTIME] Authentication error:', error);
+      socket.close(1011, 'Authentication failed');
+    }
+  });
+
+  socket.on('close', () => {
+    clearTimeout(authTimer);
+    clearTimeout(socket.expiryTimer);
+    if (socket.userId) {
+      removeConnection(socket.userId, socket);
+      console.log(`[REALTIME] User ${socket.userId} disconnected`);
+    }
+  });
+
+  socket.on('error', (error) => {
+    console.error('[REALTIME] Socket error:', error.message);
+    logSecurityEvent('realtime_socket_error', {
+      userId: socket.userId ?? null,
+      ip: req.socket.remoteAddress || 'unknown',
+      error: error.message
+    });
+  });
+};
+
+// Serve the realtime endpoint on the HTTP server the Express app listens on
+export const attachRealtime = (server) => {
+  const wss = new WebSocketServer({ server, path: REALTIME_PATH, maxPayload: 16 * 1024 });
+  wss.on('connection', handleConnection);
+
+  // Drop connections that stopped answering pings (sleeping laptops, dead networks)
+  setInterval(() => {
+    for (const socket of wss.clients) {
+      if (!socket.isAlive) {
+        socket.terminate();
+        continue;
+      }
+      socket.isAlive = false;
+      socket.ping();
+    }
+  }, HEARTBEAT_INTERVAL);
+
+  console.log(`[REALTIME] WebSocket endpoint at ${REALTIME_PATH}`);
+  return wss;
+};
+
+// Send an event to every connection of a user. Does nothing if the user is offline.
+export const publishToUser = (userId, event) => {
+  const sockets = connections.get(userId.toString());
+  if (!sockets) return;
+  for (const socket of sockets) {
+    if (socket.resuming) {
+      socket.queued.push(event);
+    } else {
+      send(socket, event);
+    }
+  }
+};
+
+// Close the connections of a user whose sessions were revoked since they connected
+export const closeRevokedSessions = async (userId) => {
+  const sockets = connections.get(userId.toString());
+  if (!sockets) return;
+
+  try {
+    const activeIds = new Set(
+      (await Session.find({
+        _id: { $in: [...sockets].map(socket => socket.sessionId) },
+        revokedAt: null
+      }).distinct('_id')).map(id => id.toString())
+    );
+
+    for (const socket of sockets) {
+      if (!activeIds.has(socket.sessionId)) {
+        socket.close(CLOSE_SESSION_REVOKED, 'Session revoked');
+      }
+    }
+  } catch (error) {
+    // They are still closed when their access tokens expire
+    console.error('[REALTIME] Failed to close revoked sessions:', error);
+  }
+};
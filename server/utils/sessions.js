@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import Session from '../models/Session.js';
+
+// Access tokens are checked without a database lookup, so a revoked session keeps
+// working until its current access token expires.
+export const ACCESS_TOKEN_TTL = '15m';
+const SESSION_IDLE_DAYS = 30;
+
+// Refresh tokens are "<sessionId>.<secret>", so a token can be matched to its session
+// even after it was rotated out (which is how reuse is detected)
+const newRefreshSecret = () => crypto.randomBytes(32).toString('base64url');
+
+export const hashRefreshToken = (refreshToken) =>
+  crypto.createHash('sha256').update(refreshToken).digest('hex');
+
+// The session a refresh token belongs to, or null if it is malformed
+export const refreshTokenSessionId = (refreshToken) => {
+  if (typeof refreshToken !== 'string') return null;
+  const [sessionId, secret] = refreshToken.split('.');
+  if (!secret || !/^[a-f0-9]{24}$/.test(sessionId)) return null;
+  return sessionId;
+};
+
+const sessionExpiry = () => new Date(Date.now() + SESSION_IDLE_DAYS * 24 * 60 * 60 * 1000);
+
+export const signAccessToken = (user, sessionId) => jwt.sign(
+  { userId: user._id, username: user.username, sessionId: sessionId.toString() },
+  process.env.JWT_SECRET,
+  { expiresIn: ACCESS_TOKEN_TTL }
+);
+
+// Start a session for a login and return its first token pair
+export const createSession = async (user, req) => {
+  const session = new Session({
+    userId: user._id,
+    refreshTokenHash: 'pending',
+    userAgent: req.get('user-agent')?.slice(0, 300) ?? null,
+    ip: req.ip ?? null,
+    expiresAt: sessionExpiry()
+  });
+  const refreshToken = `${session._id}.${newRefreshSecret()}`;
+  session.refreshTokenHash = hashRefreshToken(refreshToken);
+  await session.save();
+
+  return { token: signAccessToken(user, session._id), refreshToken, sessionId: session._id };
+};
+
+// Swap the presented refresh token for a new one. The update only matches the current
+// hash, so of two requests with the same token only one can win.
+// Returns the new refresh token, or null if the presented one is no longer current.
+export const rotateRefreshToken = async (session, presentedHash) => {
+  const refreshToken = `${session._id}.${newRefreshSecret()}`;
+  const rotated = await Session.findOneAndUpdate(
+    { _id: session._id, refreshTokenHash: presentedHash, revokedAt: null },
+    {
+      $set: {
+        refreshTokenHash: hashRefreshToken(refreshToken),
+        lastUsedAt: new Date(),
+        expiresAt: sessionExpiry()
+      }
+    }
+  );
+  return rotated ? refreshToken : null;
+};
+
+export const revokeSession = (filter, reason) => Session.updateMany(
+  { ...filter, revokedAt: null },
+  { $set: { revokedAt: new Date(), revokedReason: reason } }
+);
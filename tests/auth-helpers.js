@@ -0,0 +1,106 @@
+/**
+ * AUTHENTICATION HELPERS FOR THE TEST SCRIPTS
+ *
+ * Accounts are registered and logged in with OPAQUE, the same way the web client
+ * does it: the password never leaves this process, only the registration record
+ * and the login messages are sent to the server.
+ */
+
+import axios from 'axios';
+import crypto from 'crypto';
+import * as opaque from '@serenity-kit/opaque';
+
+const API_URL = process.env.API_URL || 'http://localhost:5000/api';
+
+await opaque.ready;
+
+/**
+ * Base64 SPKI (DER) of a public key, the form the server stores identity keys in
+ */
+export function spkiBase64(publicKey) {
+  const key = publicKey instanceof crypto.KeyObject ? publicKey : crypto.createPublicKey(publicKey);
+  return key.export({ type: 'spki', format: 'der' }).toString('base64');
+}
+
+/**
+ * Generate an Ed25519 identity key pair
+ */
+export function generateIdentityKeyPair() {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+  return { publicKey: spkiBase64(publicKey), privateKey };
+}
+
+/**
+ * OPAQUE registration record for a password, for a new account or for moving one that
+ * still logs in with a bcrypt password
+ */
+export async function createRegistrationRecord(username, password) {
+  const { clientRegistrationState, registrationRequest } = opaque.client.startRegistration({ password });
+  const { data: { registrationResponse } } = await axios.post(`${API_URL}/auth/opaque/register/start`, {
+    username,
+    registrationRequest,
+  });
+  return opaque.client.finishRegistration({ clientRegistrationState, registrationResponse, password })
+    .registrationRecord;
+}
+
+/**
+ * Register an account with OPAQUE and return the session (token, refreshToken, user)
+ */
+export async function registerUser(username, password, publicKey) {
+  const registrationRecord = await createRegistrationRecord(username, password);
+  const { data } = await axios.post(`${API_URL}/auth/register`, { username, registrationRecord, publicKey });
+  return data;
+}
+
+/**
+ * First OPAQUE login message. Returns the server's answer with the client state
+ * needed to finish the login.
+ */
+export async function startLogin(username, password, purpose = 'login') {
+  const { clientLoginState, startLoginRequest } = opaque.client.startLogin({ password });
+  const { data } = await axios.post(`${API_URL}/auth/opaque/login/start`, { username, startLoginRequest, purpose });
+  return { clientLoginState, ...data };
+}
+
+/**
+ * Second OPAQUE login message, for the answer of startLogin. Returns the server's answer,
+ * or null if the client rejected the first one (wrong password or unknown account).
+ */
+async function finishLogin({ clientLoginState, loginId, loginResponse }, password) {
+  const finish = opaque.client.finishLogin({ clientLoginState, loginResponse, password });
+  if (!finish) return null;
+
+  const { data } = await axios.post(`${API_URL}/auth/opaque/login/finish`, {
+    loginId,
+    finishLoginRequest: finish.finishLoginRequest,
+  });
+  return data;
+}
+
+/**
+ * Both OPAQUE login messages. Returns the server's answer to the second one (a session,
+ * a two-factor challenge or a reauth token), or null if the client rejected the server's
+ * first answer (wrong password or unknown account) or the account has no OPAQUE record yet.
+ */
+export async function loginUser(username, password, purpose = 'login') {
+  const start = await startLogin(username, password, purpose);
+  return start.legacy ? null : finishLogin(start, password);
+}
+
+/**
+ * Log in the way the web client does: with OPAQUE, or with the password only if the login
+ * start says the account has no OPAQUE record yet. Returns the session or two-factor
+ * challenge, or null if the OPAQUE login failed.
+ */
+export async function loginWithPassword(username, password) {
+  const start = await startLogin(username, password);
+  if (!start.legacy) return finishLogin(start, password);
+
+  const { data } = await axios.post(`${API_URL}/auth/login`, {
+    username,
+    password,
+    passwordLoginToken: start.passwordLoginToken,
+  });
+  return data;
+}
@@ -0,0 +1,299 @@
+/**
+ * KEY TRANSPARENCY LOG AUDITOR
+ *
+ * This script independently audits the server's key transparency log:
+ * 1. ENTRIES - Every leaf hash is recomputed from the entry's fields
+ * 2. ROOT - The Merkle root over all leaves must match the served head
+ * 3. APPEND-ONLY - The log must extend the head seen on the previous run,
+ *    checked both by replaying the stored prefix and by the server's
+ *    consistency proof
+ *
+ * The last audited head is kept in .key-log-audit.json, so running the
+ * auditor periodically detects any rewrite of the log's history.
+ */
+
+import axios from 'axios';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const API_URL = process.env.API_URL || 'http://localhost:5000/api';
+const STATE_FILE = path.join(path.dirname(fileURLToPath(import.meta.url)), '.key-log-audit.json');
+const PAGE_SIZE = 1000;
+
+let auditorToken = process.env.AUDITOR_TOKEN || null;
+
+/**
+ * RFC 9162 hashing: leaves are prefixed with 0x00, interior nodes with 0x01
+ */
+function hashLeaf(data) {
+  return crypto.createHash('sha256').update(Buffer.from([0x00])).update(data).digest('base64');
+}
+
+function hashNode(left, right) {
+  return crypto.createHash('sha256')
+    .update(Buffer.from([0x01]))
+    .update(Buffer.from(left, 'base64'))
+    .update(Buffer.from(right, 'base64'))
+    .digest('base64');
+}
+
+/**
+ * Merkle tree hash of a list of leaf hashes (RFC 9162 section 2.1.1)
+ */
+function merkleRoot(leaves) {
+  if (leaves.length === 0) return crypto.createHash('sha256').digest('base64');
+  if (leaves.length === 1) return leaves[0];
+  let k = 1;
+  while (k * 2 < leaves.length) k *= 2;
+  return hashNode(merkleRoot(leaves.slice(0, k)), merkleRoot(leaves.slice(k)));
+}
+
+/**
+ * Verify a consistency proof between two tree heads (RFC 9162 section 2.1.4.2)
+ */
+function verifyConsistency(first, second, proof) {
+  if (first.treeSize > second.treeSize) return false;
+  if (first.treeSize === 0) return true;
+  if (first.treeSize === second.treeSize) {
+    return proof.length === 0 && first.rootHash === second.rootHash;
+  }
+  if (proof.length === 0) return false;
+
+  const pathHashes = (first.treeSize & (first.treeSize - 1)) === 0 ? [first.rootHash, ...proof] : proof;
+
+  let fn = first.treeSize - 1;
+  let sn = second.treeSize - 1;
+  while (fn % 2 === 1) {
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  let fr = pathHashes[0];
+  let sr = pathHashes[0];
+  for (const c of pathHashes.slice(1)) {
+    if (sn === 0) return false;
+    if (fn % 2 === 1 || fn === sn) {
+      fr = hashNode(c, fr);
+      sr = hashNode(c, sr);
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      sr = hashNode(sr, c);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+  return sn === 0 && fr === first.rootHash && sr === second.rootHash;
+}
+
+/**
+ * Setup: Use the token of an existing account
+ * Registering an auditor would append a key to the log being audited on every run
+ */
+async function setupAuditor() {
+  console.log('\n=== SETUP: Authenticating Auditor ===\n');
+
+  if (!auditorToken) {
+    console.error('✗ AUDITOR_TOKEN is not set. Log in with an existing account and pass its token:');
+    console.error('  AUDITOR_TOKEN=<jwt> node key-transparency-audit.js');
+    return false;
+  }
+
+  try {
+    await axios.get(`${API_URL}/users/key-log/head`, { headers: { Authorization: `Bearer ${auditorToken}` } });
+    console.log('✓ Using AUDITOR_TOKEN from the environment');
+    return true;
+  } catch (error) {
+    console.error('Setup failed:', error.response?.data || error.message);
+    return false;
+  }
+}
+
+/**
+ * Fetch the current head and every entry up to it
+ */
+async function fetchLog() {
+  const headers = { Authorization: `Bearer ${auditorToken}` };
+  const { data: head } = await axios.get(`${API_URL}/users/key-log/head`, { headers });
+
+  const entries = [];
+  for (let start = 0; start < head.treeSize; start += PAGE_SIZE) {
+    const end = Math.min(start + PAGE_SIZE, head.treeSize);
+    const { data } = await axios.get(`${API_URL}/users/key-log/entries`, { headers, params: { start, end } });
+    entries.push(...data.entries);
+  }
+  return { head, entries };
+}
+
+/**
+ * Check 1: Every entry is at its index and its leaf hash matches its content
+ */
+function auditEntries(entries, treeSize) {
+  console.log('\n=== CHECK 1: Log Entries ===');
+  console.log(`Expected: ${treeSize} entries with valid leaf hashes ✓\n`);
+
+  if (entries.length !== treeSize) {
+    console.error(`✗ Server returned ${entries.length} entries for a tree of size ${treeSize}`);
+    return false;
+  }
+
+  let valid = true;
+  entries.forEach((entry, i) => {
+    if (entry.index !== i) {
+      console.error(`✗ Entry at position ${i} claims index ${entry.index}`);
+      valid = false;
+    }
+    if (!['register', 'rotate'].includes(entry.action)) {
+      console.error(`✗ Entry ${i} has unknown action "${entry.action}"`);
+      valid = false;
+    }
+    const data = JSON.stringify({
+      index: entry.index,
+      userId: entry.userId,
+      publicKey: entry.publicKey,
+      action: entry.action,
+      timestamp: entry.timestamp,
+    });
+    if (hashLeaf(data) !== entry.leafHash) {
+      console.error(`✗ Entry ${i} leaf hash does not match its content`);
+      valid = false;
+    }
+    if (i > 0 && entry.timestamp < entries[i - 1].timestamp) {
+      console.warn(`⚠ Entry ${i} is timestamped before entry ${i - 1}`);
+    }
+  });
+
+  if (valid) console.log(`✓ All ${entries.length} entries are well-formed`);
+  return valid;
+}
+
+/**
+ * Check 2: The root recomputed from the entries matches the served head
+ */
+function auditRoot(entries, head) {
+  console.log('\n=== CHECK 2: Tree Head ===');
+  console.log('Expected: Recomputed root matches the served root ✓\n');
+
+  const rootHash = merkleRoot(entries.map(entry => entry.leafHash));
+  console.log(`  - Tree size:     ${head.treeSize}`);
+  console.log(`  - Served root:   ${head.rootHash}`);
+  console.log(`  - Computed root: ${rootHash}`);
+
+  if (rootHash !== head.rootHash) {
+    console.error('✗ ROOT MISMATCH: The served head does not commit to the served entries');
+    return false;
+  }
+  console.log('✓ Root matches');
+  return true;
+}
+
+/**
+ * Check 3: The log extends the head recorded on the previous run
+ */
+async function auditAppendOnly(entries, head) {
+  console.log('\n=== CHECK 3: Append-Only History ===');
+  console.log('Expected: Log extends the previously audited head ✓\n');
+
+  if (!fs.existsSync(STATE_FILE)) {
+    console.log('  No previous audit found, recording this head as the baseline');
+    return true;
+  }
+
+  const previous = JSON.parse(fs.readFileSync(STATE_FILE, 'utf8'));
+  console.log(`  - Previous head: size ${previous.treeSize}, root ${previous.rootHash}`);
+
+  if (head.treeSize < previous.treeSize) {
+    console.error(`✗ LOG SHRANK: ${previous.treeSize} → ${head.treeSize} entries`);
+    return false;
+  }
+
+  const prefixRoot = merkleRoot(entries.slice(0, previous.treeSize).map(entry => entry.leafHash));
+  if (prefixRoot !== previous.rootHash) {
+    console.error('✗ HISTORY REWRITTEN: The first entries no longer hash to the previous root');
+    return false;
+  }
+  console.log('✓ Replayed prefix matches the previous root');
+
+  const { data: consistency } = await axios.get(`${API_URL}/users/key-log/consistency`, {
+    headers: { Authorization: `Bearer ${auditorToken}` },
+    params: { from: previous.treeSize, to: head.treeSize },
+  });
+  if (consistency.rootHash !== head.rootHash || !verifyConsistency(previous, head, consistency.proof)) {
+    console.error('✗ INVALID CONSISTENCY PROOF: The server cannot prove the log is append-only');
+    return false;
+  }
+  console.log(`✓ Consistency proof verified (${consistency.proof.length} hashes)`);
+  return true;
+}
+
+/**
+ * Report how many keys each user has had, to spot unexpected rotations
+ */
+function reportKeyHistories(entries) {
+  const histories = new Map();
+  for (const entry of entries) {
+    const history = histories.get(entry.userId) || [];
+    history.push(entry);
+    histories.set(entry.userId, history);
+  }
+
+  const rotated = [...histories].filter(([, history]) => history.length > 1);
+  console.log(`\n${histories.size} users in the log, ${rotated.length} with rotated keys`);
+  for (const [userId, history] of rotated) {
+    console.log(`  - ${userId}: ${history.map(e => `${e.action}@${new Date(e.timestamp).toISOString()}`).join(', ')}`);
+  }
+}
+
+/**
+ * Main audit runner
+ */
+async function runAudit() {
+  console.log('╔════════════════════════════════════════════════════════════════╗');
+  console.log('║             KEY TRANSPARENCY LOG - INDEPENDENT AUDIT           ║');
+  console.log('╚════════════════════════════════════════════════════════════════╝');
+
+  const setupSuccess = await setupAuditor();
+  if (!setupSuccess) {
+    console.error('\n✗ Setup failed. Is the server running and is AUDITOR_TOKEN valid?');
+    process.exit(1);
+  }
+
+  const { head, entries } = await fetchLog();
+
+  const results = {
+    entries: auditEntries(entries, head.treeSize),
+    root: auditRoot(entries, head),
+  };
+  results.appendOnly = results.entries && await auditAppendOnly(entries, head);
+
+  reportKeyHistories(entries);
+
+  // Summary
+  console.log('\n╔════════════════════════════════════════════════════════════════╗');
+  console.log('║                        AUDIT SUMMARY                           ║');
+  console.log('╚════════════════════════════════════════════════════════════════╝\n');
+
+  console.log(`Log Entries:          ${results.entries ? '✓ PASS' : '✗ FAIL'}`);
+  console.log(`Tree Head:            ${results.root ? '✓ PASS' : '✗ FAIL'}`);
+  console.log(`Append-Only History:  ${results.appendOnly ? '✓ PASS' : '✗ FAIL'}`);
+
+  if (Object.values(results).every(r => r)) {
+    fs.writeFileSync(STATE_FILE, JSON.stringify({ ...head, auditedAt: new Date().toISOString() }, null, 2));
+    console.log(`\n✓ KEY LOG AUDIT PASSED at tree size ${head.treeSize}`);
+    console.log(`Audited head saved to ${path.basename(STATE_FILE)}.\n`);
+  } else {
+    console.log('\n✗ KEY LOG AUDIT FAILED - THE LOG IS NOT TRUSTWORTHY!');
+    console.log('The previously audited head was kept for the next run.\n');
+    process.exit(1);
+  }
+}
+
+// Run audit
+runAudit().catch(error => {
+  console.error('\n✗ Audit execution failed:', error.response?.data || error.message);
+  process.exit(1);
+});
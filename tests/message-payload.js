@@ -0,0 +1,171 @@
+/**
+ * MESSAGE PAYLOAD DECODING TESTS
+ *
+ * This script checks how the web client reads decrypted message plaintexts. It needs no
+ * server: the client's payload module is built with the client's own esbuild.
+ * 1. STRUCTURED PAYLOADS - Current payloads round-trip and are held to the schema
+ * 2. PLAIN TEXT - Messages from before the format are shown as text
+ * 3. TEXT THAT LOOKS LIKE JSON - Objects without the current version and a payload type
+ *    are shown as the text that was typed
+ */
+
+import { createRequire } from 'module';
+
+// Run with the client's dependencies, installed by `npm install` in client/
+const clientRequire = createRequire(new URL('../client/package.json', import.meta.url));
+
+let payloads = null;
+
+/**
+ * Build the client's payload module and import it
+ */
+async function setup() {
+  console.log('\n=== SETUP: Building the Payload Module ===\n');
+
+  try {
+    const { buildSync } = clientRequire('esbuild');
+    const { outputFiles } = buildSync({
+      entryPoints: [new URL('../client/src/crypto/messagePayload.ts', import.meta.url).pathname],
+      bundle: true,
+      format: 'esm',
+      write: false,
+    });
+    const source = Buffer.from(outputFiles[0].contents).toString('base64');
+    payloads = await import(`data:text/javascript;base64,${source}`);
+    console.log('✓ Payload module built');
+    return true;
+  } catch (error) {
+    console.error('Setup failed:', error.message);
+    return false;
+  }
+}
+
+/**
+ * Expect a plaintext to decode as version 0 text with the plaintext as its body
+ */
+function expectText(plaintext) {
+  const payload = payloads.decodeMessagePayload(plaintext);
+  if (payload.v !== 0 || payload.type !== 'text' || payload.body !== plaintext) {
+    console.error(`✗ ${plaintext} decoded as:`, payload);
+    return false;
+  }
+  console.log(`✓ ${plaintext} is shown as text`);
+  return true;
+}
+
+/**
+ * Test 1: Current payloads round-trip, and malformed ones are rejected
+ */
+function testStructuredPayloads() {
+  console.log('\n=== TEST 1: Structured Payloads ===');
+  console.log('Expected: Decoded as sent, malformed payloads REJECTED ✗\n');
+
+  try {
+    const sent = payloads.textPayload('Hello');
+    const received = payloads.decodeMessagePayload(payloads.encodeMessagePayload(sent));
+    if (received.v !== payloads.MESSAGE_PAYLOAD_VERSION || received.type !== 'text' || received.body !== 'Hello') {
+      console.error('✗ Text payload did not round-trip:', received);
+      return false;
+    }
+    console.log('✓ Text payload round-trips');
+
+    const malformed = JSON.stringify({ v: payloads.MESSAGE_PAYLOAD_VERSION, type: 'reaction', body: '👍', sentAt: Date.now() });
+    try {
+      payloads.decodeMessagePayload(malformed);
+      console.error('✗ Reaction without a target was accepted');
+      return false;
+    } catch (error) {
+      if (!(error instanceof payloads.MessagePayloadError)) throw error;
+      console.log(`✓ Reaction without a target rejected: ${error.message}`);
+    }
+    return true;
+  } catch (error) {
+    console.error('✗ Unexpected failure:', error.message);
+    return false;
+  }
+}
+
+/**
+ * Test 2: Plaintexts from before the format are text
+ */
+function testPlainText() {
+  console.log('\n=== TEST 2: Plain Text ===');
+  console.log('Expected: Shown as text ✓\n');
+
+  try {
+    return ['Hello', '42', '["a", "b"]', 'null'].map(expectText).every(Boolean);
+  } catch (error) {
+    console.error('✗ Unexpected failure:', error.message);
+    return false;
+  }
+}
+
+/**
+ * Test 3: JSON that is not a current payload is what the sender typed
+ */
+function testJsonText() {
+  console.log('\n=== TEST 3: Text That Looks Like JSON ===');
+  console.log('Expected: Shown as text, not rejected ✓\n');
+
+  try {
+    return [
+      '{"v":2}',
+      '{"v":2,"type":"text","body":"later format","sentAt":0}',
+      `{"v":${payloads.MESSAGE_PAYLOAD_VERSION}}`,
+      '{"type":"text","body":"no version"}',
+    ].map(expectText).every(Boolean);
+  } catch (error) {
+    console.error('✗ Unexpected failure:', error.message);
+    return false;
+  }
+}
+
+/**
+ * Main test runner
+ */
+async function runAllTests() {
+  console.log('╔════════════════════════════════════════════════════════════════╗');
+  console.log('║            MESSAGE PAYLOAD DECODING - TEST SUITE              ║');
+  console.log('╚════════════════════════════════════════════════════════════════╝');
+
+  const setupSuccess = await setup();
+  if (!setupSuccess) {
+    console.error('\n✗ Setup failed. Ensure the client dependencies are installed');
+    process.exit(1);
+  }
+
+  const results = {
+    structured: testStructuredPayloads(),
+    plainText: testPlainText(),
+    jsonText: testJsonText(),
+  };
+
+  // Summary
+  console.log('\n╔════════════════════════════════════════════════════════════════╗');
+  console.log('║                        TEST SUMMARY                            ║');
+  console.log('╚════════════════════════════════════════════════════════════════╝\n');
+
+  const label = (result) => (result ? '✓ PASS' : '✗ FAIL');
+  console.log(`Structured Payloads:          ${label(results.structured)}`);
+  console.log(`Plain Text:                   ${label(results.plainText)}`);
+  console.log(`Text That Looks Like JSON:    ${label(results.jsonText)}`);
+
+  const totalTests = Object.keys(results).length;
+  const passedTests = Object.values(results).filter(r => r).length;
+
+  console.log('\n' + '═'.repeat(64));
+  console.log(`Total: ${passedTests}/${totalTests} tests passed`);
+
+  if (passedTests === totalTests) {
+    console.log('\n✓ ALL PAYLOAD TESTS PASSED!\n');
+  } else {
+    console.log('\n✗ SOME TESTS FAILED - REVIEW THE PAYLOAD DECODING!\n');
+    process.exit(1);
+  }
+}
+
+// Run tests
+runAllTests().catch(error => {
+  console.error('\n✗ Test execution failed:', error.message);
+  process.exit(1);
+});
@@ -11,6 +11,7 @@
 
 import axios from 'axios';
 import crypto from 'crypto';
+import { registerUser, spkiBase64 } from './auth-helpers.js';
 
 const API_URL = process.env.API_URL || 'http://localhost:5000/api';
 
@@ -99,23 +100,15 @@ async function setupTestUsers() {
     };
     
     // Register Alice
-    const aliceRes = await axios.post(`${API_URL}/auth/register`, {
-      username: `alice_${Date.now()}`,
-      password: 'Alice123!@#',
-      publicKey: aliceKeys.rsa.publicKey,
-    });
-    aliceToken = aliceRes.data.token;
-    aliceId = aliceRes.data.user.id;
+    const aliceRes = await registerUser(`alice_${Date.now()}`, 'Alice123!@#', spkiBase64(aliceKeys.rsa.publicKey));
+    aliceToken = aliceRes.token;
+    aliceId = aliceRes.user.id;
     console.log('✓ Alice registered:', aliceId);
 
     // Register Bob
-    const bobRes = await axios.post(`${API_URL}/auth/register`, {
-      username: `bob_${Date.now()}`,
-      password: 'Bob123!@#',
-      publicKey: bobKeys.rsa.publicKey,
-    });
-    bobToken = bobRes.data.token;
-    bobId = bobRes.data.user.id;
+    const bobRes = await registerUser(`bob_${Date.now()}`, 'Bob123!@#', spkiBase64(bobKeys.rsa.publicKey));
+    bobToken = bobRes.token;
+    bobId = bobRes.user.id;
     console.log('✓ Bob registered:', bobId);
     
     return true;
@@ -13,6 +13,7 @@
 
 import axios from 'axios';
 import crypto from 'crypto';
+import { generateIdentityKeyPair, registerUser } from './auth-helpers.js';
 
 const API_URL = process.env.API_URL || 'http://localhost:5000/api';
 
@@ -29,15 +30,6 @@ function generateNonce() {
   return crypto.randomBytes(16).toString('base64');
 }
 
-/**
- * Generate a dummy public key for testing (base64 encoded)
- * In production, this would be a real RSA/ECDH public key
- */
-function generatePublicKey() {
-  // Generate 256 bytes to simulate a public key
-  return crypto.randomBytes(256).toString('base64');
-}
-
 /**
  * Create a test message with replay protection parameters
  */
@@ -61,23 +53,16 @@ async function setupTestUsers() {
   
   try {
     // Register attacker
-    const attackerRes = await axios.post(`${API_URL}/auth/register`, {
-      username: `attacker_${Date.now()}`,
-      password: 'Attacker123!@#',
-      publicKey: generatePublicKey(),
-    });
-    attackerToken = attackerRes.data.token;
-    attackerId = attackerRes.data.user.id;
+    // The server only accepts real identity keys
+    const attackerRes = await registerUser(`attacker_${Date.now()}`, 'Attacker123!@#', generateIdentityKeyPair().publicKey);
+    attackerToken = attackerRes.token;
+    attackerId = attackerRes.user.id;
     console.log('✓ Attacker registered:', attackerId);
 
     // Register victim
-    const victimRes = await axios.post(`${API_URL}/auth/register`, {
-      username: `victim_${Date.now()}`,
-      password: 'Victim123!@#',
-      publicKey: generatePublicKey(),
-    });
-    victimToken = victimRes.data.token;
-    victimId = victimRes.data.user.id;
+    const victimRes = await registerUser(`victim_${Date.now()}`, 'Victim123!@#', generateIdentityKeyPair().publicKey);
+    victimToken = victimRes.token;
+    victimId = victimRes.user.id;
     console.log('✓ Victim registered:', victimId);
     
     return true;